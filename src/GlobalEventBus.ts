@@ -21,7 +21,7 @@ import { ExtensionConfigurations } from "./constants/PowerQuerySdkConfiguration"
 import { ExtensionConstants } from "./constants/PowerQuerySdkExtension";
 import { handleLocaleChanged } from "./i18n/extension";
 import { SimplePqTestResultViewBroker } from "./panels/PqTestResultViewPanel";
-import { getFirstWorkspaceFolder } from "./utils/vscodes";
+import { getCurrentWorkspaceFolder } from "./utils/vscodes";
 
 // eslint-disable-next-line @typescript-eslint/typedef
 export const GlobalEvents = Object.freeze({
@@ -31,6 +31,7 @@ export const GlobalEvents = Object.freeze({
     VSCodeEvents: Object.freeze({
         onProxySettingsChanged: "onProxySettingsChanged" as const,
         onDidChangeWorkspaceFolders: "onDidChangeWorkspaceFolders" as const,
+        onDidChangeCurrentWorkspaceFolder: "onDidChangeCurrentWorkspaceFolder" as const,
         ConfigDidChangePowerQueryTestLocation: "ConfigDidChangePowerQueryTestLocation" as const,
         ConfigDidChangePQTestExtension: "ConfigDidChangePQTestExtension" as const,
         ConfigDidChangePQTestQuery: "ConfigDidChangePQTestQuery" as const,
@@ -41,23 +42,35 @@ export const GlobalEvents = Object.freeze({
 type GlobalEventTypes = ExtractEventTypes<typeof GlobalEvents>;
 
 export class GlobalEventBus extends DisposableEventEmitter<GlobalEventTypes> implements IDisposable {
-    private firstWorkspaceRootFilesWatcher: FSWatcher | undefined = undefined;
-    private closeFirstWorkspaceRootFilesWatcherIfNeeded(): void {
-        if (this.firstWorkspaceRootFilesWatcher) {
-            this.firstWorkspaceRootFilesWatcher.close();
+    private currentWorkspaceFolderUri: string | undefined = undefined;
+    // emits the workspace folder of the connector project the active editor switched to
+    private emitIfCurrentWorkspaceFolderChanged(): void {
+        const currentWorkspaceFolder: vscode.WorkspaceFolder | undefined = getCurrentWorkspaceFolder();
+
+        if (currentWorkspaceFolder?.uri.toString() !== this.currentWorkspaceFolderUri) {
+            this.currentWorkspaceFolderUri = currentWorkspaceFolder?.uri.toString();
+            this.emit(GlobalEvents.VSCodeEvents.onDidChangeCurrentWorkspaceFolder, currentWorkspaceFolder);
         }
     }
-    private reWatchFirstWorkspaceRootFilesWatcherIfCould(): void {
-        const firstWorkspace: vscode.WorkspaceFolder | undefined = getFirstWorkspaceFolder();
 
-        if (firstWorkspace) {
-            this.closeFirstWorkspaceRootFilesWatcherIfNeeded();
+    // by workspace folder uri, each connector project got its own root files watched
+    private readonly workspaceRootFilesWatchers: Map<string, FSWatcher> = new Map();
+    private closeWorkspaceRootFilesWatchersIfNeeded(): void {
+        for (const oneWatcher of this.workspaceRootFilesWatchers.values()) {
+            oneWatcher.close();
+        }
+
+        this.workspaceRootFilesWatchers.clear();
+    }
+    private reWatchWorkspaceRootFilesWatchersIfCould(): void {
+        this.closeWorkspaceRootFilesWatchersIfNeeded();
 
-            this.firstWorkspaceRootFilesWatcher = fs.watch(
-                firstWorkspace.uri.fsPath,
-                (_event: WatchEventType, _filename: string | null) => {
-                    this.emit(GlobalEvents.workspaces.filesChangedAtWorkspace);
-                },
+        for (const oneWorkspace of vscode.workspace.workspaceFolders ?? []) {
+            this.workspaceRootFilesWatchers.set(
+                oneWorkspace.uri.toString(),
+                fs.watch(oneWorkspace.uri.fsPath, (_event: WatchEventType, _filename: string | null) => {
+                    this.emit(GlobalEvents.workspaces.filesChangedAtWorkspace, oneWorkspace);
+                }),
             );
         }
     }
@@ -72,16 +85,24 @@ export class GlobalEventBus extends DisposableEventEmitter<GlobalEventTypes> imp
         },
     ) {
         super(options);
-        this.reWatchFirstWorkspaceRootFilesWatcherIfCould();
+        this.reWatchWorkspaceRootFilesWatchersIfCould();
+        this.currentWorkspaceFolderUri = getCurrentWorkspaceFolder()?.uri.toString();
 
         vscode.workspace.onDidChangeWorkspaceFolders((_e: WorkspaceFoldersChangeEvent) => {
             this.emit(GlobalEvents.VSCodeEvents.onDidChangeWorkspaceFolders);
-            this.reWatchFirstWorkspaceRootFilesWatcherIfCould();
+            this.reWatchWorkspaceRootFilesWatchersIfCould();
+            this.emitIfCurrentWorkspaceFolderChanged();
         });
 
+        this.vscExtCtx.subscriptions.push(
+            vscode.window.onDidChangeActiveTextEditor((_editor: vscode.TextEditor | undefined) => {
+                this.emitIfCurrentWorkspaceFolderChanged();
+            }),
+        );
+
         this.internalDisposables.push(
             new Disposable(() => {
-                this.closeFirstWorkspaceRootFilesWatcherIfNeeded();
+                this.closeWorkspaceRootFilesWatchersIfNeeded();
             }),
         );
 
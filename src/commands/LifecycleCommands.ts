@@ -5,7 +5,9 @@
  * LICENSE file in the root of this projects source tree.
  */
 
+import { ChildProcess } from "child_process";
 import * as fs from "fs";
+import * as os from "os";
 import * as path from "path";
 import * as vscode from "vscode";
 import {
@@ -19,23 +21,64 @@ import {
 } from "vscode";
 
 import { IDisposable } from "../common/Disposable";
+import { HttpRecordingProxy, RecordedHttpExchange } from "../common/HttpRecordingProxy";
+import { LocalCertificateAuthority } from "../common/LocalCertificateAuthority";
 import { InputStep, MultiStepInput } from "../common/MultiStepInput";
 import { PqSdkNugetPackageService } from "../common/PqSdkNugetPackageService";
 import {
     AuthenticationKind,
+    buildPqTestArgs,
     CreateAuthState,
     ExtensionInfo,
     GenericResult,
     IPQTestService,
 } from "../common/PQTestService";
 import { SchemaManagementService } from "../common/SchemaManagementService";
+import { ProcessExit, SpawnedProcess } from "../common/SpawnedProcess";
 import { ExtensionConfigurations } from "../constants/PowerQuerySdkConfiguration";
 import { ExtensionConstants } from "../constants/PowerQuerySdkExtension";
+import {
+    buildExpressionQuery,
+    buildLetStepQuery,
+    findLetExpressions,
+    findLetStepAt,
+    LetExpression,
+    LetStepPosition,
+} from "../debugAdaptor/letSteps";
 import { PqSdkOutputChannel } from "../features/PqSdkOutputChannel";
 import { GlobalEventBus, GlobalEvents } from "../GlobalEventBus";
 import { extensionI18n, resolveI18nTemplate } from "../i18n/extension";
-import { PqTestResultViewPanel, SimplePqTestResultViewBroker } from "../panels/PqTestResultViewPanel";
+import { PqTestResultViewPanel } from "../panels/PqTestResultViewPanel";
 import { PqServiceHostClient } from "../pqTestConnector/PqServiceHostClient";
+import {
+    collectHttpsHosts,
+    createHttpMockFileName,
+    createHttpMockTestSettings,
+    getQueryFileBaseName,
+} from "../testing/pqtest-adapter/core/httpMock";
+import {
+    GeneratedTestCredentials,
+    generateTestCredentials,
+    mergeTestCredentials,
+    SecretReference,
+    SecretStore,
+} from "../testing/pqtest-adapter/core/testCredentials";
+import { getTestSettingsFileUris } from "../testing/pqtest-adapter/utils/testSettingsUtils";
+import {
+    addAuthenticationKind,
+    AddAuthenticationKindResult,
+    addResourceStrings,
+    ConnectorAuthenticationKinds,
+    ConnectorDataSourceKind,
+    findDataSourceKinds,
+    withAuthenticationKind,
+} from "../utils/connectorAuthentication";
+import {
+    ConnectorProject,
+    getExpectedMezFile,
+    getPrimaryMezFile,
+    getPrimaryQueryFile,
+} from "../utils/connectorProjects";
 import {
     connectorQueryFileExcludeGlob,
     connectorQueryFileGlob,
@@ -43,11 +86,21 @@ import {
 } from "../utils/connectorQueryFiles";
 import { debounce } from "../utils/debounce";
 import { getMtimeOfAFile } from "../utils/files";
-import { prettifyJson, resolveTemplateSubstitutedValues } from "../utils/strings";
+import { resolvePqTestExecutablePath } from "../utils/pqTestPath";
+import {
+    DefaultProjectTemplateId,
+    findProjectTemplates,
+    generateProjectFromTemplate,
+    ProjectTemplate,
+    ProjectTemplateGalleryFolderName,
+} from "../utils/projectTemplates";
+import { prettifyJson } from "../utils/strings";
 import {
-    getAnyPqFileBeneathTheFirstWorkspace,
+    findCurrentConnectorProject,
+    getAnyPqFileBeneathTheCurrentWorkspace,
+    getCurrentWorkspaceFolder,
+    getCurrentWorkspaceGlobPattern,
     getCurrentWorkspaceSettingPath,
-    getFirstWorkspaceFolder,
     resolveSubstitutedValues,
     substitutedWorkspaceFolderBasenameIfNeeded,
     updateCurrentLocalPqModeIfNeeded,
@@ -62,19 +115,22 @@ import { TestConnectionHandler, TestConnectionResult } from "./handlers/TestConn
 const CommandPrefix: string = `powerquery.sdk.tools`;
 
 const validateProjectNameRegExp: RegExp = /[A-Za-z]+/;
-const templateFileBaseName: string = "PQConn";
 
 export class LifecycleCommands implements IDisposable {
     static SeizePqTestCommand: string = `${CommandPrefix}.SeizePqTestCommand`;
     static BuildProjectCommand: string = `${CommandPrefix}.BuildProjectCommand`;
     static SetupCurrentWorkspaceCommand: string = `${CommandPrefix}.SetupCurrentWorkspaceCommand`;
     static CreateNewProjectCommand: string = `${CommandPrefix}.CreateNewProjectCommand`;
+    static AddAuthenticationKindCommand: string = `${CommandPrefix}.AddAuthenticationKindCommand`;
+    static GenerateTestCredentialsCommand: string = `${CommandPrefix}.GenerateTestCredentialsCommand`;
     static DeleteCredentialCommand: string = `${CommandPrefix}.DeleteCredentialCommand`;
     static DisplayExtensionInfoCommand: string = `${CommandPrefix}.DisplayExtensionInfoCommand`;
     static ListCredentialCommand: string = `${CommandPrefix}.ListCredentialCommand`;
     static GenerateAndSetCredentialCommand: string = `${CommandPrefix}.GenerateAndSetCredentialCommand`;
     static RefreshCredentialCommand: string = `${CommandPrefix}.RefreshCredentialCommand`;
     static RunTestBatteryCommand: string = `${CommandPrefix}.RunTestBatteryCommand`;
+    static EvaluateExpressionCommand: string = `${CommandPrefix}.EvaluateExpressionCommand`;
+    static RecordHttpMocksCommand: string = `${CommandPrefix}.RecordHttpMocksCommand`;
     static TestConnectionCommand: string = `${CommandPrefix}.TestConnectionCommand`;
 
     private isSuggestingSetupCurrentWorkspace: boolean = false;
@@ -147,6 +203,14 @@ export class LifecycleCommands implements IDisposable {
                 LifecycleCommands.CreateNewProjectCommand,
                 this.generateOneNewProject.bind(this),
             ),
+            vscode.commands.registerCommand(
+                LifecycleCommands.AddAuthenticationKindCommand,
+                this.addAuthenticationKindCommand.bind(this),
+            ),
+            vscode.commands.registerCommand(
+                LifecycleCommands.GenerateTestCredentialsCommand,
+                this.generateTestCredentialsCommand.bind(this),
+            ),
             vscode.commands.registerCommand(
                 LifecycleCommands.DeleteCredentialCommand,
                 this.commandGuard(this.deleteCredentialCommand).bind(this),
@@ -171,6 +235,14 @@ export class LifecycleCommands implements IDisposable {
                 LifecycleCommands.RunTestBatteryCommand,
                 this.commandGuard(this.runTestBatteryCommand).bind(this),
             ),
+            vscode.commands.registerCommand(
+                LifecycleCommands.EvaluateExpressionCommand,
+                this.commandGuard(this.evaluateExpressionCommand).bind(this),
+            ),
+            vscode.commands.registerCommand(
+                LifecycleCommands.RecordHttpMocksCommand,
+                this.commandGuard(this.recordHttpMocksCommand).bind(this),
+            ),
             vscode.commands.registerCommand(
                 LifecycleCommands.TestConnectionCommand,
                 this.commandGuard(this.testConnectionCommand).bind(this),
@@ -190,8 +262,8 @@ export class LifecycleCommands implements IDisposable {
 
     private intervalTaskHandler: NodeJS.Timeout | undefined;
     private activateIntervalTasks(): void {
-        // update lastMtimeOfMezFileWhoseInfoSeized once its info:static-type-check got re-eval
-        this.pqTestService.currentExtensionInfos.subscribe(() => {
+        // update lastMtimesOfMezFilesWhoseInfoSeized once its info:static-type-check got re-eval
+        this.pqTestService.currentExtensionInfos.subscribe((infos: ExtensionInfo[]) => {
             const currentPQTestExtensionFileLocation: string | undefined =
                 ExtensionConfigurations.DefaultExtensionLocation;
 
@@ -200,16 +272,28 @@ export class LifecycleCommands implements IDisposable {
                 : undefined;
 
             if (resolvedPQTestExtensionFileLocation && fs.existsSync(resolvedPQTestExtensionFileLocation)) {
-                this.lastMtimeOfMezFileWhoseInfoSeized = getMtimeOfAFile(resolvedPQTestExtensionFileLocation);
+                const lastMtimeOfMezFileWhoseInfoSeized: Date = getMtimeOfAFile(resolvedPQTestExtensionFileLocation);
+
+                this.lastMtimesOfMezFilesWhoseInfoSeized.set(
+                    resolvedPQTestExtensionFileLocation,
+                    lastMtimeOfMezFileWhoseInfoSeized,
+                );
+
+                this.seizedExtensionInfosOfMezFiles.set(resolvedPQTestExtensionFileLocation, infos);
 
                 this.outputChannel.appendInfoLine(
                     resolveI18nTemplate("PQSdk.lifecycle.command.update.lastCtimeOfMezFile", {
-                        lastCtimeOfMezFileWhoseInfoSeized: String(this.lastMtimeOfMezFileWhoseInfoSeized.getTime()),
+                        lastCtimeOfMezFileWhoseInfoSeized: String(lastMtimeOfMezFileWhoseInfoSeized.getTime()),
                     }),
                 );
             }
         });
 
+        // each workspace folder is a connector project of its own, bring up the one the active editor switched to
+        this.globalEventBus.on(GlobalEvents.VSCodeEvents.onDidChangeCurrentWorkspaceFolder, () => {
+            this.onCurrentWorkspaceFolderChanged();
+        });
+
         this.intervalTaskHandler = setInterval(this.intervalTask.bind(this), 3995);
     }
 
@@ -225,10 +309,46 @@ export class LifecycleCommands implements IDisposable {
         void this.promptSettingIncorrectOrInvokeInfoTaskIfNeeded();
     }
 
+    private onCurrentWorkspaceFolderChanged(): void {
+        const currentPQTestExtensionFileLocation: string | undefined = ExtensionConfigurations.DefaultExtensionLocation;
+
+        const resolvedPQTestExtensionFileLocation: string | undefined = currentPQTestExtensionFileLocation
+            ? resolveSubstitutedValues(currentPQTestExtensionFileLocation)
+            : undefined;
+
+        const seizedExtensionInfos: ExtensionInfo[] | undefined = resolvedPQTestExtensionFileLocation
+            ? this.seizedExtensionInfosOfMezFiles.get(resolvedPQTestExtensionFileLocation)
+            : undefined;
+
+        this.currentIncorrectConnectorPathInSettingGotPromptedBefore = false;
+
+        if (
+            resolvedPQTestExtensionFileLocation &&
+            seizedExtensionInfos &&
+            fs.existsSync(resolvedPQTestExtensionFileLocation) &&
+            getMtimeOfAFile(resolvedPQTestExtensionFileLocation) <=
+                this.getLastMtimeOfMezFileWhoseInfoSeized(resolvedPQTestExtensionFileLocation)
+        ) {
+            // the mez file did not change since we seized its info, no need to re-eval it
+            this.pqTestService.currentExtensionInfos.emit(seizedExtensionInfos);
+        } else {
+            this.promptSettingIncorrectOrInvokeInfoTaskIfNeeded();
+        }
+
+        void this.promptToSetupCurrentWorkspaceIfNeeded();
+    }
+
+    private getLastMtimeOfMezFileWhoseInfoSeized(mezFilePath: string): Date {
+        return this.lastMtimesOfMezFilesWhoseInfoSeized.get(mezFilePath) ?? new Date(0);
+    }
+
     private currentIncorrectConnectorPathInSettingGotPromptedBefore: boolean = false;
-    private lastMtimeOfMezFileWhoseInfoSeized: Date = new Date(0);
+    // by the resolved path of the mez file, as each workspace folder builds its own one
+    private readonly lastMtimesOfMezFilesWhoseInfoSeized: Map<string, Date> = new Map();
+    private readonly seizedExtensionInfosOfMezFiles: Map<string, ExtensionInfo[]> = new Map();
     private onGoingDisplayLatestExtensionInfoCommand:
         | {
+              mezFilePath: string;
               ctime: Date;
               deferred: Promise<unknown>;
           }
@@ -248,11 +368,16 @@ export class LifecycleCommands implements IDisposable {
         ) {
             const currentMtime: Date = getMtimeOfAFile(resolvedPQTestExtensionFileLocation);
 
-            if (currentMtime > this.lastMtimeOfMezFileWhoseInfoSeized && this.pqTestService.pqTestReady) {
+            const lastMtimeOfMezFileWhoseInfoSeized: Date = this.getLastMtimeOfMezFileWhoseInfoSeized(
+                resolvedPQTestExtensionFileLocation,
+            );
+
+            if (currentMtime > lastMtimeOfMezFileWhoseInfoSeized && this.pqTestService.pqTestReady) {
                 // first check where we got an onGoing one or not,
                 // if the ongGoing one were newer or equaled to the current one, just return
                 if (
                     this.onGoingDisplayLatestExtensionInfoCommand &&
+                    this.onGoingDisplayLatestExtensionInfoCommand.mezFilePath === resolvedPQTestExtensionFileLocation &&
                     this.onGoingDisplayLatestExtensionInfoCommand.ctime >= currentMtime
                 ) {
                     return;
@@ -262,16 +387,28 @@ export class LifecycleCommands implements IDisposable {
                 this.outputChannel.appendInfoLine(
                     resolveI18nTemplate("PQSdk.lifecycle.command.detect.newerMezFile", {
                         currentCtime: String(currentMtime.getTime()),
-                        diffCtime: String(currentMtime.getTime() - this.lastMtimeOfMezFileWhoseInfoSeized.getTime()),
+                        diffCtime: String(currentMtime.getTime() - lastMtimeOfMezFileWhoseInfoSeized.getTime()),
                     }),
                 );
 
                 this.onGoingDisplayLatestExtensionInfoCommand = {
+                    mezFilePath: resolvedPQTestExtensionFileLocation,
                     ctime: currentMtime,
-                    deferred: this.displayLatestExtensionInfoCommand(currentMtime).finally(() => {
-                        if (this.onGoingDisplayLatestExtensionInfoCommand?.ctime === currentMtime) {
+                    deferred: this.displayLatestExtensionInfoCommand(
+                        resolvedPQTestExtensionFileLocation,
+                        currentMtime,
+                    ).finally(() => {
+                        if (
+                            this.onGoingDisplayLatestExtensionInfoCommand?.mezFilePath ===
+                                resolvedPQTestExtensionFileLocation &&
+                            this.onGoingDisplayLatestExtensionInfoCommand.ctime === currentMtime
+                        ) {
                             this.onGoingDisplayLatestExtensionInfoCommand = undefined;
-                            this.lastMtimeOfMezFileWhoseInfoSeized = currentMtime;
+
+                            this.lastMtimesOfMezFilesWhoseInfoSeized.set(
+                                resolvedPQTestExtensionFileLocation,
+                                currentMtime,
+                            );
                         }
                     }),
                 };
@@ -295,7 +432,7 @@ export class LifecycleCommands implements IDisposable {
 
                 // still not found
                 if (!resolvedPQTestExtensionFileLocation || !fs.existsSync(resolvedPQTestExtensionFileLocation)) {
-                    const anyPqFiles: Uri[] = await getAnyPqFileBeneathTheFirstWorkspace();
+                    const anyPqFiles: Uri[] = await getAnyPqFileBeneathTheCurrentWorkspace();
                     const nullableCurrentWorkspaceSettingPath: string | undefined = getCurrentWorkspaceSettingPath();
 
                     // and we are beneath an opened workspace and there are pq.files be opened pq workspace
@@ -324,18 +461,21 @@ export class LifecycleCommands implements IDisposable {
 
     private currentExecuteTimeOfExtensionDisplayingInfo: Date | undefined;
     private currentCtimeOfExtensionDisplayingInfo: Date | undefined;
+    private currentMezFileOfExtensionDisplayingInfo: string | undefined;
     private currentDisplayInfoDeferred$: Promise<void> | undefined;
-    private displayLatestExtensionInfoCommand(targetCTime: Date): Promise<unknown> {
+    private displayLatestExtensionInfoCommand(targetMezFile: string, targetCTime: Date): Promise<unknown> {
         if (
             !this.currentCtimeOfExtensionDisplayingInfo ||
             !this.currentDisplayInfoDeferred$ ||
             !this.currentExecuteTimeOfExtensionDisplayingInfo ||
+            targetMezFile !== this.currentMezFileOfExtensionDisplayingInfo ||
             targetCTime > this.currentCtimeOfExtensionDisplayingInfo ||
             // time out and retry if it would take longer than 10s
             new Date().getTime() - this.currentExecuteTimeOfExtensionDisplayingInfo.getTime() > 1e4
         ) {
             this.currentExecuteTimeOfExtensionDisplayingInfo = new Date();
             this.currentCtimeOfExtensionDisplayingInfo = targetCTime;
+            this.currentMezFileOfExtensionDisplayingInfo = targetMezFile;
             this.currentDisplayInfoDeferred$ = this.displayExtensionInfoCommand();
         }
 
@@ -343,11 +483,11 @@ export class LifecycleCommands implements IDisposable {
     }
 
     public async promptToSetupCurrentWorkspaceIfNeeded(): Promise<void> {
-        const theFirstWorkspace: vscode.WorkspaceFolder | undefined = getFirstWorkspaceFolder();
+        const theCurrentWorkspace: vscode.WorkspaceFolder | undefined = getCurrentWorkspaceFolder();
 
-        if (theFirstWorkspace && !this.isSuggestingSetupCurrentWorkspace && ExtensionConfigurations.autoDetection) {
+        if (theCurrentWorkspace && !this.isSuggestingSetupCurrentWorkspace && ExtensionConfigurations.autoDetection) {
             this.isSuggestingSetupCurrentWorkspace = true;
-            const anyPqFiles: Uri[] = await getAnyPqFileBeneathTheFirstWorkspace();
+            const anyPqFiles: Uri[] = await getAnyPqFileBeneathTheCurrentWorkspace(theCurrentWorkspace);
 
             if (
                 anyPqFiles.length &&
@@ -398,10 +538,26 @@ export class LifecycleCommands implements IDisposable {
         return this.pqTestService.ExecuteBuildTaskAndAwaitIfNeeded();
     }
 
-    public setupCurrentlyOpenedWorkspaceCommand(): Promise<unknown> {
-        const tasks: Array<Promise<void>> = [];
+    private setDefaultLocationIfNeeded(
+        configName: string,
+        currentValue: string | undefined,
+        nextValue: string,
+        setter: (nextValue: string) => Thenable<void>,
+    ): void {
+        if (currentValue !== nextValue) {
+            void setter(nextValue);
+
+            this.outputChannel.appendInfoLine(
+                resolveI18nTemplate("PQSdk.lifecycle.command.set.config", {
+                    configName,
+                    configValue: nextValue,
+                }),
+            );
+        }
+    }
 
-        const nullableFirstWorkspaceUri: vscode.Uri | undefined = getFirstWorkspaceFolder()?.uri;
+    public async setupCurrentlyOpenedWorkspaceCommand(): Promise<unknown> {
+        const currentWorkspaceFolder: vscode.WorkspaceFolder | undefined = getCurrentWorkspaceFolder();
         let hasPQTestExtensionFileLocation: boolean = false;
 
         if (ExtensionConfigurations.DefaultExtensionLocation) {
@@ -414,128 +570,106 @@ export class LifecycleCommands implements IDisposable {
             );
         }
 
-        if (nullableFirstWorkspaceUri) {
-            updateCurrentLocalPqModeIfNeeded(nullableFirstWorkspaceUri.fsPath);
+        if (currentWorkspaceFolder) {
+            updateCurrentLocalPqModeIfNeeded(currentWorkspaceFolder.uri.fsPath);
         }
 
-        if (!hasPQTestExtensionFileLocation) {
-            tasks.push(
-                (async (): Promise<void> => {
-                    const mezUrlsBeneathBin: Uri[] = await vscWorkspace.findFiles("bin/**/*.{mez}", null, 1);
-
-                    let mezExtensionPath: string = path.join(
-                        "${workspaceFolder}",
-                        "bin",
-                        "AnyCPU",
-                        "Debug",
-                        "${workspaceFolderBasename}.mez",
-                    );
-
-                    if (mezUrlsBeneathBin.length) {
-                        const relativePath: string = vscWorkspace.asRelativePath(mezUrlsBeneathBin[0], false);
-
-                        mezExtensionPath = path.join(
-                            "${workspaceFolder}",
-                            path.dirname(relativePath),
-                            substitutedWorkspaceFolderBasenameIfNeeded(path.basename(relativePath)),
-                        );
-                    }
+        // the connector project the active editor is in, rather than whatever query file we could find first
+        const currentProject: ConnectorProject | undefined = currentWorkspaceFolder
+            ? await findCurrentConnectorProject(currentWorkspaceFolder)
+            : undefined;
 
-                    if (ExtensionConfigurations.DefaultExtensionLocation !== mezExtensionPath) {
-                        void ExtensionConfigurations.setDefaultExtensionLocation(mezExtensionPath);
+        // paths of the settings are relative to the workspace folder they belong to
+        const toWorkspaceFolderPath = (relativePath: string): string =>
+            path.join(
+                "${workspaceFolder}",
+                path.dirname(relativePath),
+                substitutedWorkspaceFolderBasenameIfNeeded(path.basename(relativePath)),
+            );
 
-                        this.outputChannel.appendInfoLine(
-                            resolveI18nTemplate("PQSdk.lifecycle.command.set.config", {
-                                configName:
-                                    ExtensionConstants.ConfigNames.PowerQuerySdk.properties.defaultExtensionLocation,
-                                configValue: mezExtensionPath,
-                            }),
-                        );
-                    }
-                })(),
+        if (!hasPQTestExtensionFileLocation) {
+            this.setDefaultLocationIfNeeded(
+                ExtensionConstants.ConfigNames.PowerQuerySdk.properties.defaultExtensionLocation,
+                ExtensionConfigurations.DefaultExtensionLocation,
+                currentProject
+                    ? toWorkspaceFolderPath(getPrimaryMezFile(currentProject) ?? getExpectedMezFile(currentProject))
+                    : path.join("${workspaceFolder}", "bin", "AnyCPU", "Debug", "${workspaceFolderBasename}.mez"),
+                (nextValue: string) => ExtensionConfigurations.setDefaultExtensionLocation(nextValue),
             );
         }
 
-        if (!ExtensionConfigurations.DefaultQueryFileLocation) {
-            tasks.push(
-                (async (): Promise<void> => {
-                    const connectorQueryUrls: Uri[] = await vscWorkspace.findFiles("*.{m,pq}", null, 10);
-
-                    for (const uri of connectorQueryUrls) {
-                        const theFSPath: string = uri.fsPath;
-
-                        if (theFSPath.indexOf(".m") > -1 || theFSPath.indexOf(".query.pq") > -1) {
-                            const relativePath: string = vscWorkspace.asRelativePath(uri, false);
-
-                            const primaryConnQueryLocation: string = path.join(
-                                "${workspaceFolder}",
-                                path.dirname(relativePath),
-                                substitutedWorkspaceFolderBasenameIfNeeded(path.basename(relativePath)),
-                            );
-
-                            void ExtensionConfigurations.setDefaultQueryFileLocation(primaryConnQueryLocation);
+        const primaryQueryFile: string | undefined = currentProject ? getPrimaryQueryFile(currentProject) : undefined;
 
-                            this.outputChannel.appendInfoLine(
-                                resolveI18nTemplate("PQSdk.lifecycle.command.set.config", {
-                                    configName:
-                                        ExtensionConstants.ConfigNames.PowerQuerySdk.properties
-                                            .defaultQueryFileLocation,
-                                    configValue: primaryConnQueryLocation,
-                                }),
-                            );
-
-                            break;
-                        }
-                    }
-                })(),
+        if (!ExtensionConfigurations.DefaultQueryFileLocation && primaryQueryFile) {
+            this.setDefaultLocationIfNeeded(
+                ExtensionConstants.ConfigNames.PowerQuerySdk.properties.defaultQueryFileLocation,
+                ExtensionConfigurations.DefaultQueryFileLocation,
+                toWorkspaceFolderPath(primaryQueryFile),
+                (nextValue: string) => ExtensionConfigurations.setDefaultQueryFileLocation(nextValue),
             );
         }
 
-        return Promise.all(tasks);
+        return undefined;
     }
 
-    private doGenerateOneProjectIntoOneFolderFromTemplates(inputFolder: string, projectName: string): string {
+    private doGenerateOneProjectIntoOneFolderFromTemplates(
+        inputFolder: string,
+        projectName: string,
+        template: ProjectTemplate,
+        authenticationKinds: string[],
+    ): string | undefined {
         const folder: string = inputFolder.endsWith(projectName) ? inputFolder : path.join(inputFolder, projectName);
 
-        fs.mkdirSync(folder, { recursive: true });
-
-        const templateTargetFolder: string = path.resolve(this.vscExtCtx.extensionPath, "templates");
+        try {
+            fs.mkdirSync(folder, { recursive: true });
+
+            // shared files like icons, resources.resx, the .proj and settings.json live at the root of the templates
+            generateProjectFromTemplate(
+                path.resolve(this.vscExtCtx.extensionPath, "templates"),
+                template,
+                folder,
+                projectName,
+                authenticationKinds,
+            );
+        } catch (error: unknown) {
+            // user-defined templates might be malformed
+            void vscode.window.showErrorMessage(
+                resolveI18nTemplate("PQSdk.lifecycle.command.new.project.template.failed", {
+                    newProjName: projectName,
+                    template: template.label,
+                    error: error instanceof Error ? error.message : String(error),
+                }),
+            );
 
-        // settings.json
-        if (!fs.existsSync(path.join(folder, ".vscode"))) {
-            fs.mkdirSync(path.join(folder, ".vscode"));
+            return undefined;
         }
 
-        fs.copyFileSync(
-            path.resolve(templateTargetFolder, "settings.json"),
-            path.resolve(folder, ".vscode", "settings.json"),
+        return folder;
+    }
+
+    private findAllProjectTemplates(): ProjectTemplate[] {
+        const builtInTemplates: ProjectTemplate[] = findProjectTemplates(
+            path.resolve(this.vscExtCtx.extensionPath, "templates", ProjectTemplateGalleryFolderName),
+            true,
         );
 
-        // copy pngs
-        ["16", "20", "24", "32", "40", "48", "64", "80"].forEach((onePngSize: string) => {
-            fs.copyFileSync(
-                path.resolve(templateTargetFolder, `${templateFileBaseName}${onePngSize}.png`),
-                path.resolve(folder, `${projectName}${onePngSize}.png`),
-            );
-        });
+        const userDefinedTemplates: ProjectTemplate[] = [];
 
-        // template files
-        [
-            [`${templateFileBaseName}.proj`, `${projectName}.proj`],
-            [`${templateFileBaseName}.pq`, `${projectName}.pq`],
-            [`${templateFileBaseName}.query.pq`, `${projectName}.query.pq`],
-            ["resources.resx", "resources.resx"],
-        ].forEach(([templateFileName, targetFileName]: string[]) => {
-            let content: string = fs.readFileSync(path.resolve(templateTargetFolder, templateFileName), {
-                encoding: "utf8",
-            });
+        for (const oneTemplateFolder of ExtensionConfigurations.ProjectTemplateFolders) {
+            const templatesOfFolder: ProjectTemplate[] = findProjectTemplates(oneTemplateFolder, false);
 
-            // we can enhance this part by using a real-template language like handlebars mustache or pug
-            content = resolveTemplateSubstitutedValues(content, { ProjectName: projectName });
-            fs.writeFileSync(path.resolve(folder, targetFileName), content, { encoding: "utf8" });
-        });
+            if (!templatesOfFolder.length) {
+                this.outputChannel.appendErrorLine(
+                    resolveI18nTemplate("PQSdk.lifecycle.command.new.project.template.notFound", {
+                        folder: oneTemplateFolder,
+                    }),
+                );
+            }
 
-        return folder;
+            userDefinedTemplates.push(...templatesOfFolder);
+        }
+
+        return [...builtInTemplates, ...userDefinedTemplates];
     }
 
     private async doCheckAndTryToUpdatePqTest(skipQueryDialog: boolean = false): Promise<string | undefined> {
@@ -719,31 +853,138 @@ export class LifecycleCommands implements IDisposable {
     ).bind(this) as typeof this.manuallyUpdatePqTest;
 
     public async generateOneNewProject(): Promise<void> {
-        const newProjName: string | undefined = await vscode.window.showInputBox({
-            title: extensionI18n["PQSdk.lifecycle.command.new.project.title"],
-            placeHolder: extensionI18n["PQSdk.lifecycle.command.new.project.placeHolder"],
-            validateInput(value: string): string | Thenable<string | undefined | null> | undefined | null {
-                if (!value) {
-                    return extensionI18n["PQSdk.lifecycle.error.empty.project.name"];
-                } else if (!value.match(validateProjectNameRegExp)) {
-                    return extensionI18n["PQSdk.lifecycle.error.invalid.project.name"];
+        interface NewProjectState {
+            template: ProjectTemplate;
+            authenticationKinds: string[];
+            projectName: string;
+        }
+
+        interface ProjectTemplateQuickPickItem extends vscode.QuickPickItem {
+            template?: ProjectTemplate;
+        }
+
+        const title: string = extensionI18n["PQSdk.lifecycle.command.new.project.title"];
+        const templates: ProjectTemplate[] = this.findAllProjectTemplates();
+        const state: Partial<NewProjectState> = {};
+
+        // the authentication kinds are only asked for when the template offers more than one
+        const shouldPickAuthenticationKinds = (): boolean => (state.template?.authenticationKinds.length ?? 0) > 1;
+        const totalSteps = (): number => (shouldPickAuthenticationKinds() ? 3 : 2);
+
+        async function pickTemplate(input: MultiStepInput): Promise<InputStep | void> {
+            const items: ProjectTemplateQuickPickItem[] = [];
+
+            templates.forEach((oneTemplate: ProjectTemplate, index: number) => {
+                if (!oneTemplate.isBuiltIn && (index === 0 || templates[index - 1].isBuiltIn)) {
+                    items.push({
+                        label: extensionI18n["PQSdk.lifecycle.command.new.project.template.userDefined"],
+                        kind: vscode.QuickPickItemKind.Separator,
+                    });
                 }
 
-                return undefined;
-            },
-        });
+                items.push({
+                    label: oneTemplate.label,
+                    description: oneTemplate.description ?? oneTemplate.authenticationKinds.join(", "),
+                    detail: oneTemplate.detail ?? (oneTemplate.isBuiltIn ? undefined : oneTemplate.folder),
+                    template: oneTemplate,
+                });
+            });
+
+            const picked: ProjectTemplateQuickPickItem = await input.showQuickPick({
+                title,
+                step: 1,
+                totalSteps: totalSteps(),
+                placeholder: extensionI18n["PQSdk.lifecycle.command.new.project.template.placeHolder"],
+                activeItem: items.find(
+                    (oneItem: ProjectTemplateQuickPickItem) =>
+                        oneItem.template?.id === (state.template?.id ?? DefaultProjectTemplateId),
+                ),
+                items,
+            });
+
+            if (state.template !== picked.template) {
+                state.template = picked.template;
+                state.authenticationKinds = picked.template?.authenticationKinds.slice(0, 1);
+            }
+
+            return shouldPickAuthenticationKinds()
+                ? (input: MultiStepInput): Promise<InputStep | void> => pickAuthenticationKinds(input)
+                : (input: MultiStepInput): Promise<InputStep | void> => populateProjectName(input);
+        }
+
+        async function pickAuthenticationKinds(input: MultiStepInput): Promise<InputStep | void> {
+            const items: vscode.QuickPickItem[] = (state.template?.authenticationKinds ?? []).map(
+                (oneKind: string) => ({ label: oneKind }),
+            );
 
-        if (newProjName) {
-            const firstWorkspaceFolder: WorkspaceFolder | undefined = getFirstWorkspaceFolder();
+            const picked: vscode.QuickPickItem[] = await input.showQuickPickMany({
+                title,
+                step: 2,
+                totalSteps: totalSteps(),
+                placeholder: extensionI18n["PQSdk.lifecycle.command.new.project.authenticationKinds.placeHolder"],
+                selectedItems: items.filter((oneItem: vscode.QuickPickItem) =>
+                    state.authenticationKinds?.includes(oneItem.label),
+                ),
+                items,
+            });
+
+            // keep the order of the template, whose first kind goes to the .testsettings.json
+            // eslint-disable-next-line require-atomic-updates
+            state.authenticationKinds = items
+                .filter((oneItem: vscode.QuickPickItem) => picked.includes(oneItem))
+                .map((oneItem: vscode.QuickPickItem) => oneItem.label);
+
+            return (input: MultiStepInput) => populateProjectName(input);
+        }
+
+        async function populateProjectName(input: MultiStepInput): Promise<InputStep | void> {
+            // eslint-disable-next-line require-atomic-updates
+            state.projectName = await input.showInputBox({
+                title,
+                step: totalSteps(),
+                totalSteps: totalSteps(),
+                value: state.projectName ?? "",
+                prompt: extensionI18n["PQSdk.lifecycle.command.new.project.placeHolder"],
+                ignoreFocusOut: true,
+                validate: (value: string) => {
+                    if (!value) {
+                        return Promise.resolve(extensionI18n["PQSdk.lifecycle.error.empty.project.name"]);
+                    } else if (!value.match(validateProjectNameRegExp)) {
+                        return Promise.resolve(extensionI18n["PQSdk.lifecycle.error.invalid.project.name"]);
+                    }
+
+                    return Promise.resolve(undefined);
+                },
+            });
+        }
+
+        if (!templates.length) {
+            void vscode.window.showErrorMessage(
+                extensionI18n["PQSdk.lifecycle.command.new.project.template.noneAvailable"],
+            );
+
+            return;
+        }
+
+        await MultiStepInput.run((input: MultiStepInput) => pickTemplate(input));
+
+        const template: ProjectTemplate | undefined = state.template;
+        const authenticationKinds: string[] | undefined = state.authenticationKinds;
+        const newProjName: string | undefined = state.projectName;
+
+        if (newProjName && template && authenticationKinds) {
+            const currentWorkspaceFolder: WorkspaceFolder | undefined = getCurrentWorkspaceFolder();
 
-            if (firstWorkspaceFolder) {
-                // we got the workspace and let's generate files into the first workspace
-                const targetFolder: string = this.doGenerateOneProjectIntoOneFolderFromTemplates(
-                    firstWorkspaceFolder.uri.fsPath,
+            if (currentWorkspaceFolder) {
+                // we got the workspace and let's generate files into the current workspace
+                const targetFolder: string | undefined = this.doGenerateOneProjectIntoOneFolderFromTemplates(
+                    currentWorkspaceFolder.uri.fsPath,
                     newProjName,
+                    template,
+                    authenticationKinds,
                 );
 
-                if (targetFolder === firstWorkspaceFolder.uri.fsPath) {
+                if (targetFolder === currentWorkspaceFolder.uri.fsPath) {
                     // show the info message box telling users that
                     // extension files have been generated for the current folder
                     await vscode.commands.executeCommand(
@@ -757,7 +998,7 @@ export class LifecycleCommands implements IDisposable {
                             targetFolder,
                         }),
                     );
-                } else {
+                } else if (targetFolder) {
                     // open the sub folder as the current workspace
                     await vscode.commands.executeCommand("vscode.openFolder", vscode.Uri.file(targetFolder));
                 }
@@ -771,18 +1012,361 @@ export class LifecycleCommands implements IDisposable {
                     canSelectFolders: true,
                 });
 
-                if (selectedFolders?.[0].fsPath) {
-                    const targetFolder: string = this.doGenerateOneProjectIntoOneFolderFromTemplates(
-                        selectedFolders[0].fsPath,
-                        newProjName,
-                    );
+                const targetFolder: string | undefined = selectedFolders?.[0].fsPath
+                    ? this.doGenerateOneProjectIntoOneFolderFromTemplates(
+                          selectedFolders[0].fsPath,
+                          newProjName,
+                          template,
+                          authenticationKinds,
+                      )
+                    : undefined;
 
+                if (targetFolder) {
                     await vscode.commands.executeCommand("vscode.openFolder", vscode.Uri.file(targetFolder));
                 }
             }
         }
     }
 
+    public async addAuthenticationKindCommand(): Promise<void> {
+        interface AddAuthenticationKindState {
+            dataSourceKind: ConnectorDataSourceKind;
+            authenticationKind: string;
+        }
+
+        const title: string = extensionI18n["PQSdk.lifecycle.command.add.authenticationKind.title"];
+        const currentWorkspaceFolder: WorkspaceFolder | undefined = getCurrentWorkspaceFolder();
+
+        const project: ConnectorProject | undefined = currentWorkspaceFolder
+            ? await findCurrentConnectorProject(currentWorkspaceFolder)
+            : undefined;
+
+        if (!currentWorkspaceFolder || !project?.sectionFile) {
+            void vscode.window.showWarningMessage(
+                extensionI18n["PQSdk.lifecycle.command.add.authenticationKind.noConnector"],
+            );
+
+            return;
+        }
+
+        const sectionDocument: vscode.TextDocument = await vscode.workspace.openTextDocument(
+            path.join(currentWorkspaceFolder.uri.fsPath, project.sectionFile),
+        );
+
+        const missingAuthenticationKindsOf = (dataSourceKind: ConnectorDataSourceKind): string[] =>
+            ConnectorAuthenticationKinds.filter(
+                (oneKind: string) => !dataSourceKind.authenticationKinds.includes(oneKind),
+            );
+
+        const dataSourceKinds: ConnectorDataSourceKind[] = findDataSourceKinds(sectionDocument.getText()).filter(
+            (oneKind: ConnectorDataSourceKind) => missingAuthenticationKindsOf(oneKind).length,
+        );
+
+        if (!dataSourceKinds.length) {
+            void vscode.window.showWarningMessage(
+                resolveI18nTemplate("PQSdk.lifecycle.command.add.authenticationKind.noDataSourceKind", {
+                    sectionFile: project.sectionFile,
+                }),
+            );
+
+            return;
+        }
+
+        // the data source kind is only asked for when the connector declares more than one
+        const totalSteps: number = dataSourceKinds.length > 1 ? 2 : 1;
+
+        const state: Partial<AddAuthenticationKindState> = {
+            dataSourceKind: totalSteps === 1 ? dataSourceKinds[0] : undefined,
+        };
+
+        async function pickDataSourceKind(input: MultiStepInput): Promise<InputStep | void> {
+            const items: vscode.QuickPickItem[] = dataSourceKinds.map((oneKind: ConnectorDataSourceKind) => ({
+                label: oneKind.name,
+                description: oneKind.authenticationKinds.join(", "),
+            }));
+
+            const picked: vscode.QuickPickItem = await input.showQuickPick({
+                title,
+                step: 1,
+                totalSteps,
+                placeholder: extensionI18n["PQSdk.lifecycle.command.add.authenticationKind.dataSourceKind.placeHolder"],
+                activeItem: items.find((oneItem: vscode.QuickPickItem) => oneItem.label === state.dataSourceKind?.name),
+                items,
+            });
+
+            state.dataSourceKind = dataSourceKinds.find(
+                (oneKind: ConnectorDataSourceKind) => oneKind.name === picked.label,
+            );
+
+            return (input: MultiStepInput) => pickAuthenticationKind(input);
+        }
+
+        async function pickAuthenticationKind(input: MultiStepInput): Promise<InputStep | void> {
+            const items: vscode.QuickPickItem[] = state.dataSourceKind
+                ? missingAuthenticationKindsOf(state.dataSourceKind).map((oneKind: string) => ({ label: oneKind }))
+                : [];
+
+            const picked: vscode.QuickPickItem = await input.showQuickPick({
+                title,
+                step: totalSteps,
+                totalSteps,
+                placeholder: extensionI18n["PQSdk.lifecycle.command.add.authenticationKind.placeHolder"],
+                activeItem: items[0],
+                items,
+            });
+
+            // eslint-disable-next-line require-atomic-updates
+            state.authenticationKind = picked.label;
+        }
+
+        await MultiStepInput.run((input: MultiStepInput) =>
+            totalSteps > 1 ? pickDataSourceKind(input) : pickAuthenticationKind(input),
+        );
+
+        const dataSourceKind: ConnectorDataSourceKind | undefined = state.dataSourceKind;
+        const authenticationKind: string | undefined = state.authenticationKind;
+
+        if (!dataSourceKind || !authenticationKind) {
+            return;
+        }
+
+        try {
+            const result: AddAuthenticationKindResult = addAuthenticationKind(
+                sectionDocument.getText(),
+                dataSourceKind.name,
+                authenticationKind,
+            );
+
+            const workspaceEdit: vscode.WorkspaceEdit = new vscode.WorkspaceEdit();
+            const editedDocuments: vscode.TextDocument[] = [sectionDocument];
+
+            const replaceDocumentText = (document: vscode.TextDocument, text: string): void => {
+                workspaceEdit.replace(
+                    document.uri,
+                    new vscode.Range(document.positionAt(0), document.positionAt(document.getText().length)),
+                    text,
+                );
+            };
+
+            replaceDocumentText(sectionDocument, result.connectorText);
+
+            const resourceNames: string[] = Object.keys(result.resources);
+
+            if (resourceNames.length && project.resourceFiles.length) {
+                const resourcesDocument: vscode.TextDocument = await vscode.workspace.openTextDocument(
+                    path.join(currentWorkspaceFolder.uri.fsPath, project.resourceFiles[0]),
+                );
+
+                replaceDocumentText(
+                    resourcesDocument,
+                    addResourceStrings(resourcesDocument.getText(), result.resources),
+                );
+
+                editedDocuments.push(resourcesDocument);
+            } else if (resourceNames.length) {
+                this.outputChannel.appendErrorLine(
+                    resolveI18nTemplate("PQSdk.lifecycle.command.add.authenticationKind.noResources", {
+                        resourceNames: resourceNames.join(", "),
+                    }),
+                );
+            }
+
+            await vscode.workspace.applyEdit(workspaceEdit);
+            await Promise.all(editedDocuments.map((oneDocument: vscode.TextDocument) => oneDocument.save()));
+
+            // the credential wizard offers the kind right away, while the next build brings the real infos
+            const currentExtensionInfos: ExtensionInfo[] | undefined = this.pqTestService.currentExtensionInfos.value;
+
+            if (currentExtensionInfos) {
+                this.pqTestService.currentExtensionInfos.emit(
+                    withAuthenticationKind(currentExtensionInfos, dataSourceKind.name, authenticationKind),
+                );
+            }
+
+            this.outputChannel.appendInfoLine(
+                resolveI18nTemplate("PQSdk.lifecycle.command.add.authenticationKind.result", {
+                    authenticationKind,
+                    dataSourceKind: dataSourceKind.name,
+                    generatedFunctions: result.generatedFunctions.join(", ") || "-",
+                }),
+            );
+
+            await vscode.window.showTextDocument(sectionDocument);
+        } catch (error: unknown) {
+            void vscode.window.showErrorMessage(
+                resolveI18nTemplate("PQSdk.lifecycle.command.add.authenticationKind.errorMessage", {
+                    errorMessage: error instanceof Error ? error.message : String(error),
+                }),
+            );
+        }
+    }
+
+    public async generateTestCredentialsCommand(): Promise<void> {
+        interface GenerateTestCredentialsState {
+            settingsFileUri: Uri;
+            store: SecretStore;
+        }
+
+        const title: string = extensionI18n["PQSdk.lifecycle.command.generate.testCredentials.title"];
+        const settingsFileUris: Uri[] = await getTestSettingsFileUris(this.outputChannel);
+
+        if (!settingsFileUris.length) {
+            void vscode.window.showWarningMessage(extensionI18n["PQSdk.testAdapter.testSettingsFilesNotFound"]);
+
+            return;
+        }
+
+        const state: Partial<GenerateTestCredentialsState> = {};
+
+        const storeItems: Array<vscode.QuickPickItem & { store: SecretStore }> = [
+            {
+                label: extensionI18n["PQSdk.lifecycle.command.generate.testCredentials.secretStorage.label"],
+                description: "${secret:NAME}",
+                store: "secretStorage",
+            },
+            {
+                label: extensionI18n["PQSdk.lifecycle.command.generate.testCredentials.environment.label"],
+                description: "${env:NAME}",
+                store: "environment",
+            },
+        ];
+
+        async function pickSettingsFile(input: MultiStepInput): Promise<InputStep | void> {
+            const items: Array<vscode.QuickPickItem & { uri: Uri }> = settingsFileUris.map((oneUri: Uri) => ({
+                label: path.basename(oneUri.fsPath),
+                description: vscode.workspace.asRelativePath(path.dirname(oneUri.fsPath)),
+                uri: oneUri,
+            }));
+
+            const picked: vscode.QuickPickItem & { uri: Uri } = await input.showQuickPick({
+                title,
+                step: 1,
+                totalSteps: 2,
+                placeholder: extensionI18n["PQSdk.lifecycle.command.generate.testCredentials.settingsFile.placeHolder"],
+                activeItem: items[0],
+                items,
+            });
+
+            state.settingsFileUri = picked.uri;
+
+            return (input: MultiStepInput) => pickStore(input);
+        }
+
+        async function pickStore(input: MultiStepInput): Promise<InputStep | void> {
+            const picked: vscode.QuickPickItem & { store: SecretStore } = await input.showQuickPick({
+                title,
+                step: 2,
+                totalSteps: 2,
+                placeholder: extensionI18n["PQSdk.lifecycle.command.generate.testCredentials.store.placeHolder"],
+                activeItem: storeItems[0],
+                items: storeItems,
+            });
+
+            state.store = picked.store;
+        }
+
+        await MultiStepInput.run((input: MultiStepInput) => pickSettingsFile(input));
+
+        const settingsFileUri: Uri | undefined = state.settingsFileUri;
+        const store: SecretStore | undefined = state.store;
+
+        if (!settingsFileUri || !store) {
+            return;
+        }
+
+        try {
+            const extensionInfos: ExtensionInfo[] =
+                this.pqTestService.currentExtensionInfos.value ?? (await this.pqTestService.DisplayExtensionInfo());
+
+            const generated: GeneratedTestCredentials = generateTestCredentials(extensionInfos, store);
+
+            for (const oneKind of generated.unsupportedKinds) {
+                this.outputChannel.appendInfoLine(
+                    resolveI18nTemplate("PQSdk.lifecycle.command.generate.testCredentials.unsupportedKind", oneKind),
+                );
+            }
+
+            if (!generated.testCredentials.length) {
+                void vscode.window.showWarningMessage(
+                    extensionI18n["PQSdk.lifecycle.command.generate.testCredentials.noTestCredentials"],
+                );
+
+                return;
+            }
+
+            const settingsDocument: vscode.TextDocument = await vscode.workspace.openTextDocument(settingsFileUri);
+            const settings: Record<string, unknown> = JSON.parse(settingsDocument.getText());
+
+            settings.TestCredentials = mergeTestCredentials(
+                Array.isArray(settings.TestCredentials) ? settings.TestCredentials : [],
+                generated.testCredentials,
+            );
+
+            const workspaceEdit: vscode.WorkspaceEdit = new vscode.WorkspaceEdit();
+
+            workspaceEdit.replace(
+                settingsDocument.uri,
+                new vscode.Range(
+                    settingsDocument.positionAt(0),
+                    settingsDocument.positionAt(settingsDocument.getText().length),
+                ),
+                JSON.stringify(settings, null, 2),
+            );
+
+            await vscode.workspace.applyEdit(workspaceEdit);
+            await settingsDocument.save();
+
+            if (store === "secretStorage") {
+                // values already stored are kept, thus generating again only asks for the new ones
+                for (const oneReference of generated.secretReferences) {
+                    // eslint-disable-next-line no-await-in-loop
+                    if ((await this.vscExtCtx.secrets.get(oneReference.name)) !== undefined) {
+                        continue;
+                    }
+
+                    // eslint-disable-next-line no-await-in-loop
+                    const enteredValue: string | undefined = await vscode.window.showInputBox({
+                        title: resolveI18nTemplate("PQSdk.lifecycle.command.generate.testCredentials.secret.title", {
+                            secretName: oneReference.name,
+                        }),
+                        password: true,
+                        ignoreFocusOut: true,
+                    });
+
+                    if (enteredValue === undefined) {
+                        break;
+                    }
+
+                    // eslint-disable-next-line no-await-in-loop
+                    await this.vscExtCtx.secrets.store(oneReference.name, enteredValue);
+                }
+            } else if (generated.secretReferences.length) {
+                this.outputChannel.appendInfoLine(
+                    resolveI18nTemplate("PQSdk.lifecycle.command.generate.testCredentials.environment.result", {
+                        variableNames: generated.secretReferences
+                            .map((oneReference: SecretReference) => oneReference.name)
+                            .join(", "),
+                    }),
+                );
+            }
+
+            this.outputChannel.appendInfoLine(
+                resolveI18nTemplate("PQSdk.lifecycle.command.generate.testCredentials.result", {
+                    count: String(generated.testCredentials.length),
+                    settingsFilePath: settingsFileUri.fsPath,
+                }),
+            );
+
+            await vscode.window.showTextDocument(settingsDocument);
+        } catch (error: unknown) {
+            void vscode.window.showErrorMessage(
+                resolveI18nTemplate("PQSdk.lifecycle.command.generate.testCredentials.errorMessage", {
+                    errorMessage: error instanceof Error ? error.message : String(error),
+                }),
+            );
+        }
+    }
+
     public async deleteCredentialCommand(): Promise<void> {
         await vscode.window.withProgress(
             {
@@ -1105,7 +1689,7 @@ export class LifecycleCommands implements IDisposable {
                     });
 
                     const connectorQueryFiles: vscode.Uri[] = await vscode.workspace.findFiles(
-                        connectorQueryFileGlob,
+                        getCurrentWorkspaceGlobPattern(connectorQueryFileGlob),
                         connectorQueryFileExcludeGlob,
                         1e2,
                     );
@@ -1486,8 +2070,475 @@ export class LifecycleCommands implements IDisposable {
         );
 
         if (result) {
-            await vscode.commands.executeCommand(PqTestResultViewPanel.ShowResultWebViewCommand);
-            SimplePqTestResultViewBroker.values.latestPqTestResult.emit(result);
+            const activeTextEditor: vscode.TextEditor | undefined = vscode.window.activeTextEditor;
+
+            // the same fallbacks RunTestBattery resolves the query file with
+            const queryFilePath: string | undefined =
+                pathToQueryFile?.fsPath ??
+                (activeTextEditor?.document.languageId === ExtensionConstants.PQLanguageId
+                    ? activeTextEditor.document.uri.fsPath
+                    : resolveSubstitutedValues(ExtensionConfigurations.DefaultQueryFileLocation));
+
+            await vscode.commands.executeCommand(
+                PqTestResultViewPanel.UpdateResultWebViewCommand,
+                result,
+                queryFilePath,
+            );
+        }
+    }
+
+    /**
+     * Evaluates the let step at the given line, or when invoked from an editor, the current selection or the let
+     * step under the cursor, and shows its result in the result view.
+     * @param pathToQueryFile the document holding the expression, the active editor by default
+     * @param line zero-based line of the let step to be evaluated, as passed by code lenses
+     */
+    public async evaluateExpressionCommand(pathToQueryFile?: Uri, line?: number): Promise<void> {
+        const activeTextEditor: vscode.TextEditor | undefined = vscode.window.activeTextEditor;
+
+        const document: vscode.TextDocument | undefined = pathToQueryFile
+            ? await vscWorkspace.openTextDocument(pathToQueryFile)
+            : activeTextEditor?.document;
+
+        if (!document || document.languageId !== ExtensionConstants.PQLanguageId) {
+            void vscode.window.showWarningMessage(
+                extensionI18n["PQSdk.lifecycle.command.evaluate.expression.noExpression"],
+            );
+
+            return;
+        }
+
+        // steps of function bodies refer to the parameters of their function, thus could not be evaluated on their own
+        const letExpressions: LetExpression[] = findLetExpressions(document.getText()).filter(
+            (letExpression: LetExpression) => !letExpression.isFunctionBody,
+        );
+
+        let queryText: string | undefined;
+        // tells the result of the step or the selection apart from those of the whole query
+        let expressionName: string | undefined;
+
+        if (typeof line === "number") {
+            const letStepPosition: LetStepPosition | undefined = findLetStepAt(letExpressions, line);
+
+            queryText = letStepPosition
+                ? buildLetStepQuery(letStepPosition.letExpression, letStepPosition.stepIndex)
+                : undefined;
+
+            expressionName = letStepPosition?.letExpression.steps[letStepPosition.stepIndex].name;
+        } else if (activeTextEditor?.document === document && !activeTextEditor.selection.isEmpty) {
+            const selection: vscode.Selection = activeTextEditor.selection;
+
+            queryText = buildExpressionQuery(
+                document.getText(selection),
+                findLetStepAt(letExpressions, selection.start.line),
+            );
+
+            expressionName = `${selection.start.line + 1}:${selection.start.character + 1}-${selection.end.line + 1}:${
+                selection.end.character + 1
+            }`;
+        } else if (activeTextEditor?.document === document) {
+            const letStepPosition: LetStepPosition | undefined = findLetStepAt(
+                letExpressions,
+                activeTextEditor.selection.active.line,
+            );
+
+            queryText = letStepPosition
+                ? buildLetStepQuery(letStepPosition.letExpression, letStepPosition.stepIndex)
+                : undefined;
+
+            expressionName = letStepPosition?.letExpression.steps[letStepPosition.stepIndex].name;
+        }
+
+        if (!queryText) {
+            void vscode.window.showWarningMessage(
+                extensionI18n["PQSdk.lifecycle.command.evaluate.expression.noExpression"],
+            );
+
+            return;
+        }
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        let result: any | undefined;
+        // pqtest only evaluates query files, thus the synthesized query is written into a temporary one
+        const tempFolder: string = fs.mkdtempSync(path.join(os.tmpdir(), "pq-evaluate-"));
+
+        const tempQueryFilePath: string = path.join(
+            tempFolder,
+            `${getQueryFileBaseName(path.basename(document.uri.fsPath))}.query.pq`,
+        );
+
+        try {
+            fs.writeFileSync(tempQueryFilePath, queryText, "utf8");
+
+            this.outputChannel.appendInfoLine(
+                resolveI18nTemplate("PQSdk.lifecycle.command.evaluate.expression.started", {
+                    queryFilePath: document.uri.fsPath,
+                    queryText,
+                }),
+            );
+
+            await vscode.window.withProgress(
+                {
+                    title: extensionI18n["PQSdk.lifecycle.command.evaluate.expression.title"],
+                    location: ProgressLocation.Window,
+                    // neither PQTest nor the service host could be told to stop evaluating
+                    cancellable: false,
+                },
+                async (progress: Progress<{ increment?: number; message?: string }>) => {
+                    progress.report({ increment: 0 });
+
+                    try {
+                        if (ExtensionConfigurations.featureUseServiceHost) {
+                            result = await (this.pqTestService as PqServiceHostClient).RunTestBatteryFromContent(
+                                tempQueryFilePath,
+                            );
+                        } else {
+                            result = await this.pqTestService.RunTestBattery(tempQueryFilePath);
+                        }
+                    } catch (error) {
+                        void vscode.window.showErrorMessage(
+                            resolveI18nTemplate("PQSdk.lifecycle.command.evaluate.expression.errorMessage", {
+                                errorMessage: error instanceof Error ? error.message : String(error),
+                            }),
+                        );
+                    }
+
+                    progress.report({ increment: 100 });
+                },
+            );
+        } finally {
+            fs.rmSync(tempFolder, { recursive: true, force: true });
+        }
+
+        if (result) {
+            await vscode.commands.executeCommand(
+                PqTestResultViewPanel.UpdateResultWebViewCommand,
+                result,
+                document.uri.fsPath,
+                expressionName,
+            );
+        }
+    }
+
+    public async recordHttpMocksCommand(pathToQueryFile?: Uri): Promise<void> {
+        const activeTextEditor: vscode.TextEditor | undefined = vscode.window.activeTextEditor;
+
+        const queryFilePath: string | undefined =
+            pathToQueryFile?.fsPath ??
+            (activeTextEditor?.document.languageId === ExtensionConstants.PQLanguageId
+                ? activeTextEditor.document.uri.fsPath
+                : undefined);
+
+        if (!queryFilePath) {
+            void vscode.window.showWarningMessage(extensionI18n["PQSdk.lifecycle.command.record.mocks.noQueryFile"]);
+
+            return;
+        }
+
+        const pathToConnector: string | undefined = resolveSubstitutedValues(
+            ExtensionConfigurations.DefaultExtensionLocation,
+        );
+
+        if (!pathToConnector) {
+            void vscode.window.showErrorMessage(extensionI18n["PQSdk.lifecycle.command.record.mocks.noConnector"]);
+
+            return;
+        }
+
+        const queryFileFolder: string = path.dirname(queryFilePath);
+        const queryFileName: string = path.basename(queryFilePath);
+        const queryFileBaseName: string = getQueryFileBaseName(queryFileName);
+        const mockFolderName: string = `${queryFileBaseName}.mocks`;
+        const mockFolderPath: string = path.join(queryFileFolder, mockFolderName);
+
+        const settingsFilePath: string = path.join(
+            queryFileFolder,
+            `${queryFileBaseName}${ExtensionConstants.TestAdapter.TestSettingsFileEnding}`,
+        );
+
+        if (fs.existsSync(mockFolderPath) || fs.existsSync(settingsFilePath)) {
+            const overwriteLabel: string = extensionI18n["PQSdk.common.overwrite"];
+
+            const answer: string | undefined = await vscode.window.showWarningMessage(
+                resolveI18nTemplate("PQSdk.lifecycle.command.record.mocks.overwritePrompt", {
+                    mockFolderName,
+                }),
+                { modal: true },
+                overwriteLabel,
+            );
+
+            if (answer !== overwriteLabel) {
+                return;
+            }
+        }
+
+        // https traffic only gets recorded once PQTest trusts the authority issuing the certificates of the proxy
+        const certificateAuthority: LocalCertificateAuthority | undefined =
+            await this.resolveTrustedRecordingAuthority(queryFilePath);
+
+        let exchanges: ReadonlyArray<RecordedHttpExchange> = [];
+        let tunneledHosts: string[] = [];
+        let isCancelled: boolean = false;
+
+        await vscode.window.withProgress(
+            {
+                title: extensionI18n["PQSdk.lifecycle.command.record.mocks.title"],
+                location: ProgressLocation.Window,
+                cancellable: true,
+            },
+            async (progress: Progress<{ increment?: number; message?: string }>, token: vscode.CancellationToken) => {
+                progress.report({ increment: 0 });
+                this.outputChannel.show();
+
+                const recordingProxy: HttpRecordingProxy = new HttpRecordingProxy(certificateAuthority);
+                let pqTestProcess: ChildProcess | undefined = undefined;
+
+                const cancellationListener: vscode.Disposable = token.onCancellationRequested(() => {
+                    isCancelled = true;
+                    pqTestProcess?.kill();
+                    recordingProxy.dispose();
+                });
+
+                try {
+                    // the mez should be up-to-date before we capture its traffic
+                    await this.pqTestService.ExecuteBuildTaskAndAwaitIfNeeded();
+
+                    if (token.isCancellationRequested) {
+                        return;
+                    }
+
+                    const pqTestPath: string = resolvePqTestExecutablePath();
+                    const proxyUrl: string = await recordingProxy.start();
+
+                    this.outputChannel.appendInfoLine(
+                        resolveI18nTemplate("PQSdk.lifecycle.command.record.mocks.started", {
+                            queryFilePath,
+                            proxyUrl,
+                        }),
+                    );
+
+                    // run the query once against the live source, the mashup engine honors the proxy env variables
+                    const processExit: ProcessExit = await new SpawnedProcess(
+                        pqTestPath,
+                        buildPqTestArgs({ operation: "run-test", pathToConnector, pathToQueryFile: queryFilePath }),
+                        {
+                            cwd: path.dirname(pqTestPath),
+                            env: { ...process.env, HTTP_PROXY: proxyUrl, HTTPS_PROXY: proxyUrl, NO_PROXY: "" },
+                        },
+                        {
+                            onSpawned: (childProcess: ChildProcess): void => {
+                                pqTestProcess = childProcess;
+                            },
+                        },
+                    ).deferred$;
+
+                    if (token.isCancellationRequested) {
+                        return;
+                    }
+
+                    this.outputChannel.appendInfoLine(
+                        resolveI18nTemplate("PQSdk.lifecycle.command.run.test.result", {
+                            result: processExit.stdout,
+                        }),
+                    );
+
+                    if (processExit.exitCode !== 0) {
+                        this.outputChannel.appendErrorLine(processExit.stderr);
+                    }
+
+                    exchanges = recordingProxy.exchanges.slice();
+                    tunneledHosts = recordingProxy.tunneledHosts;
+                    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                } catch (error: any | string) {
+                    if (!token.isCancellationRequested) {
+                        const errorMessage: string = error instanceof Error ? error.message : error;
+
+                        void vscode.window.showErrorMessage(
+                            resolveI18nTemplate("PQSdk.lifecycle.command.record.mocks.errorMessage", {
+                                errorMessage,
+                            }),
+                        );
+                    }
+                } finally {
+                    cancellationListener.dispose();
+                    recordingProxy.dispose();
+
+                    if (certificateAuthority) {
+                        await this.untrustRecordingAuthority(certificateAuthority);
+                    }
+                }
+
+                progress.report({ increment: 100 });
+            },
+        );
+
+        if (isCancelled) {
+            this.outputChannel.appendInfoLine(extensionI18n["PQSdk.lifecycle.command.record.mocks.cancelled"]);
+
+            return;
+        }
+
+        if (tunneledHosts.length > 0) {
+            this.outputChannel.appendErrorLine(
+                resolveI18nTemplate("PQSdk.lifecycle.command.record.mocks.tunneledHosts", {
+                    hosts: tunneledHosts.join(", "),
+                }),
+            );
+        }
+
+        if (exchanges.length === 0) {
+            void vscode.window.showWarningMessage(
+                extensionI18n["PQSdk.lifecycle.command.record.mocks.nothingRecorded"],
+            );
+
+            return;
+        }
+
+        fs.rmSync(mockFolderPath, { recursive: true, force: true });
+        fs.mkdirSync(mockFolderPath, { recursive: true });
+
+        exchanges.forEach((oneExchange: RecordedHttpExchange, index: number) => {
+            fs.writeFileSync(
+                path.join(
+                    mockFolderPath,
+                    createHttpMockFileName(index, oneExchange.request.method, oneExchange.request.url),
+                ),
+                prettifyJson(oneExchange),
+            );
+        });
+
+        fs.writeFileSync(settingsFilePath, prettifyJson(createHttpMockTestSettings(queryFileName, mockFolderName)));
+
+        const openSettingsLabel: string = resolveI18nTemplate("PQSdk.common.open.file", {
+            fileName: path.basename(settingsFilePath),
+        });
+
+        const answer: string | undefined = await vscode.window.showInformationMessage(
+            resolveI18nTemplate("PQSdk.lifecycle.command.record.mocks.succeeded", {
+                count: String(exchanges.length),
+                mockFolderName,
+            }),
+            openSettingsLabel,
+        );
+
+        if (answer === openSettingsLabel) {
+            await vscode.window.showTextDocument(Uri.file(settingsFilePath));
+        }
+    }
+
+    /**
+     * Creates the authority the recording proxy issues its certificates with, limited to the hosts the user permits,
+     * and gets it trusted by the current user for the length of the recording.
+     *
+     * @returns The authority, or undefined if it is not trusted and https traffic could not be recorded
+     */
+    private async resolveTrustedRecordingAuthority(
+        queryFilePath: string,
+    ): Promise<LocalCertificateAuthority | undefined> {
+        const queryFileFolder: string = path.dirname(queryFilePath);
+
+        // suggest the https hosts of the query and of the connector sources next to it
+        const suggestedHosts: string[] = collectHttpsHosts(
+            fs
+                .readdirSync(queryFileFolder)
+                .filter((fileName: string) => /\.(pq|pqm|m)$/i.test(fileName))
+                .map((fileName: string) => fs.readFileSync(path.join(queryFileFolder, fileName), "utf8")),
+        );
+
+        const hostsInput: string | undefined = await vscode.window.showInputBox({
+            title: extensionI18n["PQSdk.lifecycle.command.record.mocks.title"],
+            prompt: extensionI18n["PQSdk.lifecycle.command.record.mocks.httpsHostsPrompt"],
+            value: suggestedHosts.join(", "),
+            ignoreFocusOut: true,
+        });
+
+        const permittedHosts: string[] = (hostsInput ?? "")
+            .split(/[\s,;]+/)
+            .map((host: string) => host.trim())
+            .filter(Boolean);
+
+        if (permittedHosts.length === 0) {
+            return undefined;
+        }
+
+        const trustLabel: string = extensionI18n["PQSdk.lifecycle.command.record.mocks.trustAuthority"];
+
+        const answer: string | undefined = await vscode.window.showWarningMessage(
+            resolveI18nTemplate("PQSdk.lifecycle.command.record.mocks.trustAuthorityPrompt", {
+                authorityName: LocalCertificateAuthority.CommonName,
+                hosts: permittedHosts.join(", "),
+            }),
+            { modal: true },
+            trustLabel,
+            extensionI18n["PQSdk.lifecycle.command.record.mocks.recordHttpOnly"],
+        );
+
+        if (answer !== trustLabel) {
+            return undefined;
+        }
+
+        const tempFolder: string = fs.mkdtempSync(path.join(os.tmpdir(), "pq-record-mocks-"));
+
+        try {
+            // the key of the authority never leaves the memory, only its certificate gets written for certutil
+            const certificateAuthority: LocalCertificateAuthority = LocalCertificateAuthority.create(permittedHosts);
+            const certificateFilePath: string = path.join(tempFolder, "httpMockRecordingCa.cer");
+            fs.writeFileSync(certificateFilePath, certificateAuthority.certificatePem);
+
+            // windows asks the user to confirm adding the certificate to the trusted root store
+            const addExit: ProcessExit = await new SpawnedProcess("certutil", [
+                "-user",
+                "-addstore",
+                "Root",
+                certificateFilePath,
+            ]).deferred$;
+
+            if (addExit.exitCode !== 0) {
+                throw new Error(addExit.stderr || addExit.stdout);
+            }
+
+            return certificateAuthority;
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        } catch (error: any | string) {
+            const errorMessage: string = error instanceof Error ? error.message : error;
+
+            this.outputChannel.appendErrorLine(
+                resolveI18nTemplate("PQSdk.lifecycle.command.record.mocks.trustAuthorityFailed", { errorMessage }),
+            );
+
+            return undefined;
+        } finally {
+            fs.rmSync(tempFolder, { recursive: true, force: true });
+        }
+    }
+
+    /**
+     * Removes the certificate of a recording authority from the trusted root store of the current user.
+     */
+    private async untrustRecordingAuthority(certificateAuthority: LocalCertificateAuthority): Promise<void> {
+        try {
+            // certutil looks the certificates of a store up by their serial number
+            const deleteExit: ProcessExit = await new SpawnedProcess("certutil", [
+                "-user",
+                "-delstore",
+                "Root",
+                certificateAuthority.serialNumber,
+            ]).deferred$;
+
+            if (deleteExit.exitCode !== 0) {
+                throw new Error(deleteExit.stderr || deleteExit.stdout);
+            }
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        } catch (error: any | string) {
+            const errorMessage: string = error instanceof Error ? error.message : error;
+
+            this.outputChannel.appendErrorLine(
+                resolveI18nTemplate("PQSdk.lifecycle.command.record.mocks.untrustAuthorityFailed", {
+                    authorityName: LocalCertificateAuthority.CommonName,
+                    serialNumber: certificateAuthority.serialNumber,
+                    errorMessage,
+                }),
+            );
         }
     }
 
@@ -5,13 +5,16 @@
  * LICENSE file in the root of this projects source tree.
  */
 
-import { GenericResult, IPQTestService } from "../../common/PQTestService";
+import { DataSource, GenericResult, IPQTestService } from "../../common/PQTestService";
 import { CommandResult, ICommandHandler } from "./ICommandHandler";
 
 /**
  * Parameters for DeleteCredential command
  */
-export type DeleteCredentialParams = Record<string, never>;
+export interface DeleteCredentialParams {
+    // the data source whose credential to delete, or else every credential
+    dataSource?: DataSource;
+}
 
 /**
  * Result data for DeleteCredential command
@@ -32,12 +35,12 @@ export class DeleteCredentialHandler
 
     /**
      * Execute the delete credential logic
-     * @param _params Command parameters (unused for this command)
+     * @param params Command parameters
      * @returns Promise with command result containing deletion result
      */
-    public async execute(_params: DeleteCredentialParams): Promise<CommandResult<DeleteCredentialResult>> {
+    public async execute(params: DeleteCredentialParams): Promise<CommandResult<DeleteCredentialResult>> {
         try {
-            const result: GenericResult = await this.pqTestService.DeleteCredential();
+            const result: GenericResult = await this.pqTestService.DeleteCredential(params.dataSource);
             const formattedOutput: string = this.prettifyJson(result);
 
             return {
@@ -5,13 +5,16 @@
  * LICENSE file in the root of this projects source tree.
  */
 
-import { GenericResult, IPQTestService } from "../../common/PQTestService";
+import { DataSource, GenericResult, IPQTestService } from "../../common/PQTestService";
 import { CommandResult, ICommandHandler } from "./ICommandHandler";
 
 /**
  * Parameters for RefreshCredential command
  */
-export type RefreshCredentialParams = Record<string, never>;
+export interface RefreshCredentialParams {
+    // the data source whose credential to refresh, or else the one of the current connector
+    dataSource?: DataSource;
+}
 
 /**
  * Result data for RefreshCredential command
@@ -32,12 +35,12 @@ export class RefreshCredentialHandler
 
     /**
      * Execute the refresh credential logic
-     * @param _params Command parameters (unused for this command)
+     * @param params Command parameters
      * @returns Promise with command result containing refresh result
      */
-    public async execute(_params: RefreshCredentialParams): Promise<CommandResult<RefreshCredentialResult>> {
+    public async execute(params: RefreshCredentialParams): Promise<CommandResult<RefreshCredentialResult>> {
         try {
-            const result: GenericResult = await this.pqTestService.RefreshCredential();
+            const result: GenericResult = await this.pqTestService.RefreshCredential(params.dataSource);
             const formattedOutput: string = this.prettifyJson(result);
 
             return {
@@ -0,0 +1,430 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+import * as http from "http";
+import * as https from "https";
+import * as net from "net";
+import * as tls from "tls";
+import { URLSearchParams } from "url";
+
+import { IDisposable } from "./Disposable";
+import { IssuedCertificate, LocalCertificateAuthority } from "./LocalCertificateAuthority";
+
+const RedactedValue: string = "<redacted>";
+
+/**
+ * Request headers that must never be written into a mock file.
+ */
+const RedactedRequestHeaders: ReadonlySet<string> = new Set<string>([
+    "authorization",
+    "proxy-authorization",
+    "cookie",
+    "x-api-key",
+]);
+
+/**
+ * Response headers that must never be written into a mock file.
+ */
+const RedactedResponseHeaders: ReadonlySet<string> = new Set<string>([
+    "set-cookie",
+    "set-cookie2",
+    "authorization",
+    "x-api-key",
+]);
+
+/**
+ * Json properties and form fields of request or response bodies that must never be written into a mock file, like
+ * those of OAuth token requests and responses.
+ */
+const RedactedBodyFields: ReadonlySet<string> = new Set<string>([
+    "access_token",
+    "refresh_token",
+    "id_token",
+    "client_secret",
+    "client_assertion",
+    "assertion",
+    "code_verifier",
+    "password",
+]);
+
+/**
+ * Form fields of request bodies that must never be written into a mock file, on top of RedactedBodyFields. The
+ * authorization code only gets redacted from forms, as json bodies commonly carry error codes.
+ */
+const RedactedFormFields: ReadonlySet<string> = new Set<string>([...RedactedBodyFields, "code"]);
+
+/**
+ * Hop-by-hop headers which only make sense between the proxy and its peers.
+ */
+const HopByHopHeaders: ReadonlySet<string> = new Set<string>([
+    "connection",
+    "keep-alive",
+    "proxy-connection",
+    "proxy-authenticate",
+    "proxy-authorization",
+    "te",
+    "trailer",
+    "transfer-encoding",
+    "upgrade",
+]);
+
+/**
+ * The recording of one request and its response. Each one gets written as a json file of its own into the mock folder,
+ * which the HttpMockPath of a .testsettings.json points PQTest at, like:
+ *
+ * {
+ *     "request": { "method": "GET", "url": "https://contoso.com/api?$top=1", "headers": {...}, "body": "..." },
+ *     "response": { "statusCode": 200, "headers": {...}, "body": "...", "bodyEncoding": "utf8" }
+ * }
+ *
+ * PQTest replays the response of the mock whose request method and url match, in the order of the file names
+ * createHttpMockFileName gives. Header names are lower-cased, bodies which are not text are base64 encoded, and
+ * credentials, cookies and token fields are replaced with <redacted> before anything gets recorded.
+ */
+export interface RecordedHttpExchange {
+    request: RecordedHttpRequest;
+    response: RecordedHttpResponse;
+}
+
+export interface RecordedHttpRequest {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    body?: string;
+}
+
+export interface RecordedHttpResponse {
+    statusCode: number;
+    headers: Record<string, string>;
+    body: string;
+    bodyEncoding: "utf8" | "base64";
+}
+
+function isTextualContentType(contentType: string | undefined): boolean {
+    if (!contentType) {
+        return true;
+    }
+
+    return /^text\/|[/+](json|xml|javascript|x-www-form-urlencoded)\b|^application\/(odata|atom)/i.test(contentType);
+}
+
+function flattenHeaders(
+    headers: http.IncomingHttpHeaders,
+    redactedHeaders: ReadonlySet<string> | undefined,
+    skipHopByHop: boolean,
+): Record<string, string> {
+    const result: Record<string, string> = {};
+
+    for (const [name, value] of Object.entries(headers)) {
+        const lowerName: string = name.toLowerCase();
+
+        if (value === undefined || (skipHopByHop && HopByHopHeaders.has(lowerName))) {
+            continue;
+        }
+
+        if (redactedHeaders?.has(lowerName)) {
+            result[lowerName] = RedactedValue;
+        } else {
+            result[lowerName] = Array.isArray(value) ? value.join(", ") : value;
+        }
+    }
+
+    return result;
+}
+
+function redactJsonFields(value: unknown): boolean {
+    let isRedacted: boolean = false;
+
+    if (Array.isArray(value)) {
+        for (const item of value) {
+            isRedacted = redactJsonFields(item) || isRedacted;
+        }
+    } else if (typeof value === "object" && value !== null) {
+        const record: Record<string, unknown> = value as Record<string, unknown>;
+
+        for (const [key, fieldValue] of Object.entries(record)) {
+            if (RedactedBodyFields.has(key.toLowerCase()) && fieldValue !== null && typeof fieldValue !== "object") {
+                record[key] = RedactedValue;
+                isRedacted = true;
+            } else {
+                isRedacted = redactJsonFields(fieldValue) || isRedacted;
+            }
+        }
+    }
+
+    return isRedacted;
+}
+
+/**
+ * Redacts the token fields of json and form bodies, other bodies are returned as is.
+ */
+export function redactHttpBody(body: string, contentType: string | undefined): string {
+    if (contentType && /[/+]json\b/i.test(contentType)) {
+        try {
+            const json: unknown = JSON.parse(body);
+
+            return redactJsonFields(json) ? JSON.stringify(json) : body;
+        } catch {
+            return body;
+        }
+    }
+
+    if (contentType && /^application\/x-www-form-urlencoded\b/i.test(contentType)) {
+        const form: URLSearchParams = new URLSearchParams(body);
+        let isRedacted: boolean = false;
+
+        for (const key of Array.from(form.keys())) {
+            if (RedactedFormFields.has(key.toLowerCase())) {
+                form.set(key, RedactedValue);
+                isRedacted = true;
+            }
+        }
+
+        return isRedacted ? form.toString() : body;
+    }
+
+    return body;
+}
+
+function readAll(stream: NodeJS.ReadableStream): Promise<Buffer> {
+    return new Promise<Buffer>((resolve: (value: Buffer) => void, reject: (reason: Error) => void) => {
+        const chunks: Buffer[] = [];
+        stream.on("data", (chunk: Buffer) => chunks.push(chunk));
+        stream.on("end", () => resolve(Buffer.concat(chunks)));
+        stream.on("error", reject);
+    });
+}
+
+/**
+ * A local forward proxy which relays every http request to its origin and records the exchange.
+ * Https traffic arrives as CONNECT tunnels: given a certificate authority the client trusts, the proxy terminates
+ * the tls of the tunnels to hosts the authority permits with certificates it issues, and records their requests like
+ * plain http ones. Other tunnels, and those whose client rejects the certificate, could only be relayed as is, and
+ * their hosts are collected into tunneledHosts for callers to report.
+ */
+export class HttpRecordingProxy implements IDisposable {
+    private readonly server: http.Server;
+    // serves the requests decrypted out of the https tunnels
+    private readonly tunnelServer: http.Server;
+    // origins of the decrypted https tunnels, like https://host:port
+    private readonly tunnelOrigins: WeakMap<net.Socket, string> = new WeakMap();
+    private readonly openSockets: Set<net.Socket> = new Set<net.Socket>();
+    private readonly _exchanges: RecordedHttpExchange[] = [];
+    private readonly _tunneledHosts: Set<string> = new Set<string>();
+    private _port: number | undefined = undefined;
+
+    get exchanges(): ReadonlyArray<RecordedHttpExchange> {
+        return this._exchanges;
+    }
+
+    get tunneledHosts(): string[] {
+        return Array.from(this._tunneledHosts);
+    }
+
+    get proxyUrl(): string | undefined {
+        return this._port ? `http://127.0.0.1:${this._port}` : undefined;
+    }
+
+    constructor(private readonly certificateAuthority?: LocalCertificateAuthority) {
+        this.server = http.createServer((req: http.IncomingMessage, res: http.ServerResponse) => {
+            void this.handleRequest(req, res);
+        });
+
+        this.tunnelServer = http.createServer((req: http.IncomingMessage, res: http.ServerResponse) => {
+            void this.handleRequest(req, res, this.tunnelOrigins.get(req.socket));
+        });
+
+        this.server.on("connect", this.handleConnect.bind(this));
+
+        this.server.on("connection", (socket: net.Socket) => {
+            this.openSockets.add(socket);
+            socket.on("close", () => this.openSockets.delete(socket));
+        });
+    }
+
+    /**
+     * Starts listening on a random loopback port.
+     * @return the proxy url, like http://127.0.0.1:port
+     */
+    public start(): Promise<string> {
+        return new Promise<string>((resolve: (value: string) => void, reject: (reason: Error) => void) => {
+            this.server.once("error", reject);
+
+            this.server.listen(0, "127.0.0.1", () => {
+                this.server.off("error", reject);
+                this._port = (this.server.address() as net.AddressInfo).port;
+                resolve(this.proxyUrl as string);
+            });
+        });
+    }
+
+    public dispose(): void {
+        for (const oneSocket of this.openSockets) {
+            oneSocket.destroy();
+        }
+
+        this.openSockets.clear();
+        this.server.close();
+        this.tunnelServer.close();
+        this._port = undefined;
+    }
+
+    private async handleRequest(
+        req: http.IncomingMessage,
+        res: http.ServerResponse,
+        tunnelOrigin?: string,
+    ): Promise<void> {
+        let targetUrl: URL;
+
+        try {
+            // proxied requests always carry the absolute url in their request line, unlike the tunneled ones
+            targetUrl = tunnelOrigin ? new URL(req.url ?? "", tunnelOrigin) : new URL(req.url ?? "");
+        } catch {
+            res.writeHead(400).end();
+
+            return;
+        }
+
+        try {
+            const requestBody: Buffer = await readAll(req);
+            const upstreamRequestHeaders: Record<string, string> = flattenHeaders(req.headers, undefined, true);
+            // ask for identity encoding so that the recorded bodies stay readable
+            delete upstreamRequestHeaders["accept-encoding"];
+
+            const upstreamResponse: http.IncomingMessage = await new Promise<http.IncomingMessage>(
+                (resolve: (value: http.IncomingMessage) => void, reject: (reason: Error) => void) => {
+                    const upstreamRequest: http.ClientRequest = (
+                        targetUrl.protocol === "https:" ? https : http
+                    ).request(
+                        targetUrl,
+                        {
+                            method: req.method,
+                            headers: upstreamRequestHeaders,
+                        },
+                        resolve,
+                    );
+
+                    upstreamRequest.on("error", reject);
+                    upstreamRequest.end(requestBody);
+                },
+            );
+
+            const responseBody: Buffer = await readAll(upstreamResponse);
+            const responseHeaders: Record<string, string> = flattenHeaders(upstreamResponse.headers, undefined, true);
+            const responseContentType: string | undefined = responseHeaders["content-type"];
+            const isTextual: boolean = isTextualContentType(responseContentType);
+
+            this._exchanges.push({
+                request: {
+                    method: (req.method ?? "GET").toUpperCase(),
+                    url: targetUrl.toString(),
+                    headers: flattenHeaders(req.headers, RedactedRequestHeaders, true),
+                    body:
+                        requestBody.length > 0
+                            ? redactHttpBody(requestBody.toString("utf8"), req.headers["content-type"])
+                            : undefined,
+                },
+                response: {
+                    statusCode: upstreamResponse.statusCode ?? 0,
+                    headers: flattenHeaders(upstreamResponse.headers, RedactedResponseHeaders, true),
+                    body: isTextual
+                        ? redactHttpBody(responseBody.toString("utf8"), responseContentType)
+                        : responseBody.toString("base64"),
+                    bodyEncoding: isTextual ? "utf8" : "base64",
+                },
+            });
+
+            // we had buffered the whole body, thus the length of the relayed response is known, the client still gets
+            // the response as is, only the recording is redacted
+            res.writeHead(upstreamResponse.statusCode ?? 502, {
+                ...responseHeaders,
+                "content-length": String(responseBody.length),
+            });
+
+            res.end(responseBody);
+        } catch {
+            if (!res.headersSent) {
+                res.writeHead(502);
+            }
+
+            res.end();
+        }
+    }
+
+    private handleConnect(req: http.IncomingMessage, clientSocket: net.Socket, head: Buffer): void {
+        const [host, portStr]: string[] = (req.url ?? "").split(":");
+        const port: number = Number.parseInt(portStr, 10) || 443;
+
+        if (this.certificateAuthority?.permits(host)) {
+            this.interceptTunnel(this.certificateAuthority, host, port, clientSocket, head);
+        } else {
+            this.relayTunnel(host, port, clientSocket, head);
+        }
+    }
+
+    /**
+     * Terminates the tls of a tunnel, so that its requests get served and recorded by the tunnel server.
+     */
+    private interceptTunnel(
+        certificateAuthority: LocalCertificateAuthority,
+        host: string,
+        port: number,
+        clientSocket: net.Socket,
+        head: Buffer,
+    ): void {
+        let issuedCertificate: IssuedCertificate;
+
+        try {
+            issuedCertificate = certificateAuthority.issueCertificate(host);
+        } catch {
+            this.relayTunnel(host, port, clientSocket, head);
+
+            return;
+        }
+
+        clientSocket.write("HTTP/1.1 200 Connection Established\r\n\r\n");
+
+        if (head.length > 0) {
+            clientSocket.unshift(head);
+        }
+
+        const tlsSocket: tls.TLSSocket = new tls.TLSSocket(clientSocket, {
+            isServer: true,
+            key: issuedCertificate.key,
+            cert: issuedCertificate.cert,
+        });
+
+        let isSecured: boolean = false;
+
+        // clients which do not trust the authority abort the handshake, thus their traffic is lost to the recording
+        tlsSocket.once("secure", () => (isSecured = true));
+        tlsSocket.on("error", () => clientSocket.destroy());
+
+        tlsSocket.once("close", () => {
+            if (!isSecured) {
+                this._tunneledHosts.add(host);
+            }
+        });
+
+        this.tunnelOrigins.set(tlsSocket, port === 443 ? `https://${host}` : `https://${host}:${port}`);
+        this.tunnelServer.emit("connection", tlsSocket);
+    }
+
+    private relayTunnel(host: string, port: number, clientSocket: net.Socket, head: Buffer): void {
+        this._tunneledHosts.add(host);
+
+        const upstreamSocket: net.Socket = net.connect(port, host, () => {
+            clientSocket.write("HTTP/1.1 200 Connection Established\r\n\r\n");
+            upstreamSocket.write(head);
+            upstreamSocket.pipe(clientSocket);
+            clientSocket.pipe(upstreamSocket);
+        });
+
+        upstreamSocket.on("error", () => clientSocket.destroy());
+        clientSocket.on("error", () => upstreamSocket.destroy());
+    }
+}
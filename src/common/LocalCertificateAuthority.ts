@@ -0,0 +1,368 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+import * as crypto from "crypto";
+import * as net from "net";
+
+export interface IssuedCertificate {
+    // PEM of the private key
+    key: string;
+    // PEM of the certificate, signed by the authority
+    cert: string;
+}
+
+const AuthorityValidityHours: number = 12;
+// tolerates clocks running a bit behind ours
+const ValidityBackdateMs: number = 3600 * 1000;
+
+const Oids: Readonly<Record<string, string>> = {
+    commonName: "2.5.4.3",
+    sha256WithRsaEncryption: "1.2.840.113549.1.1.11",
+    subjectKeyIdentifier: "2.5.29.14",
+    keyUsage: "2.5.29.15",
+    subjectAltName: "2.5.29.17",
+    basicConstraints: "2.5.29.19",
+    nameConstraints: "2.5.29.30",
+    authorityKeyIdentifier: "2.5.29.35",
+    extKeyUsage: "2.5.29.37",
+    serverAuth: "1.3.6.1.5.5.7.3.1",
+};
+
+// minimal DER encoders, covering what the certificates of the authority need
+
+function derTlv(tag: number, content: Buffer): Buffer {
+    let length: Buffer;
+
+    if (content.length < 0x80) {
+        length = Buffer.from([content.length]);
+    } else {
+        const lengthBytes: number[] = [];
+
+        for (let remaining: number = content.length; remaining > 0; remaining = Math.floor(remaining / 256)) {
+            lengthBytes.unshift(remaining % 256);
+        }
+
+        length = Buffer.from([0x80 | lengthBytes.length, ...lengthBytes]);
+    }
+
+    return Buffer.concat([Buffer.from([tag]), length, content]);
+}
+
+function derSequence(...items: Buffer[]): Buffer {
+    return derTlv(0x30, Buffer.concat(items));
+}
+
+function derSet(...items: Buffer[]): Buffer {
+    return derTlv(0x31, Buffer.concat(items));
+}
+
+function derBoolean(value: boolean): Buffer {
+    return derTlv(0x01, Buffer.from([value ? 0xff : 0x00]));
+}
+
+function derInteger(bytes: Buffer): Buffer {
+    // a leading zero byte keeps the integer positive
+    return derTlv(0x02, bytes[0] & 0x80 ? Buffer.concat([Buffer.from([0]), bytes]) : bytes);
+}
+
+function derBitString(bytes: Buffer, unusedBits: number = 0): Buffer {
+    return derTlv(0x03, Buffer.concat([Buffer.from([unusedBits]), bytes]));
+}
+
+function derOctetString(bytes: Buffer): Buffer {
+    return derTlv(0x04, bytes);
+}
+
+function derNull(): Buffer {
+    return derTlv(0x05, Buffer.alloc(0));
+}
+
+function derOid(value: string): Buffer {
+    const [first, second, ...rest]: number[] = value.split(".").map(Number);
+    const bytes: number[] = [first * 40 + second];
+
+    for (const arc of rest) {
+        const arcBytes: number[] = [arc & 0x7f];
+
+        for (let remaining: number = arc >>> 7; remaining > 0; remaining >>>= 7) {
+            arcBytes.unshift((remaining & 0x7f) | 0x80);
+        }
+
+        bytes.push(...arcBytes);
+    }
+
+    return derTlv(0x06, Buffer.from(bytes));
+}
+
+function derUtf8String(value: string): Buffer {
+    return derTlv(0x0c, Buffer.from(value, "utf8"));
+}
+
+function derTime(value: Date): Buffer {
+    const iso: string = value.toISOString().replace(/[-:T]|\.\d+/g, "");
+
+    // UTCTime until 2049, GeneralizedTime from 2050 on
+    return value.getUTCFullYear() < 2050
+        ? derTlv(0x17, Buffer.from(iso.slice(2), "ascii"))
+        : derTlv(0x18, Buffer.from(iso, "ascii"));
+}
+
+function derContext(tagNumber: number, content: Buffer, isConstructed: boolean): Buffer {
+    return derTlv((isConstructed ? 0xa0 : 0x80) | tagNumber, content);
+}
+
+interface CertificateExtension {
+    oid: string;
+    critical?: boolean;
+    value: Buffer;
+}
+
+function encodeName(commonName: string): Buffer {
+    return derSequence(derSet(derSequence(derOid(Oids.commonName), derUtf8String(commonName))));
+}
+
+function encodeExtension(extension: CertificateExtension): Buffer {
+    return derSequence(
+        derOid(extension.oid),
+        ...(extension.critical ? [derBoolean(true)] : []),
+        derOctetString(extension.value),
+    );
+}
+
+function encodeIpv4Address(host: string): Buffer {
+    return Buffer.from(host.split(".").map(Number));
+}
+
+/**
+ * The GeneralName of a host, a dNSName or an iPAddress.
+ */
+function encodeHostName(host: string): Buffer {
+    return net.isIPv4(host) ? derContext(7, encodeIpv4Address(host), false) : derContext(2, Buffer.from(host), false);
+}
+
+function createSerialNumber(): Buffer {
+    const serialNumber: Buffer = crypto.randomBytes(16);
+    // positive and without leading zero bytes, which certutil would not print
+    serialNumber[0] = (serialNumber[0] & 0x7f) | 0x40;
+
+    return serialNumber;
+}
+
+function createCertificate(options: {
+    subjectName: string;
+    issuerName: string;
+    subjectPublicKey: crypto.KeyObject;
+    signingKey: crypto.KeyObject;
+    serialNumber: Buffer;
+    notBefore: Date;
+    notAfter: Date;
+    extensions: CertificateExtension[];
+}): string {
+    const signatureAlgorithm: Buffer = derSequence(derOid(Oids.sha256WithRsaEncryption), derNull());
+
+    const tbsCertificate: Buffer = derSequence(
+        // v3
+        derContext(0, derInteger(Buffer.from([2])), true),
+        derInteger(options.serialNumber),
+        signatureAlgorithm,
+        encodeName(options.issuerName),
+        derSequence(derTime(options.notBefore), derTime(options.notAfter)),
+        encodeName(options.subjectName),
+        options.subjectPublicKey.export({ type: "spki", format: "der" }),
+        derContext(3, derSequence(...options.extensions.map(encodeExtension)), true),
+    );
+
+    const certificate: Buffer = derSequence(
+        tbsCertificate,
+        signatureAlgorithm,
+        derBitString(crypto.sign("sha256", tbsCertificate, options.signingKey)),
+    );
+
+    const base64Lines: string[] = certificate.toString("base64").match(/.{1,64}/g) ?? [];
+
+    return ["-----BEGIN CERTIFICATE-----", ...base64Lines, "-----END CERTIFICATE-----", ""].join("\n");
+}
+
+function createKeyIdentifier(publicKey: crypto.KeyObject): Buffer {
+    return crypto
+        .createHash("sha1")
+        .update(publicKey.export({ type: "spki", format: "der" }))
+        .digest();
+}
+
+function normalizeHost(host: string): string {
+    return host.trim().toLowerCase().replace(/\.$/, "");
+}
+
+/**
+ * A short-lived certificate authority, which issues the certificates the recording proxy terminates https tunnels
+ * with. Clients only accept them once the certificate of the authority is trusted.
+ *
+ * The authority only lives in memory and its name constraints limit it to the permitted hosts and their subdomains,
+ * so that trusting it for the length of a recording does not expose any other traffic.
+ */
+export class LocalCertificateAuthority {
+    public static readonly CommonName: string = "Power Query SDK HTTP Mock Recording CA";
+
+    private readonly issuedCertificates: Map<string, IssuedCertificate> = new Map();
+    // every issued certificate shares one key pair, generating one per host would slow recordings down
+    private issuedKeyPair: crypto.KeyPairKeyObjectResult | undefined;
+
+    private constructor(
+        private readonly authorityKeyPair: crypto.KeyPairKeyObjectResult,
+        public readonly certificatePem: string,
+        public readonly serialNumber: string,
+        public readonly permittedHosts: ReadonlyArray<string>,
+        public readonly notAfter: Date,
+    ) {}
+
+    /**
+     * Creates a new authority which may only issue certificates of the permitted hosts and their subdomains.
+     *
+     * @param permittedHosts - Host names or ipv4 addresses
+     * @param validityHours - How long the authority and its certificates stay valid
+     */
+    public static create(
+        permittedHosts: ReadonlyArray<string>,
+        validityHours: number = AuthorityValidityHours,
+    ): LocalCertificateAuthority {
+        const normalizedHosts: string[] = Array.from(new Set(permittedHosts.map(normalizeHost))).filter(
+            (host: string) => host && !net.isIPv6(host),
+        );
+
+        if (normalizedHosts.length === 0) {
+            throw new Error("A local certificate authority needs at least one permitted host");
+        }
+
+        const authorityKeyPair: crypto.KeyPairKeyObjectResult = crypto.generateKeyPairSync("rsa", {
+            modulusLength: 2048,
+        });
+
+        const serialNumber: Buffer = createSerialNumber();
+        const notAfter: Date = new Date(Date.now() + validityHours * 3600 * 1000);
+
+        const certificatePem: string = createCertificate({
+            subjectName: LocalCertificateAuthority.CommonName,
+            issuerName: LocalCertificateAuthority.CommonName,
+            subjectPublicKey: authorityKeyPair.publicKey,
+            signingKey: authorityKeyPair.privateKey,
+            serialNumber,
+            notBefore: new Date(Date.now() - ValidityBackdateMs),
+            notAfter,
+            extensions: [
+                // a path length of zero, the authority may not delegate to other authorities
+                {
+                    oid: Oids.basicConstraints,
+                    critical: true,
+                    value: derSequence(derBoolean(true), derInteger(Buffer.from([0]))),
+                },
+                // keyCertSign and cRLSign
+                { oid: Oids.keyUsage, critical: true, value: derBitString(Buffer.from([0x06]), 1) },
+                {
+                    oid: Oids.subjectKeyIdentifier,
+                    value: derOctetString(createKeyIdentifier(authorityKeyPair.publicKey)),
+                },
+                {
+                    oid: Oids.nameConstraints,
+                    critical: true,
+                    value: derSequence(
+                        derContext(
+                            0,
+                            Buffer.concat(
+                                normalizedHosts.map((host: string) =>
+                                    derSequence(
+                                        net.isIPv4(host)
+                                            ? // a single address, masked by 255.255.255.255
+                                              derContext(
+                                                  7,
+                                                  Buffer.concat([
+                                                      encodeIpv4Address(host),
+                                                      Buffer.from([0xff, 0xff, 0xff, 0xff]),
+                                                  ]),
+                                                  false,
+                                              )
+                                            : encodeHostName(host),
+                                    ),
+                                ),
+                            ),
+                            true,
+                        ),
+                    ),
+                },
+            ],
+        });
+
+        return new LocalCertificateAuthority(
+            authorityKeyPair,
+            certificatePem,
+            serialNumber.toString("hex"),
+            normalizedHosts,
+            notAfter,
+        );
+    }
+
+    /**
+     * Tells whether the name constraints of the authority cover the host.
+     */
+    public permits(host: string): boolean {
+        const normalizedHost: string = normalizeHost(host);
+
+        return this.permittedHosts.some(
+            (permittedHost: string) =>
+                normalizedHost === permittedHost ||
+                (!net.isIP(permittedHost) && normalizedHost.endsWith(`.${permittedHost}`)),
+        );
+    }
+
+    /**
+     * Issues a server certificate for a permitted host name or ip address, issued certificates are reused per host.
+     */
+    public issueCertificate(host: string): IssuedCertificate {
+        const normalizedHost: string = normalizeHost(host);
+        const knownCertificate: IssuedCertificate | undefined = this.issuedCertificates.get(normalizedHost);
+
+        if (knownCertificate) {
+            return knownCertificate;
+        }
+
+        if (!this.permits(normalizedHost)) {
+            throw new Error(`${host} is not permitted by the name constraints of the local certificate authority`);
+        }
+
+        this.issuedKeyPair = this.issuedKeyPair ?? crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+
+        const cert: string = createCertificate({
+            subjectName: normalizedHost,
+            issuerName: LocalCertificateAuthority.CommonName,
+            subjectPublicKey: this.issuedKeyPair.publicKey,
+            signingKey: this.authorityKeyPair.privateKey,
+            serialNumber: createSerialNumber(),
+            notBefore: new Date(Date.now() - ValidityBackdateMs),
+            notAfter: this.notAfter,
+            extensions: [
+                { oid: Oids.basicConstraints, value: derSequence() },
+                // digitalSignature and keyEncipherment
+                { oid: Oids.keyUsage, critical: true, value: derBitString(Buffer.from([0xa0]), 5) },
+                { oid: Oids.extKeyUsage, value: derSequence(derOid(Oids.serverAuth)) },
+                { oid: Oids.subjectAltName, value: derSequence(encodeHostName(normalizedHost)) },
+                {
+                    oid: Oids.authorityKeyIdentifier,
+                    value: derSequence(derContext(0, createKeyIdentifier(this.authorityKeyPair.publicKey), false)),
+                },
+            ],
+        });
+
+        const issuedCertificate: IssuedCertificate = {
+            key: this.issuedKeyPair.privateKey.export({ type: "pkcs8", format: "pem" }).toString(),
+            cert,
+        };
+
+        this.issuedCertificates.set(normalizedHost, issuedCertificate);
+
+        return issuedCertificate;
+    }
+}
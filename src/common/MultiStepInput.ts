@@ -27,6 +27,16 @@ interface QuickPickParameters<T extends vscode.QuickPickItem> {
     shouldResume?: () => Thenable<boolean>;
 }
 
+interface QuickPickManyParameters<T extends vscode.QuickPickItem> {
+    title: string;
+    step: number;
+    totalSteps: number;
+    items: T[];
+    selectedItems?: T[];
+    placeholder: string;
+    shouldResume?: () => Thenable<boolean>;
+}
+
 interface InputBoxParameters {
     title: string;
     step: number;
@@ -154,6 +164,74 @@ export class MultiStepInput {
         }
     }
 
+    async showQuickPickMany<T extends vscode.QuickPickItem>({
+        title,
+        step,
+        totalSteps,
+        items,
+        selectedItems,
+        placeholder,
+        shouldResume,
+    }: QuickPickManyParameters<T>): Promise<T[]> {
+        const disposables: vscode.Disposable[] = [];
+
+        try {
+            return await new Promise<T[]>(
+                (
+                    resolve: (Value: T[]) => void,
+                    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                    reject: (reason?: any) => void,
+                ) => {
+                    const input: vscode.QuickPick<T> = vscode.window.createQuickPick<T>();
+                    input.title = title;
+                    input.step = step;
+                    input.totalSteps = totalSteps;
+                    input.canSelectMany = true;
+                    input.placeholder = placeholder;
+                    input.items = items;
+
+                    if (selectedItems) {
+                        input.selectedItems = selectedItems;
+                    }
+
+                    input.buttons = this.steps.length > 1 ? [vscode.QuickInputButtons.Back] : [];
+
+                    disposables.push(
+                        input.onDidTriggerButton((item: vscode.QuickInputButton) => {
+                            if (item === vscode.QuickInputButtons.Back) {
+                                reject(InputFlowAction.BACK);
+                            }
+                        }),
+                        // unlike single picks, the selection only completes once accepted with at least one item
+                        input.onDidAccept(() => {
+                            if (input.selectedItems.length) {
+                                resolve([...input.selectedItems]);
+                            }
+                        }),
+                        input.onDidHide(() => {
+                            (async (): Promise<void> => {
+                                reject(
+                                    shouldResume && (await shouldResume())
+                                        ? InputFlowAction.RESUME
+                                        : InputFlowAction.CANCEL,
+                                );
+                            })().catch(reject);
+                        }),
+                    );
+
+                    if (this.current) {
+                        this.current.dispose();
+                    }
+
+                    this.current = input;
+                    this.current.show();
+                },
+            );
+        } finally {
+            disposables.forEach((d: vscode.Disposable) => d.dispose());
+        }
+    }
+
     async showInputBox<P extends InputBoxParameters>({
         title,
         step,
@@ -120,14 +120,15 @@ export interface IPQTestService {
     readonly currentCredentials: ValueEventEmitter<Credential[]>;
     readonly onPowerQueryTestLocationChanged: () => void;
     readonly ExecuteBuildTaskAndAwaitIfNeeded: () => Promise<void>;
-    readonly DeleteCredential: () => Promise<GenericResult>;
+    // deletes the credential of the data source, or else every credential
+    readonly DeleteCredential: (dataSource?: DataSource) => Promise<GenericResult>;
     readonly DisplayExtensionInfo: () => Promise<ExtensionInfo[]>;
     readonly ListCredentials: () => Promise<Credential[]>;
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     readonly GenerateCredentialTemplate: () => Promise<any>;
-    readonly SetCredential: (payloadStr: string) => Promise<GenericResult>;
+    readonly SetCredential: (payloadStr: string, dataSource?: DataSource) => Promise<GenericResult>;
     readonly SetCredentialFromCreateAuthState: (createAuthState: CreateAuthState) => Promise<GenericResult>;
-    readonly RefreshCredential: () => Promise<GenericResult>;
+    readonly RefreshCredential: (dataSource?: DataSource) => Promise<GenericResult>;
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     readonly RunTestBattery: (pathToQueryFile?: string) => Promise<any>;
     readonly TestConnection: () => Promise<GenericResult>;
@@ -204,6 +205,11 @@ export function convertExtensionInfoToLibraryJson(extensionInfos: ExtensionInfo[
     return libraryExports;
 }
 
+// the args scoping a credential operation to one data source
+export function buildDataSourceArgs(dataSource: DataSource): string[] {
+    return ["--dataSourceKind", dataSource.kind, "--dataSourcePath", dataSource.path];
+}
+
 export function buildPqTestArgs(pqTestTask: PQTestTask): string[] {
     let args: string[] = CommonArgs.slice();
 
@@ -8,7 +8,9 @@
 import * as path from "path";
 import * as vscode from "vscode";
 
+import { CredentialProfile, parseCredentialProfiles } from "../utils/credentialProfiles";
 import {
+    getCurrentWorkspaceFolder,
     resolvePathRelativeToWorkspace,
     resolvePathsRelativeToWorkspace,
     resolveSubstitutedValues,
@@ -16,6 +18,13 @@ import {
 } from "../utils/vscodes";
 import { ExtensionConstants, PqModeType, SdkExternalsVersionTags } from "./PowerQuerySdkExtension";
 
+// connector project settings go to the folder settings of multi-root workspaces, one for each connector
+function getProjectConfigurationTarget(): vscode.ConfigurationTarget {
+    return vscode.workspace.workspaceFile
+        ? vscode.ConfigurationTarget.WorkspaceFolder
+        : vscode.ConfigurationTarget.Workspace;
+}
+
 // eslint-disable-next-line @typescript-eslint/typedef
 export const ExtensionConfigurations = {
     get httpProxy(): string | undefined {
@@ -215,11 +224,11 @@ export const ExtensionConfigurations = {
 
     setDefaultExtensionLocation(
         PQTestExtensionFileLocation: string,
-        configurationTarget: vscode.ConfigurationTarget | boolean = vscode.ConfigurationTarget.Workspace,
+        configurationTarget: vscode.ConfigurationTarget | boolean = getProjectConfigurationTarget(),
     ): Thenable<void> {
         // we should not cache it
         return vscode.workspace
-            .getConfiguration()
+            .getConfiguration(undefined, getCurrentWorkspaceFolder()?.uri)
             .update(
                 `${ExtensionConstants.ConfigNames.PowerQuerySdk.name}.${ExtensionConstants.ConfigNames.PowerQuerySdk.properties.defaultExtensionLocation}`,
                 PQTestExtensionFileLocation,
@@ -227,9 +236,10 @@ export const ExtensionConfigurations = {
             );
     },
     get DefaultExtensionLocation(): string | undefined {
-        // we should not cache it
+        // we should not cache it, and it belongs to the connector project of the current workspace folder
         const config: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration(
             ExtensionConstants.ConfigNames.PowerQuerySdk.name,
+            getCurrentWorkspaceFolder()?.uri,
         );
 
         return (
@@ -241,11 +251,11 @@ export const ExtensionConfigurations = {
 
     setDefaultQueryFileLocation(
         PQTestQueryFileLocation: string,
-        configurationTarget: vscode.ConfigurationTarget | boolean = vscode.ConfigurationTarget.Workspace,
+        configurationTarget: vscode.ConfigurationTarget | boolean = getProjectConfigurationTarget(),
     ): Thenable<void> {
         // we should not cache it
         return vscode.workspace
-            .getConfiguration()
+            .getConfiguration(undefined, getCurrentWorkspaceFolder()?.uri)
             .update(
                 `${ExtensionConstants.ConfigNames.PowerQuerySdk.name}.${ExtensionConstants.ConfigNames.PowerQuerySdk.properties.defaultQueryFileLocation}`,
                 PQTestQueryFileLocation,
@@ -253,9 +263,10 @@ export const ExtensionConfigurations = {
             );
     },
     get DefaultQueryFileLocation(): string | undefined {
-        // we should not cache it
+        // we should not cache it, and it belongs to the connector project of the current workspace folder
         const config: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration(
             ExtensionConstants.ConfigNames.PowerQuerySdk.name,
+            getCurrentWorkspaceFolder()?.uri,
         );
 
         return (
@@ -350,6 +361,89 @@ export const ExtensionConfigurations = {
 
         return value ?? ExtensionConstants.TestAdapter.CleanupIntermediateResultsAfterHours;
     },
+    setTestHttpMockPath(
+        httpMockPath: string | undefined,
+        configurationTarget: vscode.ConfigurationTarget | boolean | null = vscode.ConfigurationTarget.Workspace,
+    ): Thenable<void> {
+        const config: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration(
+            ExtensionConstants.ConfigNames.PowerQuerySdk.name,
+        );
+
+        return config.update(
+            ExtensionConstants.ConfigNames.PowerQuerySdk.properties.testHttpMockPath,
+            httpMockPath,
+            configurationTarget,
+        );
+    },
+    get TestHttpMockPath(): string | undefined {
+        const config: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration(
+            ExtensionConstants.ConfigNames.PowerQuerySdk.name,
+        );
+
+        const value: string | undefined = config.get(
+            ExtensionConstants.ConfigNames.PowerQuerySdk.properties.testHttpMockPath,
+        );
+
+        return resolvePathRelativeToWorkspace(resolveSubstitutedValues(value));
+    },
+    get TestFailOnMockMiss(): boolean {
+        const config: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration(
+            ExtensionConstants.ConfigNames.PowerQuerySdk.name,
+        );
+
+        const value: boolean | undefined = config.get(
+            ExtensionConstants.ConfigNames.PowerQuerySdk.properties.testFailOnMockMiss,
+        );
+
+        return value ?? true;
+    },
+    get resultViewHistoryLimit(): number {
+        const config: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration(
+            ExtensionConstants.ConfigNames.PowerQuerySdk.name,
+        );
+
+        const value: number | undefined = config.get(
+            ExtensionConstants.ConfigNames.PowerQuerySdk.properties.resultViewHistoryLimit,
+        );
+
+        return typeof value === "number" && value >= 0 ? value : 20;
+    },
+    get ProjectTemplateFolders(): string[] {
+        const config: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration(
+            ExtensionConstants.ConfigNames.PowerQuerySdk.name,
+        );
+
+        const value: string[] | undefined = config.get(
+            ExtensionConstants.ConfigNames.PowerQuerySdk.properties.projectTemplateFolders,
+        );
+
+        return Array.isArray(value)
+            ? (resolvePathsRelativeToWorkspace(resolveSubstitutedValuesInArray(value)) ?? [])
+            : [];
+    },
+    setCredentialProfiles(
+        credentialProfiles: CredentialProfile[],
+        configurationTarget: vscode.ConfigurationTarget | boolean | null = vscode.ConfigurationTarget.Workspace,
+    ): Thenable<void> {
+        const config: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration(
+            ExtensionConstants.ConfigNames.PowerQuerySdk.name,
+        );
+
+        return config.update(
+            ExtensionConstants.ConfigNames.PowerQuerySdk.properties.credentialProfiles,
+            credentialProfiles,
+            configurationTarget,
+        );
+    },
+    get credentialProfiles(): CredentialProfile[] {
+        const config: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration(
+            ExtensionConstants.ConfigNames.PowerQuerySdk.name,
+        );
+
+        return parseCredentialProfiles(
+            config.get(ExtensionConstants.ConfigNames.PowerQuerySdk.properties.credentialProfiles),
+        );
+    },
 };
 
 const NugetDownloadVscUrl: vscode.Uri = vscode.Uri.parse(ExtensionConstants.NugetDownloadUrl);
@@ -47,6 +47,11 @@ const ConfigNames = {
             pqTestExecutablePath: "test.pqtest" as const,
             defaultIntermediateResultsFolder: "test.defaultIntermediateResultsFolder" as const,
             cleanupIntermediateResultsAfterHours: "test.cleanupIntermediateResultsAfterHours" as const,
+            testHttpMockPath: "test.httpMockPath" as const,
+            testFailOnMockMiss: "test.failOnMockMiss" as const,
+            resultViewHistoryLimit: "resultView.historyLimit" as const,
+            projectTemplateFolders: "project.templateFolders" as const,
+            credentialProfiles: "credentials.profiles" as const,
         },
     },
 };
@@ -114,6 +119,8 @@ const TestAdapter = {
     TestControllerId: "powerqueryTestController" as const,
     TestControllerName: "Power Query Tests" as const,
     TestRunProfileName: "Run" as const,
+    MockTestRunProfileName: "Run with Mocks" as const,
+    DebugTestRunProfileName: "Debug" as const,
     TestSettingsFilePattern: "**/*.testsettings.json" as const,
     TestSettingsFileEnding: ".testsettings.json" as const,
     TestFilePattern: "**/*.query.pq" as const,
@@ -126,6 +133,11 @@ const TestAdapter = {
     RefreshAllTestsCommand: "powerquery.sdk.test.refreshTests" as const,
     RefreshSettingsItemTestsCommand: "powerquery.sdk.test.refreshSettingsItemTests" as const,
     ClearAllTestsCommand: "powerquery.sdk.test.clearTests" as const,
+    AcceptActualCommand: "powerquery.sdk.test.acceptActual" as const,
+    AcceptAllActualsCommand: "powerquery.sdk.test.acceptAllActuals" as const,
+    ReviewAcceptedActualsCommand: "powerquery.sdk.test.reviewAcceptedActuals" as const,
+    UndoAcceptActualsCommand: "powerquery.sdk.test.undoAcceptActuals" as const,
+    RerunFailedTestsCommand: "powerquery.sdk.test.rerunFailedTests" as const,
     RevealTestInExplorerCommand: "vscode.revealTestInExplorer" as const,
 };
 
@@ -0,0 +1,113 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import { IDisposable } from "../common/Disposable";
+import { buildPqTestArgs } from "../common/PQTestService";
+import { ProcessExit, SpawnedProcess } from "../common/SpawnedProcess";
+import { ExtensionConfigurations } from "../constants/PowerQuerySdkConfiguration";
+import { resolveI18nTemplate } from "../i18n/extension";
+import { resolvePqTestExecutablePath } from "../utils/pqTestPath";
+import { resolveSubstitutedValues } from "../utils/vscodes";
+
+export interface LetStepEvaluation {
+    /** the Output of the run-test result, usually rows of a table or a one-element array holding a scalar */
+    readonly value?: unknown;
+    readonly error?: string;
+}
+
+/**
+ * Evaluates let steps one at a time by running each of them as a standalone query through PQTest.exe run-test,
+ * against the current default connector. Results are cached per query text, which stays valid within one session.
+ */
+export class LetStepEvaluator implements IDisposable {
+    private readonly cache: Map<string, Promise<LetStepEvaluation>> = new Map();
+    private tempFolder: string | undefined = undefined;
+    private fileCounter: number = 0;
+
+    public evaluate(queryText: string): Promise<LetStepEvaluation> {
+        let result: Promise<LetStepEvaluation> | undefined = this.cache.get(queryText);
+
+        if (!result) {
+            result = this.doEvaluate(queryText);
+            this.cache.set(queryText, result);
+        }
+
+        return result;
+    }
+
+    private async doEvaluate(queryText: string): Promise<LetStepEvaluation> {
+        try {
+            if (!this.tempFolder) {
+                this.tempFolder = fs.mkdtempSync(path.join(os.tmpdir(), "pq-let-steps-"));
+            }
+
+            this.fileCounter++;
+            const queryFilePath: string = path.join(this.tempFolder, `step${this.fileCounter}.query.pq`);
+            fs.writeFileSync(queryFilePath, queryText, "utf8");
+
+            const pqTestExeFullPath: string = resolvePqTestExecutablePath();
+
+            const spawnedProcess: SpawnedProcess = new SpawnedProcess(
+                pqTestExeFullPath,
+                buildPqTestArgs({
+                    operation: "run-test",
+                    pathToConnector: resolveSubstitutedValues(ExtensionConfigurations.DefaultExtensionLocation),
+                    pathToQueryFile: queryFilePath,
+                }),
+                { cwd: path.dirname(pqTestExeFullPath) },
+            );
+
+            const processExit: ProcessExit = await spawnedProcess.deferred$;
+
+            return LetStepEvaluator.parseRunTestOutput(processExit);
+        } catch (error) {
+            return { error: error instanceof Error ? error.message : String(error) };
+        }
+    }
+
+    private static parseRunTestOutput(processExit: ProcessExit): LetStepEvaluation {
+        let parsed: unknown;
+
+        try {
+            parsed = JSON.parse(processExit.stdout);
+        } catch {
+            return {
+                error: resolveI18nTemplate("PQSdk.debugger.error.step.evaluation.failed", {
+                    exitCode: `${processExit.exitCode}`,
+                    stdErr: processExit.stderr || processExit.stdout,
+                }),
+            };
+        }
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const execution: any = Array.isArray(parsed) ? parsed[0] : parsed;
+
+        if (execution?.Status !== "Passed" && execution?.Status !== 3) {
+            return {
+                error:
+                    typeof execution?.Error?.Message === "string"
+                        ? execution.Error.Message
+                        : JSON.stringify(execution?.Error ?? execution),
+            };
+        }
+
+        return { value: execution.Output };
+    }
+
+    public dispose(): void {
+        this.cache.clear();
+
+        if (this.tempFolder) {
+            fs.rmSync(this.tempFolder, { recursive: true, force: true });
+            this.tempFolder = undefined;
+        }
+    }
+}
@@ -6,15 +6,22 @@
  */
 
 import {
+    Breakpoint,
+    Handles,
     InitializedEvent,
     Logger,
     logger,
     LoggingDebugSession,
     OutputEvent,
+    Scope,
     Source,
+    StackFrame,
+    StoppedEvent,
     TerminatedEvent,
+    Thread,
 } from "@vscode/debugadapter";
 import { DebugProtocol } from "@vscode/debugprotocol";
+import * as fs from "fs";
 import * as path from "path";
 
 import { DeferredValue } from "../common/DeferredValue";
@@ -29,6 +36,15 @@ import {
     PqTestExecutableOnceTaskQueueEvents,
 } from "../pqTestConnector/PqTestExecutableOnceTask";
 import { stringifyJson } from "../utils/strings";
+import { LetStepEvaluation, LetStepEvaluator } from "./LetStepEvaluator";
+import {
+    buildLetStepQuery,
+    findLetExpressions,
+    findLetStepAt,
+    LetExpression,
+    LetStep,
+    LetStepPosition,
+} from "./letSteps";
 
 /**
  * This interface describes the mock-debug specific launch attributes
@@ -49,12 +65,50 @@ interface ILaunchRequestArguments extends DebugProtocol.LaunchRequestArguments {
     readonly stdinStr?: string;
 }
 
+/**
+ * Tells whether an operation evaluates the program, i.e. runs it on its own or as a test compared to its baseline
+ */
+function isQueryOperation(operation: string): boolean {
+    return operation === "run-test" || operation === "run-compare";
+}
+
+/**
+ * The let step a paused session is sitting on
+ */
+interface LetStepLocation {
+    readonly filePath: string;
+    readonly letExpression: LetExpression;
+    readonly stepIndex: number;
+}
+
+type ResumeMode = "continue" | "step" | "abort";
+
+/**
+ * What a variablesReference points to:
+ *  steps: the steps of the current let expression evaluated so far
+ *  step: one step whose evaluation was deferred until it got expanded
+ *  value: a list or a record within an evaluated value
+ */
+type VariableContainer =
+    | { readonly kind: "steps" }
+    | { readonly kind: "step"; readonly stepIndex: number }
+    | { readonly kind: "value"; readonly value: object };
+
 export class MQueryDebugSession extends LoggingDebugSession {
+    // pqtest evaluates the whole program at once, thus there is only one thread to report
+    private static readonly ThreadId: number = 1;
+
     private readonly configurationDone: WaitNotify = new WaitNotify();
     private readonly processForked: DeferredValue<boolean> = new DeferredValue<boolean>(false);
     private readonly pqTestExecutableOnceTask?: PqTestExecutableOnceTask;
     private readonly pqServiceHostClientLite?: PqServiceHostClientLite;
     private readonly useServiceHost: boolean;
+    private readonly letStepEvaluator: LetStepEvaluator = new LetStepEvaluator();
+    private readonly variableHandles: Handles<VariableContainer> = new Handles<VariableContainer>();
+    // verified breakpoints per file, by the zero-based line of the let step they are bound to
+    private readonly breakpointLines: Map<string, Set<number>> = new Map();
+    private currentLocation: LetStepLocation | undefined = undefined;
+    private resumeLetStepping: ((mode: ResumeMode) => void) | undefined = undefined;
     private currentProgram: string = "";
     private isTerminated: boolean = false;
 
@@ -164,15 +218,363 @@ export class MQueryDebugSession extends LoggingDebugSession {
 
         if (this.useServiceHost) {
             void this.doLaunchRequest(args);
+        } else if (this.breakpointLines.size > 0 && isQueryOperation(args.operation ?? "run-test")) {
+            // pause on the let steps first, and run the program once the user resumed from the last one
+            void this.stepThroughLetSteps(args.program).then((shouldRun: boolean) => {
+                if (shouldRun) {
+                    this.runProgram(args);
+                } else {
+                    this.sendEvent(new TerminatedEvent());
+                }
+            });
+        } else {
+            this.runProgram(args);
+        }
+
+        this.sendResponse(response);
+    }
+
+    private runProgram(args: ILaunchRequestArguments): void {
+        // start the program in the runtime, do not await here
+        void this.pqTestExecutableOnceTask?.run(args.program, {
+            operation: args.operation ?? "run-test",
+            additionalArgs: args.additionalArgs,
+        });
+    }
+
+    /**
+     * Walks the let steps of the program, followed by the ones of any other document holding breakpoints,
+     * e.g. the connector section, and pauses on each step bound to a breakpoint or reached by stepping.
+     * @return false if the session got disconnected while paused
+     */
+    private async stepThroughLetSteps(program: string): Promise<boolean> {
+        const programPath: string = path.resolve(program);
+
+        const filePaths: string[] = [
+            programPath,
+            ...Array.from(this.breakpointLines.keys()).filter((filePath: string) => filePath !== programPath),
+        ];
+
+        let isStepping: boolean = false;
+
+        for (const filePath of filePaths) {
+            let letExpressions: LetExpression[];
+
+            try {
+                letExpressions = findLetExpressions(fs.readFileSync(filePath, "utf8"));
+            } catch (error) {
+                this.appendErrorLine(error instanceof Error ? error.message : String(error));
+
+                continue;
+            }
+
+            // stepping skips function bodies for the same reason breakpoints could not be bound to them
+            for (const letExpression of letExpressions.filter((one: LetExpression) => !one.isFunctionBody)) {
+                for (let stepIndex: number = 0; stepIndex < letExpression.steps.length; stepIndex++) {
+                    const step: LetStep = letExpression.steps[stepIndex];
+                    const hasBreakpoint: boolean = Boolean(this.breakpointLines.get(filePath)?.has(step.line));
+
+                    if (!isStepping && !hasBreakpoint) {
+                        continue;
+                    }
+
+                    // eslint-disable-next-line no-await-in-loop
+                    const resumeMode: ResumeMode = await this.pauseAt(
+                        { filePath, letExpression, stepIndex },
+                        isStepping ? "step" : "breakpoint",
+                    );
+
+                    if (resumeMode === "abort") {
+                        return false;
+                    }
+
+                    isStepping = resumeMode === "step";
+                }
+            }
+        }
+
+        return true;
+    }
+
+    private pauseAt(location: LetStepLocation, reason: "breakpoint" | "step"): Promise<ResumeMode> {
+        this.currentLocation = location;
+        this.variableHandles.reset();
+
+        return new Promise<ResumeMode>((resolve: (mode: ResumeMode) => void) => {
+            this.resumeLetStepping = (mode: ResumeMode): void => {
+                this.resumeLetStepping = undefined;
+                this.currentLocation = undefined;
+                resolve(mode);
+            };
+
+            this.sendEvent(new StoppedEvent(reason, MQueryDebugSession.ThreadId));
+        });
+    }
+
+    protected override setBreakPointsRequest(
+        response: DebugProtocol.SetBreakpointsResponse,
+        args: DebugProtocol.SetBreakpointsArguments,
+    ): void {
+        const filePath: string = path.resolve(this.convertClientPathToDebugger(args.source.path ?? ""));
+
+        const clientLines: number[] =
+            args.breakpoints?.map((oneBreakpoint: DebugProtocol.SourceBreakpoint) => oneBreakpoint.line) ??
+            args.lines ??
+            [];
+
+        let letExpressions: LetExpression[] = [];
+
+        try {
+            letExpressions = findLetExpressions(fs.readFileSync(filePath, "utf8"));
+        } catch {
+            // noop, an unreadable document got no step to bind to
+        }
+
+        const verifiedLines: Set<number> = new Set<number>();
+
+        const createUnverifiedBreakpoint = (clientLine: number, message: string): DebugProtocol.Breakpoint => {
+            const unverifiedBreakpoint: DebugProtocol.Breakpoint = new Breakpoint(false, clientLine);
+            unverifiedBreakpoint.message = message;
+
+            return unverifiedBreakpoint;
+        };
+
+        response.body = {
+            breakpoints: clientLines.map((clientLine: number) => {
+                // the service host evaluates the whole program at once, it never pauses on a let step
+                if (this.useServiceHost) {
+                    return createUnverifiedBreakpoint(
+                        clientLine,
+                        extensionI18n["PQSdk.debugger.breakpoint.notWithServiceHost"],
+                    );
+                }
+
+                const line: number = this.convertClientLineToDebugger(clientLine);
+                const position: LetStepPosition | undefined = findLetStepAt(letExpressions, line);
+
+                if (!position) {
+                    return createUnverifiedBreakpoint(
+                        clientLine,
+                        extensionI18n["PQSdk.debugger.breakpoint.notOnLetStep"],
+                    );
+                }
+
+                // steps of a function body refer to its parameters, evaluating them on their own always fails
+                if (position.letExpression.isFunctionBody) {
+                    return createUnverifiedBreakpoint(
+                        clientLine,
+                        extensionI18n["PQSdk.debugger.breakpoint.inFunctionBody"],
+                    );
+                }
+
+                const step: LetStep = position.letExpression.steps[position.stepIndex];
+                verifiedLines.add(step.line);
+
+                return new Breakpoint(true, this.convertDebuggerLineToClient(step.line));
+            }),
+        };
+
+        if (verifiedLines.size > 0) {
+            this.breakpointLines.set(filePath, verifiedLines);
         } else {
-            // start the program in the runtime, do not await here
-            void this.pqTestExecutableOnceTask?.run(args.program, {
-                operation: args.operation ?? "run-test",
-                additionalArgs: args.additionalArgs,
+            this.breakpointLines.delete(filePath);
+        }
+
+        this.sendResponse(response);
+    }
+
+    protected override threadsRequest(response: DebugProtocol.ThreadsResponse): void {
+        response.body = {
+            threads: [new Thread(MQueryDebugSession.ThreadId, path.basename(this.currentProgram || "PQTest"))],
+        };
+
+        this.sendResponse(response);
+    }
+
+    protected override stackTraceRequest(
+        response: DebugProtocol.StackTraceResponse,
+        _args: DebugProtocol.StackTraceArguments,
+    ): void {
+        const location: LetStepLocation | undefined = this.currentLocation;
+
+        if (location) {
+            const step: LetStep = location.letExpression.steps[location.stepIndex];
+
+            response.body = {
+                stackFrames: [
+                    new StackFrame(
+                        0,
+                        step.name,
+                        new Source(
+                            path.basename(location.filePath),
+                            this.convertDebuggerPathToClient(location.filePath),
+                        ),
+                        this.convertDebuggerLineToClient(step.line),
+                    ),
+                ],
+                totalFrames: 1,
+            };
+        } else {
+            response.body = { stackFrames: [], totalFrames: 0 };
+        }
+
+        this.sendResponse(response);
+    }
+
+    protected override scopesRequest(
+        response: DebugProtocol.ScopesResponse,
+        _args: DebugProtocol.ScopesArguments,
+    ): void {
+        response.body = {
+            scopes: this.currentLocation
+                ? [
+                      new Scope(
+                          extensionI18n["PQSdk.debugger.scope.letSteps"],
+                          this.variableHandles.create({ kind: "steps" }),
+                          false,
+                      ),
+                  ]
+                : [],
+        };
+
+        this.sendResponse(response);
+    }
+
+    protected override async variablesRequest(
+        response: DebugProtocol.VariablesResponse,
+        args: DebugProtocol.VariablesArguments,
+    ): Promise<void> {
+        const location: LetStepLocation | undefined = this.currentLocation;
+        const container: VariableContainer | undefined = this.variableHandles.get(args.variablesReference);
+        let variables: DebugProtocol.Variable[] = [];
+
+        if (location && container) {
+            switch (container.kind) {
+                case "steps":
+                    variables = await this.createStepVariables(location);
+                    break;
+                case "step":
+                    variables = [await this.createEvaluatedStepVariable(location, container.stepIndex)];
+                    break;
+                case "value":
+                    variables = Object.entries(container.value).map(([name, value]: [string, unknown]) =>
+                        this.createValueVariable(Array.isArray(container.value) ? `[${name}]` : name, value),
+                    );
+
+                    break;
+                default:
+                    break;
+            }
+        }
+
+        response.body = { variables };
+        this.sendResponse(response);
+    }
+
+    private async createStepVariables(location: LetStepLocation): Promise<DebugProtocol.Variable[]> {
+        const variables: DebugProtocol.Variable[] = [];
+
+        // every evaluation spawns one pqtest process, thus only the current step is evaluated eagerly
+        for (let stepIndex: number = 0; stepIndex < location.stepIndex; stepIndex++) {
+            variables.push({
+                name: location.letExpression.steps[stepIndex].name,
+                value: "",
+                variablesReference: this.variableHandles.create({ kind: "step", stepIndex }),
+                presentationHint: { lazy: true },
             });
         }
 
+        variables.push(await this.createEvaluatedStepVariable(location, location.stepIndex));
+
+        return variables;
+    }
+
+    private async createEvaluatedStepVariable(
+        location: LetStepLocation,
+        stepIndex: number,
+    ): Promise<DebugProtocol.Variable> {
+        const step: LetStep = location.letExpression.steps[stepIndex];
+
+        const evaluation: LetStepEvaluation = await this.letStepEvaluator.evaluate(
+            buildLetStepQuery(location.letExpression, stepIndex),
+        );
+
+        if (evaluation.error !== undefined) {
+            return {
+                name: step.name,
+                value: resolveI18nTemplate("PQSdk.debugger.variable.error", { error: evaluation.error }),
+                variablesReference: 0,
+            };
+        }
+
+        return this.createValueVariable(step.name, evaluation.value);
+    }
+
+    private createValueVariable(name: string, value: unknown): DebugProtocol.Variable {
+        if (Array.isArray(value)) {
+            return {
+                name,
+                value: resolveI18nTemplate("PQSdk.debugger.variable.list", { count: `${value.length}` }),
+                variablesReference: value.length > 0 ? this.variableHandles.create({ kind: "value", value }) : 0,
+                indexedVariables: value.length,
+            };
+        }
+
+        if (typeof value === "object" && value !== null) {
+            return {
+                name,
+                value: `[${Object.keys(value).join(", ")}]`,
+                variablesReference: this.variableHandles.create({ kind: "value", value }),
+                namedVariables: Object.keys(value).length,
+            };
+        }
+
+        return {
+            name,
+            value: value === undefined ? "null" : JSON.stringify(value),
+            variablesReference: 0,
+        };
+    }
+
+    protected override continueRequest(
+        response: DebugProtocol.ContinueResponse,
+        _args: DebugProtocol.ContinueArguments,
+    ): void {
+        response.body = { allThreadsContinued: true };
+        this.sendResponse(response);
+        this.resumeLetStepping?.("continue");
+    }
+
+    protected override nextRequest(response: DebugProtocol.NextResponse, _args: DebugProtocol.NextArguments): void {
         this.sendResponse(response);
+        this.resumeLetStepping?.("step");
+    }
+
+    protected override stepInRequest(
+        response: DebugProtocol.StepInResponse,
+        _args: DebugProtocol.StepInArguments,
+    ): void {
+        // let steps have no frames of their own to step into
+        this.sendResponse(response);
+        this.resumeLetStepping?.("step");
+    }
+
+    protected override stepOutRequest(
+        response: DebugProtocol.StepOutResponse,
+        _args: DebugProtocol.StepOutArguments,
+    ): void {
+        this.sendResponse(response);
+        this.resumeLetStepping?.("continue");
+    }
+
+    protected override disconnectRequest(
+        response: DebugProtocol.DisconnectResponse,
+        args: DebugProtocol.DisconnectArguments,
+        request?: DebugProtocol.Request,
+    ): void {
+        this.resumeLetStepping?.("abort");
+        this.letStepEvaluator.dispose();
+        super.disconnectRequest(response, args, request);
     }
 
     private async doLaunchRequest(args: ILaunchRequestArguments): Promise<void> {
@@ -231,6 +633,12 @@ export class MQueryDebugSession extends LoggingDebugSession {
                     }
 
                     default:
+                        this.appendErrorLine(
+                            resolveI18nTemplate("PQSdk.debugger.serviceHost.unsupportedOperation", {
+                                operation: theOperation,
+                            }),
+                        );
+
                         break;
                 }
             } catch (e) {
@@ -0,0 +1,316 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+/**
+ * A coarse, dependency-free locator of let steps in M documents, good enough for stepping through a query
+ * binding by binding. It only understands tokens, brackets and the let/in keywords rather than the whole grammar.
+ */
+
+type TokenKind = "identifier" | "quotedIdentifier" | "string" | "punctuator" | "other";
+
+interface Token {
+    readonly kind: TokenKind;
+    readonly text: string;
+    readonly offset: number;
+}
+
+export interface LetStep {
+    /** the step name as written, e.g. Source or #"Changed Type" */
+    readonly name: string;
+    /** zero-based line of the step name */
+    readonly line: number;
+    /** zero-based line of the last token of the step */
+    readonly endLine: number;
+    /** the whole binding text, i.e. `name = expression` */
+    readonly text: string;
+}
+
+export interface LetExpression {
+    /** zero-based line of the let keyword */
+    readonly line: number;
+    readonly steps: ReadonlyArray<LetStep>;
+    /**
+     * whether the let expression is the body of a function, like `(url as text) => let ...` or `each let ...`,
+     * whose steps could not be evaluated on their own since they refer to its parameters
+     */
+    readonly isFunctionBody: boolean;
+}
+
+const OpeningBrackets: ReadonlySet<string> = new Set<string>(["(", "[", "{"]);
+const ClosingBrackets: ReadonlySet<string> = new Set<string>([")", "]", "}"]);
+
+function tokenize(text: string): Token[] {
+    const tokens: Token[] = [];
+    let offset: number = 0;
+
+    const readQuoted = (start: number): number => {
+        // the opening quote sits at start, a doubled quote escapes itself
+        let cursor: number = start + 1;
+
+        while (cursor < text.length) {
+            if (text[cursor] === '"') {
+                if (text[cursor + 1] === '"') {
+                    cursor += 2;
+
+                    continue;
+                }
+
+                return cursor + 1;
+            }
+
+            cursor++;
+        }
+
+        return cursor;
+    };
+
+    while (offset < text.length) {
+        const char: string = text[offset];
+
+        if (/\s/.test(char)) {
+            offset++;
+        } else if (text.startsWith("//", offset)) {
+            const lineEnd: number = text.indexOf("\n", offset);
+            offset = lineEnd === -1 ? text.length : lineEnd;
+        } else if (text.startsWith("/*", offset)) {
+            const commentEnd: number = text.indexOf("*/", offset + 2);
+            offset = commentEnd === -1 ? text.length : commentEnd + 2;
+        } else if (text.startsWith('#"', offset)) {
+            const end: number = readQuoted(offset + 1);
+            tokens.push({ kind: "quotedIdentifier", text: text.substring(offset, end), offset });
+            offset = end;
+        } else if (char === '"') {
+            const end: number = readQuoted(offset);
+            tokens.push({ kind: "string", text: text.substring(offset, end), offset });
+            offset = end;
+        } else if (/[A-Za-z_]/.test(char)) {
+            const match: RegExpMatchArray | null = text.substring(offset).match(/^[A-Za-z_][A-Za-z0-9_.]*/);
+            const identifier: string = match ? match[0] : char;
+            tokens.push({ kind: "identifier", text: identifier, offset });
+            offset += identifier.length;
+        } else if ("()[]{},;".includes(char)) {
+            tokens.push({ kind: "punctuator", text: char, offset });
+            offset++;
+        } else if (char === "=" && text[offset + 1] !== ">") {
+            tokens.push({ kind: "punctuator", text: char, offset });
+            offset++;
+        } else {
+            tokens.push({ kind: "other", text: char, offset });
+            offset++;
+        }
+    }
+
+    return tokens;
+}
+
+function createLineResolver(text: string): (offset: number) => number {
+    const lineStarts: number[] = [0];
+
+    for (let index: number = 0; index < text.length; index++) {
+        if (text[index] === "\n") {
+            lineStarts.push(index + 1);
+        }
+    }
+
+    return (offset: number): number => {
+        let low: number = 0;
+        let high: number = lineStarts.length - 1;
+
+        while (low < high) {
+            const middle: number = Math.ceil((low + high) / 2);
+
+            if (lineStarts[middle] <= offset) {
+                low = middle;
+            } else {
+                high = middle - 1;
+            }
+        }
+
+        return low;
+    };
+}
+
+function isKeyword(token: Token, keyword: string): boolean {
+    return token.kind === "identifier" && token.text === keyword;
+}
+
+// the body of a function follows `=>` or `each`, possibly wrapped in parentheses
+function isFunctionBody(tokens: ReadonlyArray<Token>, letIndex: number): boolean {
+    let previous: number = letIndex - 1;
+
+    while (previous >= 0 && tokens[previous].text === "(") {
+        previous--;
+    }
+
+    const token: Token | undefined = tokens[previous];
+    const beforeToken: Token | undefined = tokens[previous - 1];
+
+    return Boolean(
+        token &&
+            (isKeyword(token, "each") ||
+                (token.text === ">" && beforeToken?.text === "=" && beforeToken.offset === token.offset - 1)),
+    );
+}
+
+/**
+ * Locates the outermost let expressions of a document, i.e. the one of a query file or one per section member,
+ * together with their steps in declaration order. Let expressions nested inside a step belong to that step.
+ *
+ * @param text - The whole content of a .pq or .query.pq document
+ */
+export function findLetExpressions(text: string): LetExpression[] {
+    const tokens: Token[] = tokenize(text);
+    const lineOf: (offset: number) => number = createLineResolver(text);
+    const result: LetExpression[] = [];
+    let cursor: number = 0;
+
+    while (cursor < tokens.length) {
+        if (!isKeyword(tokens[cursor], "let")) {
+            cursor++;
+
+            continue;
+        }
+
+        const letToken: Token = tokens[cursor];
+        const steps: LetStep[] = [];
+        let bracketDepth: number = 0;
+        let nestedLets: number = 0;
+        let stepStart: number = cursor + 1;
+        let index: number = cursor + 1;
+        let closed: boolean = false;
+
+        const pushStep = (endIndex: number): void => {
+            // a binding looks like `name = expression`, anything else is not a step we could evaluate
+            const nameToken: Token | undefined = tokens[stepStart];
+            const equalToken: Token | undefined = tokens[stepStart + 1];
+
+            if (
+                endIndex > stepStart + 1 &&
+                nameToken &&
+                (nameToken.kind === "identifier" || nameToken.kind === "quotedIdentifier") &&
+                equalToken?.text === "="
+            ) {
+                const lastToken: Token = tokens[endIndex - 1];
+
+                steps.push({
+                    name: nameToken.text,
+                    line: lineOf(nameToken.offset),
+                    endLine: lineOf(lastToken.offset),
+                    text: text.substring(nameToken.offset, lastToken.offset + lastToken.text.length),
+                });
+            }
+        };
+
+        for (; index < tokens.length; index++) {
+            const token: Token = tokens[index];
+
+            if (token.kind === "punctuator" && OpeningBrackets.has(token.text)) {
+                bracketDepth++;
+            } else if (token.kind === "punctuator" && ClosingBrackets.has(token.text)) {
+                bracketDepth--;
+            } else if (isKeyword(token, "let")) {
+                nestedLets++;
+            } else if (isKeyword(token, "in")) {
+                if (nestedLets > 0) {
+                    nestedLets--;
+                } else if (bracketDepth === 0) {
+                    pushStep(index);
+                    closed = true;
+                    break;
+                }
+            } else if (token.text === "," && bracketDepth === 0 && nestedLets === 0) {
+                pushStep(index);
+                stepStart = index + 1;
+            }
+        }
+
+        if (closed && steps.length > 0) {
+            result.push({ line: lineOf(letToken.offset), steps, isFunctionBody: isFunctionBody(tokens, cursor) });
+        }
+
+        cursor = index + 1;
+    }
+
+    return result;
+}
+
+/**
+ * Builds a query which evaluates the given step, carrying over all the steps declared before it.
+ *
+ * @param letExpression - The let expression owning the step
+ * @param stepIndex - Index of the step within letExpression.steps
+ */
+export function buildLetStepQuery(letExpression: LetExpression, stepIndex: number): string {
+    const steps: ReadonlyArray<LetStep> = letExpression.steps.slice(0, stepIndex + 1);
+
+    return [
+        "let",
+        steps.map((step: LetStep) => `    ${step.text}`).join(",\n"),
+        "in",
+        `    ${steps[steps.length - 1].name}`,
+    ].join("\n");
+}
+
+export interface LetStepPosition {
+    readonly letExpression: LetExpression;
+    readonly stepIndex: number;
+}
+
+/**
+ * Finds the step spanning the given line.
+ *
+ * @param letExpressions - The let expressions of a document, see findLetExpressions
+ * @param line - Zero-based line within the document
+ */
+export function findLetStepAt(letExpressions: ReadonlyArray<LetExpression>, line: number): LetStepPosition | undefined {
+    for (const letExpression of letExpressions) {
+        const stepIndex: number = letExpression.steps.findIndex(
+            (step: LetStep) => step.line <= line && line <= step.endLine,
+        );
+
+        if (stepIndex !== -1) {
+            return { letExpression, stepIndex };
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Builds a query which evaluates an arbitrary expression, e.g. a selection.
+ * When the expression sits inside a let step, the steps declared before it are carried over so that it could refer
+ * to them; selecting a whole step evaluates that very step.
+ *
+ * @param expression - The expression to be evaluated
+ * @param enclosingStep - The step enclosing the expression, if any
+ */
+export function buildExpressionQuery(expression: string, enclosingStep?: LetStepPosition): string {
+    // selections often grab the comma separating steps as well
+    const trimmedExpression: string = expression.trim().replace(/,$/, "").trimEnd();
+
+    if (!enclosingStep) {
+        return trimmedExpression;
+    }
+
+    const { letExpression, stepIndex }: LetStepPosition = enclosingStep;
+
+    if (letExpression.steps[stepIndex].text === trimmedExpression) {
+        return buildLetStepQuery(letExpression, stepIndex);
+    }
+
+    const resultName: string = '#"Evaluated Expression"';
+
+    return [
+        "let",
+        [
+            ...letExpression.steps.slice(0, stepIndex).map((step: LetStep) => `    ${step.text}`),
+            `    ${resultName} = ${trimmedExpression}`,
+        ].join(",\n"),
+        "in",
+        `    ${resultName}`,
+    ].join("\n");
+}
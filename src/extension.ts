@@ -5,6 +5,7 @@
  * LICENSE file in the root of this projects source tree.
  */
 
+import * as path from "path";
 import * as vscode from "vscode";
 
 import { LifecycleCommands } from "./commands/LifecycleCommands";
@@ -16,16 +17,33 @@ import * as PQLSExt from "./common/vscode-powerquery.api.d";
 import { ExtensionConfigurations } from "./constants/PowerQuerySdkConfiguration";
 import { ExtensionConstants } from "./constants/PowerQuerySdkExtension";
 import { activateMQueryDebug } from "./debugAdaptor/activateMQueryDebug";
+import { ConnectorProjectTreeView } from "./features/ConnectorProjectTreeView";
+import { ConnectorReadinessLinter } from "./features/ConnectorReadinessLinter";
+import { CredentialProfileSwitcher } from "./features/CredentialProfileSwitcher";
+import { CredentialTreeView } from "./features/CredentialTreeView";
+import { LetStepCodeLensProvider } from "./features/LetStepCodeLensProvider";
 import { LifeCycleTaskTreeView } from "./features/LifeCycleTaskTreeView";
+import { MashupTraceTreeView } from "./features/MashupTraceTreeView";
 import { PowerQueryTaskProvider } from "./features/PowerQueryTaskProvider";
 import { PqSdkOutputChannel } from "./features/PqSdkOutputChannel";
+import { ToolchainHealthTreeView } from "./features/ToolchainHealthTreeView";
 import { GlobalEventBus } from "./GlobalEventBus";
 import { PqTestResultViewPanel } from "./panels/PqTestResultViewPanel";
 import { PqServiceHostClient } from "./pqTestConnector/PqServiceHostClient";
 import { PqTestExecutableTaskQueue } from "./pqTestConnector/PqTestExecutableTaskQueue";
+import { TestHistoryRecorder } from "./testing/pqtest-adapter/helpers/TestHistoryRecorder";
 import { registerCommands, registerTestController } from "./testing/pqtest-adapter/TestController";
 import { stringifyJson } from "./utils/strings";
-import { getFirstWorkspaceFolder, maybeHandleNewWorkspaceCreated } from "./utils/vscodes";
+import { getCurrentWorkspaceFolder, getWorkspaceFolderOf, maybeHandleNewWorkspaceCreated } from "./utils/vscodes";
+
+// extension infos come from the mez of the current connector project, unless their source tells otherwise
+function getWorkspaceFolderOfExtensionInfos(infos: ExtensionInfo[]): vscode.WorkspaceFolder | undefined {
+    const source: string | undefined = infos.find(
+        (oneInfo: ExtensionInfo) => typeof oneInfo.Source === "string" && path.isAbsolute(oneInfo.Source),
+    )?.Source;
+
+    return (source ? getWorkspaceFolderOf(source) : undefined) ?? getCurrentWorkspaceFolder();
+}
 
 export function activate(vscExtCtx: vscode.ExtensionContext): void {
     const vscPowerQuery: PQLSExt.PowerQueryApi = vscode.extensions.getExtension(
@@ -65,7 +83,8 @@ export function activate(vscExtCtx: vscode.ExtensionContext): void {
         : new PqTestExecutableTaskQueue(vscExtCtx, globalEventBus, pqSdkOutputChannel);
 
     disposablePqTestServices.currentExtensionInfos.subscribe((infos: ExtensionInfo[]) => {
-        const theUri: vscode.Uri | undefined = getFirstWorkspaceFolder()?.uri;
+        // each workspace folder got a library of its own connector project
+        const theUri: vscode.Uri | undefined = getWorkspaceFolderOfExtensionInfos(infos)?.uri;
 
         if (theUri) {
             const libraryExports: PQLSExt.LibraryJson = convertExtensionInfoToLibraryJson(infos);
@@ -99,9 +118,68 @@ export function activate(vscExtCtx: vscode.ExtensionContext): void {
         treeDataProvider: lifeCycleTaskTreeViewDataProvider,
     });
 
-    // Register test adapter
-    const testController: vscode.TestController = registerTestController(vscExtCtx, pqSdkOutputChannel);
-    registerCommands(vscExtCtx, testController, pqSdkOutputChannel);
+    const connectorProjectTreeViewDataProvider: ConnectorProjectTreeView = new ConnectorProjectTreeView(globalEventBus);
+
+    const connectorProjectTreeView: IDisposable = vscode.window.createTreeView(ConnectorProjectTreeView.TreeViewName, {
+        treeDataProvider: connectorProjectTreeViewDataProvider,
+    });
+
+    const credentialTreeViewDataProvider: CredentialTreeView = new CredentialTreeView(
+        disposablePqTestServices,
+        pqSdkOutputChannel,
+    );
+
+    const credentialTreeView: IDisposable = vscode.window.createTreeView(CredentialTreeView.TreeViewName, {
+        treeDataProvider: credentialTreeViewDataProvider,
+    });
+
+    const credentialProfileSwitcher: CredentialProfileSwitcher = new CredentialProfileSwitcher(
+        vscExtCtx,
+        disposablePqTestServices,
+        pqSdkOutputChannel,
+    );
+
+    const toolchainHealthTreeViewDataProvider: ToolchainHealthTreeView = new ToolchainHealthTreeView(
+        globalEventBus,
+        disposablePqTestServices,
+    );
+
+    const toolchainHealthTreeView: IDisposable = vscode.window.createTreeView(ToolchainHealthTreeView.TreeViewName, {
+        treeDataProvider: toolchainHealthTreeViewDataProvider,
+    });
+
+    const mashupTraceTreeViewDataProvider: MashupTraceTreeView = new MashupTraceTreeView();
+
+    const mashupTraceTreeView: IDisposable = vscode.window.createTreeView(MashupTraceTreeView.TreeViewName, {
+        treeDataProvider: mashupTraceTreeViewDataProvider,
+    });
+
+    const openMashupTracesCommand: IDisposable = vscode.commands.registerCommand(
+        MashupTraceTreeView.OpenMashupTracesCommand,
+        (target?: vscode.Uri | vscode.Uri[] | string[] | vscode.TestItem) =>
+            mashupTraceTreeViewDataProvider.open(target),
+    );
+
+    const letStepCodeLensProvider: IDisposable = vscode.languages.registerCodeLensProvider(
+        { language: ExtensionConstants.PQLanguageId },
+        new LetStepCodeLensProvider(),
+    );
+
+    const connectorReadinessLinter: ConnectorReadinessLinter = new ConnectorReadinessLinter(
+        disposablePqTestServices,
+        pqSdkOutputChannel,
+    );
+
+    const connectorReadinessCodeActionProvider: IDisposable = vscode.languages.registerCodeActionsProvider(
+        { language: ExtensionConstants.PQLanguageId, scheme: "file" },
+        connectorReadinessLinter,
+        { providedCodeActionKinds: ConnectorReadinessLinter.ProvidedCodeActionKinds },
+    );
+
+    // Register test adapter, whose runs and commands share one history of test results
+    const testHistory: TestHistoryRecorder = new TestHistoryRecorder(vscExtCtx.workspaceState);
+    const testController: vscode.TestController = registerTestController(vscExtCtx, pqSdkOutputChannel, testHistory);
+    registerCommands(vscExtCtx, testController, pqSdkOutputChannel, testHistory);
 
     vscExtCtx.subscriptions.push(
         ...[
@@ -112,6 +190,18 @@ export function activate(vscExtCtx: vscode.ExtensionContext): void {
             pqTaskProvider,
             lifecycleCommands,
             lifeCycleTaskTreeView,
+            connectorProjectTreeViewDataProvider,
+            connectorProjectTreeView,
+            credentialTreeViewDataProvider,
+            credentialTreeView,
+            credentialProfileSwitcher,
+            toolchainHealthTreeViewDataProvider,
+            toolchainHealthTreeView,
+            mashupTraceTreeView,
+            openMashupTracesCommand,
+            letStepCodeLensProvider,
+            connectorReadinessLinter,
+            connectorReadinessCodeActionProvider,
         ].reverse(),
     );
 
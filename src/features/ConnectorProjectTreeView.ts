@@ -0,0 +1,341 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+import { Event, EventEmitter, ThemeIcon, TreeDataProvider, TreeItem, TreeItemCollapsibleState } from "vscode";
+
+import { LifecycleCommands } from "../commands/LifecycleCommands";
+import { IDisposable } from "../common/Disposable";
+import { GlobalEventBus, GlobalEvents } from "../GlobalEventBus";
+import { extensionI18n, resolveI18nTemplate } from "../i18n/extension";
+import {
+    ConnectorProject,
+    connectorProjectFileGlob,
+    getPrimaryMezFile,
+    getPrimaryQueryFile,
+} from "../utils/connectorProjects";
+import { debounce } from "../utils/debounce";
+import { findConnectorProjectsBeneathTheWorkspace } from "../utils/vscodes";
+
+const TreeViewPrefix: string = `powerquery.sdk.tools`;
+
+type ConnectorProjectFileGroup = "resources" | "icons" | "queries" | "testSettings" | "output";
+
+interface ConnectorProjectEntry {
+    workspaceFolder: vscode.WorkspaceFolder;
+    project: ConnectorProject;
+}
+
+export type ConnectorProjectNode =
+    | { kind: "project"; entry: ConnectorProjectEntry }
+    | { kind: "group"; entry: ConnectorProjectEntry; group: ConnectorProjectFileGroup; files: string[] }
+    | { kind: "file"; entry: ConnectorProjectEntry; relativePath: string; contextValue: string };
+
+const fileGroupIcons: Record<ConnectorProjectFileGroup, string> = {
+    resources: "symbol-string",
+    icons: "file-media",
+    queries: "beaker",
+    testSettings: "settings",
+    output: "package",
+};
+
+// context values of the files of each group, which tell the actions of their nodes
+const fileKindsOfGroups: Record<ConnectorProjectFileGroup, string> = {
+    resources: "resources",
+    icons: "icon",
+    queries: "queryFile",
+    testSettings: "testSettings",
+    output: "mez",
+};
+
+function toUri(entry: ConnectorProjectEntry, relativePath: string): vscode.Uri {
+    return vscode.Uri.joinPath(entry.workspaceFolder.uri, ...relativePath.split("/"));
+}
+
+/**
+ * Shows the connector projects of every workspace folder, i.e. their section, project, resource, icon,
+ * query and test settings files along with their built .mez, and offers actions upon each of them.
+ */
+export class ConnectorProjectTreeView implements TreeDataProvider<ConnectorProjectNode>, IDisposable {
+    public static TreeViewName: string = `${TreeViewPrefix}.ConnectorProjectTreeView`;
+    public static HasConnectorProjectsContextKey: string = `${TreeViewPrefix}.hasConnectorProjects`;
+    public static RefreshCommand: string = `${TreeViewPrefix}.ConnectorProjectTreeView.RefreshCommand`;
+    public static BuildCommand: string = `${TreeViewPrefix}.ConnectorProjectTreeView.BuildCommand`;
+    public static EvaluateCommand: string = `${TreeViewPrefix}.ConnectorProjectTreeView.EvaluateCommand`;
+    public static TestConnectionCommand: string = `${TreeViewPrefix}.ConnectorProjectTreeView.TestConnectionCommand`;
+    public static OpenSettingsCommand: string = `${TreeViewPrefix}.ConnectorProjectTreeView.OpenSettingsCommand`;
+    public static RevealOutputCommand: string = `${TreeViewPrefix}.ConnectorProjectTreeView.RevealOutputCommand`;
+
+    private entries: ConnectorProjectEntry[] = [];
+    private readonly _disposables: vscode.Disposable[] = [];
+
+    private _onDidChangeTreeData: EventEmitter<ConnectorProjectNode | undefined> = new EventEmitter();
+    get onDidChangeTreeData(): Event<void | ConnectorProjectNode | undefined | null> {
+        return this._onDidChangeTreeData.event;
+    }
+
+    constructor(globalEventBus: GlobalEventBus) {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        globalEventBus.on(GlobalEvents.workspaces.filesChangedAtWorkspace, (_args: any[]) => {
+            this.debouncedRefresh();
+        });
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        globalEventBus.on(GlobalEvents.VSCodeEvents.onDidChangeWorkspaceFolders, (_args: any[]) => {
+            this.debouncedRefresh();
+        });
+
+        // connector files might be created, built or removed anywhere beneath the workspace folders
+        const connectorProjectFileWatcher: vscode.FileSystemWatcher =
+            vscode.workspace.createFileSystemWatcher(connectorProjectFileGlob);
+
+        connectorProjectFileWatcher.onDidCreate(() => this.debouncedRefresh());
+        connectorProjectFileWatcher.onDidDelete(() => this.debouncedRefresh());
+        this._disposables.push(connectorProjectFileWatcher);
+
+        this._disposables.push(
+            vscode.commands.registerCommand(ConnectorProjectTreeView.RefreshCommand, () => this.refresh()),
+            vscode.commands.registerCommand(ConnectorProjectTreeView.BuildCommand, (node?: ConnectorProjectNode) =>
+                this.runProjectCommand(node, LifecycleCommands.BuildProjectCommand),
+            ),
+            vscode.commands.registerCommand(
+                ConnectorProjectTreeView.TestConnectionCommand,
+                (node?: ConnectorProjectNode) => this.runProjectCommand(node, LifecycleCommands.TestConnectionCommand),
+            ),
+            vscode.commands.registerCommand(ConnectorProjectTreeView.EvaluateCommand, (node?: ConnectorProjectNode) =>
+                this.evaluate(node),
+            ),
+            vscode.commands.registerCommand(
+                ConnectorProjectTreeView.OpenSettingsCommand,
+                (node?: ConnectorProjectNode) => this.openSettings(node),
+            ),
+            vscode.commands.registerCommand(
+                ConnectorProjectTreeView.RevealOutputCommand,
+                (node?: ConnectorProjectNode) => this.revealOutput(node),
+            ),
+        );
+
+        this.refresh();
+    }
+
+    public dispose(): void {
+        for (const oneDisposable of this._disposables) {
+            oneDisposable.dispose();
+        }
+
+        this._onDidChangeTreeData.dispose();
+    }
+
+    public refresh(): void {
+        void this.loadEntries().then((entries: ConnectorProjectEntry[]) => {
+            this.entries = entries;
+
+            void vscode.commands.executeCommand(
+                "setContext",
+                ConnectorProjectTreeView.HasConnectorProjectsContextKey,
+                entries.length > 0,
+            );
+
+            this._onDidChangeTreeData.fire(undefined);
+        });
+    }
+
+    public debouncedRefresh: () => void = debounce(this.refresh.bind(this), 1e3).bind(this);
+
+    private async loadEntries(): Promise<ConnectorProjectEntry[]> {
+        const entriesOfFolders: ConnectorProjectEntry[][] = await Promise.all(
+            (vscode.workspace.workspaceFolders ?? []).map(async (workspaceFolder: vscode.WorkspaceFolder) =>
+                (await findConnectorProjectsBeneathTheWorkspace(workspaceFolder)).map((project: ConnectorProject) => ({
+                    workspaceFolder,
+                    project,
+                })),
+            ),
+        );
+
+        return entriesOfFolders.flat();
+    }
+
+    // the commands work on the current workspace folder, thus bring up a file of the project before invoking them
+    private async activateProject(entry: ConnectorProjectEntry, relativePath?: string): Promise<void> {
+        const fileToShow: string | undefined =
+            relativePath ?? entry.project.sectionFile ?? getPrimaryQueryFile(entry.project);
+
+        if (fileToShow) {
+            await vscode.window.showTextDocument(toUri(entry, fileToShow), {
+                preview: true,
+                preserveFocus: true,
+            });
+        }
+    }
+
+    private async runProjectCommand(node: ConnectorProjectNode | undefined, command: string): Promise<void> {
+        if (node) {
+            await this.activateProject(node.entry);
+        }
+
+        await vscode.commands.executeCommand(command);
+    }
+
+    private async evaluate(node: ConnectorProjectNode | undefined): Promise<void> {
+        if (!node) {
+            await vscode.commands.executeCommand(LifecycleCommands.RunTestBatteryCommand);
+
+            return;
+        }
+
+        const queryFile: string | undefined =
+            node.kind === "file" ? node.relativePath : getPrimaryQueryFile(node.entry.project);
+
+        if (!queryFile) {
+            void vscode.window.showInformationMessage(
+                resolveI18nTemplate("PQSdk.connectorProjectTreeView.noQueryFile", { name: node.entry.project.name }),
+            );
+
+            return;
+        }
+
+        await this.activateProject(node.entry, queryFile);
+        await vscode.commands.executeCommand(LifecycleCommands.RunTestBatteryCommand, toUri(node.entry, queryFile));
+    }
+
+    private async openSettings(node: ConnectorProjectNode | undefined): Promise<void> {
+        const workspaceFolder: vscode.WorkspaceFolder | undefined =
+            node?.entry.workspaceFolder ?? vscode.workspace.workspaceFolders?.[0];
+
+        const settingsPath: string | undefined = workspaceFolder
+            ? path.join(workspaceFolder.uri.fsPath, ".vscode", "settings.json")
+            : undefined;
+
+        if (settingsPath && fs.existsSync(settingsPath)) {
+            await vscode.commands.executeCommand("vscode.open", vscode.Uri.file(settingsPath));
+        } else {
+            await vscode.commands.executeCommand("workbench.action.openFolderSettings");
+        }
+    }
+
+    private async revealOutput(node: ConnectorProjectNode | undefined): Promise<void> {
+        if (!node) {
+            return;
+        }
+
+        const mezFile: string | undefined =
+            node.kind === "file" ? node.relativePath : getPrimaryMezFile(node.entry.project);
+
+        if (mezFile) {
+            await vscode.commands.executeCommand("revealFileInOS", toUri(node.entry, mezFile));
+        } else {
+            void vscode.window.showInformationMessage(
+                resolveI18nTemplate("PQSdk.connectorProjectTreeView.notBuiltYet", { name: node.entry.project.name }),
+            );
+        }
+    }
+
+    getChildren(element?: ConnectorProjectNode): ConnectorProjectNode[] {
+        if (!element) {
+            return this.entries.map((entry: ConnectorProjectEntry) => ({ kind: "project", entry }));
+        }
+
+        switch (element.kind) {
+            case "project": {
+                const project: ConnectorProject = element.entry.project;
+                const result: ConnectorProjectNode[] = [];
+
+                if (project.sectionFile) {
+                    result.push(this.createFileNode(element.entry, project.sectionFile, "sectionFile"));
+                }
+
+                if (project.projectFile) {
+                    result.push(this.createFileNode(element.entry, project.projectFile, "projectFile"));
+                }
+
+                const groups: Array<[ConnectorProjectFileGroup, string[]]> = [
+                    ["queries", project.queryFiles],
+                    ["testSettings", project.testSettingsFiles],
+                    ["resources", project.resourceFiles],
+                    ["icons", project.iconFiles],
+                    ["output", project.mezFiles],
+                ];
+
+                for (const [group, files] of groups) {
+                    if (files.length) {
+                        result.push({ kind: "group", entry: element.entry, group, files });
+                    }
+                }
+
+                return result;
+            }
+
+            case "group":
+                return element.files.map((relativePath: string) =>
+                    this.createFileNode(element.entry, relativePath, fileKindsOfGroups[element.group]),
+                );
+            case "file":
+            default:
+                return [];
+        }
+    }
+
+    private createFileNode(entry: ConnectorProjectEntry, relativePath: string, fileKind: string): ConnectorProjectNode {
+        return { kind: "file", entry, relativePath, contextValue: `connectorProjectFile.${fileKind}` };
+    }
+
+    getTreeItem(element: ConnectorProjectNode): TreeItem {
+        switch (element.kind) {
+            case "project":
+                return this.createProjectItem(element.entry);
+
+            case "group": {
+                const item: TreeItem = new TreeItem(
+                    extensionI18n[`PQSdk.connectorProjectTreeView.group.${element.group}`],
+                    TreeItemCollapsibleState.Collapsed,
+                );
+
+                item.description = String(element.files.length);
+                item.iconPath = new ThemeIcon(fileGroupIcons[element.group]);
+
+                return item;
+            }
+
+            case "file":
+            default:
+                return this.createFileItem(element.entry, element.relativePath, element.contextValue);
+        }
+    }
+
+    private createProjectItem(entry: ConnectorProjectEntry): TreeItem {
+        const item: TreeItem = new TreeItem(entry.project.name, TreeItemCollapsibleState.Expanded);
+        const isMultiRoot: boolean = (vscode.workspace.workspaceFolders?.length ?? 0) > 1;
+
+        item.description = [isMultiRoot ? entry.workspaceFolder.name : "", entry.project.rootPath]
+            .filter(Boolean)
+            .join("/");
+
+        item.tooltip = toUri(entry, entry.project.rootPath || ".").fsPath;
+        item.iconPath = new ThemeIcon(entry.project.mezFiles.length ? "package" : "circle-large-outline");
+        item.contextValue = "connectorProject";
+
+        return item;
+    }
+
+    private createFileItem(entry: ConnectorProjectEntry, relativePath: string, contextValue: string): TreeItem {
+        const fileUri: vscode.Uri = toUri(entry, relativePath);
+        const item: TreeItem = new TreeItem(fileUri, TreeItemCollapsibleState.None);
+
+        item.description = path.posix.dirname(relativePath) === "." ? "" : path.posix.dirname(relativePath);
+        item.contextValue = contextValue;
+
+        item.command = {
+            title: extensionI18n["PQSdk.connectorProjectTreeView.openFile"],
+            command: "vscode.open",
+            arguments: [fileUri],
+        };
+
+        return item;
+    }
+}
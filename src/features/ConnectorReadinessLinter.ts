@@ -0,0 +1,416 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+
+import { IDisposable } from "../common/Disposable";
+import { ExtensionInfo, IPQTestService } from "../common/PQTestService";
+import { extensionI18n, ExtensionI18nKeys, resolveI18nTemplate } from "../i18n/extension";
+import { addResourceStrings } from "../utils/connectorAuthentication";
+import { classifyConnectorProjectFile, ConnectorProject, findConnectorProjectOf } from "../utils/connectorProjects";
+import {
+    getLineOfOffset,
+    groupIssuesByCheck,
+    lintConnector,
+    parseResourceNames,
+    ReadinessCheck,
+    ReadinessFix,
+    ReadinessIssue,
+    ReadinessRule,
+} from "../utils/connectorReadiness";
+import { debounce } from "../utils/debounce";
+import { TextReplacement } from "../utils/mSections";
+import {
+    findConnectorProjectsBeneathTheWorkspace,
+    findCurrentConnectorProject,
+    getCurrentWorkspaceFolder,
+    getWorkspaceFolderOf,
+} from "../utils/vscodes";
+import { PqSdkOutputChannel } from "./PqSdkOutputChannel";
+
+const CommandPrefix: string = `powerquery.sdk.tools`;
+const DiagnosticSource: string = "Power Query SDK";
+
+interface LintedDocument {
+    issues: ReadinessIssue[];
+    // the resources.resx quick fixes add strings to
+    resourcesUri?: vscode.Uri;
+}
+
+const ruleMessageKeys: Record<ReadinessRule, ExtensionI18nKeys> = {
+    missingVersion: "PQSdk.readiness.rule.missingVersion",
+    invalidVersion: "PQSdk.readiness.rule.invalidVersion",
+    missingPublishAttribute: "PQSdk.readiness.rule.missingPublishAttribute",
+    missingPublishRecord: "PQSdk.readiness.rule.missingPublishRecord",
+    missingPublishField: "PQSdk.readiness.rule.missingPublishField",
+    missingLearnMoreUrl: "PQSdk.readiness.rule.missingLearnMoreUrl",
+    missingIconsRecord: "PQSdk.readiness.rule.missingIconsRecord",
+    missingIconSize: "PQSdk.readiness.rule.missingIconSize",
+    missingIconFile: "PQSdk.readiness.rule.missingIconFile",
+    missingDataSourceKindRecord: "PQSdk.readiness.rule.missingDataSourceKindRecord",
+    missingTestConnection: "PQSdk.readiness.rule.missingTestConnection",
+    missingAuthentication: "PQSdk.readiness.rule.missingAuthentication",
+    missingResourcesFile: "PQSdk.readiness.rule.missingResourcesFile",
+    missingResourceString: "PQSdk.readiness.rule.missingResourceString",
+    extensionInfoError: "PQSdk.readiness.rule.extensionInfoError",
+};
+
+const checkTitleKeys: Record<ReadinessCheck, ExtensionI18nKeys> = {
+    version: "PQSdk.readiness.check.version",
+    publish: "PQSdk.readiness.check.publish",
+    learnMoreUrl: "PQSdk.readiness.check.learnMoreUrl",
+    icons: "PQSdk.readiness.check.icons",
+    testConnection: "PQSdk.readiness.check.testConnection",
+    authentication: "PQSdk.readiness.check.authentication",
+    resourceStrings: "PQSdk.readiness.check.resourceStrings",
+    extensionInfo: "PQSdk.readiness.check.extensionInfo",
+};
+
+function describeIssue(issue: ReadinessIssue): string {
+    return resolveI18nTemplate(ruleMessageKeys[issue.rule], issue.data);
+}
+
+function describeSeverity(issue: ReadinessIssue): string {
+    return issue.severity === "error"
+        ? extensionI18n["PQSdk.readiness.severity.error"]
+        : extensionI18n["PQSdk.readiness.severity.warning"];
+}
+
+function toRange(document: vscode.TextDocument, offset: number, length: number): vscode.Range {
+    return new vscode.Range(document.positionAt(offset), document.positionAt(offset + length));
+}
+
+// files of the project relative to its root, where the connector refers to them via Extension.Contents
+function listProjectFiles(project: ConnectorProject): string[] {
+    return [
+        project.projectFile,
+        ...project.resourceFiles,
+        ...project.iconFiles,
+        ...project.queryFiles,
+        ...project.testSettingsFiles,
+    ]
+        .filter((oneFile: string | undefined): oneFile is string => Boolean(oneFile))
+        .map((oneFile: string) => (project.rootPath ? oneFile.substring(project.rootPath.length + 1) : oneFile));
+}
+
+/**
+ * Lints the section files of connector projects against the certification checklist: it reports what is missing as
+ * diagnostics offering quick fixes, and writes a readiness report to attach to a certification request.
+ */
+export class ConnectorReadinessLinter implements vscode.CodeActionProvider, IDisposable {
+    public static LintConnectorCommand: string = `${CommandPrefix}.LintConnectorCommand`;
+    public static ProvidedCodeActionKinds: vscode.CodeActionKind[] = [vscode.CodeActionKind.QuickFix];
+
+    private readonly diagnosticCollection: vscode.DiagnosticCollection =
+        vscode.languages.createDiagnosticCollection("powerquery-sdk-readiness");
+
+    private readonly lintedDocuments: Map<string, LintedDocument> = new Map();
+    private readonly _disposables: vscode.Disposable[] = [];
+
+    private readonly debouncedLintDocument: (document: vscode.TextDocument) => void = debounce(
+        (document: vscode.TextDocument) => void this.lintDocument(document),
+        500,
+    );
+
+    constructor(
+        private readonly pqTestService: IPQTestService,
+        private readonly outputChannel: PqSdkOutputChannel,
+    ) {
+        this.onExtensionInfosChanged = this.onExtensionInfosChanged.bind(this);
+        this.pqTestService.currentExtensionInfos.subscribe(this.onExtensionInfosChanged);
+
+        this._disposables.push(
+            this.diagnosticCollection,
+            vscode.workspace.onDidOpenTextDocument((document: vscode.TextDocument) => void this.lintDocument(document)),
+            vscode.workspace.onDidSaveTextDocument((document: vscode.TextDocument) => void this.lintDocument(document)),
+            vscode.workspace.onDidChangeTextDocument((event: vscode.TextDocumentChangeEvent) =>
+                this.debouncedLintDocument(event.document),
+            ),
+            vscode.workspace.onDidCloseTextDocument((document: vscode.TextDocument) => {
+                this.lintedDocuments.delete(document.uri.toString());
+                this.diagnosticCollection.delete(document.uri);
+            }),
+            vscode.commands.registerCommand(ConnectorReadinessLinter.LintConnectorCommand, () =>
+                this.writeReadinessReport(),
+            ),
+        );
+
+        vscode.workspace.textDocuments.forEach((document: vscode.TextDocument) => void this.lintDocument(document));
+    }
+
+    public dispose(): void {
+        this.pqTestService.currentExtensionInfos.unsubscribe(this.onExtensionInfosChanged);
+
+        for (const oneDisposable of this._disposables) {
+            oneDisposable.dispose();
+        }
+
+        this.lintedDocuments.clear();
+    }
+
+    public async provideCodeActions(
+        document: vscode.TextDocument,
+        _range: vscode.Range | vscode.Selection,
+        context: vscode.CodeActionContext,
+    ): Promise<vscode.CodeAction[]> {
+        const lintedDocument: LintedDocument | undefined = this.lintedDocuments.get(document.uri.toString());
+        const codeActions: vscode.CodeAction[] = [];
+
+        if (!lintedDocument) {
+            return codeActions;
+        }
+
+        for (const diagnostic of context.diagnostics) {
+            if (diagnostic.source !== DiagnosticSource) {
+                continue;
+            }
+
+            const issue: ReadinessIssue | undefined = lintedDocument.issues.find(
+                (oneIssue: ReadinessIssue) =>
+                    oneIssue.fix &&
+                    oneIssue.rule === diagnostic.code &&
+                    oneIssue.offset === document.offsetAt(diagnostic.range.start) &&
+                    describeIssue(oneIssue) === diagnostic.message,
+            );
+
+            if (issue?.fix) {
+                const codeAction: vscode.CodeAction = new vscode.CodeAction(
+                    resolveI18nTemplate("PQSdk.readiness.fix.title", { message: diagnostic.message }),
+                    vscode.CodeActionKind.QuickFix,
+                );
+
+                codeAction.diagnostics = [diagnostic];
+                codeAction.isPreferred = true;
+
+                // eslint-disable-next-line no-await-in-loop
+                codeAction.edit = await this.createWorkspaceEdit(document, issue.fix, lintedDocument.resourcesUri);
+
+                codeActions.push(codeAction);
+            }
+        }
+
+        return codeActions;
+    }
+
+    private onExtensionInfosChanged(): void {
+        vscode.workspace.textDocuments.forEach((document: vscode.TextDocument) => void this.lintDocument(document));
+    }
+
+    private async createWorkspaceEdit(
+        document: vscode.TextDocument,
+        fix: ReadinessFix,
+        resourcesUri: vscode.Uri | undefined,
+    ): Promise<vscode.WorkspaceEdit> {
+        const workspaceEdit: vscode.WorkspaceEdit = new vscode.WorkspaceEdit();
+
+        fix.replacements.forEach((oneReplacement: TextReplacement) =>
+            workspaceEdit.replace(
+                document.uri,
+                toRange(document, oneReplacement.offset, oneReplacement.length),
+                oneReplacement.text,
+            ),
+        );
+
+        if (resourcesUri && Object.keys(fix.resources).length) {
+            const resourcesDocument: vscode.TextDocument = await vscode.workspace.openTextDocument(resourcesUri);
+
+            workspaceEdit.replace(
+                resourcesUri,
+                toRange(resourcesDocument, 0, resourcesDocument.getText().length),
+                addResourceStrings(resourcesDocument.getText(), fix.resources),
+            );
+        }
+
+        return workspaceEdit;
+    }
+
+    /**
+     * Lints a document if it is the section file of a connector project, and refreshes its diagnostics.
+     *
+     * @param extensionInfos - The infos of the built connector, or else the cached ones of the current workspace folder
+     * @returns The issues found, or undefined for documents which are not section files
+     */
+    private async lintDocument(
+        document: vscode.TextDocument,
+        extensionInfos?: ExtensionInfo[],
+    ): Promise<ReadinessIssue[] | undefined> {
+        const workspaceFolder: vscode.WorkspaceFolder | undefined =
+            document.uri.scheme === "file" ? getWorkspaceFolderOf(document.uri) : undefined;
+
+        if (!workspaceFolder) {
+            return undefined;
+        }
+
+        const relativePath: string = path.relative(workspaceFolder.uri.fsPath, document.uri.fsPath).replace(/\\/g, "/");
+
+        if (classifyConnectorProjectFile(relativePath) !== "sectionFile") {
+            return undefined;
+        }
+
+        const project: ConnectorProject | undefined = findConnectorProjectOf(
+            await findConnectorProjectsBeneathTheWorkspace(workspaceFolder),
+            relativePath,
+        );
+
+        if (project?.sectionFile !== relativePath) {
+            return undefined;
+        }
+
+        const resourcesUri: vscode.Uri | undefined = project.resourceFiles[0]
+            ? vscode.Uri.joinPath(workspaceFolder.uri, ...project.resourceFiles[0].split("/"))
+            : undefined;
+
+        const resourceNames: string[] | undefined = resourcesUri
+            ? parseResourceNames((await vscode.workspace.openTextDocument(resourcesUri)).getText())
+            : undefined;
+
+        const isCurrentWorkspaceFolder: boolean =
+            getCurrentWorkspaceFolder()?.uri.toString() === workspaceFolder.uri.toString();
+
+        const issues: ReadinessIssue[] = lintConnector({
+            connectorText: document.getText(),
+            resourceNames,
+            projectFiles: listProjectFiles(project),
+            extensionInfos:
+                extensionInfos ?? (isCurrentWorkspaceFolder ? this.pqTestService.currentExtensionInfos.value : []),
+        });
+
+        this.lintedDocuments.set(document.uri.toString(), { issues, resourcesUri });
+
+        this.diagnosticCollection.set(
+            document.uri,
+            issues.map((oneIssue: ReadinessIssue) => {
+                const diagnostic: vscode.Diagnostic = new vscode.Diagnostic(
+                    toRange(document, oneIssue.offset, oneIssue.length),
+                    describeIssue(oneIssue),
+                    oneIssue.severity === "error" ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning,
+                );
+
+                diagnostic.source = DiagnosticSource;
+                diagnostic.code = oneIssue.rule;
+
+                return diagnostic;
+            }),
+        );
+
+        return issues;
+    }
+
+    private createReport(
+        project: ConnectorProject,
+        document: vscode.TextDocument,
+        issues: ReadonlyArray<ReadinessIssue>,
+    ): string {
+        const groups: Array<{ check: ReadinessCheck; issues: ReadinessIssue[] }> = groupIssuesByCheck(issues);
+        const sectionFileName: string = path.basename(document.uri.fsPath);
+        const text: string = document.getText();
+
+        const lines: string[] = [
+            resolveI18nTemplate("PQSdk.readiness.report.title", { projectName: project.name }),
+            "",
+            resolveI18nTemplate("PQSdk.readiness.report.summary", {
+                passed: String(
+                    groups.filter((oneGroup: { issues: ReadinessIssue[] }) => !oneGroup.issues.length).length,
+                ),
+                total: String(groups.length),
+                createdAt: new Date().toISOString(),
+            }),
+            "",
+            `| ${extensionI18n["PQSdk.readiness.report.check"]} | ${extensionI18n["PQSdk.readiness.report.status"]} |`,
+            "| --- | --- |",
+        ];
+
+        for (const oneGroup of groups) {
+            const errorCount: number = oneGroup.issues.filter(
+                (oneIssue: ReadinessIssue) => oneIssue.severity === "error",
+            ).length;
+
+            const status: string = oneGroup.issues.length
+                ? resolveI18nTemplate("PQSdk.readiness.report.failed", {
+                      errors: String(errorCount),
+                      warnings: String(oneGroup.issues.length - errorCount),
+                  })
+                : extensionI18n["PQSdk.readiness.report.passed"];
+
+            lines.push(`| ${extensionI18n[checkTitleKeys[oneGroup.check]]} | ${status} |`);
+        }
+
+        for (const oneGroup of groups) {
+            if (oneGroup.issues.length) {
+                lines.push("", `## ${extensionI18n[checkTitleKeys[oneGroup.check]]}`, "");
+
+                for (const oneIssue of oneGroup.issues) {
+                    lines.push(
+                        `- ${describeSeverity(oneIssue)}, ${sectionFileName}:${getLineOfOffset(
+                            text,
+                            oneIssue.offset,
+                        )}: ${describeIssue(oneIssue)}`,
+                    );
+                }
+            }
+        }
+
+        return `${lines.join("\n")}\n`;
+    }
+
+    /**
+     * Lints the current connector project along with the infos of its built connector, and writes the report
+     * next to its section file.
+     */
+    private async writeReadinessReport(): Promise<void> {
+        const workspaceFolder: vscode.WorkspaceFolder | undefined = getCurrentWorkspaceFolder();
+
+        const project: ConnectorProject | undefined = workspaceFolder
+            ? await findCurrentConnectorProject(workspaceFolder)
+            : undefined;
+
+        if (!workspaceFolder || !project?.sectionFile) {
+            void vscode.window.showWarningMessage(extensionI18n["PQSdk.readiness.noConnector"]);
+
+            return;
+        }
+
+        let extensionInfos: ExtensionInfo[] | undefined = undefined;
+
+        if (this.pqTestService.pqTestReady) {
+            try {
+                extensionInfos = await this.pqTestService.DisplayExtensionInfo();
+            } catch (error: unknown) {
+                this.outputChannel.appendErrorLine(
+                    resolveI18nTemplate("PQSdk.readiness.report.extensionInfoFailed", {
+                        errorMessage: error instanceof Error ? error.message : String(error),
+                    }),
+                );
+            }
+        }
+
+        const document: vscode.TextDocument = await vscode.workspace.openTextDocument(
+            vscode.Uri.joinPath(workspaceFolder.uri, ...project.sectionFile.split("/")),
+        );
+
+        const issues: ReadinessIssue[] = (await this.lintDocument(document, extensionInfos)) ?? [];
+
+        const reportUri: vscode.Uri = vscode.Uri.joinPath(
+            workspaceFolder.uri,
+            ...project.rootPath.split("/").filter(Boolean),
+            `${project.name}.readiness.md`,
+        );
+
+        await fs.promises.writeFile(reportUri.fsPath, this.createReport(project, document, issues));
+
+        this.outputChannel.appendInfoLine(
+            resolveI18nTemplate("PQSdk.readiness.report.written", {
+                projectName: project.name,
+                reportFile: reportUri.fsPath,
+            }),
+        );
+
+        await vscode.window.showTextDocument(reportUri);
+    }
+}
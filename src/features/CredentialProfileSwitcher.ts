@@ -0,0 +1,338 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+import * as vscode from "vscode";
+import { ProgressLocation, StatusBarAlignment, StatusBarItem } from "vscode";
+
+import { IDisposable } from "../common/Disposable";
+import { Credential, ExtensionInfo, IPQTestService } from "../common/PQTestService";
+import { ExtensionConfigurations } from "../constants/PowerQuerySdkConfiguration";
+import { ExtensionConstants } from "../constants/PowerQuerySdkExtension";
+import { extensionI18n, resolveI18nTemplate } from "../i18n/extension";
+import {
+    createSecretName,
+    formatSecretReference,
+    listSecretReferences,
+    resolveSecretReferences,
+    SecretReference,
+} from "../testing/pqtest-adapter/core/testCredentials";
+import { lookUpSecretReferences } from "../testing/pqtest-adapter/utils/testCredentialsUtils";
+import {
+    createProfileCredentialPayload,
+    CredentialProfile,
+    findCredentialsOfOtherProfiles,
+    getProfileDataSource,
+} from "../utils/credentialProfiles";
+import { getCredentialSecretNames } from "../utils/credentials";
+import { PqSdkOutputChannel } from "./PqSdkOutputChannel";
+
+const CommandPrefix: string = `powerquery.sdk.tools`;
+
+type ProfileQuickPickItem = vscode.QuickPickItem & { profile?: CredentialProfile };
+
+/**
+ * Shows the active credential profile of the workspace in the status bar, and switches to another one by setting
+ * its credential within PQTest, which both ad-hoc evaluations and test runs use.
+ */
+export class CredentialProfileSwitcher implements IDisposable {
+    public static SwitchCommand: string = `${CommandPrefix}.SwitchCredentialProfileCommand`;
+    public static AddCommand: string = `${CommandPrefix}.AddCredentialProfileCommand`;
+    private static readonly ActiveProfileStateKey: string = "powerquery.sdk.tools.CredentialProfiles.active";
+
+    private readonly statusBarItem: StatusBarItem;
+    private readonly _disposables: vscode.Disposable[] = [];
+
+    constructor(
+        private readonly vscExtCtx: vscode.ExtensionContext,
+        private readonly pqTestService: IPQTestService,
+        private readonly outputChannel: PqSdkOutputChannel,
+    ) {
+        this.statusBarItem = vscode.window.createStatusBarItem(StatusBarAlignment.Left);
+        this.statusBarItem.command = CredentialProfileSwitcher.SwitchCommand;
+
+        this._disposables.push(
+            this.statusBarItem,
+            vscode.commands.registerCommand(CredentialProfileSwitcher.SwitchCommand, () => this.switchProfile()),
+            vscode.commands.registerCommand(CredentialProfileSwitcher.AddCommand, () => this.addProfile()),
+            vscode.workspace.onDidChangeConfiguration((event: vscode.ConfigurationChangeEvent) => {
+                if (
+                    event.affectsConfiguration(
+                        `${ExtensionConstants.ConfigNames.PowerQuerySdk.name}.${ExtensionConstants.ConfigNames.PowerQuerySdk.properties.credentialProfiles}`,
+                    )
+                ) {
+                    this.updateStatusBarItem();
+                }
+            }),
+        );
+
+        this.updateStatusBarItem();
+    }
+
+    public dispose(): void {
+        for (const oneDisposable of this._disposables) {
+            oneDisposable.dispose();
+        }
+    }
+
+    get activeProfile(): CredentialProfile | undefined {
+        const activeProfileName: string | undefined = this.vscExtCtx.workspaceState.get<string>(
+            CredentialProfileSwitcher.ActiveProfileStateKey,
+        );
+
+        return ExtensionConfigurations.credentialProfiles.find(
+            (oneProfile: CredentialProfile) => oneProfile.name === activeProfileName,
+        );
+    }
+
+    private updateStatusBarItem(): void {
+        // the switcher only shows up in workspaces having profiles
+        if (!ExtensionConfigurations.credentialProfiles.length) {
+            this.statusBarItem.hide();
+
+            return;
+        }
+
+        const activeProfile: CredentialProfile | undefined = this.activeProfile;
+
+        this.statusBarItem.text = `$(key) ${activeProfile?.name ?? extensionI18n["PQSdk.credentialProfiles.none"]}`;
+
+        this.statusBarItem.tooltip = activeProfile
+            ? resolveI18nTemplate("PQSdk.credentialProfiles.tooltip", {
+                  authenticationKind: activeProfile.authenticationKind,
+                  dataSourcePath: getProfileDataSource(activeProfile).path,
+                  name: activeProfile.name,
+              })
+            : extensionI18n["PQSdk.credentialProfiles.switch.placeHolder"];
+
+        this.statusBarItem.show();
+    }
+
+    private async switchProfile(): Promise<void> {
+        const activeProfile: CredentialProfile | undefined = this.activeProfile;
+
+        const items: ProfileQuickPickItem[] = [
+            ...ExtensionConfigurations.credentialProfiles.map((oneProfile: CredentialProfile) => ({
+                label: oneProfile.name,
+                description: [
+                    oneProfile.authenticationKind,
+                    getProfileDataSource(oneProfile).path,
+                    oneProfile.name === activeProfile?.name ? extensionI18n["PQSdk.credentialProfiles.active"] : "",
+                ]
+                    .filter(Boolean)
+                    .join(" · "),
+                profile: oneProfile,
+            })),
+            { label: "", kind: vscode.QuickPickItemKind.Separator },
+            { label: `$(add) ${extensionI18n["PQSdk.credentialProfiles.add.label"]}` },
+        ];
+
+        const picked: ProfileQuickPickItem | undefined = await vscode.window.showQuickPick(items, {
+            placeHolder: extensionI18n["PQSdk.credentialProfiles.switch.placeHolder"],
+        });
+
+        if (!picked) {
+            return;
+        }
+
+        if (picked.profile) {
+            await this.applyProfile(picked.profile);
+        } else {
+            await this.addProfile();
+        }
+    }
+
+    private async applyProfile(profile: CredentialProfile): Promise<void> {
+        const references: SecretReference[] = listSecretReferences(profile.properties);
+
+        const resolved: { value: Record<string, string>; missingReferences: string[] } = resolveSecretReferences(
+            profile.properties,
+            await lookUpSecretReferences(references, this.vscExtCtx.secrets),
+        );
+
+        if (resolved.missingReferences.length) {
+            void vscode.window.showErrorMessage(
+                resolveI18nTemplate("PQSdk.credentialProfiles.missingSecrets", {
+                    name: profile.name,
+                    references: resolved.missingReferences.join(", "),
+                }),
+            );
+
+            return;
+        }
+
+        await vscode.window.withProgress(
+            {
+                title: resolveI18nTemplate("PQSdk.credentialProfiles.switch.progress", { name: profile.name }),
+                location: ProgressLocation.Window,
+            },
+            async () => {
+                try {
+                    const credentials: Credential[] = await this.pqTestService.ListCredentials();
+
+                    for (const oneCredential of findCredentialsOfOtherProfiles(
+                        ExtensionConfigurations.credentialProfiles,
+                        profile,
+                        credentials,
+                    )) {
+                        // eslint-disable-next-line no-await-in-loop
+                        await this.pqTestService.DeleteCredential(oneCredential.DataSource);
+                    }
+
+                    await this.pqTestService.SetCredential(
+                        createProfileCredentialPayload(profile, resolved.value),
+                        getProfileDataSource(profile),
+                    );
+
+                    await this.vscExtCtx.workspaceState.update(
+                        CredentialProfileSwitcher.ActiveProfileStateKey,
+                        profile.name,
+                    );
+
+                    this.outputChannel.appendInfoLine(
+                        resolveI18nTemplate("PQSdk.credentialProfiles.switch.result", {
+                            dataSourcePath: getProfileDataSource(profile).path,
+                            name: profile.name,
+                        }),
+                    );
+                } catch (error: unknown) {
+                    void vscode.window.showErrorMessage(
+                        resolveI18nTemplate("PQSdk.credentialProfiles.switch.errorMessage", {
+                            name: profile.name,
+                            errorMessage: error instanceof Error ? error.message : String(error),
+                        }),
+                    );
+                }
+
+                // the credential view lists the credentials of the profile
+                await this.pqTestService.ListCredentials().catch(() => undefined);
+                this.updateStatusBarItem();
+            },
+        );
+    }
+
+    private async addProfile(): Promise<void> {
+        const profiles: CredentialProfile[] = ExtensionConfigurations.credentialProfiles;
+
+        const name: string | undefined = await vscode.window.showInputBox({
+            title: extensionI18n["PQSdk.credentialProfiles.add.label"],
+            prompt: extensionI18n["PQSdk.credentialProfiles.add.name.prompt"],
+            ignoreFocusOut: true,
+            validateInput: (value: string) => {
+                if (!value.trim()) {
+                    return resolveI18nTemplate("PQSdk.lifecycle.error.invalid.empty.value", { valueName: "name" });
+                }
+
+                return profiles.some((oneProfile: CredentialProfile) => oneProfile.name === value.trim())
+                    ? resolveI18nTemplate("PQSdk.credentialProfiles.add.name.duplicated", { name: value.trim() })
+                    : undefined;
+            },
+        });
+
+        if (!name) {
+            return;
+        }
+
+        const dataSources: ExtensionInfo["DataSources"] = (this.pqTestService.currentExtensionInfos.value ?? [])
+            .map((oneInfo: ExtensionInfo) => oneInfo.DataSources ?? [])
+            .flat();
+
+        const dataSourceKind: string | undefined = dataSources.length
+            ? (
+                  await vscode.window.showQuickPick(
+                      dataSources.map((oneDataSource: ExtensionInfo["DataSources"][number]) => ({
+                          label: oneDataSource.DataSourceKind,
+                      })),
+                      { placeHolder: extensionI18n["PQSdk.credentialProfiles.add.dataSourceKind.placeHolder"] },
+                  )
+              )?.label
+            : await vscode.window.showInputBox({
+                  prompt: extensionI18n["PQSdk.credentialProfiles.add.dataSourceKind.placeHolder"],
+                  ignoreFocusOut: true,
+              });
+
+        if (!dataSourceKind) {
+            return;
+        }
+
+        const dataSourcePath: string | undefined = await vscode.window.showInputBox({
+            prompt: extensionI18n["PQSdk.credentialProfiles.add.dataSourcePath.prompt"],
+            value: dataSourceKind,
+            ignoreFocusOut: true,
+        });
+
+        if (dataSourcePath === undefined) {
+            return;
+        }
+
+        const authenticationKinds: string[] = dataSources
+            .filter(
+                (oneDataSource: ExtensionInfo["DataSources"][number]) =>
+                    oneDataSource.DataSourceKind === dataSourceKind,
+            )
+            .map((oneDataSource: ExtensionInfo["DataSources"][number]) =>
+                (oneDataSource.AuthenticationInfos ?? []).map(
+                    (oneAuthenticationInfo: ExtensionInfo["DataSources"][number]["AuthenticationInfos"][number]) =>
+                        oneAuthenticationInfo.Kind,
+                ),
+            )
+            .flat();
+
+        const authenticationKind: string | undefined = (
+            await vscode.window.showQuickPick(
+                (authenticationKinds.length
+                    ? authenticationKinds
+                    : ["Anonymous", "Key", "UsernamePassword", "Windows"]
+                ).map((oneKind: string) => ({ label: oneKind })),
+                { placeHolder: extensionI18n["PQSdk.credentialProfiles.add.authenticationKind.placeHolder"] },
+            )
+        )?.label;
+
+        if (!authenticationKind) {
+            return;
+        }
+
+        const properties: Record<string, string> = {};
+
+        // secrets go to the secret storage, thus the workspace settings only hold references to them
+        for (const oneSecretName of getCredentialSecretNames(authenticationKind)) {
+            // eslint-disable-next-line no-await-in-loop
+            const enteredValue: string | undefined = await vscode.window.showInputBox({
+                title: resolveI18nTemplate("PQSdk.credentialProfiles.add.secret.title", {
+                    secretName: oneSecretName,
+                    name: name.trim(),
+                }),
+                password: oneSecretName !== "Username",
+                ignoreFocusOut: true,
+            });
+
+            if (enteredValue === undefined) {
+                return;
+            }
+
+            const reference: SecretReference = {
+                store: "secretStorage",
+                name: createSecretName("secretStorage", `${dataSourceKind}.${name.trim()}`, oneSecretName),
+            };
+
+            // eslint-disable-next-line no-await-in-loop
+            await this.vscExtCtx.secrets.store(reference.name, enteredValue);
+            properties[oneSecretName] = formatSecretReference(reference);
+        }
+
+        const profile: CredentialProfile = {
+            name: name.trim(),
+            dataSourceKind,
+            dataSourcePath,
+            authenticationKind,
+            privacySetting: "None",
+            properties,
+        };
+
+        await ExtensionConfigurations.setCredentialProfiles([...profiles, profile]);
+        await this.applyProfile(profile);
+    }
+}
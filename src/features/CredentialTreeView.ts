@@ -0,0 +1,330 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+import * as vscode from "vscode";
+import {
+    Event,
+    EventEmitter,
+    ThemeColor,
+    ThemeIcon,
+    TreeDataProvider,
+    TreeItem,
+    TreeItemCollapsibleState,
+} from "vscode";
+
+import { DeleteCredentialHandler, DeleteCredentialResult } from "../commands/handlers/DeleteCredentialHandler";
+import { CommandResult } from "../commands/handlers/ICommandHandler";
+import { RefreshCredentialHandler, RefreshCredentialResult } from "../commands/handlers/RefreshCredentialHandler";
+import { IDisposable } from "../common/Disposable";
+import { Credential, DataSource, GenericResult, IPQTestService } from "../common/PQTestService";
+import { extensionI18n, resolveI18nTemplate } from "../i18n/extension";
+import {
+    createCredentialPayload,
+    CredentialGroup,
+    getCredentialExpiry,
+    getMissingCredentialSecrets,
+    groupCredentialsByDataSourceKind,
+    isRefreshableCredential,
+    PrivacySetting,
+    PrivacySettings,
+} from "../utils/credentials";
+import { PqSdkOutputChannel } from "./PqSdkOutputChannel";
+
+const TreeViewPrefix: string = `powerquery.sdk.tools`;
+
+export type CredentialNode =
+    | { kind: "dataSourceKind"; group: CredentialGroup }
+    | { kind: "credential"; credential: Credential };
+
+function describeDataSource(dataSource: DataSource): string {
+    return dataSource.path || dataSource.kind;
+}
+
+/**
+ * Shows the credentials PQTest holds grouped by data source kind and path, and deletes, refreshes or changes the
+ * privacy level of each one of them.
+ */
+export class CredentialTreeView implements TreeDataProvider<CredentialNode>, IDisposable {
+    public static TreeViewName: string = `${TreeViewPrefix}.CredentialTreeView`;
+    public static RefreshCommand: string = `${TreeViewPrefix}.CredentialTreeView.RefreshCommand`;
+    public static DeleteCommand: string = `${TreeViewPrefix}.CredentialTreeView.DeleteCommand`;
+    public static RefreshTokenCommand: string = `${TreeViewPrefix}.CredentialTreeView.RefreshTokenCommand`;
+    public static ChangePrivacySettingCommand: string = `${TreeViewPrefix}.CredentialTreeView.ChangePrivacySettingCommand`;
+
+    private readonly deleteCredentialHandler: DeleteCredentialHandler;
+    private readonly refreshCredentialHandler: RefreshCredentialHandler;
+    private readonly _disposables: vscode.Disposable[] = [];
+    private hasListedCredentials: boolean = false;
+
+    private _onDidChangeTreeData: EventEmitter<CredentialNode | undefined> = new EventEmitter();
+    get onDidChangeTreeData(): Event<void | CredentialNode | undefined | null> {
+        return this._onDidChangeTreeData.event;
+    }
+
+    constructor(
+        private readonly pqTestService: IPQTestService,
+        private readonly outputChannel: PqSdkOutputChannel,
+    ) {
+        this.deleteCredentialHandler = new DeleteCredentialHandler(pqTestService);
+        this.refreshCredentialHandler = new RefreshCredentialHandler(pqTestService);
+
+        this.onCredentialsChanged = this.onCredentialsChanged.bind(this);
+        this.pqTestService.currentCredentials.subscribe(this.onCredentialsChanged);
+
+        this._disposables.push(
+            vscode.commands.registerCommand(CredentialTreeView.RefreshCommand, () => this.listCredentials()),
+            vscode.commands.registerCommand(CredentialTreeView.DeleteCommand, (node?: CredentialNode) =>
+                this.deleteCredential(node),
+            ),
+            vscode.commands.registerCommand(CredentialTreeView.RefreshTokenCommand, (node?: CredentialNode) =>
+                this.refreshCredential(node),
+            ),
+            vscode.commands.registerCommand(CredentialTreeView.ChangePrivacySettingCommand, (node?: CredentialNode) =>
+                this.changePrivacySetting(node),
+            ),
+        );
+    }
+
+    public dispose(): void {
+        this.pqTestService.currentCredentials.unsubscribe(this.onCredentialsChanged);
+
+        for (const oneDisposable of this._disposables) {
+            oneDisposable.dispose();
+        }
+
+        this._onDidChangeTreeData.dispose();
+    }
+
+    getChildren(element?: CredentialNode): CredentialNode[] {
+        if (!element) {
+            // credentials are listed once the view shows up, as listing them spawns PQTest
+            if (!this.hasListedCredentials && this.pqTestService.pqTestReady) {
+                void this.listCredentials();
+            }
+
+            return groupCredentialsByDataSourceKind(this.pqTestService.currentCredentials.value).map(
+                (oneGroup: CredentialGroup) => ({ kind: "dataSourceKind", group: oneGroup }),
+            );
+        }
+
+        return element.kind === "dataSourceKind"
+            ? element.group.credentials.map((oneCredential: Credential) => ({
+                  kind: "credential",
+                  credential: oneCredential,
+              }))
+            : [];
+    }
+
+    getTreeItem(element: CredentialNode): TreeItem {
+        switch (element.kind) {
+            case "dataSourceKind": {
+                const item: TreeItem = new TreeItem(element.group.dataSourceKind, TreeItemCollapsibleState.Expanded);
+
+                item.description = String(element.group.credentials.length);
+                item.iconPath = new ThemeIcon("plug");
+
+                return item;
+            }
+
+            case "credential":
+            default:
+                return this.createCredentialItem(element.credential);
+        }
+    }
+
+    private createCredentialItem(credential: Credential): TreeItem {
+        const item: TreeItem = new TreeItem(describeDataSource(credential.DataSource), TreeItemCollapsibleState.None);
+        const expiry: Date | undefined = getCredentialExpiry(credential);
+        const hasExpired: boolean = expiry !== undefined && expiry.getTime() <= Date.now();
+
+        item.description = [
+            credential.AuthenticationKind,
+            credential.PrivacySetting,
+            expiry
+                ? resolveI18nTemplate(
+                      hasExpired ? "PQSdk.credentialTreeView.expiredAt" : "PQSdk.credentialTreeView.expiresAt",
+                      { expiry: expiry.toLocaleString() },
+                  )
+                : "",
+        ]
+            .filter(Boolean)
+            .join(" · ");
+
+        item.tooltip = resolveI18nTemplate("PQSdk.credentialTreeView.tooltip", {
+            authenticationKind: credential.AuthenticationKind,
+            dataSourceKind: credential.DataSource.kind,
+            dataSourcePath: credential.DataSource.path,
+            privacySetting: credential.PrivacySetting,
+        });
+
+        item.iconPath = hasExpired
+            ? new ThemeIcon("warning", new ThemeColor("editorWarning.foreground"))
+            : new ThemeIcon("key");
+
+        item.contextValue = isRefreshableCredential(credential) ? "refreshableCredential" : "credential";
+
+        return item;
+    }
+
+    private onCredentialsChanged(): void {
+        this.hasListedCredentials = true;
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
+    private async listCredentials(): Promise<void> {
+        this.hasListedCredentials = true;
+
+        try {
+            // both services emit the listed credentials to currentCredentials
+            await this.pqTestService.ListCredentials();
+        } catch (error: unknown) {
+            void vscode.window.showErrorMessage(
+                resolveI18nTemplate("PQSdk.lifecycle.command.list.credentials.errorMessage", {
+                    errorMessage: error instanceof Error ? error.message : String(error),
+                }),
+            );
+        }
+    }
+
+    private async deleteCredential(node: CredentialNode | undefined): Promise<void> {
+        if (node?.kind !== "credential") {
+            return;
+        }
+
+        const deleteItem: string = extensionI18n["PQSdk.credentialTreeView.delete.confirm"];
+
+        const confirmation: string | undefined = await vscode.window.showWarningMessage(
+            resolveI18nTemplate("PQSdk.credentialTreeView.delete.prompt", {
+                authenticationKind: node.credential.AuthenticationKind,
+                dataSource: describeDataSource(node.credential.DataSource),
+            }),
+            { modal: true },
+            deleteItem,
+        );
+
+        if (confirmation !== deleteItem) {
+            return;
+        }
+
+        const result: CommandResult<DeleteCredentialResult> = await this.deleteCredentialHandler.execute({
+            dataSource: node.credential.DataSource,
+        });
+
+        if (result.success && result.data) {
+            this.outputChannel.appendInfoLine(
+                resolveI18nTemplate("PQSdk.lifecycle.command.delete.credentials.result", {
+                    result: result.data.formattedOutput,
+                }),
+            );
+        } else {
+            void vscode.window.showErrorMessage(
+                resolveI18nTemplate("PQSdk.lifecycle.command.delete.credentials.errorMessage", {
+                    errorMessage: result.error || "Unknown error",
+                }),
+            );
+        }
+
+        await this.listCredentials();
+    }
+
+    private async refreshCredential(node: CredentialNode | undefined): Promise<void> {
+        if (node?.kind !== "credential") {
+            return;
+        }
+
+        const result: CommandResult<RefreshCredentialResult> = await this.refreshCredentialHandler.execute({
+            dataSource: node.credential.DataSource,
+        });
+
+        if (result.success && result.data) {
+            this.outputChannel.appendInfoLine(
+                resolveI18nTemplate("PQSdk.lifecycle.command.refresh.credentials.result", {
+                    result: result.data.formattedOutput,
+                }),
+            );
+        } else {
+            void vscode.window.showErrorMessage(
+                resolveI18nTemplate("PQSdk.lifecycle.command.refresh.credentials.errorMessage", {
+                    errorMessage: result.error || "Unknown error",
+                }),
+            );
+        }
+
+        await this.listCredentials();
+    }
+
+    private async changePrivacySetting(node: CredentialNode | undefined): Promise<void> {
+        if (node?.kind !== "credential") {
+            return;
+        }
+
+        const credential: Credential = node.credential;
+        const dataSource: string = describeDataSource(credential.DataSource);
+
+        const privacySetting: PrivacySetting | undefined = (
+            await vscode.window.showQuickPick(
+                PrivacySettings.map((oneSetting: PrivacySetting) => ({
+                    label: oneSetting,
+                    description:
+                        oneSetting === credential.PrivacySetting
+                            ? extensionI18n["PQSdk.credentialTreeView.privacySetting.current"]
+                            : undefined,
+                })),
+                {
+                    placeHolder: resolveI18nTemplate("PQSdk.credentialTreeView.privacySetting.placeHolder", {
+                        dataSource,
+                    }),
+                },
+            )
+        )?.label as PrivacySetting | undefined;
+
+        if (!privacySetting || privacySetting === credential.PrivacySetting) {
+            return;
+        }
+
+        const secrets: Record<string, string> = {};
+
+        for (const oneSecretName of getMissingCredentialSecrets(credential)) {
+            // eslint-disable-next-line no-await-in-loop
+            const enteredValue: string | undefined = await vscode.window.showInputBox({
+                title: resolveI18nTemplate("PQSdk.credentialTreeView.secret.title", {
+                    secretName: oneSecretName,
+                    dataSource,
+                }),
+                password: oneSecretName !== "Username",
+                ignoreFocusOut: true,
+            });
+
+            if (enteredValue === undefined) {
+                return;
+            }
+
+            secrets[oneSecretName] = enteredValue;
+        }
+
+        try {
+            const result: GenericResult = await this.pqTestService.SetCredential(
+                createCredentialPayload(credential, privacySetting, secrets),
+                credential.DataSource,
+            );
+
+            this.outputChannel.appendInfoLine(
+                resolveI18nTemplate("PQSdk.lifecycle.command.set.credentials.result", {
+                    result: JSON.stringify(result, null, 2),
+                }),
+            );
+        } catch (error: unknown) {
+            void vscode.window.showErrorMessage(
+                resolveI18nTemplate("PQSdk.lifecycle.command.set.credentials.errorMessage", {
+                    errorMessage: error instanceof Error ? error.message : String(error),
+                }),
+            );
+        }
+
+        await this.listCredentials();
+    }
+}
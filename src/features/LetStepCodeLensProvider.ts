@@ -0,0 +1,33 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+import { CodeLens, CodeLensProvider, Range, TextDocument } from "vscode";
+
+import { LifecycleCommands } from "../commands/LifecycleCommands";
+import { findLetExpressions, LetExpression, LetStep } from "../debugAdaptor/letSteps";
+import { extensionI18n } from "../i18n/extension";
+
+/**
+ * Puts an "Evaluate step" code lens above every let step of power query documents which could be evaluated on its
+ * own, i.e. every one but the steps of function bodies like the ones of connector section members.
+ */
+export class LetStepCodeLensProvider implements CodeLensProvider {
+    public provideCodeLenses(document: TextDocument): CodeLens[] {
+        return findLetExpressions(document.getText())
+            .filter((letExpression: LetExpression) => !letExpression.isFunctionBody)
+            .flatMap((letExpression: LetExpression) =>
+                letExpression.steps.map(
+                    (step: LetStep) =>
+                        new CodeLens(new Range(step.line, 0, step.line, 0), {
+                            title: extensionI18n["PQSdk.lifecycle.command.evaluate.expression.codeLens"],
+                            command: LifecycleCommands.EvaluateExpressionCommand,
+                            arguments: [document.uri, step.line],
+                        }),
+                ),
+            );
+    }
+}
@@ -22,7 +22,7 @@ import { ExtensionConfigurations } from "../constants/PowerQuerySdkConfiguration
 import { GlobalEventBus, GlobalEvents } from "../GlobalEventBus";
 import { extensionI18n } from "../i18n/extension";
 import { debounce } from "../utils/debounce";
-import { getAnyPqFileBeneathTheFirstWorkspace } from "../utils/vscodes";
+import { getAnyPqFileBeneathTheCurrentWorkspace } from "../utils/vscodes";
 
 const TreeViewPrefix: string = `powerquery.sdk.tools`;
 
@@ -123,6 +123,12 @@ export class LifeCycleTaskTreeView implements TreeDataProvider<LifecycleTreeView
             this.debouncedRefresh();
         });
 
+        // subscribe to switching between the connector projects of a multi-root workspace
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        globalEventBus.on(GlobalEvents.VSCodeEvents.onDidChangeCurrentWorkspaceFolder, (_args: any[]) => {
+            this.debouncedRefresh();
+        });
+
         // subscribe to DefaultExtensionLocation changed
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         globalEventBus.on(GlobalEvents.VSCodeEvents.ConfigDidChangePQTestExtension, (_args: any[]) => {
@@ -147,7 +153,7 @@ export class LifeCycleTaskTreeView implements TreeDataProvider<LifecycleTreeView
     public debouncedRefresh: () => void = debounce(this.refresh.bind(this), 1e3).bind(this);
 
     async isValidWorkspace(): Promise<boolean> {
-        return Boolean((await getAnyPqFileBeneathTheFirstWorkspace()).length);
+        return Boolean((await getAnyPqFileBeneathTheCurrentWorkspace()).length);
     }
 
     async getChildren(element?: LifecycleTreeViewItem): Promise<LifecycleTreeViewItem[] | undefined> {
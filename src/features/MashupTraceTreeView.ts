@@ -0,0 +1,242 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+import {
+    Event,
+    EventEmitter,
+    ThemeColor,
+    ThemeIcon,
+    TreeDataProvider,
+    TreeItem,
+    TreeItemCollapsibleState,
+} from "vscode";
+
+import { extensionI18n, resolveI18nTemplate } from "../i18n/extension";
+import {
+    groupMashupTraceEvents,
+    isSlowMashupTraceDuration,
+    MashupTraceActivity,
+    MashupTraceEvent,
+    MashupTraceStepGroup,
+    parseMashupTrace,
+} from "../testing/pqtest-adapter/core/mashupTrace";
+
+const TreeViewPrefix: string = `powerquery.sdk.tools`;
+
+interface MashupTraceFile {
+    filePath: string;
+    activities: MashupTraceActivity[];
+    error?: string;
+}
+
+type MashupTraceNode =
+    | { kind: "file"; file: MashupTraceFile }
+    | { kind: "activity"; file: MashupTraceFile; activity: MashupTraceActivity }
+    | { kind: "step"; file: MashupTraceFile; stepGroup: MashupTraceStepGroup }
+    | { kind: "event"; file: MashupTraceFile; event: MashupTraceEvent };
+
+function formatDuration(durationMs: number | undefined): string {
+    return durationMs === undefined ? "" : `${durationMs.toFixed(durationMs < 10 ? 2 : 0)} ms`;
+}
+
+function createStatusIcon(hasError: boolean, isSlow: boolean, defaultIcon: string): ThemeIcon {
+    if (hasError) {
+        return new ThemeIcon("error", new ThemeColor("errorForeground"));
+    }
+
+    if (isSlow) {
+        return new ThemeIcon("watch", new ThemeColor("editorWarning.foreground"));
+    }
+
+    return new ThemeIcon(defaultIcon);
+}
+
+/**
+ * Shows the mashup engine trace files of test runs, grouped by activity id and query step,
+ * with errors and slow operations highlighted.
+ */
+export class MashupTraceTreeView implements TreeDataProvider<MashupTraceNode> {
+    public static TreeViewName: string = `${TreeViewPrefix}.MashupTraceTreeView`;
+    public static OpenMashupTracesCommand: string = `${TreeViewPrefix}.OpenMashupTracesCommand`;
+
+    // trace files of the latest run of each test, by test id
+    private static readonly testTraceFiles: Map<string, string[]> = new Map();
+
+    public static rememberTestTraceFiles(testId: string, filePaths: string[]): void {
+        if (filePaths.length) {
+            this.testTraceFiles.set(testId, filePaths);
+        } else {
+            this.testTraceFiles.delete(testId);
+        }
+    }
+
+    private files: MashupTraceFile[] = [];
+
+    private _onDidChangeTreeData: EventEmitter<MashupTraceNode | undefined> = new EventEmitter();
+    get onDidChangeTreeData(): Event<void | MashupTraceNode | undefined | null> {
+        return this._onDidChangeTreeData.event;
+    }
+
+    /**
+     * Loads trace files into the view, replacing the former ones.
+     *
+     * @param target - Trace file(s) to load, or the test item whose latest traces should be loaded;
+     *      the user gets asked to pick trace files if missing
+     */
+    public async open(target?: vscode.Uri | vscode.Uri[] | string[] | vscode.TestItem): Promise<void> {
+        const filePaths: string[] | undefined = await this.resolveFilePaths(target);
+
+        if (!filePaths) {
+            return;
+        }
+
+        if (!filePaths.length) {
+            void vscode.window.showInformationMessage(extensionI18n["PQSdk.mashupTrace.noTraceFiles"]);
+
+            return;
+        }
+
+        this.files = await Promise.all(filePaths.map((filePath: string) => this.loadFile(filePath)));
+        this._onDidChangeTreeData.fire(undefined);
+
+        await vscode.commands.executeCommand(`${MashupTraceTreeView.TreeViewName}.focus`);
+    }
+
+    private async resolveFilePaths(
+        target?: vscode.Uri | vscode.Uri[] | string[] | vscode.TestItem,
+    ): Promise<string[] | undefined> {
+        if (target instanceof vscode.Uri) {
+            return [target.fsPath];
+        }
+
+        if (Array.isArray(target)) {
+            return target.map((one: vscode.Uri | string) => (typeof one === "string" ? one : one.fsPath));
+        }
+
+        if (target) {
+            return MashupTraceTreeView.testTraceFiles.get(target.id) ?? [];
+        }
+
+        const pickedUris: vscode.Uri[] | undefined = await vscode.window.showOpenDialog({
+            canSelectMany: true,
+            openLabel: extensionI18n["PQSdk.mashupTrace.openLabel"],
+        });
+
+        return pickedUris?.map((oneUri: vscode.Uri) => oneUri.fsPath);
+    }
+
+    private async loadFile(filePath: string): Promise<MashupTraceFile> {
+        try {
+            const text: string = await fs.promises.readFile(filePath, "utf8");
+
+            return { filePath, activities: groupMashupTraceEvents(parseMashupTrace(text)) };
+        } catch (error) {
+            return { filePath, activities: [], error: error instanceof Error ? error.message : String(error) };
+        }
+    }
+
+    getChildren(element?: MashupTraceNode): MashupTraceNode[] {
+        if (!element) {
+            return this.files.map((file: MashupTraceFile) => ({ kind: "file", file }));
+        }
+
+        switch (element.kind) {
+            case "file":
+                return element.file.activities.map((activity: MashupTraceActivity) => ({
+                    kind: "activity",
+                    file: element.file,
+                    activity,
+                }));
+            case "activity":
+                return element.activity.steps.map((stepGroup: MashupTraceStepGroup) => ({
+                    kind: "step",
+                    file: element.file,
+                    stepGroup,
+                }));
+            case "step":
+                return element.stepGroup.events.map((event: MashupTraceEvent) => ({
+                    kind: "event",
+                    file: element.file,
+                    event,
+                }));
+            case "event":
+            default:
+                return [];
+        }
+    }
+
+    getTreeItem(element: MashupTraceNode): TreeItem {
+        switch (element.kind) {
+            case "file":
+                return this.createFileItem(element.file);
+            case "activity":
+                return this.createGroupItem(
+                    element.activity.activityId || extensionI18n["PQSdk.mashupTrace.noActivityId"],
+                    element.activity.durationMs,
+                    element.activity.hasError,
+                    "pulse",
+                );
+            case "step":
+                return this.createGroupItem(
+                    element.stepGroup.step || extensionI18n["PQSdk.mashupTrace.noStep"],
+                    element.stepGroup.durationMs,
+                    element.stepGroup.hasError,
+                    "symbol-variable",
+                );
+            case "event":
+            default:
+                return this.createEventItem(element.file, element.event);
+        }
+    }
+
+    private createFileItem(file: MashupTraceFile): TreeItem {
+        const item: TreeItem = new TreeItem(path.basename(file.filePath), TreeItemCollapsibleState.Expanded);
+
+        item.resourceUri = vscode.Uri.file(file.filePath);
+        item.tooltip = file.filePath;
+
+        item.description = file.error
+            ? resolveI18nTemplate("PQSdk.mashupTrace.loadFailed", { error: file.error })
+            : resolveI18nTemplate("PQSdk.mashupTrace.activities", { count: String(file.activities.length) });
+
+        return item;
+    }
+
+    private createGroupItem(label: string, durationMs: number, hasError: boolean, defaultIcon: string): TreeItem {
+        const item: TreeItem = new TreeItem(label, TreeItemCollapsibleState.Collapsed);
+
+        item.description = formatDuration(durationMs);
+        item.iconPath = createStatusIcon(hasError, isSlowMashupTraceDuration(durationMs), defaultIcon);
+
+        return item;
+    }
+
+    private createEventItem(file: MashupTraceFile, event: MashupTraceEvent): TreeItem {
+        const item: TreeItem = new TreeItem(event.action || event.level, TreeItemCollapsibleState.None);
+
+        item.description = [formatDuration(event.durationMs), event.exception].filter(Boolean).join(" ");
+        item.tooltip = JSON.stringify(event.fields, null, 2);
+        item.iconPath = createStatusIcon(event.isError, isSlowMashupTraceDuration(event.durationMs), "circle-small");
+
+        item.command = {
+            title: extensionI18n["PQSdk.mashupTrace.revealEvent"],
+            command: "vscode.open",
+            arguments: [
+                vscode.Uri.file(file.filePath),
+                {
+                    selection: new vscode.Range(event.lineNumber - 1, 0, event.lineNumber - 1, 0),
+                    preview: true,
+                } as vscode.TextDocumentShowOptions,
+            ],
+        };
+
+        return item;
+    }
+}
@@ -13,7 +13,7 @@ import { buildPqTestArgs, IPQTestService } from "../common/PQTestService";
 import { ExtensionConfigurations } from "../constants/PowerQuerySdkConfiguration";
 import { ExtensionConstants } from "../constants/PowerQuerySdkExtension";
 import { extensionI18n } from "../i18n/extension";
-import { getFirstWorkspaceFolder } from "../utils/vscodes";
+import { getCurrentWorkspaceFolder } from "../utils/vscodes";
 import { PqSdkTaskTerminal } from "./PqSdkTaskTerminal";
 
 const enum TaskLabelPrefix {
@@ -96,18 +96,23 @@ export class PowerQueryTaskProvider implements vscode.TaskProvider {
     public static TaskType: string = ExtensionConstants.PowerQueryTaskType;
     // the ExtensionConfigurations.msbuildPath might change during the runtime,
     // thus we also have to build the task during the runtime
-    public static buildMsbuildTask(): vscode.Task {
+    public static buildMsbuildTask(workspaceFolder?: vscode.WorkspaceFolder): vscode.Task {
         return this.getTaskForBuildTaskDefinition(
             msbuildTaskDefinition,
             ExtensionConfigurations.msbuildPath || "msbuild",
+            workspaceFolder,
         );
     }
     // the pqTestLocation might change during the runtime,
     // thus we also have to build the task during the runtime
-    public static buildMakePQXCompileTask(pqTestLocation: string): vscode.Task {
+    public static buildMakePQXCompileTask(
+        pqTestLocation: string,
+        workspaceFolder?: vscode.WorkspaceFolder,
+    ): vscode.Task {
         return this.getTaskForPQTestTaskDefinition(
             makePQXCompileTaskDefinition,
             path.join(pqTestLocation, ExtensionConstants.MakePQXExecutableName),
+            workspaceFolder,
         );
     }
 
@@ -182,7 +187,7 @@ export class PowerQueryTaskProvider implements vscode.TaskProvider {
         }
 
         if (taskDef.operation === "compile") {
-            const currentWorkingFolder: string | undefined = getFirstWorkspaceFolder()?.uri.fsPath;
+            const currentWorkingFolder: string | undefined = getCurrentWorkspaceFolder()?.uri.fsPath;
 
             const makePQXExe: string = path.join(
                 this.pqTestService.pqTestLocation,
@@ -221,14 +226,25 @@ export class PowerQueryTaskProvider implements vscode.TaskProvider {
     private static getTaskForPQTestTaskDefinition(
         taskDef: PowerQueryTaskDefinition,
         executablePath: string,
+        workspaceFolder?: vscode.WorkspaceFolder,
     ): vscode.Task {
         const args: string[] = buildPqTestArgs(taskDef);
-        const processExecution: vscode.ProcessExecution = new vscode.ProcessExecution(executablePath, args);
+
+        if (workspaceFolder && taskDef.operation === "compile") {
+            // compile the connector project of the given folder rather than the one of the working directory
+            args.push(workspaceFolder.uri.fsPath);
+        }
+
+        const processExecution: vscode.ProcessExecution = new vscode.ProcessExecution(
+            executablePath,
+            args,
+            workspaceFolder ? { cwd: workspaceFolder.uri.fsPath } : undefined,
+        );
 
         // TODO: Include problem matcher
         const vscTask: vscode.Task = new vscode.Task(
             taskDef,
-            vscode.TaskScope.Workspace,
+            workspaceFolder ?? vscode.TaskScope.Workspace,
             taskDef.label ?? taskDef.operation,
             taskDef.operation === "compile" ? TaskLabelPrefix.Build : TaskLabelPrefix.PQTest,
             processExecution,
@@ -242,12 +258,19 @@ export class PowerQueryTaskProvider implements vscode.TaskProvider {
         return vscTask;
     }
 
-    private static getTaskForBuildTaskDefinition(taskDef: PowerQueryTaskDefinition, msbuildExe: string): vscode.Task {
+    private static getTaskForBuildTaskDefinition(
+        taskDef: PowerQueryTaskDefinition,
+        msbuildExe: string,
+        workspaceFolder?: vscode.WorkspaceFolder,
+    ): vscode.Task {
         // TODO: To support SDK based build we'll need to:
         // - Check the kind on the taskDef
         // - Change ShellExecution to CustomExecution
         // - Update the problem matcher
-        const execution: vscode.ProcessExecution = new vscode.ProcessExecution(msbuildExe);
+        const execution: vscode.ProcessExecution = new vscode.ProcessExecution(
+            msbuildExe,
+            workspaceFolder ? { cwd: workspaceFolder.uri.fsPath } : undefined,
+        );
 
         if (taskDef.additionalArgs && taskDef.additionalArgs.length > 0) {
             execution.args.push(...taskDef.additionalArgs);
@@ -255,7 +278,7 @@ export class PowerQueryTaskProvider implements vscode.TaskProvider {
 
         const task: vscode.Task = new vscode.Task(
             taskDef,
-            vscode.TaskScope.Workspace,
+            workspaceFolder ?? vscode.TaskScope.Workspace,
             taskDef.label ?? taskDef.operation,
             TaskLabelPrefix.Build,
             execution,
@@ -0,0 +1,287 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+import {
+    Event,
+    EventEmitter,
+    StatusBarAlignment,
+    StatusBarItem,
+    ThemeColor,
+    ThemeIcon,
+    TreeDataProvider,
+    TreeItem,
+    TreeItemCollapsibleState,
+} from "vscode";
+
+import { LifecycleCommands } from "../commands/LifecycleCommands";
+import { IDisposable } from "../common/Disposable";
+import { IPQTestService } from "../common/PQTestService";
+import { ExtensionConfigurations } from "../constants/PowerQuerySdkConfiguration";
+import { ExtensionConstants } from "../constants/PowerQuerySdkExtension";
+import { GlobalEventBus, GlobalEvents } from "../GlobalEventBus";
+import { extensionI18n, resolveI18nTemplate } from "../i18n/extension";
+import { ConnectorProject, connectorProjectFileGlob } from "../utils/connectorProjects";
+import { getMtimeOfAFile } from "../utils/files";
+import {
+    checkToolchainHealth,
+    getOverallHealthStatus,
+    HealthCheck,
+    HealthCheckFix,
+    HealthStatus,
+    ToolchainState,
+} from "../utils/toolchainHealth";
+import { findCurrentConnectorProject, getCurrentWorkspaceFolder, resolveSubstitutedValues } from "../utils/vscodes";
+
+const TreeViewPrefix: string = `powerquery.sdk.tools`;
+
+const healthStatusIcons: Record<HealthStatus, ThemeIcon> = {
+    ok: new ThemeIcon("pass", new ThemeColor("testing.iconPassed")),
+    warning: new ThemeIcon("warning", new ThemeColor("editorWarning.foreground")),
+    error: new ThemeIcon("error", new ThemeColor("errorForeground")),
+};
+
+const healthStatusBarIcons: Record<HealthStatus, string> = {
+    ok: "$(pass)",
+    warning: "$(warning)",
+    error: "$(error)",
+};
+
+interface ConnectorProjectEntry {
+    workspaceFolder: vscode.WorkspaceFolder;
+    project: ConnectorProject | undefined;
+}
+
+/**
+ * Gathers the readiness of the PQTest toolchain, i.e. the tool version, the service host connection, the freshness
+ * of the .mez file against its sources and the paths configured, into a status bar item and a view whose rows each
+ * offer a one-click fix.
+ */
+export class ToolchainHealthTreeView implements TreeDataProvider<HealthCheck>, IDisposable {
+    public static TreeViewName: string = `${TreeViewPrefix}.ToolchainHealthTreeView`;
+    public static RefreshCommand: string = `${TreeViewPrefix}.ToolchainHealthTreeView.RefreshCommand`;
+    public static FixCommand: string = `${TreeViewPrefix}.ToolchainHealthTreeView.FixCommand`;
+
+    private checks: HealthCheck[] = [];
+    private currentProjectEntry: ConnectorProjectEntry | undefined = undefined;
+    private intervalTaskHandler: NodeJS.Timeout | undefined;
+    private readonly statusBarItem: StatusBarItem;
+    private readonly _disposables: vscode.Disposable[] = [];
+
+    private _onDidChangeTreeData: EventEmitter<HealthCheck | undefined> = new EventEmitter();
+    get onDidChangeTreeData(): Event<void | HealthCheck | undefined | null> {
+        return this._onDidChangeTreeData.event;
+    }
+
+    constructor(
+        globalEventBus: GlobalEventBus,
+        private readonly pqTestService: IPQTestService,
+    ) {
+        this.statusBarItem = vscode.window.createStatusBarItem(StatusBarAlignment.Left);
+        this.statusBarItem.command = `${ToolchainHealthTreeView.TreeViewName}.focus`;
+
+        globalEventBus.on(GlobalEvents.VSCodeEvents.onDidChangeCurrentWorkspaceFolder, () => {
+            this.currentProjectEntry = undefined;
+            void this.refresh();
+        });
+
+        // the sources of the connector might be created or removed anywhere beneath the workspace folders
+        const connectorProjectFileWatcher: vscode.FileSystemWatcher =
+            vscode.workspace.createFileSystemWatcher(connectorProjectFileGlob);
+
+        const onConnectorProjectFilesChanged = (): void => {
+            this.currentProjectEntry = undefined;
+        };
+
+        connectorProjectFileWatcher.onDidCreate(onConnectorProjectFilesChanged);
+        connectorProjectFileWatcher.onDidDelete(onConnectorProjectFilesChanged);
+
+        this._disposables.push(
+            this.statusBarItem,
+            connectorProjectFileWatcher,
+            vscode.commands.registerCommand(ToolchainHealthTreeView.RefreshCommand, () => {
+                this.currentProjectEntry = undefined;
+
+                return this.refresh();
+            }),
+            vscode.commands.registerCommand(ToolchainHealthTreeView.FixCommand, (check?: HealthCheck) =>
+                this.fix(check),
+            ),
+            vscode.workspace.onDidChangeConfiguration((event: vscode.ConfigurationChangeEvent) => {
+                if (event.affectsConfiguration(ExtensionConstants.ConfigNames.PowerQuerySdk.name)) {
+                    void this.refresh();
+                }
+            }),
+        );
+
+        // none of the state gets evented, thus poll it as lite as the lifecycle commands do
+        this.intervalTaskHandler = setInterval(() => void this.refresh(), 4995);
+        void this.refresh();
+    }
+
+    public dispose(): void {
+        if (this.intervalTaskHandler) {
+            clearInterval(this.intervalTaskHandler);
+            this.intervalTaskHandler = undefined;
+        }
+
+        for (const oneDisposable of this._disposables) {
+            oneDisposable.dispose();
+        }
+
+        this._onDidChangeTreeData.dispose();
+    }
+
+    getChildren(element?: HealthCheck): HealthCheck[] {
+        return element ? [] : this.checks;
+    }
+
+    getTreeItem(element: HealthCheck): TreeItem {
+        const item: TreeItem = new TreeItem(
+            extensionI18n[`PQSdk.toolchainHealth.${element.id}.label`],
+            TreeItemCollapsibleState.None,
+        );
+
+        item.description = [extensionI18n[`PQSdk.toolchainHealth.detail.${element.detail}`], element.value]
+            .filter(Boolean)
+            .join(" · ");
+
+        item.tooltip = element.fix
+            ? `${item.description}\n${extensionI18n[`PQSdk.toolchainHealth.fix.${element.fix}`]}`
+            : item.description;
+
+        item.iconPath = healthStatusIcons[element.status];
+        item.contextValue = element.fix ? "fixableHealthCheck" : "healthCheck";
+
+        return item;
+    }
+
+    private async refresh(): Promise<void> {
+        const checks: HealthCheck[] = checkToolchainHealth(await this.collectToolchainState());
+
+        if (JSON.stringify(checks) !== JSON.stringify(this.checks)) {
+            this.checks = checks;
+            this._onDidChangeTreeData.fire(undefined);
+        }
+
+        const overallStatus: HealthStatus = getOverallHealthStatus(checks);
+
+        this.statusBarItem.text = `${healthStatusBarIcons[overallStatus]} ${extensionI18n["PQSdk.toolchainHealth.statusBar.text"]}`;
+
+        this.statusBarItem.tooltip = resolveI18nTemplate("PQSdk.toolchainHealth.statusBar.tooltip", {
+            problemCount: String(checks.filter((oneCheck: HealthCheck) => oneCheck.status !== "ok").length),
+        });
+
+        this.statusBarItem.backgroundColor =
+            overallStatus === "error" ? new ThemeColor("statusBarItem.errorBackground") : undefined;
+
+        this.statusBarItem.show();
+    }
+
+    private async collectToolchainState(): Promise<ToolchainState> {
+        const mezFilePath: string | undefined = resolveSubstitutedValues(
+            ExtensionConfigurations.DefaultExtensionLocation,
+        );
+
+        const queryFilePath: string | undefined = resolveSubstitutedValues(
+            ExtensionConfigurations.DefaultQueryFileLocation,
+        );
+
+        const projectEntry: ConnectorProjectEntry | undefined = await this.getCurrentProjectEntry();
+
+        const sourceMtimes: Date[] = [];
+
+        if (projectEntry?.project) {
+            const project: ConnectorProject = projectEntry.project;
+
+            for (const oneSource of [
+                project.sectionFile,
+                project.projectFile,
+                ...project.resourceFiles,
+                ...project.iconFiles,
+            ]) {
+                const sourcePath: string | undefined = oneSource
+                    ? path.join(projectEntry.workspaceFolder.uri.fsPath, oneSource)
+                    : undefined;
+
+                if (sourcePath && fs.existsSync(sourcePath)) {
+                    sourceMtimes.push(getMtimeOfAFile(sourcePath));
+                }
+            }
+        }
+
+        return {
+            pqTestReady: this.pqTestService.pqTestReady,
+            pqTestLocation: this.pqTestService.pqTestLocation || ExtensionConfigurations.PQTestLocation,
+            pqTestVersion: ExtensionConfigurations.PQTestVersion,
+            useServiceHost: ExtensionConfigurations.featureUseServiceHost,
+            serviceHostConnected: Boolean(
+                (this.pqTestService as IPQTestService & { pqServiceHostConnected?: boolean }).pqServiceHostConnected,
+            ),
+            mezFilePath,
+            mezFileMtime: mezFilePath && fs.existsSync(mezFilePath) ? getMtimeOfAFile(mezFilePath) : undefined,
+            latestSourceMtime: sourceMtimes.length
+                ? new Date(Math.max(...sourceMtimes.map((oneMtime: Date) => oneMtime.getTime())))
+                : undefined,
+            queryFilePath,
+            queryFileExists: Boolean(queryFilePath && fs.existsSync(queryFilePath)),
+        };
+    }
+
+    // looking projects up lists the files of the workspace folder, thus it only happens once they changed
+    private async getCurrentProjectEntry(): Promise<ConnectorProjectEntry | undefined> {
+        const workspaceFolder: vscode.WorkspaceFolder | undefined = getCurrentWorkspaceFolder();
+
+        if (!workspaceFolder) {
+            return undefined;
+        }
+
+        if (this.currentProjectEntry?.workspaceFolder.uri.toString() !== workspaceFolder.uri.toString()) {
+            this.currentProjectEntry = {
+                workspaceFolder,
+                project: await findCurrentConnectorProject(workspaceFolder),
+            };
+        }
+
+        return this.currentProjectEntry;
+    }
+
+    private async fix(check: HealthCheck | undefined): Promise<void> {
+        const fix: HealthCheckFix | undefined = check?.fix;
+
+        if (!fix) {
+            return;
+        }
+
+        switch (fix) {
+            case "seizePqTest":
+                await vscode.commands.executeCommand(LifecycleCommands.SeizePqTestCommand);
+                break;
+            case "reconnectServiceHost":
+                this.pqTestService.onPowerQueryTestLocationChanged();
+                break;
+            case "buildProject":
+                await vscode.commands.executeCommand(LifecycleCommands.BuildProjectCommand);
+                break;
+            case "setupWorkspace":
+                await vscode.commands.executeCommand(LifecycleCommands.SetupCurrentWorkspaceCommand);
+                break;
+            case "openSettings":
+            default:
+                await vscode.commands.executeCommand(
+                    "workbench.action.openWorkspaceSettings",
+                    ExtensionConstants.ConfigNames.PowerQuerySdk.name,
+                );
+
+                break;
+        }
+
+        await this.refresh();
+    }
+}
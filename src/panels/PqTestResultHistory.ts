@@ -0,0 +1,88 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+import * as vscode from "vscode";
+
+import { ValueEventEmitter } from "../common/ValueEventEmitter";
+import { ExtensionConfigurations } from "../constants/PowerQuerySdkConfiguration";
+import { makeId } from "../utils/ids";
+import {
+    appendResultHistoryEntry,
+    compactResultHistoryEntry,
+    PqTestResultHistoryEntry,
+    removeResultHistoryEntries,
+    setResultHistoryEntryPinned,
+} from "./resultHistory";
+import { ResultColumnSchema } from "./resultSchema";
+
+/**
+ * Keeps the evaluations shown by the result view within the workspace state, so that they survive reloads,
+ * and publishes every change through the given emitter. Entries only keep a snapshot of the first Output rows.
+ */
+export class PqTestResultHistory {
+    private static readonly StateKey: string = "powerquery.sdk.tools.ResultWebView.history";
+
+    constructor(
+        private readonly workspaceState: vscode.Memento,
+        private readonly emitter: ValueEventEmitter<PqTestResultHistoryEntry[]>,
+    ) {
+        const storedEntries: PqTestResultHistoryEntry[] = this.workspaceState.get<PqTestResultHistoryEntry[]>(
+            PqTestResultHistory.StateKey,
+            [],
+        );
+
+        // entries recorded by former versions hold their whole outputs
+        if (storedEntries.some((oneEntry: PqTestResultHistoryEntry) => !oneEntry.outputSnapshot)) {
+            this.update(storedEntries.map((oneEntry: PqTestResultHistoryEntry) => compactResultHistoryEntry(oneEntry)));
+        } else {
+            this.emitter.emit(storedEntries);
+        }
+    }
+
+    get entries(): PqTestResultHistoryEntry[] {
+        return this.emitter.value;
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    public record(result: any, queryFilePath?: string, schema?: ReadonlyArray<ResultColumnSchema>): void {
+        this.update(
+            appendResultHistoryEntry(
+                this.entries,
+                compactResultHistoryEntry({
+                    id: makeId(12),
+                    queryFilePath,
+                    timestamp: Date.now(),
+                    pinned: false,
+                    result,
+                    schema,
+                }),
+                ExtensionConfigurations.resultViewHistoryLimit,
+            ),
+        );
+    }
+
+    public find(id: string): PqTestResultHistoryEntry | undefined {
+        return this.entries.find((oneEntry: PqTestResultHistoryEntry) => oneEntry.id === id);
+    }
+
+    public findLatest(queryFilePath: string): PqTestResultHistoryEntry | undefined {
+        return this.entries.find((oneEntry: PqTestResultHistoryEntry) => oneEntry.queryFilePath === queryFilePath);
+    }
+
+    public setPinned(id: string, pinned: boolean): void {
+        this.update(setResultHistoryEntryPinned(this.entries, id, pinned));
+    }
+
+    public remove(id?: string): void {
+        this.update(removeResultHistoryEntries(this.entries, id));
+    }
+
+    private update(nextEntries: PqTestResultHistoryEntry[]): void {
+        void this.workspaceState.update(PqTestResultHistory.StateKey, nextEntries);
+        this.emitter.emit(nextEntries);
+    }
+}
@@ -5,22 +5,55 @@
  * LICENSE file in the root of this projects source tree.
  */
 
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
 import * as vscode from "vscode";
 import { Webview, WebviewPanel, WebviewPanelOnDidChangeViewStateEvent } from "vscode";
 
 import { Disposable, IDisposable } from "../common/Disposable";
 import { ExtractValueEventEmitterTypes, ValueEventEmitter } from "../common/ValueEventEmitter";
 import { ExtensionConfigurations } from "../constants/PowerQuerySdkConfiguration";
-import { extensionI18n } from "../i18n/extension";
+import { extensionI18n, resolveI18nTemplate } from "../i18n/extension";
+import {
+    PqTestExecutableOnceTask,
+    PqTestExecutableOnceTaskQueueEvents,
+} from "../pqTestConnector/PqTestExecutableOnceTask";
+import { findTraceFilesWrittenSince, FoldingReport, readFoldingReport } from "../testing/pqtest-adapter/core/folding";
+import { getQueryFileBaseName } from "../testing/pqtest-adapter/core/httpMock";
+import { getCurrentWorkspaceFolder } from "../utils/vscodes";
+import { PqTestResultHistory } from "./PqTestResultHistory";
+import { diffResultHistoryEntries } from "./resultDiff";
+import {
+    createResultExportFileName,
+    resolveGeneratedBaselineFilePath,
+    ResultExportFormat,
+    ResultExportTable,
+    serializeRows,
+} from "./resultExport";
+import { createExpressionResultKey, PqTestResultHistoryEntry } from "./resultHistory";
+import { createResultShell, getOutputPage } from "./resultPaging";
+import { createResultSchema, ResultSchema } from "./resultSchema";
 
 const PqTestResultViewPanelPrefix: string = `powerquery.sdk.tools`;
 
+// where PQTest writes its mashup engine traces once LogMashupEngineTraceLevel is set
+const PqTestLogsFolderPath: string = path.join(
+    process.env.LOCALAPPDATA ?? path.join(os.homedir(), "AppData", "Local"),
+    "Microsoft",
+    "PQTest",
+    "Logs",
+);
+
 // eslint-disable-next-line @typescript-eslint/typedef
 const SimpleBrokerValues = Object.freeze({
     locale: new ValueEventEmitter<string>(ExtensionConfigurations.pqLocale),
     activeColorTheme: new ValueEventEmitter<vscode.ColorTheme>(vscode.window.activeColorTheme),
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     latestPqTestResult: new ValueEventEmitter<any>(undefined),
+    resultHistory: new ValueEventEmitter<PqTestResultHistoryEntry[]>([]),
+    latestResultSchema: new ValueEventEmitter<ResultSchema | undefined>(undefined),
+    latestFoldingReport: new ValueEventEmitter<FoldingReport | undefined>(undefined),
 });
 
 type SimplePqTestResultViewBrokerValues = ExtractValueEventEmitterTypes<typeof SimpleBrokerValues>;
@@ -37,11 +70,56 @@ export class SimplePqTestResultViewBroker {
             this.values[oneProperty as SimplePqTestResultViewBrokerValues].subscribe((nextValue: any) => {
                 PqTestResultViewPanel.currentPanel?.postOneMessage("OnOneValueUpdated", {
                     property: oneProperty,
-                    value: nextValue,
+                    value: this.project(oneProperty as SimplePqTestResultViewBrokerValues, nextValue),
                 });
             });
         }
     }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    private static latestResult: any = undefined;
+    private static _latestResultId: number = 0;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    private static latestResultShell: any = undefined;
+
+    /**
+     * Id of the latest result, pages requested against any former one are stale
+     */
+    public static get latestResultId(): number {
+        return this._latestResultId;
+    }
+
+    /**
+     * Outputs could be tens of thousands of rows, thus results are posted as shells whose rows get paged on demand
+     */
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    private static project(property: SimplePqTestResultViewBrokerValues, value: any): unknown {
+        switch (property) {
+            case "latestPqTestResult":
+                if (value !== this.latestResult) {
+                    this.latestResult = value;
+                    this._latestResultId++;
+                    this.latestResultShell = createResultShell(value, this._latestResultId);
+                }
+
+                return this.latestResultShell;
+            case "resultHistory":
+                // entries hold shells of their results already, along with output snapshots left to the extension
+                return (value as PqTestResultHistoryEntry[]).map((oneEntry: PqTestResultHistoryEntry) => ({
+                    id: oneEntry.id,
+                    queryFilePath: oneEntry.queryFilePath,
+                    timestamp: oneEntry.timestamp,
+                    pinned: oneEntry.pinned,
+                    result: oneEntry.result,
+                }));
+            case "locale":
+            case "activeColorTheme":
+            case "latestResultSchema":
+            case "latestFoldingReport":
+            default:
+                return value;
+        }
+    }
     public static emitAll(): void {
         for (const oneProperty in this.values) {
             this.values[oneProperty as SimplePqTestResultViewBrokerValues].emit();
@@ -69,6 +147,11 @@ export class PqTestResultViewPanel implements IDisposable {
     public static readonly viewPaths: string[] = ["webviewDist", "pq-test-result-view"];
 
     public static currentPanel?: PqTestResultViewPanel;
+    private static resultHistory?: PqTestResultHistory;
+    // the query file the latest result got evaluated from, exports are saved beside it by default
+    private static latestQueryFilePath?: string;
+    // the let step or selection the latest result got evaluated from, if not from the whole query
+    private static latestExpressionName?: string;
 
     public static getWebviewOptions(extensionUri: vscode.Uri): vscode.WebviewOptions {
         return {
@@ -88,11 +171,42 @@ export class PqTestResultViewPanel implements IDisposable {
         );
 
         vscExtCtx.subscriptions.push(
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            vscode.commands.registerCommand(PqTestResultViewPanel.UpdateResultWebViewCommand, (nextResult: any) => {
-                PqTestResultViewPanel.createOrShow(vscExtCtx.extensionUri);
-                SimplePqTestResultViewBroker.values.latestPqTestResult.emit(nextResult);
-            }),
+            vscode.commands.registerCommand(
+                PqTestResultViewPanel.UpdateResultWebViewCommand,
+                // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                (nextResult: any, queryFilePath?: string, expressionName?: string) => {
+                    PqTestResultViewPanel.createOrShow(vscExtCtx.extensionUri);
+
+                    // results of one step or selection are no runs of the whole query
+                    const resultKey: string | undefined =
+                        queryFilePath && expressionName
+                            ? createExpressionResultKey(queryFilePath, expressionName)
+                            : queryFilePath;
+
+                    // the previous run of the same query has to be looked up before recording the next one
+                    const previousEntry: PqTestResultHistoryEntry | undefined = resultKey
+                        ? PqTestResultViewPanel.resultHistory?.findLatest(resultKey)
+                        : undefined;
+
+                    const resultSchema: ResultSchema = createResultSchema(nextResult, previousEntry?.schema);
+                    SimplePqTestResultViewBroker.values.latestResultSchema.emit(resultSchema);
+
+                    // emit would keep the former value given undefined, and a former report must not outlive its result
+                    SimplePqTestResultViewBroker.values.latestFoldingReport.value = undefined;
+                    SimplePqTestResultViewBroker.values.latestFoldingReport.emit();
+                    void PqTestResultViewPanel.emitFoldingReport(nextResult);
+
+                    PqTestResultViewPanel.resultHistory?.record(nextResult, resultKey, resultSchema.columns);
+                    PqTestResultViewPanel.latestQueryFilePath = queryFilePath;
+                    PqTestResultViewPanel.latestExpressionName = expressionName;
+                    SimplePqTestResultViewBroker.values.latestPqTestResult.emit(nextResult);
+                },
+            ),
+        );
+
+        PqTestResultViewPanel.resultHistory = new PqTestResultHistory(
+            vscExtCtx.workspaceState,
+            SimplePqTestResultViewBroker.values.resultHistory,
         );
 
         if (vscode.window.registerWebviewPanelSerializer) {
@@ -115,6 +229,27 @@ export class PqTestResultViewPanel implements IDisposable {
         });
     }
 
+    /**
+     * Emits the folding report of an evaluation, out of the trace files PQTest wrote while evaluating it.
+     */
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    private static async emitFoldingReport(nextResult: any): Promise<void> {
+        const startTimeMs: number = Date.parse(Array.isArray(nextResult) ? nextResult[0]?.StartTime : undefined);
+
+        if (Number.isNaN(startTimeMs)) {
+            return;
+        }
+
+        const foldingReport: FoldingReport | undefined = await readFoldingReport(
+            await findTraceFilesWrittenSince(PqTestLogsFolderPath, startTimeMs),
+        );
+
+        // another result could have arrived in the meantime
+        if (foldingReport && SimplePqTestResultViewBroker.values.latestPqTestResult.value === nextResult) {
+            SimplePqTestResultViewBroker.values.latestFoldingReport.emit(foldingReport);
+        }
+    }
+
     public static createOrShow(extensionUri: vscode.Uri): void {
         // const column: ViewColumn | undefined = vscode.window.activeTextEditor?.viewColumn ?? undefined;
         if (this.currentPanel) {
@@ -168,6 +303,63 @@ export class PqTestResultViewPanel implements IDisposable {
                 switch (message.type) {
                     case "onReady":
                         SimplePqTestResultViewBroker.emitAll();
+                        break;
+                    case "pinHistoryEntry":
+                        PqTestResultViewPanel.resultHistory?.setPinned(
+                            message.payload.id,
+                            Boolean(message.payload.pinned),
+                        );
+
+                        break;
+                    case "removeHistoryEntry":
+                        PqTestResultViewPanel.resultHistory?.remove(message.payload?.id);
+                        break;
+                    case "exportResult":
+                        void this.exportResult(
+                            message.payload.table,
+                            message.payload.format,
+                            // output rows are not held by the webview any longer
+                            message.payload.table === "output"
+                                ? SimplePqTestResultViewBroker.values.latestPqTestResult.value?.[0]?.Output
+                                : message.payload.rows,
+                        );
+
+                        break;
+                    case "requestOutputPage":
+                        if (message.payload.resultId === SimplePqTestResultViewBroker.latestResultId) {
+                            this.postOneMessage(
+                                "OnOutputPage",
+                                getOutputPage(
+                                    SimplePqTestResultViewBroker.values.latestPqTestResult.value,
+                                    message.payload.resultId,
+                                    message.payload.offset,
+                                    message.payload.count,
+                                ),
+                            );
+                        }
+
+                        break;
+
+                    case "requestHistoryDiff": {
+                        const older: PqTestResultHistoryEntry | undefined = PqTestResultViewPanel.resultHistory?.find(
+                            message.payload.olderId,
+                        );
+
+                        const newer: PqTestResultHistoryEntry | undefined = PqTestResultViewPanel.resultHistory?.find(
+                            message.payload.newerId,
+                        );
+
+                        // only the changed rows get posted, the unchanged ones are counted
+                        if (older && newer) {
+                            this.postOneMessage("OnHistoryDiff", {
+                                olderId: older.id,
+                                newerId: newer.id,
+                                diff: diffResultHistoryEntries(older, newer),
+                            });
+                        }
+
+                        break;
+                    }
                 }
             },
             null,
@@ -197,6 +389,140 @@ export class PqTestResultViewPanel implements IDisposable {
         }
     }
 
+    private async exportResult(table: ResultExportTable, format: ResultExportFormat, rows: unknown[]): Promise<void> {
+        const queryFilePath: string | undefined = PqTestResultViewPanel.latestQueryFilePath;
+
+        const fileName: string = createResultExportFileName(
+            queryFilePath ? path.basename(queryFilePath) : "",
+            table,
+            format,
+        );
+
+        const defaultFolderUri: vscode.Uri | undefined = queryFilePath
+            ? vscode.Uri.file(path.dirname(queryFilePath))
+            : getCurrentWorkspaceFolder()?.uri;
+
+        const targetUri: vscode.Uri | undefined = await vscode.window.showSaveDialog({
+            defaultUri: defaultFolderUri ? vscode.Uri.joinPath(defaultFolderUri, fileName) : undefined,
+            filters: { [format.toUpperCase()]: [format] },
+        });
+
+        if (!targetUri) {
+            return;
+        }
+
+        try {
+            if (format === "pqout") {
+                const expressionName: string | undefined = PqTestResultViewPanel.latestExpressionName;
+
+                // a baseline of the whole query would not be the one of the evaluated step
+                if (expressionName) {
+                    throw new Error(
+                        resolveI18nTemplate("PQTest.result.view.export.baselineNeedsWholeQuery", { expressionName }),
+                    );
+                }
+
+                await this.exportPqOutBaseline(queryFilePath, targetUri.fsPath);
+            } else {
+                fs.writeFileSync(targetUri.fsPath, serializeRows(rows ?? [], format), "utf8");
+            }
+
+            this.postOneMessage("OnResultExported", { filePath: targetUri.fsPath });
+
+            const openLabel: string = resolveI18nTemplate("PQSdk.common.open.file", {
+                fileName: path.basename(targetUri.fsPath),
+            });
+
+            const answer: string | undefined = await vscode.window.showInformationMessage(
+                resolveI18nTemplate("PQTest.result.view.export.succeeded", { filePath: targetUri.fsPath }),
+                openLabel,
+            );
+
+            if (answer === openLabel) {
+                await vscode.window.showTextDocument(targetUri);
+            }
+        } catch (error) {
+            const errorMessage: string = error instanceof Error ? error.message : String(error);
+            this.postOneMessage("OnResultExported", { error: errorMessage });
+
+            void vscode.window.showErrorMessage(
+                resolveI18nTemplate("PQTest.result.view.export.errorMessage", { errorMessage }),
+            );
+        }
+    }
+
+    /**
+     * Exports the baseline PQTest.exe itself generates for the query, which run-compare compares its output with
+     * byte by byte. run-compare writes one for queries lacking a baseline, thus it runs a copy of the query living in
+     * a temporary folder, leaving any baseline beside the query untouched.
+     */
+    private async exportPqOutBaseline(queryFilePath: string | undefined, targetFilePath: string): Promise<void> {
+        if (!queryFilePath) {
+            throw new Error(extensionI18n["PQTest.result.view.export.baselineNeedsQueryFile"]);
+        }
+
+        const tempFolder: string = fs.mkdtempSync(path.join(os.tmpdir(), "pq-baseline-"));
+
+        const tempQueryFilePath: string = path.join(
+            tempFolder,
+            `${getQueryFileBaseName(path.basename(queryFilePath))}.query.pq`,
+        );
+
+        const pqTestTask: PqTestExecutableOnceTask = new PqTestExecutableOnceTask();
+        const errorOutputs: string[] = [];
+
+        // outputs are emitted asynchronously, the last of them right before the exit
+        const processExited: Promise<void> = new Promise<void>((resolve: () => void) => {
+            pqTestTask.eventBus.on(PqTestExecutableOnceTaskQueueEvents.processExited, resolve);
+        });
+
+        pqTestTask.eventBus.on(
+            PqTestExecutableOnceTaskQueueEvents.onOutput,
+            (type: "stdOutput" | "stdError", text: string) => {
+                if (type === "stdError") {
+                    errorOutputs.push(text);
+                }
+            },
+        );
+
+        try {
+            fs.copyFileSync(queryFilePath, tempQueryFilePath);
+
+            const runCompareOutput: unknown = await vscode.window.withProgress(
+                {
+                    title: extensionI18n["PQTest.result.view.export.generatingBaseline"],
+                    location: vscode.ProgressLocation.Window,
+                },
+                () =>
+                    pqTestTask.run(tempQueryFilePath, {
+                        operation: "run-compare",
+                        pathToQueryFile: tempQueryFilePath,
+                    }),
+            );
+
+            await processExited;
+
+            const baselineFilePath: string = resolveGeneratedBaselineFilePath(
+                typeof runCompareOutput === "string" ? runCompareOutput : "",
+                tempQueryFilePath,
+            );
+
+            if (!fs.existsSync(baselineFilePath)) {
+                throw new Error(
+                    resolveI18nTemplate("PQTest.result.view.export.baselineNotGenerated", {
+                        queryFilePath,
+                        errorMessage: errorOutputs.join("\n"),
+                    }),
+                );
+            }
+
+            fs.copyFileSync(baselineFilePath, targetFilePath);
+        } finally {
+            pqTestTask.dispose();
+            fs.rmSync(tempFolder, { recursive: true, force: true });
+        }
+    }
+
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     public postOneMessage(type: string, payload: any): void {
         void this._panel.webview.postMessage({
@@ -0,0 +1,128 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+/**
+ * Pure helpers comparing the outputs of two runs kept in the result view history, so that the webview only receives
+ * the rows which changed between them.
+ * These functions have no vscode dependencies to enable unit testing with plain Mocha.
+ */
+
+import { PqTestResultHistoryEntry } from "./resultHistory";
+
+export type DiffStatus = "added" | "removed" | "changed" | "unchanged";
+
+export interface ColumnDiff {
+    readonly name: string;
+    readonly status: DiffStatus;
+}
+
+export interface RowDiff {
+    readonly index: number;
+    readonly status: DiffStatus;
+    readonly left?: Record<string, unknown>;
+    readonly right?: Record<string, unknown>;
+    readonly changedColumns: ReadonlyArray<string>;
+}
+
+export interface ResultHistoryDiff {
+    readonly columns: ReadonlyArray<ColumnDiff>;
+    /** the rows which got added, removed or changed, the unchanged ones are only counted */
+    readonly rows: ReadonlyArray<RowDiff>;
+    readonly counts: Readonly<Record<DiffStatus, number>>;
+    /** whether either run held more rows than its snapshot, beyond which rows were not compared */
+    readonly isTruncated: boolean;
+}
+
+function toRow(value: unknown): Record<string, unknown> | undefined {
+    if (value === undefined) {
+        return undefined;
+    }
+
+    // scalar outputs come as bare values rather than rows
+    return typeof value === "object" && value !== null && !Array.isArray(value)
+        ? (value as Record<string, unknown>)
+        : { Value: value };
+}
+
+function collectColumns(rows: ReadonlyArray<unknown>): string[] {
+    const columns: Set<string> = new Set();
+
+    rows.forEach((oneRow: unknown) => Object.keys(toRow(oneRow) ?? {}).forEach((name: string) => columns.add(name)));
+
+    return Array.from(columns);
+}
+
+/**
+ * Compares two outputs row by row at the same position, and column by column by name.
+ * Rows are not matched by key since the outputs carry no key information.
+ *
+ * @param left - The rows of the older run
+ * @param right - The rows of the newer run
+ * @returns The column changes, the changed rows and the count of rows of each status
+ */
+export function diffOutputs(
+    left: ReadonlyArray<unknown>,
+    right: ReadonlyArray<unknown>,
+): Omit<ResultHistoryDiff, "isTruncated"> {
+    const leftColumns: string[] = collectColumns(left);
+    const rightColumns: string[] = collectColumns(right);
+
+    const columns: ColumnDiff[] = [
+        ...leftColumns.map((name: string) => ({
+            name,
+            status: (rightColumns.includes(name) ? "unchanged" : "removed") as DiffStatus,
+        })),
+        ...rightColumns
+            .filter((name: string) => !leftColumns.includes(name))
+            .map((name: string) => ({ name, status: "added" as DiffStatus })),
+    ];
+
+    const rows: RowDiff[] = [];
+    const counts: Record<DiffStatus, number> = { added: 0, removed: 0, changed: 0, unchanged: 0 };
+
+    for (let index: number = 0; index < Math.max(left.length, right.length); index++) {
+        const leftRow: Record<string, unknown> | undefined = toRow(left[index]);
+        const rightRow: Record<string, unknown> | undefined = toRow(right[index]);
+
+        if (!leftRow) {
+            rows.push({ index, status: "added", right: rightRow, changedColumns: [] });
+            counts.added++;
+        } else if (!rightRow) {
+            rows.push({ index, status: "removed", left: leftRow, changedColumns: [] });
+            counts.removed++;
+        } else {
+            const changedColumns: string[] = columns
+                .map((oneColumn: ColumnDiff) => oneColumn.name)
+                .filter((name: string) => JSON.stringify(leftRow[name]) !== JSON.stringify(rightRow[name]));
+
+            if (changedColumns.length) {
+                rows.push({ index, status: "changed", left: leftRow, right: rightRow, changedColumns });
+                counts.changed++;
+            } else {
+                counts.unchanged++;
+            }
+        }
+    }
+
+    return { columns, rows, counts };
+}
+
+/**
+ * Compares the output snapshots of two history entries.
+ *
+ * @param older - The entry of the older run
+ * @param newer - The entry of the newer run
+ */
+export function diffResultHistoryEntries(
+    older: PqTestResultHistoryEntry,
+    newer: PqTestResultHistoryEntry,
+): ResultHistoryDiff {
+    return {
+        ...diffOutputs(older.outputSnapshot ?? [], newer.outputSnapshot ?? []),
+        isTruncated: Boolean(older.isOutputTruncated || newer.isOutputTruncated),
+    };
+}
@@ -0,0 +1,121 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+import { getQueryFileBaseName } from "../testing/pqtest-adapter/core/httpMock";
+
+/**
+ * Pure serializers behind the export actions of the result view.
+ * These functions have no vscode dependencies to enable unit testing with plain Mocha.
+ */
+
+export type ResultExportTable = "output" | "dataSource" | "error";
+export type ResultExportFormat = "csv" | "json" | "pqout";
+// PQOut baselines are written by PQTest.exe itself, only the other formats get serialized here
+export type SerializedResultExportFormat = Exclude<ResultExportFormat, "pqout">;
+
+type ResultRow = Record<string, unknown>;
+
+function toRow(value: unknown): ResultRow {
+    // scalar outputs come as bare values rather than rows
+    return typeof value === "object" && value !== null && !Array.isArray(value)
+        ? (value as ResultRow)
+        : { Value: value };
+}
+
+function collectColumns(rows: ReadonlyArray<ResultRow>): string[] {
+    const columns: Set<string> = new Set<string>();
+
+    for (const oneRow of rows) {
+        Object.keys(oneRow).forEach((oneColumn: string) => columns.add(oneColumn));
+    }
+
+    return Array.from(columns);
+}
+
+function toCsvField(value: unknown): string {
+    if (value === null || value === undefined) {
+        return "";
+    }
+
+    const text: string = typeof value === "object" ? JSON.stringify(value) : String(value);
+
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serializes rows as RFC 4180 csv, with a header of every column found in any row.
+ */
+export function serializeRowsAsCsv(values: ReadonlyArray<unknown>): string {
+    const rows: ResultRow[] = values.map(toRow);
+    const columns: string[] = collectColumns(rows);
+
+    return [
+        columns.map(toCsvField).join(","),
+        ...rows.map((oneRow: ResultRow) => columns.map((oneColumn: string) => toCsvField(oneRow[oneColumn])).join(",")),
+    ].join("\r\n");
+}
+
+export function serializeRowsAsJson(values: ReadonlyArray<unknown>): string {
+    return JSON.stringify(values, null, 4);
+}
+
+export function serializeRows(values: ReadonlyArray<unknown>, format: SerializedResultExportFormat): string {
+    switch (format) {
+        case "csv":
+            return serializeRowsAsCsv(values);
+        case "json":
+        default:
+            return serializeRowsAsJson(values);
+    }
+}
+
+/**
+ * Locates the baseline run-compare generated for a query lacking one, i.e. the actual output file its testEnd event
+ * reports, otherwise the .pqout file beside the query.
+ *
+ * @param runCompareOutput - The output of run-compare, one "action:json" line per test event
+ * @param queryFilePath - The query run-compare ran, e.g. "c:/temp/Contoso.query.pq"
+ */
+export function resolveGeneratedBaselineFilePath(runCompareOutput: string, queryFilePath: string): string {
+    for (const oneLine of runCompareOutput.split(/\r?\n/)) {
+        const trimmedLine: string = oneLine.trim();
+
+        if (trimmedLine.startsWith("testEnd:")) {
+            try {
+                const actualFilePath: unknown = JSON.parse(
+                    trimmedLine.substring("testEnd:".length),
+                )?.actualTestResultFilePath;
+
+                if (typeof actualFilePath === "string" && actualFilePath) {
+                    return actualFilePath;
+                }
+            } catch {
+                // noop, fall back to the file beside the query
+            }
+        }
+    }
+
+    return queryFilePath.replace(/\.pq$/i, ".pqout");
+}
+
+/**
+ * Creates the default export file name, e.g. "Contoso.query.pqout" or "Contoso.dataSource.csv".
+ * PQOut baselines sit beside their query, thus they share its name for run-compare to pick them up.
+ *
+ * @param queryFileName - Query file the result got evaluated from, e.g. "Contoso.query.pq"
+ * @param table - The exported table
+ * @param format - The export format
+ */
+export function createResultExportFileName(
+    queryFileName: string,
+    table: ResultExportTable,
+    format: ResultExportFormat,
+): string {
+    const baseName: string = getQueryFileBaseName(queryFileName) || "result";
+
+    return format === "pqout" ? `${baseName}.query.pqout` : `${baseName}.${table}.${format}`;
+}
@@ -0,0 +1,141 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+/**
+ * Pure helpers maintaining the evaluation history of the result view.
+ * These functions have no vscode dependencies to enable unit testing with plain Mocha.
+ */
+
+import { createResultShell } from "./resultPaging";
+import { getResultSchema, ResultColumnSchema } from "./resultSchema";
+
+// Output rows kept per entry, the workspace state should not hold whole outputs
+export const ResultHistorySnapshotRows: number = 1000;
+// Entries kept across every query file, pinned ones included
+export const MaxResultHistoryEntries: number = 100;
+
+export interface PqTestResultHistoryEntry {
+    readonly id: string;
+    /** the query file the result got evaluated from if known, see createExpressionResultKey for those of steps */
+    readonly queryFilePath?: string;
+    /** epoch milliseconds of the moment the result got recorded */
+    readonly timestamp: number;
+    readonly pinned: boolean;
+    /** the result without its Output rows, which are described by OutputInfo instead */
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    readonly result: any;
+    /** the first Output rows of the first test run execution */
+    readonly outputSnapshot?: ReadonlyArray<unknown>;
+    /** whether the Output held more rows than its snapshot */
+    readonly isOutputTruncated?: boolean;
+    /** the schema of the whole Output, which its snapshot could not tell */
+    readonly schema?: ReadonlyArray<ResultColumnSchema>;
+}
+
+/**
+ * Compacts an entry whose result still holds its Output rows, keeping a snapshot of the first rows only along with
+ * the schema of all of them. Entries compacted already are returned as they are.
+ *
+ * @param entry - The entry to be compacted
+ * @param snapshotRows - Max count of Output rows kept
+ */
+export function compactResultHistoryEntry(
+    entry: PqTestResultHistoryEntry,
+    snapshotRows: number = ResultHistorySnapshotRows,
+): PqTestResultHistoryEntry {
+    if (entry.outputSnapshot) {
+        return entry;
+    }
+
+    const output: unknown[] =
+        Array.isArray(entry.result) && Array.isArray(entry.result[0]?.Output) ? entry.result[0].Output : [];
+
+    return {
+        ...entry,
+        result: createResultShell(entry.result, 0),
+        outputSnapshot: output.slice(0, snapshotRows),
+        isOutputTruncated: output.length > snapshotRows,
+        schema: entry.schema ?? getResultSchema(Array.isArray(entry.result) ? entry.result[0] : undefined),
+    };
+}
+
+/**
+ * Keys the results of one let step or selection of a query file apart from the results of the whole query,
+ * e.g. "C:/Contoso.query.pq#Source".
+ *
+ * @param queryFilePath - The query file the expression belongs to
+ * @param expressionName - The name of the let step, or the range of the selection
+ */
+export function createExpressionResultKey(queryFilePath: string, expressionName: string): string {
+    return `${queryFilePath}#${expressionName}`;
+}
+
+/**
+ * Prepends a new entry and drops the oldest unpinned entries of its query file beyond the limit, then the oldest
+ * unpinned entries of any query file beyond the overall limit.
+ * Pinned entries never count against the limit per query file.
+ *
+ * @param entries - Current history, newest first
+ * @param entry - The entry to be added
+ * @param limitPerQueryFile - Max count of unpinned entries kept per query file
+ * @param overallLimit - Max count of entries kept, unless pinned ones exceed it
+ * @returns The next history, newest first
+ */
+export function appendResultHistoryEntry(
+    entries: ReadonlyArray<PqTestResultHistoryEntry>,
+    entry: PqTestResultHistoryEntry,
+    limitPerQueryFile: number,
+    overallLimit: number = MaxResultHistoryEntries,
+): PqTestResultHistoryEntry[] {
+    let unpinnedCount: number = 0;
+
+    const nextEntries: PqTestResultHistoryEntry[] = [entry, ...entries].filter((oneEntry: PqTestResultHistoryEntry) => {
+        if (oneEntry.pinned || oneEntry.queryFilePath !== entry.queryFilePath) {
+            return true;
+        }
+
+        unpinnedCount++;
+
+        return unpinnedCount <= limitPerQueryFile;
+    });
+
+    let overflowCount: number = nextEntries.length - overallLimit;
+
+    for (let index: number = nextEntries.length - 1; index >= 0 && overflowCount > 0; index--) {
+        if (!nextEntries[index].pinned) {
+            nextEntries.splice(index, 1);
+            overflowCount--;
+        }
+    }
+
+    return nextEntries;
+}
+
+/**
+ * Pins or unpins one entry, unknown ids leave the history as it was.
+ */
+export function setResultHistoryEntryPinned(
+    entries: ReadonlyArray<PqTestResultHistoryEntry>,
+    id: string,
+    pinned: boolean,
+): PqTestResultHistoryEntry[] {
+    return entries.map((oneEntry: PqTestResultHistoryEntry) =>
+        oneEntry.id === id ? { ...oneEntry, pinned } : oneEntry,
+    );
+}
+
+/**
+ * Drops one entry, or every unpinned entry when no id is given.
+ */
+export function removeResultHistoryEntries(
+    entries: ReadonlyArray<PqTestResultHistoryEntry>,
+    id?: string,
+): PqTestResultHistoryEntry[] {
+    return entries.filter((oneEntry: PqTestResultHistoryEntry) =>
+        id === undefined ? oneEntry.pinned : oneEntry.id !== id,
+    );
+}
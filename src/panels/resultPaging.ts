@@ -0,0 +1,136 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+/**
+ * Pure helpers of the paged result view protocol: the webview only receives a shell of each result, i.e. everything
+ * but its Output rows, and pulls the rows page by page while they scroll into view.
+ * These functions have no vscode dependencies to enable unit testing with plain Mocha.
+ */
+
+export const DefaultOutputPageSize: number = 200;
+
+export type ResultColumnType = "text" | "number" | "logical" | "record" | "list" | "null" | "any";
+
+export interface ResultColumnInfo {
+    readonly name: string;
+    readonly type: ResultColumnType;
+}
+
+export interface ResultOutputInfo {
+    readonly totalRows: number;
+    readonly columns: ReadonlyArray<ResultColumnInfo>;
+}
+
+export interface ResultOutputPage {
+    readonly resultId: number;
+    readonly offset: number;
+    readonly totalRows: number;
+    readonly rows: ReadonlyArray<unknown>;
+}
+
+function getValueType(value: unknown): ResultColumnType {
+    if (value === null || value === undefined) {
+        return "null";
+    }
+
+    if (Array.isArray(value)) {
+        return "list";
+    }
+
+    switch (typeof value) {
+        case "string":
+            return "text";
+        case "number":
+            return "number";
+        case "boolean":
+            return "logical";
+        case "object":
+            return "record";
+        case "bigint":
+        case "symbol":
+        case "undefined":
+        case "function":
+        default:
+            return "any";
+    }
+}
+
+/**
+ * Collects the row count and the columns of an Output, with the type of their non-null values.
+ * Columns holding values of different types are typed as any, scalar outputs get a single Value column.
+ */
+export function describeOutput(output: ReadonlyArray<unknown>): ResultOutputInfo {
+    const columnTypes: Map<string, ResultColumnType> = new Map();
+
+    const mergeType = (name: string, value: unknown): void => {
+        const valueType: ResultColumnType = getValueType(value);
+        const knownType: ResultColumnType | undefined = columnTypes.get(name);
+
+        if (knownType === undefined || knownType === "null") {
+            columnTypes.set(name, valueType);
+        } else if (valueType !== "null" && valueType !== knownType) {
+            columnTypes.set(name, "any");
+        }
+    };
+
+    for (const oneRow of output) {
+        if (typeof oneRow === "object" && oneRow !== null && !Array.isArray(oneRow)) {
+            Object.entries(oneRow).forEach(([name, value]: [string, unknown]) => mergeType(name, value));
+        } else {
+            mergeType("Value", oneRow);
+        }
+    }
+
+    return {
+        totalRows: output.length,
+        columns: Array.from(columnTypes.entries()).map(([name, type]: [string, ResultColumnType]) => ({
+            name,
+            type,
+        })),
+    };
+}
+
+/**
+ * Replaces the Output of every test run execution of a result by its OutputInfo, leaving the rest untouched.
+ *
+ * @param result - A run-test result, usually an array of test run executions
+ * @param resultId - Identifies the result pages get requested against, so that stale pages could be dropped
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function createResultShell(result: any, resultId: number): any {
+    if (!Array.isArray(result)) {
+        return result;
+    }
+
+    return result.map((oneExecution: unknown) => {
+        if (typeof oneExecution !== "object" || oneExecution === null) {
+            return oneExecution;
+        }
+
+        const { Output, ...rest }: { Output?: unknown; [key: string]: unknown } = oneExecution as {
+            Output?: unknown;
+        };
+
+        return Array.isArray(Output) ? { ...rest, ResultId: resultId, OutputInfo: describeOutput(Output) } : rest;
+    });
+}
+
+/**
+ * Slices one page out of the Output of the first test run execution of a result.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function getOutputPage(result: any, resultId: number, offset: number, count: number): ResultOutputPage {
+    const output: unknown[] = Array.isArray(result) && Array.isArray(result[0]?.Output) ? result[0].Output : [];
+    const start: number = Math.max(0, Math.floor(offset));
+
+    return {
+        resultId,
+        offset: start,
+        totalRows: output.length,
+        rows: output.slice(start, start + Math.max(0, Math.floor(count))),
+    };
+}
@@ -0,0 +1,173 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+import { describeOutput, ResultColumnInfo } from "./resultPaging";
+
+/**
+ * Pure helpers of the schema pane of the result view.
+ * These functions have no vscode dependencies to enable unit testing with plain Mocha.
+ */
+
+export interface ResultColumnSchema {
+    readonly name: string;
+    // M type name, like "Int64.Type" or "text"
+    readonly type: string;
+    readonly isNullable: boolean;
+    readonly isKey: boolean;
+}
+
+export type ResultSchemaChangeKind = "added" | "removed" | "typeChanged" | "nullabilityChanged" | "keyChanged";
+
+export interface ResultSchemaChange {
+    readonly name: string;
+    readonly kind: ResultSchemaChangeKind;
+    readonly previous?: ResultColumnSchema;
+    readonly current?: ResultColumnSchema;
+}
+
+export interface ResultSchema {
+    readonly columns: ReadonlyArray<ResultColumnSchema>;
+    // changes against the previous run of the same query, if any
+    readonly changes: ReadonlyArray<ResultSchemaChange>;
+}
+
+type SchemaRow = Record<string, unknown>;
+
+function isSchemaRow(value: unknown): value is SchemaRow {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Collects the key columns out of a Table.Keys like list, i.e. records of Columns and Primary
+ */
+function collectKeyColumns(keys: unknown): Set<string> {
+    const keyColumns: Set<string> = new Set<string>();
+
+    if (Array.isArray(keys)) {
+        for (const oneKey of keys) {
+            if (isSchemaRow(oneKey) && Array.isArray(oneKey.Columns)) {
+                oneKey.Columns.forEach((oneColumn: unknown) => keyColumns.add(String(oneColumn)));
+            }
+        }
+    }
+
+    return keyColumns;
+}
+
+function inferSchema(output: ReadonlyArray<unknown>): ResultColumnSchema[] {
+    const columns: ReadonlyArray<ResultColumnInfo> = describeOutput(output).columns;
+
+    return columns.map((oneColumn: ResultColumnInfo) => ({
+        name: oneColumn.name,
+        type: oneColumn.type === "null" ? "any" : oneColumn.type,
+        // a row lacking the column reads as null as well
+        isNullable: output.some((oneRow: unknown) =>
+            isSchemaRow(oneRow)
+                ? oneRow[oneColumn.name] === null || oneRow[oneColumn.name] === undefined
+                : oneRow === null,
+        ),
+        isKey: false,
+    }));
+}
+
+/**
+ * Gets the schema of the output of a test run execution.
+ * The table type reported along with the execution, i.e. a Table.Schema like Schema list and a Table.Keys like Keys
+ * list, is preferred, otherwise column types and nullability are inferred from the output rows.
+ *
+ * @param execution - One test run execution of a run-test result
+ */
+export function getResultSchema(execution: unknown): ResultColumnSchema[] {
+    if (!isSchemaRow(execution)) {
+        return [];
+    }
+
+    const keyColumns: Set<string> = collectKeyColumns(execution.Keys);
+
+    if (Array.isArray(execution.Schema)) {
+        return execution.Schema.filter(isSchemaRow).map((oneColumn: SchemaRow) => {
+            const name: string = String(oneColumn.Name ?? "");
+
+            return {
+                name,
+                type: String(oneColumn.TypeName ?? oneColumn.Kind ?? "any"),
+                isNullable: oneColumn.IsNullable !== false,
+                isKey: keyColumns.has(name),
+            };
+        });
+    }
+
+    if (!Array.isArray(execution.Output)) {
+        return [];
+    }
+
+    return inferSchema(execution.Output).map((oneColumn: ResultColumnSchema) => ({
+        ...oneColumn,
+        isKey: keyColumns.has(oneColumn.name),
+    }));
+}
+
+/**
+ * Lists how the current schema drifted from the previous one, column by column and in the order of the columns.
+ */
+export function diffResultSchemas(
+    previous: ReadonlyArray<ResultColumnSchema>,
+    current: ReadonlyArray<ResultColumnSchema>,
+): ResultSchemaChange[] {
+    const previousColumns: Map<string, ResultColumnSchema> = new Map(
+        previous.map((oneColumn: ResultColumnSchema) => [oneColumn.name, oneColumn]),
+    );
+
+    const currentNames: Set<string> = new Set(current.map((oneColumn: ResultColumnSchema) => oneColumn.name));
+    const changes: ResultSchemaChange[] = [];
+
+    for (const oneColumn of current) {
+        const previousColumn: ResultColumnSchema | undefined = previousColumns.get(oneColumn.name);
+
+        if (!previousColumn) {
+            changes.push({ name: oneColumn.name, kind: "added", current: oneColumn });
+        } else if (previousColumn.type !== oneColumn.type) {
+            changes.push({ name: oneColumn.name, kind: "typeChanged", previous: previousColumn, current: oneColumn });
+        } else if (previousColumn.isNullable !== oneColumn.isNullable) {
+            changes.push({
+                name: oneColumn.name,
+                kind: "nullabilityChanged",
+                previous: previousColumn,
+                current: oneColumn,
+            });
+        } else if (previousColumn.isKey !== oneColumn.isKey) {
+            changes.push({ name: oneColumn.name, kind: "keyChanged", previous: previousColumn, current: oneColumn });
+        }
+    }
+
+    for (const oneColumn of previous) {
+        if (!currentNames.has(oneColumn.name)) {
+            changes.push({ name: oneColumn.name, kind: "removed", previous: oneColumn });
+        }
+    }
+
+    return changes;
+}
+
+/**
+ * Creates the schema of the first test run execution of a result, along with its drift from a previous schema.
+ * Previous schemas are the ones kept along with the history entries, which were computed from whole outputs, unlike
+ * the snapshots of their first rows.
+ *
+ * @param result - A run-test result, usually an array of test run executions
+ * @param previousColumns - The schema of the previous run of the same query, if any
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function createResultSchema(result: any, previousColumns?: ReadonlyArray<ResultColumnSchema>): ResultSchema {
+    const columns: ResultColumnSchema[] = getResultSchema(Array.isArray(result) ? result[0] : undefined);
+
+    return {
+        columns,
+        // a run failing to return a table tells nothing about the schema
+        changes: columns.length && previousColumns?.length ? diffResultSchemas(previousColumns, columns) : [],
+    };
+}
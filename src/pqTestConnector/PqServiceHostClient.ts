@@ -17,6 +17,7 @@ import {
     PqServiceHostRequestParamBase,
     PqServiceHostResponseResult,
 } from "./PqServiceHostClientLite";
+import { recordPqRelatedFilesTouched } from "./PqTestTaskUtils";
 
 export * from "./PqServiceHostClientLite";
 
@@ -49,26 +50,11 @@ export class PqServiceHostClient extends PqServiceHostClientLite implements IPQT
         this.onPowerQueryTestLocationChanged();
 
         vscode.workspace.onDidSaveTextDocument((textDocument: vscode.TextDocument) => {
-            if (
-                (textDocument.uri.fsPath.indexOf(".pq") > -1 && textDocument.uri.fsPath.indexOf(".query.pq") === -1) ||
-                textDocument.uri.fsPath.indexOf(".m") > -1
-            ) {
-                this.lastPqRelatedFileTouchedDate = new Date();
-            }
+            recordPqRelatedFilesTouched(this.lastPqRelatedFileTouchedDates, [textDocument.uri]);
         });
 
         vscode.workspace.onDidCreateFiles((evt: vscode.FileCreateEvent) => {
-            const filteredPaths: string[] = evt.files
-                .filter(
-                    (oneUri: vscode.Uri) =>
-                        (oneUri.fsPath.indexOf(".pq") > -1 && oneUri.fsPath.indexOf(".query.pq") === -1) ||
-                        oneUri.fsPath.indexOf(".m") > -1,
-                )
-                .map((oneUri: vscode.Uri) => oneUri.fsPath);
-
-            if (filteredPaths.length) {
-                this.lastPqRelatedFileTouchedDate = new Date();
-            }
+            recordPqRelatedFilesTouched(this.lastPqRelatedFileTouchedDates, evt.files);
         });
     }
 
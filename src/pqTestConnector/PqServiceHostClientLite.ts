@@ -13,7 +13,14 @@ import * as vscode from "vscode";
 import { TextEditor } from "vscode";
 
 import { IDisposable } from "../common/Disposable";
-import { CreateAuthState, Credential, ExtensionInfo, GenericResult, IPQTestService } from "../common/PQTestService";
+import {
+    CreateAuthState,
+    Credential,
+    DataSource,
+    ExtensionInfo,
+    GenericResult,
+    IPQTestService,
+} from "../common/PQTestService";
 import { AnyFunction } from "../common/promises/types";
 import { defaultBackOff, JsonRpcSocketClient } from "../common/sockets/JsonRpcSocketClient";
 import { CLOSED, ERROR, OPEN } from "../common/sockets/SocketClient";
@@ -22,7 +29,7 @@ import { ExtensionConfigurations } from "../constants/PowerQuerySdkConfiguration
 import { PqSdkOutputChannelLight } from "../features/PqSdkOutputChannel";
 import { convertStringToInteger } from "../utils/numbers";
 import { delay, isPortBusy, pidIsRunning } from "../utils/pids";
-import { getFirstWorkspaceFolder, resolveSubstitutedValues } from "../utils/vscodes";
+import { getCurrentWorkspaceFolder, resolveSubstitutedValues } from "../utils/vscodes";
 import { executeBuildTaskAndAwaitIfNeeded } from "./PqTestTaskUtils";
 
 export interface PqServiceHostRequestParamBase {
@@ -112,7 +119,8 @@ export class PqServiceHostClientLite
     protected readonly sessionId: string = vscode.env.sessionId;
     protected jsonRpcSocketClient: JsonRpcSocketClient | undefined = undefined;
     // private pingTimer: NodeJS.Timer | undefined = undefined;
-    protected lastPqRelatedFileTouchedDate: Date = new Date(0);
+    // by workspace folder uri, as each workspace folder is a connector project of its own
+    protected readonly lastPqRelatedFileTouchedDates: Map<string, Date> = new Map();
     protected _disposables: Array<IDisposable> = [];
 
     public get pqServiceHostConnected(): boolean {
@@ -429,21 +437,17 @@ export class PqServiceHostClientLite
     }
 
     ExecuteBuildTaskAndAwaitIfNeeded(): Promise<void> {
-        return executeBuildTaskAndAwaitIfNeeded(
-            this.pqTestLocation,
-            this.lastPqRelatedFileTouchedDate,
-            (nextLastPqRelatedFileTouchedDate: Date) => {
-                this.lastPqRelatedFileTouchedDate = nextLastPqRelatedFileTouchedDate;
-            },
-        );
+        return executeBuildTaskAndAwaitIfNeeded(this.pqTestLocation, this.lastPqRelatedFileTouchedDates);
     }
 
-    DeleteCredential(): Promise<GenericResult> {
+    DeleteCredential(dataSource?: DataSource): Promise<GenericResult> {
         return this.requestRemoteRpcMethod("v1/PqTestService/DeleteCredential", [
             {
                 SessionId: this.sessionId,
-                PathToConnector: getFirstWorkspaceFolder()?.uri.fsPath,
-                AllCredentials: true,
+                PathToConnector: getCurrentWorkspaceFolder()?.uri.fsPath,
+                AllCredentials: !dataSource,
+                DataSourceKind: dataSource?.kind,
+                DataSourcePath: dataSource?.path,
             },
         ]);
     }
@@ -454,7 +458,7 @@ export class PqServiceHostClientLite
             [
                 {
                     SessionId: this.sessionId,
-                    PathToConnector: getFirstWorkspaceFolder()?.uri.fsPath,
+                    PathToConnector: getCurrentWorkspaceFolder()?.uri.fsPath,
                 },
             ],
             { shouldParsePayload: true },
@@ -468,7 +472,7 @@ export class PqServiceHostClientLite
             [
                 {
                     SessionId: this.sessionId,
-                    PathToConnector: getFirstWorkspaceFolder()?.uri.fsPath,
+                    PathToConnector: getCurrentWorkspaceFolder()?.uri.fsPath,
                     PathToQueryFile: resolveSubstitutedValues(ExtensionConfigurations.DefaultQueryFileLocation),
                 },
             ],
@@ -484,12 +488,14 @@ export class PqServiceHostClientLite
         ]);
     }
 
-    RefreshCredential(): Promise<GenericResult> {
+    RefreshCredential(dataSource?: DataSource): Promise<GenericResult> {
         return this.requestRemoteRpcMethod("v1/PqTestService/RefreshCredential", [
             {
                 SessionId: this.sessionId,
-                PathToConnector: getFirstWorkspaceFolder()?.uri.fsPath,
+                PathToConnector: getCurrentWorkspaceFolder()?.uri.fsPath,
                 PathToQueryFile: resolveSubstitutedValues(ExtensionConfigurations.DefaultQueryFileLocation),
+                DataSourceKind: dataSource?.kind,
+                DataSourcePath: dataSource?.path,
             },
         ]);
     }
@@ -514,7 +520,7 @@ export class PqServiceHostClientLite
         return this.requestRemoteRpcMethod("v1/PqTestService/RunTestBattery", [
             {
                 SessionId: this.sessionId,
-                PathToConnector: getFirstWorkspaceFolder()?.uri.fsPath,
+                PathToConnector: getCurrentWorkspaceFolder()?.uri.fsPath,
                 PathToQueryFile: pathToQueryFile,
             },
         ]);
@@ -556,19 +562,21 @@ export class PqServiceHostClientLite
         return this.requestRemoteRpcMethod("v1/PqTestService/RunTestBatteryFromContent", [
             {
                 SessionId: this.sessionId,
-                PathToConnector: getFirstWorkspaceFolder()?.uri.fsPath,
+                PathToConnector: getCurrentWorkspaceFolder()?.uri.fsPath,
                 PathToQueryFile: currentContent,
             },
         ]);
     }
 
-    SetCredential(payloadStr: string): Promise<GenericResult> {
+    SetCredential(payloadStr: string, dataSource?: DataSource): Promise<GenericResult> {
         return this.requestRemoteRpcMethod("v1/PqTestService/SetCredential", [
             {
                 SessionId: this.sessionId,
-                PathToConnector: getFirstWorkspaceFolder()?.uri.fsPath,
+                PathToConnector: getCurrentWorkspaceFolder()?.uri.fsPath,
                 PathToQueryFile: resolveSubstitutedValues(ExtensionConfigurations.DefaultQueryFileLocation),
                 InputTemplateString: payloadStr,
+                DataSourceKind: dataSource?.kind,
+                DataSourcePath: dataSource?.path,
             },
         ]);
     }
@@ -577,7 +585,7 @@ export class PqServiceHostClientLite
         return this.requestRemoteRpcMethod("v1/PqTestService/SetCredentialFromCreateAuthState", [
             {
                 SessionId: this.sessionId,
-                PathToConnector: createAuthState.PathToConnectorFile || getFirstWorkspaceFolder()?.uri.fsPath,
+                PathToConnector: createAuthState.PathToConnectorFile || getCurrentWorkspaceFolder()?.uri.fsPath,
                 PathToQueryFile: resolveSubstitutedValues(createAuthState.PathToQueryFile),
                 // DataSourceKind: createAuthState.DataSourceKind,
                 AuthenticationKind: createAuthState.AuthenticationKind,
@@ -592,7 +600,7 @@ export class PqServiceHostClientLite
         return this.requestRemoteRpcMethod("v1/PqTestService/TestConnection", [
             {
                 SessionId: this.sessionId,
-                PathToConnector: getFirstWorkspaceFolder()?.uri.fsPath,
+                PathToConnector: getCurrentWorkspaceFolder()?.uri.fsPath,
                 PathToQueryFile: resolveSubstitutedValues(ExtensionConfigurations.DefaultQueryFileLocation),
             },
         ]);
@@ -192,6 +192,7 @@ export class PqTestExecutableOnceTask implements IDisposable {
                             void vscode.commands.executeCommand(
                                 PqTestResultViewPanel.UpdateResultWebViewCommand,
                                 result,
+                                task.pathToQueryFile,
                             );
                         }
                     } catch {
@@ -199,26 +200,18 @@ export class PqTestExecutableOnceTask implements IDisposable {
                     }
                 }
 
-                // run-compare: Parse and return result for caller
+                // run-compare: Return its output for caller, which streams one "action:json" line per test event
                 if (task.operation === "run-compare") {
-                    try {
-                        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                        const result: any = JSON.parse(spawnProcess.stdOut);
-
-                        return result;
-                    } catch (e) {
-                        this.handleErrorStr(
-                            resolveI18nTemplate("PQSdk.taskQueue.error.failedToParseJsonOutput", {
-                                error: `${e}`,
-                            }),
-                        );
-
-                        return undefined;
-                    }
+                    return spawnProcess.stdOut;
                 }
 
                 return undefined; // Default return for successful operations
             } else {
+                // the events of the tests run-compare managed to run are still worth showing
+                if (task.operation === "run-compare") {
+                    this.handleOutputStr(spawnProcess.stdOut);
+                }
+
                 this.handleErrorStr(
                     resolveI18nTemplate("PQSdk.taskQueue.info.debugTaskExitAbnormally", {
                         operation: task.operation,
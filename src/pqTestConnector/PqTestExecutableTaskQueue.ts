@@ -16,9 +16,11 @@ import { Disposable, IDisposable } from "../common/Disposable";
 import { DisposableEventEmitter, ExtractEventTypes } from "../common/DisposableEventEmitter";
 import { PQTestTask } from "../common/PowerQueryTask";
 import {
+    buildDataSourceArgs,
     buildPqTestArgs,
     CreateAuthState,
     Credential,
+    DataSource,
     ExtensionInfo,
     GenericResult,
     IPQTestService,
@@ -32,7 +34,12 @@ import { extensionI18n, resolveI18nTemplate } from "../i18n/extension";
 import { convertStringToInteger } from "../utils/numbers";
 import { pidIsRunning } from "../utils/pids";
 import { resolveSubstitutedValues } from "../utils/vscodes";
-import { executeBuildTaskAndAwaitIfNeeded, formatArguments, inferAnyGeneralErrorString } from "./PqTestTaskUtils";
+import {
+    executeBuildTaskAndAwaitIfNeeded,
+    formatArguments,
+    inferAnyGeneralErrorString,
+    recordPqRelatedFilesTouched,
+} from "./PqTestTaskUtils";
 
 // eslint-disable-next-line @typescript-eslint/typedef
 export const PqTestExecutableTaskQueueEvents = {
@@ -85,7 +92,8 @@ export class PqTestExecutableTaskQueue implements IPQTestService, IDisposable {
     private readonly eventBus: DisposableEventEmitter<PqTestExecutableTaskQueueEventTypes>;
     private readonly pidLockFileLocation: string;
     private firstTimeReady: boolean = true;
-    private lastPqRelatedFileTouchedDate: Date = new Date(0);
+    // by workspace folder uri, as each workspace folder is a connector project of its own
+    private readonly lastPqRelatedFileTouchedDates: Map<string, Date> = new Map();
     private onPQTestExecutablePidChangedFsWatcher: FSWatcher | undefined = undefined;
     private pendingTasks: PqTestExecutableTask[] = [];
     protected _disposables: Array<IDisposable> = [];
@@ -131,26 +139,11 @@ export class PqTestExecutableTaskQueue implements IPQTestService, IDisposable {
         this.onPowerQueryTestLocationChanged();
 
         vscode.workspace.onDidSaveTextDocument((textDocument: vscode.TextDocument) => {
-            if (
-                (textDocument.uri.fsPath.indexOf(".pq") > -1 && textDocument.uri.fsPath.indexOf(".query.pq") === -1) ||
-                textDocument.uri.fsPath.indexOf(".m") > -1
-            ) {
-                this.lastPqRelatedFileTouchedDate = new Date();
-            }
+            recordPqRelatedFilesTouched(this.lastPqRelatedFileTouchedDates, [textDocument.uri]);
         });
 
         vscode.workspace.onDidCreateFiles((evt: vscode.FileCreateEvent) => {
-            const filteredPaths: string[] = evt.files
-                .filter(
-                    (oneUri: vscode.Uri) =>
-                        (oneUri.fsPath.indexOf(".pq") > -1 && oneUri.fsPath.indexOf(".query.pq") === -1) ||
-                        oneUri.fsPath.indexOf(".m") > -1,
-                )
-                .map((oneUri: vscode.Uri) => oneUri.fsPath);
-
-            if (filteredPaths.length) {
-                this.lastPqRelatedFileTouchedDate = new Date();
-            }
+            recordPqRelatedFilesTouched(this.lastPqRelatedFileTouchedDates, evt.files);
         });
     }
 
@@ -451,19 +444,13 @@ export class PqTestExecutableTaskQueue implements IPQTestService, IDisposable {
     }
 
     ExecuteBuildTaskAndAwaitIfNeeded(): Promise<void> {
-        return executeBuildTaskAndAwaitIfNeeded(
-            this.pqTestLocation,
-            this.lastPqRelatedFileTouchedDate,
-            (nextLastPqRelatedFileTouchedDate: Date) => {
-                this.lastPqRelatedFileTouchedDate = nextLastPqRelatedFileTouchedDate;
-            },
-        );
+        return executeBuildTaskAndAwaitIfNeeded(this.pqTestLocation, this.lastPqRelatedFileTouchedDates);
     }
 
-    public DeleteCredential(): Promise<GenericResult> {
+    public DeleteCredential(dataSource?: DataSource): Promise<GenericResult> {
         return this.doEnqueueOneTask<GenericResult>({
             operation: "delete-credential",
-            additionalArgs: [`--ALL`],
+            additionalArgs: dataSource ? buildDataSourceArgs(dataSource) : [`--ALL`],
         });
     }
 
@@ -493,10 +480,10 @@ export class PqTestExecutableTaskQueue implements IPQTestService, IDisposable {
         });
     }
 
-    public SetCredential(payloadStr: string): Promise<GenericResult> {
+    public SetCredential(payloadStr: string, dataSource?: DataSource): Promise<GenericResult> {
         return this.doEnqueueOneTask<GenericResult>({
             operation: "set-credential",
-            // additionalArgs: [`${JSON.stringify(payload)}`],
+            additionalArgs: dataSource ? buildDataSourceArgs(dataSource) : undefined,
             pathToConnector: resolveSubstitutedValues(ExtensionConfigurations.DefaultExtensionLocation),
             pathToQueryFile: resolveSubstitutedValues(ExtensionConfigurations.DefaultQueryFileLocation),
             stdinStr: payloadStr,
@@ -571,9 +558,10 @@ export class PqTestExecutableTaskQueue implements IPQTestService, IDisposable {
         });
     }
 
-    public RefreshCredential(): Promise<GenericResult> {
+    public RefreshCredential(dataSource?: DataSource): Promise<GenericResult> {
         return this.doEnqueueOneTask<GenericResult>({
             operation: "refresh-credential",
+            additionalArgs: dataSource ? buildDataSourceArgs(dataSource) : undefined,
             pathToConnector: resolveSubstitutedValues(ExtensionConfigurations.DefaultExtensionLocation),
             pathToQueryFile: resolveSubstitutedValues(ExtensionConfigurations.DefaultQueryFileLocation),
         });
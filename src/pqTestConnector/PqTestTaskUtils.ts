@@ -13,17 +13,47 @@ import { ExtensionConfigurations } from "../constants/PowerQuerySdkConfiguration
 import { PowerQueryTaskProvider } from "../features/PowerQueryTaskProvider";
 import { findExecutable } from "../utils/executables";
 import { getMtimeOfAFile, globFiles } from "../utils/files";
-import { getAnyMProjFilesBeneathTheFirstWorkspace, getFirstWorkspaceFolder } from "../utils/vscodes";
+import {
+    getAnyMProjFilesBeneathTheCurrentWorkspace,
+    getCurrentWorkspaceFolder,
+    getWorkspaceFolderOf,
+} from "../utils/vscodes";
+
+export function isPqRelatedFile(fsPath: string): boolean {
+    return (fsPath.indexOf(".pq") > -1 && fsPath.indexOf(".query.pq") === -1) || fsPath.indexOf(".m") > -1;
+}
+
+/**
+ * Records the pq related files among the touched ones, in the build state of the workspace folder holding them.
+ *
+ * @param lastPqRelatedFileTouchedDates - When pq related files got touched for the last time, by workspace folder uri
+ * @param touchedUris - Files just saved or created
+ */
+export function recordPqRelatedFilesTouched(
+    lastPqRelatedFileTouchedDates: Map<string, Date>,
+    touchedUris: ReadonlyArray<vscode.Uri>,
+): void {
+    for (const oneUri of touchedUris) {
+        const workspaceFolder: vscode.WorkspaceFolder | undefined = getWorkspaceFolderOf(oneUri);
+
+        if (workspaceFolder && isPqRelatedFile(oneUri.fsPath)) {
+            lastPqRelatedFileTouchedDates.set(workspaceFolder.uri.toString(), new Date());
+        }
+    }
+}
 
 export async function executeBuildTaskAndAwaitIfNeeded(
     pqTestLocation: string,
-    lastPqRelatedFileTouchedDate: Date,
-    lastPqRelatedFileTouchedDateUpdater: (nextLastPqRelatedFileTouchedDate: Date) => void,
+    lastPqRelatedFileTouchedDates: Map<string, Date>,
+    workspaceFolder: vscode.WorkspaceFolder | undefined = getCurrentWorkspaceFolder(),
 ): Promise<void> {
-    const nullableCurrentWorkspace: string | undefined = getFirstWorkspaceFolder()?.uri.fsPath;
+    const nullableCurrentWorkspace: string | undefined = workspaceFolder?.uri.fsPath;
     let needToRebuildBeforeEvaluation: boolean = true;
 
-    if (nullableCurrentWorkspace) {
+    if (workspaceFolder && nullableCurrentWorkspace) {
+        const lastPqRelatedFileTouchedDate: Date =
+            lastPqRelatedFileTouchedDates.get(workspaceFolder.uri.toString()) ?? new Date(0);
+
         const currentlyAllMezFiles: string[] = [];
 
         for await (const oneFullPath of globFiles(path.join(nullableCurrentWorkspace, "bin"), (fullPath: string) =>
@@ -48,10 +78,14 @@ export async function executeBuildTaskAndAwaitIfNeeded(
             // }
 
             // choose msbuild or makePQX compile as the build task
-            let theBuildTask: vscode.Task = PowerQueryTaskProvider.buildMakePQXCompileTask(pqTestLocation);
+            let theBuildTask: vscode.Task = PowerQueryTaskProvider.buildMakePQXCompileTask(
+                pqTestLocation,
+                workspaceFolder,
+            );
 
-            // check if we had any legacy *.mproj or .proj beneath the first directory
-            const anyMProjFilesFromLegacyProjects: vscode.Uri[] = await getAnyMProjFilesBeneathTheFirstWorkspace();
+            // check if we had any legacy *.mproj or .proj beneath the directory of the connector project
+            const anyMProjFilesFromLegacyProjects: vscode.Uri[] =
+                await getAnyMProjFilesBeneathTheCurrentWorkspace(workspaceFolder);
 
             if (
                 anyMProjFilesFromLegacyProjects.length &&
@@ -59,11 +93,11 @@ export async function executeBuildTaskAndAwaitIfNeeded(
             ) {
                 // only use msbuild when we had either config:msbuild populated or msbuild existing in the env:path
                 // also we got legacy proj/mproj files in the workspace
-                theBuildTask = PowerQueryTaskProvider.buildMsbuildTask();
+                theBuildTask = PowerQueryTaskProvider.buildMsbuildTask(workspaceFolder);
             }
 
             // we should set lastPqRelatedFileTouchedDate first to ensure it is less than the new build's ctime
-            lastPqRelatedFileTouchedDateUpdater(new Date());
+            lastPqRelatedFileTouchedDates.set(workspaceFolder.uri.toString(), new Date());
 
             await PowerQueryTaskProvider.executeTask(theBuildTask);
         }
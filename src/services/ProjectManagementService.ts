@@ -18,8 +18,9 @@ import type { IFileSystem } from "../testing/abstractions/IFileSystem";
 import type { IUIService } from "../testing/abstractions/IUIService";
 import { resolveTemplateSubstitutedValues } from "../utils/strings";
 import {
-    getAnyPqFileBeneathTheFirstWorkspace,
-    getFirstWorkspaceFolder,
+    getAnyPqFileBeneathTheCurrentWorkspace,
+    getCurrentWorkspaceFolder,
+    getCurrentWorkspaceGlobPattern,
     resolveSubstitutedValues,
     substitutedWorkspaceFolderBasenameIfNeeded,
     updateCurrentLocalPqModeIfNeeded,
@@ -77,16 +78,16 @@ export class ProjectManagementService implements IProjectManagementService {
         });
 
         if (newProjName) {
-            const firstWorkspaceFolder: WorkspaceFolder | undefined = getFirstWorkspaceFolder();
+            const currentWorkspaceFolder: WorkspaceFolder | undefined = getCurrentWorkspaceFolder();
 
-            if (firstWorkspaceFolder) {
-                // Generate files into the first workspace
+            if (currentWorkspaceFolder) {
+                // Generate files into the current workspace
                 const targetFolder: string = this.generateProjectIntoFolder(
-                    firstWorkspaceFolder.uri.fsPath,
+                    currentWorkspaceFolder.uri.fsPath,
                     newProjName,
                 );
 
-                if (targetFolder === firstWorkspaceFolder.uri.fsPath) {
+                if (targetFolder === currentWorkspaceFolder.uri.fsPath) {
                     // Show info message and open the main project file
                     await vscode.commands.executeCommand(
                         "vscode.open",
@@ -128,7 +129,7 @@ export class ProjectManagementService implements IProjectManagementService {
     public async setupCurrentWorkspace(): Promise<unknown> {
         const tasks: Array<Promise<void>> = [];
 
-        const nullableFirstWorkspaceUri: vscode.Uri | undefined = getFirstWorkspaceFolder()?.uri;
+        const nullableCurrentWorkspaceUri: vscode.Uri | undefined = getCurrentWorkspaceFolder()?.uri;
         let hasPQTestExtensionFileLocation: boolean = false;
 
         if (ExtensionConfigurations.DefaultExtensionLocation) {
@@ -141,18 +142,19 @@ export class ProjectManagementService implements IProjectManagementService {
             );
         }
 
-        if (nullableFirstWorkspaceUri) {
-            updateCurrentLocalPqModeIfNeeded(nullableFirstWorkspaceUri.fsPath);
+        if (nullableCurrentWorkspaceUri) {
+            updateCurrentLocalPqModeIfNeeded(nullableCurrentWorkspaceUri.fsPath);
         }
 
         if (!hasPQTestExtensionFileLocation) {
             tasks.push(this.setupDefaultExtensionLocation());
         }
 
-        const firstWorkspaceUri: vscode.Uri | undefined = getFirstWorkspaceFolder()?.uri;
+        const currentWorkspaceFolder: vscode.WorkspaceFolder | undefined = getCurrentWorkspaceFolder();
 
-        if (firstWorkspaceUri) {
-            const nullableAnyPqFileInTheWorkspace: vscode.Uri[] = await getAnyPqFileBeneathTheFirstWorkspace();
+        if (currentWorkspaceFolder) {
+            const nullableAnyPqFileInTheWorkspace: vscode.Uri[] =
+                await getAnyPqFileBeneathTheCurrentWorkspace(currentWorkspaceFolder);
 
             if (nullableAnyPqFileInTheWorkspace.length > 0) {
                 tasks.push(this.setupDefaultQueryFileLocation(nullableAnyPqFileInTheWorkspace[0]));
@@ -163,11 +165,11 @@ export class ProjectManagementService implements IProjectManagementService {
     }
 
     public async promptToSetupCurrentWorkspaceIfNeeded(): Promise<void> {
-        const theFirstWorkspace: vscode.WorkspaceFolder | undefined = getFirstWorkspaceFolder();
+        const theCurrentWorkspace: vscode.WorkspaceFolder | undefined = getCurrentWorkspaceFolder();
 
-        if (theFirstWorkspace && !this.isSuggestingSetupCurrentWorkspace && ExtensionConfigurations.autoDetection) {
+        if (theCurrentWorkspace && !this.isSuggestingSetupCurrentWorkspace && ExtensionConfigurations.autoDetection) {
             this.isSuggestingSetupCurrentWorkspace = true;
-            const anyPqFiles: Uri[] = await getAnyPqFileBeneathTheFirstWorkspace();
+            const anyPqFiles: Uri[] = await getAnyPqFileBeneathTheCurrentWorkspace(theCurrentWorkspace);
 
             if (
                 anyPqFiles.length &&
@@ -236,7 +238,11 @@ export class ProjectManagementService implements IProjectManagementService {
     }
 
     private async setupDefaultExtensionLocation(): Promise<void> {
-        const mezUrlsBeneathBin: Uri[] = await vscode.workspace.findFiles("bin/**/*.{mez}", null, 1);
+        const mezUrlsBeneathBin: Uri[] = await vscode.workspace.findFiles(
+            getCurrentWorkspaceGlobPattern("bin/**/*.{mez}"),
+            null,
+            1,
+        );
 
         let mezExtensionPath: string = path.join(
             "${workspaceFolder}",
@@ -12,10 +12,18 @@
 
 import * as vscode from "vscode";
 
+import { ExtensionConfigurations } from "../../constants/PowerQuerySdkConfiguration";
 import { ExtensionConstants } from "../../constants/PowerQuerySdkExtension";
 import { PqSdkOutputChannel } from "../../features/PqSdkOutputChannel";
 import { extensionI18n, resolveI18nTemplate } from "../../i18n/extension";
 import { resolvePqTestExecutablePath } from "../../utils/pqTestPath";
+import { getCurrentWorkspaceFolder } from "../../utils/vscodes";
+import { HttpMockRunOptions } from "./core/httpMock";
+import { BaselineAcceptor } from "./helpers/BaselineAcceptor";
+import { ContinuousTestRunner } from "./helpers/ContinuousTestRunner";
+import { TestDebugRunner } from "./helpers/TestDebugRunner";
+import { TestErrorLocator } from "./helpers/TestErrorLocator";
+import { TestHistoryRecorder } from "./helpers/TestHistoryRecorder";
 import { resolveTestItem } from "./TestResolver";
 import { TestRunCoordinator } from "./TestRunCoordinator";
 import { TestWatcherManager } from "./TestWatcherManager";
@@ -25,7 +33,7 @@ import {
     maybeCleanupIntermediateResults,
 } from "./utils/cleanupUtils";
 import { getOutputFilePathForTestItem } from "./utils/pathUtils";
-import { createTestItem } from "./utils/testUtils";
+import { createTestItem, getLeafNodes, parseCompositeId } from "./utils/testUtils";
 import { fileExists } from "./utils/vscodeFs";
 
 // UI delay constants for test expansion operations
@@ -43,6 +51,7 @@ export function registerCommands(
     context: vscode.ExtensionContext,
     controller: vscode.TestController,
     outputChannel: PqSdkOutputChannel,
+    testHistory: TestHistoryRecorder,
 ): void {
     context.subscriptions.push(
         vscode.commands.registerCommand(ExtensionConstants.TestAdapter.OpenOutputFileCommand, showExpectedOutputFile),
@@ -66,27 +75,137 @@ export function registerCommands(
             clearAllTests(controller, outputChannel),
         ),
     );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand(ExtensionConstants.TestAdapter.RerunFailedTestsCommand, () =>
+            rerunFailedTests(controller, outputChannel, context.secrets, testHistory),
+        ),
+    );
+
+    const baselineAcceptor: BaselineAcceptor = new BaselineAcceptor(outputChannel);
+
+    context.subscriptions.push(
+        baselineAcceptor,
+        vscode.commands.registerCommand(
+            ExtensionConstants.TestAdapter.AcceptActualCommand,
+            (target?: vscode.TestItem | { test: vscode.TestItem }) => baselineAcceptor.acceptActual(target),
+        ),
+        vscode.commands.registerCommand(ExtensionConstants.TestAdapter.AcceptAllActualsCommand, () =>
+            baselineAcceptor.acceptAllActuals(),
+        ),
+        vscode.commands.registerCommand(ExtensionConstants.TestAdapter.ReviewAcceptedActualsCommand, () =>
+            baselineAcceptor.reviewLastAcceptance(),
+        ),
+        vscode.commands.registerCommand(ExtensionConstants.TestAdapter.UndoAcceptActualsCommand, () =>
+            baselineAcceptor.undoLastAcceptance(),
+        ),
+    );
 }
 
 /**
  * Creates and registers the test controller for VS Code Test Explorer
+ *
+ * @param testHistory - The history every run records its results into, shared with the commands of registerCommands
  */
 export function registerTestController(
     context: vscode.ExtensionContext,
     outputChannel: PqSdkOutputChannel,
+    testHistory: TestHistoryRecorder,
 ): vscode.TestController {
     const controller: vscode.TestController = vscode.tests.createTestController(
         ExtensionConstants.TestAdapter.TestControllerId,
         ExtensionConstants.TestAdapter.TestControllerName,
     );
 
-    context.subscriptions.push(controller);
+    // Continuous runs still rerunning as files change, which go along with the controller unless cancelled before
+    const continuousTestRunners: Set<ContinuousTestRunner> = new Set();
 
-    controller.createRunProfile(
+    context.subscriptions.push(
+        new vscode.Disposable(() => {
+            for (const oneContinuousTestRunner of continuousTestRunners) {
+                oneContinuousTestRunner.dispose();
+            }
+
+            continuousTestRunners.clear();
+            controller.dispose();
+        }),
+    );
+
+    // M errors of the latest runs show up in the Problems panel, at the queries and connector sources raising them
+    context.subscriptions.push(new TestErrorLocator());
+
+    const runProfile: vscode.TestRunProfile = controller.createRunProfile(
         ExtensionConstants.TestAdapter.TestRunProfileName,
         vscode.TestRunProfileKind.Run,
-        (request: vscode.TestRunRequest, token: vscode.CancellationToken) =>
-            runHandler(request, token, controller, outputChannel),
+        (request: vscode.TestRunRequest, token: vscode.CancellationToken) => {
+            if (!request.continuous) {
+                return runHandler(request, token, controller, outputChannel, context.secrets, testHistory);
+            }
+
+            // Reruns go on as files change until the continuous run gets cancelled
+            const continuousTestRunner: ContinuousTestRunner = new ContinuousTestRunner(
+                request,
+                controller,
+                outputChannel,
+                (rerunRequest: vscode.TestRunRequest) =>
+                    runHandler(rerunRequest, token, controller, outputChannel, context.secrets, testHistory),
+            );
+
+            continuousTestRunners.add(continuousTestRunner);
+
+            token.onCancellationRequested(() => {
+                continuousTestRunners.delete(continuousTestRunner);
+                continuousTestRunner.dispose();
+            });
+
+            return undefined;
+        },
+        true,
+    );
+
+    runProfile.supportsContinuousRun = true;
+
+    // Same run, but with HttpMockPath/FailOnMockMiss injected regardless of what each settings file says
+    const mockRunProfile: vscode.TestRunProfile = controller.createRunProfile(
+        ExtensionConstants.TestAdapter.MockTestRunProfileName,
+        vscode.TestRunProfileKind.Run,
+        async (request: vscode.TestRunRequest, token: vscode.CancellationToken) => {
+            const httpMockOptions: HttpMockRunOptions | undefined = await resolveHttpMockRunOptions(outputChannel);
+
+            if (httpMockOptions) {
+                await runHandler(
+                    request,
+                    token,
+                    controller,
+                    outputChannel,
+                    context.secrets,
+                    testHistory,
+                    httpMockOptions,
+                );
+            }
+        },
+        false,
+    );
+
+    mockRunProfile.configureHandler = (): void => {
+        void selectHttpMockFolder();
+    };
+
+    // Runs each test within a powerquery debug session, reporting its output and result to the test run
+    const testDebugRunner: TestDebugRunner = new TestDebugRunner(
+        controller,
+        outputChannel,
+        context.secrets,
+        testHistory,
+    );
+
+    context.subscriptions.push(testDebugRunner);
+
+    controller.createRunProfile(
+        ExtensionConstants.TestAdapter.DebugTestRunProfileName,
+        vscode.TestRunProfileKind.Debug,
+        (request: vscode.TestRunRequest, token: vscode.CancellationToken) => testDebugRunner.run(request, token),
+        true,
     );
 
     // Create and initialize the watcher manager
@@ -124,6 +243,9 @@ async function runHandler(
     token: vscode.CancellationToken,
     controller: vscode.TestController,
     outputChannel: PqSdkOutputChannel,
+    secrets: vscode.SecretStorage,
+    testHistory: TestHistoryRecorder,
+    httpMockOptions?: HttpMockRunOptions,
 ): Promise<void> {
     // Trigger throttled cleanup of old intermediate results (fire-and-forget)
     maybeCleanupIntermediateResults();
@@ -153,6 +275,9 @@ async function runHandler(
             controller,
             outputChannel,
             token,
+            secrets,
+            testHistory,
+            httpMockOptions,
         );
 
         await coordinator.run();
@@ -165,6 +290,123 @@ async function runHandler(
     }
 }
 
+/**
+ * Reruns the tests whose latest recorded result is not a pass, discovering their settings items first if needed.
+ */
+async function rerunFailedTests(
+    controller: vscode.TestController,
+    outputChannel: PqSdkOutputChannel,
+    secrets: vscode.SecretStorage,
+    testHistory: TestHistoryRecorder,
+): Promise<void> {
+    const failedTestIds: Set<string> = new Set(testHistory.getFailedTestIds());
+
+    for (const oneTestId of failedTestIds) {
+        const settingsItem: vscode.TestItem | undefined = controller.items.get(
+            parseCompositeId(oneTestId)?.settingsFileUri ?? "",
+        );
+
+        if (settingsItem && settingsItem.children.size === 0) {
+            // eslint-disable-next-line no-await-in-loop -- Sequential test discovery required
+            await refreshSettingsItem(settingsItem, controller, outputChannel, true);
+        }
+    }
+
+    const failedTests: vscode.TestItem[] = [];
+
+    controller.items.forEach((settingsItem: vscode.TestItem) => {
+        failedTests.push(
+            ...getLeafNodes(settingsItem).filter((oneTest: vscode.TestItem) => failedTestIds.has(oneTest.id)),
+        );
+    });
+
+    if (failedTests.length === 0) {
+        void vscode.window.showInformationMessage(extensionI18n["PQSdk.testAdapter.history.noFailedTests"]);
+
+        return;
+    }
+
+    outputChannel.appendInfoLine(
+        resolveI18nTemplate("PQSdk.testAdapter.history.rerunningFailedTests", {
+            count: failedTests.length.toString(),
+        }),
+    );
+
+    const cancellationTokenSource: vscode.CancellationTokenSource = new vscode.CancellationTokenSource();
+
+    try {
+        await runHandler(
+            new vscode.TestRunRequest(failedTests),
+            cancellationTokenSource.token,
+            controller,
+            outputChannel,
+            secrets,
+            testHistory,
+        );
+    } finally {
+        cancellationTokenSource.dispose();
+    }
+}
+
+/**
+ * Prompts for the HTTP mock folder used by the "Run with Mocks" profile and saves it to the workspace settings.
+ * @returns The selected folder path, or undefined if the user dismissed the dialog
+ */
+async function selectHttpMockFolder(): Promise<string | undefined> {
+    const currentMockPath: string | undefined = ExtensionConfigurations.TestHttpMockPath;
+
+    const selectedFolders: vscode.Uri[] | undefined = await vscode.window.showOpenDialog({
+        canSelectFiles: false,
+        canSelectFolders: true,
+        canSelectMany: false,
+        defaultUri: currentMockPath ? vscode.Uri.file(currentMockPath) : getCurrentWorkspaceFolder()?.uri,
+        title: extensionI18n["PQSdk.testAdapter.mocks.selectMockFolder"],
+        openLabel: extensionI18n["PQSdk.testAdapter.mocks.selectMockFolderButton"],
+    });
+
+    if (!selectedFolders || selectedFolders.length === 0) {
+        return undefined;
+    }
+
+    const selectedMockPath: string = selectedFolders[0].fsPath;
+    await ExtensionConfigurations.setTestHttpMockPath(selectedMockPath);
+
+    return selectedMockPath;
+}
+
+/**
+ * Resolves the mock options for a "Run with Mocks" run, prompting for a mock folder if none is configured yet.
+ * @returns The options to inject, or undefined if the run should be skipped
+ */
+async function resolveHttpMockRunOptions(outputChannel: PqSdkOutputChannel): Promise<HttpMockRunOptions | undefined> {
+    const mockPath: string | undefined = ExtensionConfigurations.TestHttpMockPath ?? (await selectHttpMockFolder());
+
+    if (!mockPath) {
+        vscode.window.showWarningMessage(extensionI18n["PQSdk.testAdapter.mocks.mockFolderNotSelected"]);
+
+        return undefined;
+    }
+
+    if (!(await fileExists(mockPath))) {
+        const message: string = resolveI18nTemplate("PQSdk.testAdapter.mocks.mockFolderNotFound", { mockPath });
+        outputChannel.appendErrorLine(message);
+        vscode.window.showErrorMessage(message);
+
+        return undefined;
+    }
+
+    const failOnMockMiss: boolean = ExtensionConfigurations.TestFailOnMockMiss;
+
+    outputChannel.appendInfoLine(
+        resolveI18nTemplate("PQSdk.testAdapter.mocks.usingMockFolder", {
+            mockPath,
+            failOnMockMiss: String(failOnMockMiss),
+        }),
+    );
+
+    return { mockPath, failOnMockMiss };
+}
+
 /**
  * Generates a timestamp-based folder name for test runs
  */
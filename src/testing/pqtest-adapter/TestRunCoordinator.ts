@@ -14,6 +14,8 @@ import * as vscode from "vscode";
 import { ExtensionConstants } from "../../constants/PowerQuerySdkExtension";
 import { PqSdkOutputChannel } from "../../features/PqSdkOutputChannel";
 import { extensionI18n, resolveI18nTemplate } from "../../i18n/extension";
+import { HttpMockRunOptions } from "./core/httpMock";
+import { TestHistoryRecorder } from "./helpers/TestHistoryRecorder";
 import { refreshAllTests, refreshSettingsItem } from "./TestController";
 import { TestRunExecutor } from "./TestRunExecutor";
 import { getNormalizedUriString, getRelativeTestPath } from "./utils/pathUtils";
@@ -46,6 +48,9 @@ export class TestRunCoordinator {
         private readonly testController: vscode.TestController,
         private readonly outputChannel: PqSdkOutputChannel,
         private readonly cancellationToken: vscode.CancellationToken,
+        private readonly secrets: vscode.SecretStorage,
+        private readonly testHistory: TestHistoryRecorder,
+        private readonly httpMockOptions?: HttpMockRunOptions,
     ) {}
 
     /**
@@ -219,6 +224,9 @@ export class TestRunCoordinator {
             this.testRun,
             this.outputChannel,
             this.cancellationToken,
+            this.secrets,
+            this.testHistory,
+            this.httpMockOptions,
         );
 
         // Get all leaf test items under this settings file and add them to the executor
@@ -262,6 +270,9 @@ export class TestRunCoordinator {
             this.testRun,
             this.outputChannel,
             this.cancellationToken,
+            this.secrets,
+            this.testHistory,
+            this.httpMockOptions,
         );
 
         // Add only the leaf test items from the child items to the executor
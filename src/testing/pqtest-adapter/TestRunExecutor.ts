@@ -14,13 +14,24 @@ import * as path from "path";
 import * as vscode from "vscode";
 
 import { SpawnedProcessStreaming } from "../../common/SpawnedProcessStreaming";
+import { ExtensionConfigurations } from "../../constants/PowerQuerySdkConfiguration";
 import { PqSdkOutputChannel } from "../../features/PqSdkOutputChannel";
 import { extensionI18n, resolveI18nTemplate } from "../../i18n/extension";
+import { buildHttpMockArgs, HttpMockRunOptions } from "./core/httpMock";
 import { PqTestCommandBuilder } from "./helpers/PqTestCommandBuilder";
 import { PqTestResultEventType, PqTestResultParser } from "./helpers/PqTestResultParser";
+import { TestHistoryRecorder } from "./helpers/TestHistoryRecorder";
 import { TestResultUpdater } from "./helpers/TestResultUpdater";
 import { getNormalizedPath } from "./utils/pathUtils";
-import { buildIntermediateResultsArgs, determineExtensionsForTests } from "./utils/testSettingsUtils";
+import {
+    createSettingsFileWithResolvedSecrets,
+    deleteSettingsFileWithResolvedSecrets,
+} from "./utils/testCredentialsUtils";
+import {
+    buildIntermediateResultsArgs,
+    determineExtensionsForTests,
+    getExtensionPathsFromSettings,
+} from "./utils/testSettingsUtils";
 
 /**
  * State machine for test execution
@@ -42,6 +53,9 @@ export class TestRunExecutor {
         private readonly testRun: vscode.TestRun,
         private readonly outputChannel: PqSdkOutputChannel,
         private readonly cancellationToken: vscode.CancellationToken,
+        private readonly secrets: vscode.SecretStorage,
+        private readonly testHistory: TestHistoryRecorder,
+        private readonly httpMockOptions?: HttpMockRunOptions,
     ) {}
 
     /**
@@ -85,6 +99,8 @@ export class TestRunExecutor {
             }),
         );
 
+        let resolvedSettingsFilePath: string | undefined = undefined;
+
         try {
             // Step 1: Determine which extension(s) to use based on precedence rules
             const extensions: string | string[] | undefined = await determineExtensionsForTests(
@@ -108,18 +124,31 @@ export class TestRunExecutor {
                 }
             });
 
-            // Step 4: Build the command using PqTestCommandBuilder
+            // Step 4: Resolve the secrets its TestCredentials reference within a copy of the settings file
+            resolvedSettingsFilePath = await createSettingsFileWithResolvedSecrets(
+                this.settingsFile.fsPath,
+                this.secrets,
+            );
+
+            // Step 5: Build the command using PqTestCommandBuilder
             const commandBuilder: PqTestCommandBuilder = new PqTestCommandBuilder(
                 "run-compare",
-                this.settingsFile,
+                resolvedSettingsFilePath ? vscode.Uri.file(resolvedSettingsFilePath) : this.settingsFile,
                 extensions,
             );
 
-            const allAdditionalArgs: string[] = [...intermediateResultsArgs, ...(additionalArgs || [])];
+            // Mocked runs override HttpMockPath/FailOnMockMiss from the settings file
+            const httpMockArgs: string[] = this.httpMockOptions ? buildHttpMockArgs(this.httpMockOptions) : [];
+
+            const allAdditionalArgs: string[] = [
+                ...intermediateResultsArgs,
+                ...httpMockArgs,
+                ...(additionalArgs || []),
+            ];
 
             const args: string[] = commandBuilder.buildArgs(allAdditionalArgs);
 
-            // Step 5: Execute the process using SpawnedProcessStreaming
+            // Step 6: Execute the process using SpawnedProcessStreaming
             this.outputChannel.appendInfoLine(
                 resolveI18nTemplate("PQSdk.testAdapter.executor.executingCommand", {
                     exePath: this.pqTestPath,
@@ -135,11 +164,21 @@ export class TestRunExecutor {
 
             const resultsStream: NodeJS.ReadableStream = await processRunner.run();
 
-            // Step 6: Create the result parser and updater
+            // Step 7: Create the result parser and updater
             const resultParser: PqTestResultParser = new PqTestResultParser(this.outputChannel);
-            const resultUpdater: TestResultUpdater = new TestResultUpdater(this.testRun, this.outputChannel);
 
-            // Step 7: Implement the state machine
+            const resultUpdater: TestResultUpdater = new TestResultUpdater(
+                this.testRun,
+                this.outputChannel,
+                this.testHistory,
+                await TestHistoryRecorder.resolveRunInputs(
+                    ExtensionConfigurations.PQTestVersion,
+                    await this.getConnectorPaths(extensions),
+                    this.httpMockOptions,
+                ),
+            );
+
+            // Step 8: Implement the state machine
             // Consume the event stream from the parser
             for await (const event of resultParser.parseStream(resultsStream, this.cancellationToken)) {
                 let currentTest: vscode.TestItem | undefined = undefined;
@@ -265,6 +304,24 @@ export class TestRunExecutor {
             }
 
             throw error; // Re-throw to allow caller to handle if needed
+        } finally {
+            if (resolvedSettingsFilePath) {
+                await deleteSettingsFileWithResolvedSecrets(resolvedSettingsFilePath);
+            }
+        }
+    }
+    /**
+     * Lists the connectors the run loads, either passed as --extension or the ExtensionPaths of the settings file.
+     */
+    private async getConnectorPaths(extensions: string | string[] | undefined): Promise<string[]> {
+        if (extensions !== undefined) {
+            return typeof extensions === "string" ? [extensions] : extensions;
         }
+
+        const settingsFolder: string = path.dirname(this.settingsFile.fsPath);
+
+        return ((await getExtensionPathsFromSettings(this.settingsFile.fsPath)) ?? []).map((oneExtensionPath: string) =>
+            path.resolve(settingsFolder, oneExtensionPath),
+        );
     }
 }
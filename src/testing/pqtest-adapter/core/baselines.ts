@@ -0,0 +1,102 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+/**
+ * Pure helpers for accepting the actual outputs of failed tests as their new baselines.
+ * These functions have no vscode dependencies to enable unit testing with plain Mocha.
+ */
+
+/**
+ * One expected file of a test along with the actual file of its latest run which would replace it.
+ */
+export interface BaselineFile {
+    testId: string;
+    // the diagnostics channel of the file, undefined for the test result output (.pqout)
+    channel?: string;
+    actualFilePath: string;
+    expectedFilePath: string;
+}
+
+/**
+ * The output files of a failed test, as PQTest reports them in its testEnd events.
+ */
+export interface MismatchedTestFiles {
+    reason?: string;
+    actualTestResultFilePath?: string;
+    expectedTestResultFilePath?: string;
+    actualDiagnosticsFilePaths?: Record<string, string>;
+    expectedDiagnosticsFilePaths?: Record<string, string>;
+}
+
+/**
+ * The failure reasons whose actual files could become the new baselines.
+ */
+export const BaselineMismatchReasons: ReadonlyArray<string> = ["OutputFileMismatch", "DiagnosticsFileMismatch"];
+
+/**
+ * Collects the expected files of a failed test which its actual files would replace, i.e. its test result output
+ * and every diagnostics channel PQTest reported both files of.
+ */
+export function collectBaselineFiles(testId: string, files: MismatchedTestFiles): BaselineFile[] {
+    if (!files.reason || !BaselineMismatchReasons.includes(files.reason)) {
+        return [];
+    }
+
+    const result: BaselineFile[] = [];
+
+    if (files.actualTestResultFilePath && files.expectedTestResultFilePath) {
+        result.push({
+            testId,
+            actualFilePath: files.actualTestResultFilePath,
+            expectedFilePath: files.expectedTestResultFilePath,
+        });
+    }
+
+    for (const [channel, actualFilePath] of Object.entries(files.actualDiagnosticsFilePaths ?? {})) {
+        const expectedFilePath: string | undefined = files.expectedDiagnosticsFilePaths?.[channel];
+
+        if (expectedFilePath) {
+            result.push({ testId, channel, actualFilePath, expectedFilePath });
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Counts the lines an accepted file added and removed, regardless of their order, for the summary of an
+ * acceptance rather than a full diff.
+ *
+ * @param previousContent - The former content of the expected file, undefined if it did not exist
+ */
+export function countLineChanges(
+    previousContent: string | undefined,
+    nextContent: string,
+): { added: number; removed: number } {
+    const splitLines = (content: string): string[] => (content ? content.split(/\r?\n/) : []);
+    const previousLines: Map<string, number> = new Map();
+
+    for (const oneLine of splitLines(previousContent ?? "")) {
+        previousLines.set(oneLine, (previousLines.get(oneLine) ?? 0) + 1);
+    }
+
+    let added: number = 0;
+
+    for (const oneLine of splitLines(nextContent)) {
+        const count: number = previousLines.get(oneLine) ?? 0;
+
+        if (count) {
+            previousLines.set(oneLine, count - 1);
+        } else {
+            added += 1;
+        }
+    }
+
+    const removed: number = Array.from(previousLines.values()).reduce((sum: number, count: number) => sum + count, 0);
+
+    return { added, removed };
+}
@@ -0,0 +1,111 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+/**
+ * Pure helpers for continuous test runs, which rerun the tests affected by the files changed since the last rerun.
+ * These functions have no vscode dependencies to enable unit testing with plain Mocha.
+ */
+
+import { getNormalizedPath } from "./pathOperations";
+
+export type ContinuousRunFileChange = "created" | "changed" | "deleted";
+
+export type ContinuousRunFileKind = "query" | "output" | "connector";
+
+// Delay to gather the changes of a save or a baseline acceptance into a single rerun
+export const CONTINUOUS_RUN_DEBOUNCE_MS: number = 500;
+
+// Longest delay to wait for a connector being built to get written again, after which tests rerun anyway
+export const CONTINUOUS_RUN_BUILD_TIMEOUT_MS: number = 60000;
+
+/**
+ * Changes gathered since the last rerun of a continuous run.
+ */
+export interface PendingContinuousRun {
+    // normalized paths of the .query.pq files whose query or baseline changed
+    testFilePaths: Set<string>;
+    connectorRebuilt: boolean;
+    // set once a .mez got deleted, which executeBuildTaskAndAwaitIfNeeded does right before building it again
+    isConnectorBuilding: boolean;
+}
+
+export function createPendingContinuousRun(): PendingContinuousRun {
+    return { testFilePaths: new Set(), connectorRebuilt: false, isConnectorBuilding: false };
+}
+
+/**
+ * Tells which of the files continuous runs watch a file is, if any.
+ */
+export function getContinuousRunFileKind(filePath: string): ContinuousRunFileKind | undefined {
+    const lowerCasePath: string = filePath.toLowerCase();
+
+    if (lowerCasePath.endsWith(".query.pq")) {
+        return "query";
+    } else if (lowerCasePath.endsWith(".pqout")) {
+        return "output";
+    } else if (lowerCasePath.endsWith(".mez")) {
+        return "connector";
+    }
+
+    return undefined;
+}
+
+/**
+ * Records a file change into the pending changes of a continuous run.
+ *
+ * @returns Whether the change affects any test
+ */
+export function recordContinuousRunChange(
+    pending: PendingContinuousRun,
+    filePath: string,
+    change: ContinuousRunFileChange,
+): boolean {
+    switch (getContinuousRunFileKind(filePath)) {
+        case "query":
+            // deleted queries take their tests away with them
+            if (change === "deleted") {
+                return false;
+            }
+
+            pending.testFilePaths.add(getNormalizedPath(filePath));
+
+            return true;
+
+        case "output":
+            // the baseline of a.query.pq is a.query.pqout, next to it
+            pending.testFilePaths.add(getNormalizedPath(filePath.replace(/\.pqout$/i, ".pq")));
+
+            return true;
+
+        case "connector":
+            pending.isConnectorBuilding = change === "deleted";
+            pending.connectorRebuilt = true;
+
+            return true;
+
+        case undefined:
+        default:
+            return false;
+    }
+}
+
+/**
+ * How long to wait for further changes before rerunning, longer while the connector is being built as its tests
+ * would otherwise run without it.
+ */
+export function getContinuousRunDelay(pending: PendingContinuousRun): number {
+    return pending.isConnectorBuilding ? CONTINUOUS_RUN_BUILD_TIMEOUT_MS : CONTINUOUS_RUN_DEBOUNCE_MS;
+}
+
+/**
+ * Tells whether a test has to rerun, i.e. whether its query or baseline changed or the connector got rebuilt.
+ *
+ * @param testFilePath - Path of the .query.pq file of the test
+ */
+export function isAffectedByContinuousRunChanges(pending: PendingContinuousRun, testFilePath: string): boolean {
+    return pending.connectorRebuilt || pending.testFilePaths.has(getNormalizedPath(testFilePath));
+}
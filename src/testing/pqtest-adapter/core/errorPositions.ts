@@ -0,0 +1,168 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+/**
+ * Pure helpers extracting the positions of M errors out of the error details PQTest reports, either written within
+ * messages like "Contoso.pq [12,5-12,20]" and "Contoso.pq(12,5)", or held by records of line and column fields.
+ * These functions have no vscode dependencies to enable unit testing with plain Mocha.
+ */
+
+import * as path from "path";
+
+/**
+ * A position of an M error, with 0-based lines and columns like vscode positions.
+ */
+export interface ErrorPosition {
+    // name or path of the document raising the error, undefined if the error does not tell
+    fileName?: string;
+    line: number;
+    column: number;
+    endLine?: number;
+    endColumn?: number;
+}
+
+// M errors count lines and columns from 1
+const PositionBase: number = 1;
+
+// positions within texts must name their .pq document, bare ones like "(1, 2)" are as likely to be anything else
+// eslint-disable-next-line security/detect-unsafe-regex -- no nested quantifiers over overlapping characters
+const PositionInTextRegExp: RegExp = /([^\s"'()[\]]+\.pq)\s?[[(](\d+), ?(\d+)(?:-(\d+), ?(\d+))?[)\]]/gi;
+
+const LineFieldNames: ReadonlyArray<string> = ["line", "startline", "linenumber"];
+const ColumnFieldNames: ReadonlyArray<string> = ["column", "startcolumn", "columnnumber", "character"];
+const EndLineFieldNames: ReadonlyArray<string> = ["endline"];
+const EndColumnFieldNames: ReadonlyArray<string> = ["endcolumn"];
+const FileFieldNames: ReadonlyArray<string> = ["file", "filename", "filepath", "path", "document", "documentname"];
+const SectionFieldNames: ReadonlyArray<string> = ["section", "sectionname"];
+
+function toZeroBased(value: number): number {
+    return Math.max(0, value - PositionBase);
+}
+
+function readField(record: Record<string, unknown>, fieldNames: ReadonlyArray<string>): unknown {
+    const matchedKey: string | undefined = Object.keys(record).find((key: string) =>
+        fieldNames.includes(key.toLowerCase()),
+    );
+
+    return matchedKey === undefined ? undefined : record[matchedKey];
+}
+
+function readNumberField(record: Record<string, unknown>, fieldNames: ReadonlyArray<string>): number | undefined {
+    const value: unknown = readField(record, fieldNames);
+
+    if (typeof value === "number" && Number.isInteger(value)) {
+        return value;
+    } else if (typeof value === "string" && /^\d+$/.test(value)) {
+        return Number(value);
+    }
+
+    return undefined;
+}
+
+function readFileName(record: Record<string, unknown>, inheritedFileName?: string): string | undefined {
+    const fileName: unknown = readField(record, FileFieldNames);
+
+    if (typeof fileName === "string" && fileName) {
+        return fileName;
+    }
+
+    // sections are the documents of connectors, named after their .pq files
+    const section: unknown = readField(record, SectionFieldNames);
+
+    return typeof section === "string" && section ? `${section}.pq` : inheritedFileName;
+}
+
+function extractPositionsFromText(text: string, positions: ErrorPosition[]): void {
+    for (const oneMatch of text.matchAll(PositionInTextRegExp)) {
+        positions.push({
+            fileName: oneMatch[1],
+            line: toZeroBased(Number(oneMatch[2])),
+            column: toZeroBased(Number(oneMatch[3])),
+            endLine: oneMatch[4] ? toZeroBased(Number(oneMatch[4])) : undefined,
+            endColumn: oneMatch[5] ? toZeroBased(Number(oneMatch[5])) : undefined,
+        });
+    }
+}
+
+/**
+ * Extracts the positions of an M error out of its message and details, in the order they appear.
+ *
+ * @param details - The raw details of the error, as PQTest reported them
+ * @param message - The message of the error
+ * @returns Array of positions, without duplicates
+ */
+export function extractErrorPositions(details: unknown, message?: string): ErrorPosition[] {
+    const positions: ErrorPosition[] = [];
+
+    const visit = (value: unknown, inheritedFileName?: string): void => {
+        if (typeof value === "string") {
+            extractPositionsFromText(value, positions);
+        } else if (Array.isArray(value)) {
+            value.forEach((oneValue: unknown) => visit(oneValue, inheritedFileName));
+        } else if (value && typeof value === "object") {
+            const record: Record<string, unknown> = value as Record<string, unknown>;
+            const fileName: string | undefined = readFileName(record, inheritedFileName);
+            const line: number | undefined = readNumberField(record, LineFieldNames);
+            const column: number | undefined = readNumberField(record, ColumnFieldNames);
+
+            if (line !== undefined) {
+                const endLine: number | undefined = readNumberField(record, EndLineFieldNames);
+                const endColumn: number | undefined = readNumberField(record, EndColumnFieldNames);
+
+                positions.push({
+                    fileName,
+                    line: toZeroBased(line),
+                    column: column === undefined ? 0 : toZeroBased(column),
+                    endLine: endLine === undefined ? undefined : toZeroBased(endLine),
+                    endColumn: endColumn === undefined ? undefined : toZeroBased(endColumn),
+                });
+            }
+
+            Object.values(record).forEach((oneValue: unknown) => visit(oneValue, fileName));
+        }
+    };
+
+    if (message) {
+        extractPositionsFromText(message, positions);
+    }
+
+    visit(details);
+
+    const seenPositions: Set<string> = new Set();
+
+    return positions.filter((onePosition: ErrorPosition) => {
+        const key: string = JSON.stringify(onePosition);
+        const isDuplicate: boolean = seenPositions.has(key);
+        seenPositions.add(key);
+
+        return !isDuplicate;
+    });
+}
+
+/**
+ * Tells whether a position lies in the query of a test, which positions without a document are assumed to.
+ */
+export function isPositionInQuery(position: ErrorPosition, queryFilePath: string): boolean {
+    return (
+        !position.fileName ||
+        path.basename(position.fileName.replace(/\\/g, "/")).toLowerCase() ===
+            path.basename(queryFilePath.replace(/\\/g, "/")).toLowerCase()
+    );
+}
+
+/**
+ * Picks the position an error got raised at: the first one within a connector document if any, as calls into the
+ * connector show up in the query as well, otherwise the first one.
+ */
+export function pickRaisingPosition(
+    positions: ReadonlyArray<ErrorPosition>,
+    queryFilePath: string,
+): ErrorPosition | undefined {
+    return (
+        positions.find((onePosition: ErrorPosition) => !isPositionInQuery(onePosition, queryFilePath)) ?? positions[0]
+    );
+}
@@ -0,0 +1,176 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+/**
+ * Pure helpers building query folding reports out of mashup engine trace files, neither run-test results nor
+ * testEnd events carry folding information.
+ * These functions have no vscode dependencies to enable unit testing with plain Mocha.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+import { MashupTraceEvent, parseMashupTrace } from "./mashupTrace";
+
+/**
+ * One step of the evaluated query and whether it got folded into the native query.
+ */
+export interface FoldingStep {
+    name: string;
+    folded: boolean;
+    reason?: string;
+}
+
+/**
+ * Folding report of one evaluation, as traced by the mashup engine.
+ */
+export interface FoldingReport {
+    steps: FoldingStep[];
+    // native queries sent to the data source, in the order they were sent
+    nativeQueries: string[];
+    // the first step which did not fold, every step after it gets evaluated locally
+    brokenStep?: FoldingStep;
+}
+
+// e.g. "OdbcQuery/FoldingWarning", traced for each operation the data source could not fold
+const FoldingWarningActionRegExp: RegExp = /\/Folding(Warning|Failure)$/i;
+
+function readTraceField(event: MashupTraceEvent, ...names: string[]): string | undefined {
+    for (const name of names) {
+        const value: unknown = event.fields[name];
+
+        if (typeof value === "string" && value.trim().length > 0) {
+            return value.trim();
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Builds the folding report of the events of trace files, where
+ *  - events carrying a CommandText hold the native queries sent to the data source
+ *  - folding warnings name the operations which did not fold, along with the step they were traced within if any
+ *
+ * @param events - Events of the trace files, in the order they were traced
+ * @returns The folding report, undefined if the traces hold no folding information
+ */
+export function buildFoldingReport(events: ReadonlyArray<MashupTraceEvent>): FoldingReport | undefined {
+    const steps: FoldingStep[] = [];
+    const nativeQueries: string[] = [];
+
+    for (const event of events) {
+        const commandText: string | undefined = readTraceField(event, "CommandText");
+
+        if (commandText) {
+            if (!nativeQueries.includes(commandText)) {
+                nativeQueries.push(commandText);
+            }
+
+            // traces only name the step a native query got sent for when the engine knows it
+            if (event.step && !steps.some((step: FoldingStep) => step.name === event.step)) {
+                steps.push({ name: event.step, folded: true });
+            }
+        } else if (FoldingWarningActionRegExp.test(event.action)) {
+            const name: string = event.step || readTraceField(event, "Function Name", "FunctionName") || event.action;
+            const reason: string | undefined = readTraceField(event, "Message", "Reason") ?? event.exception;
+            const knownStep: FoldingStep | undefined = steps.find((step: FoldingStep) => step.name === name);
+
+            if (knownStep) {
+                knownStep.folded = false;
+                knownStep.reason = knownStep.reason ?? reason;
+            } else {
+                steps.push({ name, folded: false, reason });
+            }
+        }
+    }
+
+    if (steps.length === 0 && nativeQueries.length === 0) {
+        return undefined;
+    }
+
+    return {
+        steps,
+        nativeQueries,
+        brokenStep: steps.find((step: FoldingStep) => !step.folded),
+    };
+}
+
+/**
+ * Reads the folding report out of trace files, files which cannot be read are skipped.
+ *
+ * @param traceFilePaths - Trace files of one evaluation or one test
+ */
+export async function readFoldingReport(traceFilePaths: ReadonlyArray<string>): Promise<FoldingReport | undefined> {
+    const texts: string[] = await Promise.all(
+        traceFilePaths.map((filePath: string) => fs.promises.readFile(filePath, "utf8").catch(() => "")),
+    );
+
+    return buildFoldingReport(texts.flatMap((text: string) => parseMashupTrace(text)));
+}
+
+/**
+ * Lists the trace files of a folder written to since a moment, i.e. the traces LogMashupEngineTraceLevel makes
+ * PQTest write under %localappdata%/Microsoft/PQTest/Logs while evaluating a query.
+ *
+ * @param folderPath - The folder holding the trace files
+ * @param sinceMs - Epoch milliseconds of the moment the evaluation began
+ */
+export async function findTraceFilesWrittenSince(folderPath: string, sinceMs: number): Promise<string[]> {
+    let fileNames: string[];
+
+    try {
+        fileNames = await fs.promises.readdir(folderPath);
+    } catch {
+        return [];
+    }
+
+    const filePaths: Array<string | undefined> = await Promise.all(
+        fileNames.map(async (fileName: string) => {
+            const filePath: string = path.join(folderPath, fileName);
+            const stats: fs.Stats | undefined = await fs.promises.stat(filePath).catch(() => undefined);
+
+            return stats?.isFile() && stats.mtimeMs >= sinceMs ? filePath : undefined;
+        }),
+    );
+
+    return filePaths.filter((filePath: string | undefined): filePath is string => filePath !== undefined);
+}
+
+/**
+ * Formats a folding report as markdown, e.g. for a test message.
+ *
+ * @param report - The folding report
+ * @param labels - Localized labels of the report sections
+ */
+export function formatFoldingReport(
+    report: FoldingReport,
+    labels: { folded: string; notFolded: string; brokeAt: string; nativeQuery: string },
+): string {
+    const lines: string[] = [];
+
+    if (report.brokenStep) {
+        lines.push(
+            `**${labels.brokeAt} ${report.brokenStep.name}**${
+                report.brokenStep.reason ? `: ${report.brokenStep.reason}` : ""
+            }`,
+            "",
+        );
+    }
+
+    for (const step of report.steps) {
+        lines.push(
+            `- ${step.folded ? labels.folded : labels.notFolded} \`${step.name}\`${step.reason ? ` (${step.reason})` : ""}`,
+        );
+    }
+
+    for (const nativeQuery of report.nativeQueries) {
+        lines.push("", `**${labels.nativeQuery}**`, "", "```", nativeQuery, "```");
+    }
+
+    return lines.join("\n").trim();
+}
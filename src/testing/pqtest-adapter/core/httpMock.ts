@@ -0,0 +1,140 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+/**
+ * Pure helpers for HTTP-mock test runs.
+ * These functions have no vscode dependencies to enable unit testing with plain Mocha.
+ */
+
+/**
+ * Failure reason reported by PQTest.exe when a request did not match any defined mock.
+ */
+export const HttpMockMissReason: string = "MockMiss";
+
+/**
+ * Options applied to a test run executed through the "Run with Mocks" profile.
+ * These override HttpMockPath and FailOnMockMiss from every .testsettings.json in the run.
+ */
+export interface HttpMockRunOptions {
+    mockPath: string;
+    failOnMockMiss: boolean;
+}
+
+/**
+ * One HTTP request that was not matched by any mock, as reported in a testEnd event.
+ */
+export interface HttpMockMiss {
+    method?: string;
+    url: string;
+    mockFile?: string;
+}
+
+/**
+ * Builds the PQTest.exe arguments that inject a mock folder into a run.
+ *
+ * @param options - Mock run options
+ * @returns Array of command-line arguments to append
+ */
+export function buildHttpMockArgs(options: HttpMockRunOptions): string[] {
+    const args: string[] = ["--httpMockPath", options.mockPath];
+
+    if (options.failOnMockMiss) {
+        args.push("--failOnMockMiss");
+    }
+
+    return args;
+}
+
+/**
+ * Filters the raw mockMisses value of a testEnd event down to well-formed entries.
+ *
+ * @param value - The raw value from JSON (could be any type)
+ * @returns Array of mock misses, empty if none or malformed
+ */
+export function parseHttpMockMisses(value: unknown): HttpMockMiss[] {
+    if (!Array.isArray(value)) {
+        return [];
+    }
+
+    return value
+        .filter(
+            (item: unknown): item is HttpMockMiss =>
+                typeof item === "object" && item !== null && typeof (item as HttpMockMiss).url === "string",
+        )
+        .map((item: HttpMockMiss) => ({
+            method: typeof item.method === "string" ? item.method.toUpperCase() : undefined,
+            url: item.url,
+            mockFile: typeof item.mockFile === "string" ? item.mockFile : undefined,
+        }));
+}
+
+/**
+ * Formats a mock miss as a single line, e.g. "GET https://contoso.com/api".
+ */
+export function formatHttpMockMiss(miss: HttpMockMiss): string {
+    return miss.method ? `${miss.method} ${miss.url}` : miss.url;
+}
+
+/**
+ * Creates a stable, sortable file name for the index-th recorded request, e.g. "003_GET_contoso.com.json".
+ *
+ * @param index - Zero-based position of the request in the recording
+ * @param method - HTTP method of the request
+ * @param url - Absolute url of the request
+ */
+export function createHttpMockFileName(index: number, method: string, url: string): string {
+    let host: string;
+
+    try {
+        host = new URL(url).hostname;
+    } catch {
+        host = "unknown";
+    }
+
+    const safeHost: string = host.replace(/[^A-Za-z0-9.-]/g, "_") || "unknown";
+
+    return `${String(index + 1).padStart(3, "0")}_${method.toUpperCase()}_${safeHost}.json`;
+}
+
+/**
+ * Strips the query file extension, e.g. "Contoso.query.pq" becomes "Contoso".
+ */
+export function getQueryFileBaseName(queryFileName: string): string {
+    return queryFileName.replace(/(\.query)?\.pq$/i, "");
+}
+
+/**
+ * Creates the content of a .testsettings.json which replays a recorded mock folder.
+ *
+ * @param queryFileName - Query file name, relative to the settings file
+ * @param mockFolderName - Mock folder name, relative to the settings file
+ */
+export function createHttpMockTestSettings(queryFileName: string, mockFolderName: string): Record<string, unknown> {
+    return {
+        QueryFilePath: `./${queryFileName}`,
+        HttpMockPath: `./${mockFolderName}`,
+        FailOnMockMiss: true,
+    };
+}
+
+/**
+ * Collects the distinct hosts of the https urls found in M sources, e.g. "contoso.com" for
+ * Web.Contents("https://contoso.com/api"), to suggest the hosts whose https traffic a recording may decrypt.
+ *
+ * @param sources - Texts of queries or connector sources
+ */
+export function collectHttpsHosts(sources: ReadonlyArray<string>): string[] {
+    const hosts: Set<string> = new Set<string>();
+
+    for (const source of sources) {
+        for (const match of source.matchAll(/"https:\/\/([A-Za-z0-9.-]+)[:/?#"]/g)) {
+            hosts.add(match[1].toLowerCase());
+        }
+    }
+
+    return Array.from(hosts);
+}
@@ -0,0 +1,210 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+/**
+ * Pure helpers for mashup engine trace files, i.e. what DiagnosticsFolderPath and LogMashupEngineTraceLevel produce.
+ * These functions have no vscode dependencies to enable unit testing with plain Mocha.
+ */
+
+/**
+ * Operations lasting at least this long are highlighted as slow.
+ */
+export const SlowMashupTraceEventMs: number = 1000;
+
+/**
+ * Group name of events without an activity id or a query step.
+ */
+export const UnknownMashupTraceGroup: string = "";
+
+/**
+ * One event of a trace file, e.g.
+ * DataMashup.Trace Information: 24579 : {"Start":"...","Action":"Engine/Evaluate","ActivityId":"...","Duration":"00:00:00.0012"}
+ */
+export interface MashupTraceEvent {
+    // one-based line number within the trace file
+    lineNumber: number;
+    level: string;
+    action: string;
+    activityId: string;
+    step: string;
+    start?: string;
+    durationMs?: number;
+    exception?: string;
+    isError: boolean;
+    fields: Record<string, unknown>;
+}
+
+export interface MashupTraceStepGroup {
+    step: string;
+    events: MashupTraceEvent[];
+    durationMs: number;
+    hasError: boolean;
+}
+
+export interface MashupTraceActivity {
+    activityId: string;
+    steps: MashupTraceStepGroup[];
+    durationMs: number;
+    hasError: boolean;
+}
+
+/**
+ * Converts a .NET TimeSpan, like "00:00:01.2345678" or "1.02:03:04.5", or a number of milliseconds into milliseconds.
+ */
+export function parseTraceDuration(value: unknown): number | undefined {
+    if (typeof value === "number") {
+        return Number.isFinite(value) ? value : undefined;
+    }
+
+    if (typeof value !== "string") {
+        return undefined;
+    }
+
+    const parts: string[] = value.trim().split(":");
+
+    if (parts.length !== 3 || !parts.every((part: string) => /^[\d.]+$/.test(part))) {
+        return undefined;
+    }
+
+    // the hours part carries the days in front of it, like "1.02"
+    const dayAndHours: string[] = parts[0].split(".");
+    const days: number = dayAndHours.length === 2 ? Number(dayAndHours[0]) : 0;
+    const hours: number = Number(dayAndHours[dayAndHours.length - 1]);
+
+    return (((days * 24 + hours) * 60 + Number(parts[1])) * 60 + Number(parts[2])) * 1000;
+}
+
+function readString(fields: Record<string, unknown>, ...names: string[]): string | undefined {
+    for (const name of names) {
+        const value: unknown = fields[name];
+
+        if (typeof value === "string" && value.length > 0) {
+            return value;
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Parses one line of a trace file, either a bare json object or one prefixed by its source, level and event id.
+ *
+ * @param line - One line of a trace file
+ * @param lineNumber - One-based line number of the line
+ * @returns The event, undefined if the line holds no json object
+ */
+export function parseMashupTraceLine(line: string, lineNumber: number): MashupTraceEvent | undefined {
+    const jsonStart: number = line.indexOf("{");
+
+    if (jsonStart === -1) {
+        return undefined;
+    }
+
+    let fields: unknown;
+
+    try {
+        fields = JSON.parse(line.substring(jsonStart));
+    } catch {
+        return undefined;
+    }
+
+    if (typeof fields !== "object" || fields === null || Array.isArray(fields)) {
+        return undefined;
+    }
+
+    const theFields: Record<string, unknown> = fields as Record<string, unknown>;
+
+    // "DataMashup.Trace Error: 24579 : " carries its level in front of the event id
+    const level: string =
+        line.substring(0, jsonStart).match(/\b(Critical|Error|Warning|Information|Verbose)\b/)?.[1] ?? "";
+
+    const exception: string | undefined = readString(theFields, "Exception", "ErrorMessage");
+
+    return {
+        lineNumber,
+        level,
+        action: readString(theFields, "Action") ?? "",
+        activityId: readString(theFields, "ActivityId", "RootActivityId") ?? UnknownMashupTraceGroup,
+        step: readString(theFields, "Step", "QueryStep", "StepName") ?? UnknownMashupTraceGroup,
+        start: readString(theFields, "Start"),
+        durationMs: parseTraceDuration(theFields.Duration),
+        exception,
+        isError: Boolean(exception) || level === "Error" || level === "Critical",
+        fields: theFields,
+    };
+}
+
+/**
+ * Parses every event of a trace file, skipping lines which are not events.
+ */
+export function parseMashupTrace(text: string): MashupTraceEvent[] {
+    const events: MashupTraceEvent[] = [];
+
+    text.split(/\r?\n/).forEach((line: string, index: number) => {
+        const event: MashupTraceEvent | undefined = parseMashupTraceLine(line, index + 1);
+
+        if (event) {
+            events.push(event);
+        }
+    });
+
+    return events;
+}
+
+export function isSlowMashupTraceDuration(
+    durationMs: number | undefined,
+    thresholdMs: number = SlowMashupTraceEventMs,
+): boolean {
+    return durationMs !== undefined && durationMs >= thresholdMs;
+}
+
+// trace events nest within each other, thus the longest one spans the whole group rather than their sum
+function getLongestDuration(durations: ReadonlyArray<number | undefined>): number {
+    return durations.reduce((longest: number, duration: number | undefined) => Math.max(longest, duration ?? 0), 0);
+}
+
+/**
+ * Groups events by activity id and then by query step, both in the order they first appear in the trace.
+ */
+export function groupMashupTraceEvents(events: ReadonlyArray<MashupTraceEvent>): MashupTraceActivity[] {
+    const activities: Map<string, Map<string, MashupTraceEvent[]>> = new Map();
+
+    for (const event of events) {
+        let steps: Map<string, MashupTraceEvent[]> | undefined = activities.get(event.activityId);
+
+        if (!steps) {
+            steps = new Map();
+            activities.set(event.activityId, steps);
+        }
+
+        const stepEvents: MashupTraceEvent[] | undefined = steps.get(event.step);
+
+        if (stepEvents) {
+            stepEvents.push(event);
+        } else {
+            steps.set(event.step, [event]);
+        }
+    }
+
+    return Array.from(activities.entries()).map(([activityId, steps]: [string, Map<string, MashupTraceEvent[]>]) => {
+        const stepGroups: MashupTraceStepGroup[] = Array.from(steps.entries()).map(
+            ([step, stepEvents]: [string, MashupTraceEvent[]]) => ({
+                step,
+                events: stepEvents,
+                durationMs: getLongestDuration(stepEvents.map((event: MashupTraceEvent) => event.durationMs)),
+                hasError: stepEvents.some((event: MashupTraceEvent) => event.isError),
+            }),
+        );
+
+        return {
+            activityId,
+            steps: stepGroups,
+            durationMs: getLongestDuration(stepGroups.map((stepGroup: MashupTraceStepGroup) => stepGroup.durationMs)),
+            hasError: stepGroups.some((stepGroup: MashupTraceStepGroup) => stepGroup.hasError),
+        };
+    });
+}
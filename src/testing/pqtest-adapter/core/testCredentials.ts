@@ -0,0 +1,278 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+/**
+ * Pure helpers for the TestCredentials of .testsettings.json, whose secrets are referenced as ${secret:NAME} for
+ * the VS Code secret storage or ${env:NAME} for environment variables, and resolved right before running PQTest.
+ * These functions have no vscode dependencies to enable unit testing with plain Mocha.
+ */
+
+import * as path from "path";
+
+import type { ExtensionInfo } from "../../../common/PQTestService";
+
+export type TestCredentialType = "Anonymous" | "Windows" | "MsalCertificate" | "OAuthPlaceholder";
+
+/**
+ * One entry of the TestCredentials of a .testsettings.json, see its definition in UserSettings.schema.json.
+ */
+export interface TestCredential {
+    Kind: string;
+    Path?: string;
+    Pattern?: string;
+    Type: TestCredentialType;
+    Settings?: Record<string, unknown> | null;
+}
+
+export type SecretStore = "secretStorage" | "environment";
+
+export interface SecretReference {
+    store: SecretStore;
+    name: string;
+}
+
+export interface GeneratedTestCredentials {
+    testCredentials: TestCredential[];
+    // the references of the settings of the generated credentials, whose values have to be stored
+    secretReferences: SecretReference[];
+    // authentication kinds PQTest cannot create test credentials of
+    unsupportedKinds: Array<{ dataSourceKind: string; authenticationKind: string }>;
+}
+
+// the types of test credentials PQTest creates for each authentication kind of a connector
+const testCredentialTypes: Readonly<Record<string, TestCredentialType>> = {
+    anonymous: "Anonymous",
+    implicit: "Anonymous",
+    windows: "Windows",
+    aad: "MsalCertificate",
+    oauth: "OAuthPlaceholder",
+};
+
+// settings of UserSettings.schema.json holding paths, whose relative paths PQTest resolves against the folder of the
+// settings file
+export const SettingsPathFields: ReadonlyArray<string> = [
+    "CredentialsFilePath",
+    "DataSourceAnalysisFile",
+    "DataSourceReferenceFile",
+    "DiagnosticsFolderPath",
+    "ExtensionPaths",
+    "HttpMockPath",
+    "IntermediateTestResultsFolder",
+    "OutputFolderPath",
+    "ParameterQueryFilePath",
+    "QueryFilePath",
+    "TestFilters",
+    "TrxReportPath",
+];
+
+const SecretReferenceRegExp: RegExp = /\$\{(secret|env):([^}]+)\}/g;
+
+export function formatSecretReference(reference: SecretReference): string {
+    return reference.store === "secretStorage" ? `\${secret:${reference.name}}` : `\${env:${reference.name}}`;
+}
+
+/**
+ * Names the secret of a setting of a data source kind, like "Conn.ClientId" or, for environment variables,
+ * "PQ_CONN_CLIENTID".
+ */
+export function createSecretName(store: SecretStore, dataSourceKind: string, settingName: string): string {
+    return store === "secretStorage"
+        ? `${dataSourceKind}.${settingName}`
+        : `PQ_${dataSourceKind}_${settingName}`.replace(/\W/g, "_").toUpperCase();
+}
+
+// authentication infos list their properties either as names or as records holding names
+function getPropertyName(property: unknown): string | undefined {
+    if (typeof property === "string") {
+        return property;
+    }
+
+    const name: unknown = (property as { Name?: unknown } | null)?.Name;
+
+    return typeof name === "string" ? name : undefined;
+}
+
+/**
+ * Generates the test credentials of the data source kinds of a connector, one per authentication kind PQTest can
+ * create them non-interactively for, with each property of the kind referenced as a secret of the store.
+ */
+export function generateTestCredentials(
+    extensionInfos: ReadonlyArray<ExtensionInfo>,
+    store: SecretStore,
+): GeneratedTestCredentials {
+    const result: GeneratedTestCredentials = { testCredentials: [], secretReferences: [], unsupportedKinds: [] };
+
+    for (const oneInfo of extensionInfos) {
+        for (const oneDataSource of oneInfo.DataSources ?? []) {
+            for (const oneAuthenticationInfo of oneDataSource.AuthenticationInfos ?? []) {
+                const type: TestCredentialType | undefined =
+                    testCredentialTypes[oneAuthenticationInfo.Kind.toLowerCase()];
+
+                if (!type) {
+                    result.unsupportedKinds.push({
+                        dataSourceKind: oneDataSource.DataSourceKind,
+                        authenticationKind: oneAuthenticationInfo.Kind,
+                    });
+
+                    continue;
+                }
+
+                const isGenerated: boolean = result.testCredentials.some(
+                    (oneCredential: TestCredential) =>
+                        oneCredential.Kind === oneDataSource.DataSourceKind && oneCredential.Type === type,
+                );
+
+                if (isGenerated) {
+                    continue;
+                }
+
+                const settings: Record<string, string> = {};
+
+                for (const oneProperty of oneAuthenticationInfo.Properties ?? []) {
+                    const settingName: string | undefined = getPropertyName(oneProperty);
+
+                    if (settingName) {
+                        const reference: SecretReference = {
+                            store,
+                            name: createSecretName(store, oneDataSource.DataSourceKind, settingName),
+                        };
+
+                        settings[settingName] = formatSecretReference(reference);
+                        result.secretReferences.push(reference);
+                    }
+                }
+
+                result.testCredentials.push({
+                    Kind: oneDataSource.DataSourceKind,
+                    Pattern: "*",
+                    Type: type,
+                    ...(Object.keys(settings).length ? { Settings: settings } : {}),
+                });
+            }
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Adds generated test credentials to existing ones, keeping the existing entries of the same kind and type as they
+ * might hold hand-written settings.
+ */
+export function mergeTestCredentials(
+    existingCredentials: ReadonlyArray<TestCredential>,
+    generatedCredentials: ReadonlyArray<TestCredential>,
+): TestCredential[] {
+    return [
+        ...existingCredentials,
+        ...generatedCredentials.filter(
+            (oneGenerated: TestCredential) =>
+                !existingCredentials.some(
+                    (oneExisting: TestCredential) =>
+                        oneExisting.Kind === oneGenerated.Kind && oneExisting.Type === oneGenerated.Type,
+                ),
+        ),
+    ];
+}
+
+/**
+ * Lists the secret references within the strings of a JSON value, without duplicates.
+ */
+export function listSecretReferences(value: unknown): SecretReference[] {
+    const references: Map<string, SecretReference> = new Map();
+
+    const visit = (oneValue: unknown): void => {
+        if (typeof oneValue === "string") {
+            for (const oneMatch of oneValue.matchAll(SecretReferenceRegExp)) {
+                references.set(oneMatch[0], {
+                    store: oneMatch[1] === "secret" ? "secretStorage" : "environment",
+                    name: oneMatch[2],
+                });
+            }
+        } else if (Array.isArray(oneValue)) {
+            oneValue.forEach(visit);
+        } else if (oneValue && typeof oneValue === "object") {
+            Object.values(oneValue).forEach(visit);
+        }
+    };
+
+    visit(value);
+
+    return Array.from(references.values());
+}
+
+/**
+ * Replaces the secret references within the strings of a JSON value by their values.
+ *
+ * @param values - The values of the references, by their formatted references
+ * @returns The resolved value and the references lacking values, which are left as they are
+ */
+export function resolveSecretReferences<T>(
+    value: T,
+    values: ReadonlyMap<string, string>,
+): { value: T; missingReferences: string[] } {
+    const missingReferences: Set<string> = new Set();
+
+    const resolve = (oneValue: unknown): unknown => {
+        if (typeof oneValue === "string") {
+            return oneValue.replace(SecretReferenceRegExp, (reference: string) => {
+                const resolvedValue: string | undefined = values.get(reference);
+
+                if (resolvedValue === undefined) {
+                    missingReferences.add(reference);
+
+                    return reference;
+                }
+
+                return resolvedValue;
+            });
+        } else if (Array.isArray(oneValue)) {
+            return oneValue.map(resolve);
+        } else if (oneValue && typeof oneValue === "object") {
+            return Object.fromEntries(
+                Object.entries(oneValue).map(([key, fieldValue]: [string, unknown]) => [key, resolve(fieldValue)]),
+            );
+        }
+
+        return oneValue;
+    };
+
+    return { value: resolve(value) as T, missingReferences: Array.from(missingReferences) };
+}
+
+/**
+ * Makes the relative paths of a settings file absolute, for a copy of it living in another folder.
+ * Test filters keep their leading "!" of exclusions, and their wildcards are resolved along with them.
+ */
+export function resolveSettingsPaths(
+    settings: Record<string, unknown>,
+    settingsFolder: string,
+): Record<string, unknown> {
+    // paths holding variables like ${workspaceFolder} are left to whoever substitutes them
+    const resolvePath = (value: unknown): unknown => {
+        if (typeof value !== "string" || !value || value.includes("${")) {
+            return value;
+        }
+
+        const exclusionPrefix: string = value.startsWith("!") ? "!" : "";
+        const pathValue: string = value.substring(exclusionPrefix.length);
+
+        return path.isAbsolute(pathValue) ? value : `${exclusionPrefix}${path.resolve(settingsFolder, pathValue)}`;
+    };
+
+    const result: Record<string, unknown> = { ...settings };
+
+    for (const oneField of SettingsPathFields) {
+        if (oneField in result) {
+            const value: unknown = result[oneField];
+            // like ExtensionPaths and TestFilters, some settings hold a list of paths
+            result[oneField] = Array.isArray(value) ? value.map(resolvePath) : resolvePath(value);
+        }
+    }
+
+    return result;
+}
@@ -0,0 +1,42 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+/**
+ * Pure helpers for debugging tests, whose run-compare output reaches the test adapter through a debug session.
+ * These functions have no vscode dependencies to enable unit testing with plain Mocha.
+ */
+
+// The property of the debug configuration of a test, which tells the test item the session debugs
+export const DebuggedTestItemIdProperty: string = "testItemId";
+
+const TestEventLineRegExp: RegExp = /^(runStart|testStart|testEnd|runEnd):/;
+
+/**
+ * Builds the arguments which make run-compare run a single test with its settings file applied.
+ *
+ * @param settingsFilePath - Path to the .testsettings.json file owning the test
+ * @param relativeTestPath - Path of the test relative to the QueryFilePath of the settings file
+ * @returns Array of command-line arguments for run-compare
+ */
+export function buildDebugTestArgs(settingsFilePath: string, relativeTestPath: string): string[] {
+    return ["--settingsFile", settingsFilePath, "--testFilter", relativeTestPath];
+}
+
+/**
+ * Extracts the "action:json" lines of the test events from the output of a debug session, which also holds the
+ * lines the session logged on its own.
+ *
+ * @param output - The output of the session, in any chunks
+ * @returns Array of test event lines, in order
+ */
+export function extractTestEventLines(output: ReadonlyArray<string>): string[] {
+    return output
+        .join("")
+        .split(/\r?\n/)
+        .map((line: string) => line.trim())
+        .filter((line: string) => TestEventLineRegExp.test(line));
+}
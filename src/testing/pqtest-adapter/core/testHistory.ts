@@ -0,0 +1,149 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+/**
+ * Pure helpers for the history of test results kept across runs, which tells the tests that failed last, the flaky
+ * ones and the ones getting slower.
+ * These functions have no vscode dependencies to enable unit testing with plain Mocha.
+ */
+
+export type TestHistoryStatus = "Passed" | "Failed" | "Error";
+
+/**
+ * What a test ran with, results of identical inputs being expected to be identical as well.
+ */
+export interface TestRunInputs {
+    pqTestVersion?: string;
+    // hash of the connectors the test ran with
+    mezHash?: string;
+    // hash of the query and its baseline
+    queryHash?: string;
+    // the mock folder of runs through the "Run with Mocks" profile, undefined for live runs
+    httpMockPath?: string;
+    failOnMockMiss?: boolean;
+}
+
+export interface TestHistoryEntry extends TestRunInputs {
+    status: TestHistoryStatus;
+    durationMs?: number;
+    // ISO timestamp of when the result got recorded
+    timestamp: string;
+}
+
+/**
+ * The results of each test, by test id, the oldest first.
+ */
+export type TestHistory = Record<string, TestHistoryEntry[]>;
+
+export interface DurationTrend {
+    durationMs: number;
+    medianDurationMs: number;
+}
+
+// Results kept per test, enough to tell flaky tests and duration trends apart from noise
+export const MAX_TEST_HISTORY_ENTRIES: number = 20;
+
+// A test is getting slower once it takes that many times its median duration, by at least the minimum increase
+const DURATION_TREND_MIN_SAMPLES: number = 5;
+const DURATION_TREND_RATIO: number = 1.5;
+const DURATION_TREND_MIN_INCREASE_MS: number = 1000;
+
+/**
+ * Adds the latest result of a test to its history, dropping the oldest results beyond the maximum.
+ *
+ * @returns A new history holding the entry
+ */
+export function appendTestHistoryEntry(history: TestHistory, testId: string, entry: TestHistoryEntry): TestHistory {
+    return {
+        ...history,
+        [testId]: [...(history[testId] ?? []), entry].slice(-MAX_TEST_HISTORY_ENTRIES),
+    };
+}
+
+/**
+ * Lists the tests whose latest result is not a pass.
+ */
+export function getFailedTestIds(history: TestHistory): string[] {
+    return Object.entries(history)
+        .filter(([, entries]: [string, TestHistoryEntry[]]) => {
+            const latestEntry: TestHistoryEntry | undefined = entries[entries.length - 1];
+
+            return latestEntry !== undefined && latestEntry.status !== "Passed";
+        })
+        .map(([testId]: [string, TestHistoryEntry[]]) => testId);
+}
+
+function haveIdenticalInputs(left: TestRunInputs, right: TestRunInputs): boolean {
+    // inputs missing a hash, e.g. as the connector could not be read, are not comparable to any other
+    if (!left.mezHash || !left.queryHash || !right.mezHash || !right.queryHash) {
+        return false;
+    }
+
+    return (
+        left.pqTestVersion === right.pqTestVersion &&
+        left.mezHash === right.mezHash &&
+        left.queryHash === right.queryHash &&
+        left.httpMockPath === right.httpMockPath &&
+        Boolean(left.failOnMockMiss) === Boolean(right.failOnMockMiss)
+    );
+}
+
+/**
+ * Tells whether a test is flaky, i.e. whether it both passed and failed with the inputs of its latest result.
+ */
+export function isFlakyTest(entries: ReadonlyArray<TestHistoryEntry>): boolean {
+    const latestEntry: TestHistoryEntry | undefined = entries[entries.length - 1];
+
+    if (!latestEntry) {
+        return false;
+    }
+
+    const statuses: Set<TestHistoryStatus> = new Set(
+        entries
+            .filter((oneEntry: TestHistoryEntry) => haveIdenticalInputs(oneEntry, latestEntry))
+            .map((oneEntry: TestHistoryEntry) => oneEntry.status),
+    );
+
+    return statuses.has("Passed") && statuses.size > 1;
+}
+
+function getMedian(values: ReadonlyArray<number>): number {
+    const sortedValues: number[] = [...values].sort((left: number, right: number) => left - right);
+    const middle: number = Math.floor(sortedValues.length / 2);
+
+    return sortedValues.length % 2 ? sortedValues[middle] : (sortedValues[middle - 1] + sortedValues[middle]) / 2;
+}
+
+/**
+ * Tells whether the latest result of a test took much longer than the passing results before it.
+ *
+ * @returns The trend if the test got slower, otherwise undefined
+ */
+export function getDurationTrend(entries: ReadonlyArray<TestHistoryEntry>): DurationTrend | undefined {
+    const latestEntry: TestHistoryEntry | undefined = entries[entries.length - 1];
+
+    if (latestEntry?.durationMs === undefined) {
+        return undefined;
+    }
+
+    const previousDurations: number[] = entries
+        .slice(0, -1)
+        .filter((oneEntry: TestHistoryEntry) => oneEntry.status === "Passed" && oneEntry.durationMs !== undefined)
+        .map((oneEntry: TestHistoryEntry) => oneEntry.durationMs as number);
+
+    if (previousDurations.length < DURATION_TREND_MIN_SAMPLES) {
+        return undefined;
+    }
+
+    const medianDurationMs: number = getMedian(previousDurations);
+
+    const isSlower: boolean =
+        latestEntry.durationMs >= medianDurationMs * DURATION_TREND_RATIO &&
+        latestEntry.durationMs - medianDurationMs >= DURATION_TREND_MIN_INCREASE_MS;
+
+    return isSlower ? { durationMs: latestEntry.durationMs, medianDurationMs } : undefined;
+}
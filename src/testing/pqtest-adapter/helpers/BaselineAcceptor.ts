@@ -0,0 +1,298 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as vscode from "vscode";
+
+import { IDisposable } from "../../../common/Disposable";
+import { PqSdkOutputChannel } from "../../../features/PqSdkOutputChannel";
+import { extensionI18n, resolveI18nTemplate } from "../../../i18n/extension";
+import { BaselineFile, countLineChanges } from "../core/baselines";
+
+interface AcceptedBaselineFile extends BaselineFile {
+    // the copy of the former expected file, undefined if there was none
+    backupFilePath?: string;
+    added: number;
+    removed: number;
+}
+
+interface BaselineAcceptance {
+    backupFolder: string;
+    files: AcceptedBaselineFile[];
+}
+
+/**
+ * Accepts the actual outputs of failed tests as their new baselines by copying them over the expected files,
+ * summarizes what changed, and undoes the last acceptance out of the copies it kept of the former files.
+ */
+export class BaselineAcceptor implements IDisposable {
+    // baseline files of the latest failed run of each test, by test id, along with the run they came from
+    private static readonly pendingBaselineFiles: Map<string, { testRun: vscode.TestRun; files: BaselineFile[] }> =
+        new Map();
+    private static latestTestRun: vscode.TestRun | undefined = undefined;
+
+    public static rememberBaselineFiles(testRun: vscode.TestRun, testId: string, files: BaselineFile[]): void {
+        this.latestTestRun = testRun;
+
+        if (files.length) {
+            this.pendingBaselineFiles.set(testId, { testRun, files });
+        } else {
+            this.pendingBaselineFiles.delete(testId);
+        }
+    }
+
+    private lastAcceptance: BaselineAcceptance | undefined = undefined;
+
+    constructor(private readonly outputChannel: PqSdkOutputChannel) {}
+
+    /**
+     * Accepts the actual outputs of a test, invoked from the test explorer with either the test item itself or
+     * one of the messages of its failure.
+     */
+    public async acceptActual(target?: vscode.TestItem | { test: vscode.TestItem }): Promise<void> {
+        const testItem: vscode.TestItem | undefined = target && "test" in target ? target.test : target;
+
+        const files: BaselineFile[] | undefined = testItem
+            ? BaselineAcceptor.pendingBaselineFiles.get(testItem.id)?.files
+            : undefined;
+
+        if (!testItem || !files) {
+            void vscode.window.showInformationMessage(extensionI18n["PQSdk.testAdapter.baselines.noActualOutput"]);
+
+            return;
+        }
+
+        await this.accept(files);
+    }
+
+    /**
+     * Accepts the actual outputs of every failed test of the latest run.
+     */
+    public async acceptAllActuals(): Promise<void> {
+        const files: BaselineFile[] = Array.from(BaselineAcceptor.pendingBaselineFiles.values())
+            .filter(
+                (oneEntry: { testRun: vscode.TestRun; files: BaselineFile[] }) =>
+                    oneEntry.testRun === BaselineAcceptor.latestTestRun,
+            )
+            .map((oneEntry: { testRun: vscode.TestRun; files: BaselineFile[] }) => oneEntry.files)
+            .flat();
+
+        if (!files.length) {
+            void vscode.window.showInformationMessage(extensionI18n["PQSdk.testAdapter.baselines.noActualOutput"]);
+
+            return;
+        }
+
+        const acceptItem: string = extensionI18n["PQSdk.testAdapter.baselines.acceptAll.confirm"];
+
+        const confirmation: string | undefined = await vscode.window.showWarningMessage(
+            resolveI18nTemplate("PQSdk.testAdapter.baselines.acceptAll.prompt", {
+                fileCount: String(files.length),
+                testCount: String(new Set(files.map((oneFile: BaselineFile) => oneFile.testId)).size),
+            }),
+            { modal: true },
+            acceptItem,
+        );
+
+        if (confirmation === acceptItem) {
+            await this.accept(files);
+        }
+    }
+
+    /**
+     * Restores the expected files the last acceptance replaced.
+     */
+    public async undoLastAcceptance(): Promise<void> {
+        const acceptance: BaselineAcceptance | undefined = this.lastAcceptance;
+
+        if (!acceptance) {
+            void vscode.window.showInformationMessage(extensionI18n["PQSdk.testAdapter.baselines.undo.nothing"]);
+
+            return;
+        }
+
+        this.lastAcceptance = undefined;
+
+        try {
+            for (const oneFile of acceptance.files) {
+                if (oneFile.backupFilePath) {
+                    // eslint-disable-next-line no-await-in-loop
+                    await fs.promises.copyFile(oneFile.backupFilePath, oneFile.expectedFilePath);
+                } else {
+                    // eslint-disable-next-line no-await-in-loop
+                    await fs.promises.rm(oneFile.expectedFilePath, { force: true });
+                }
+            }
+
+            this.outputChannel.appendInfoLine(
+                resolveI18nTemplate("PQSdk.testAdapter.baselines.undo.result", {
+                    fileCount: String(acceptance.files.length),
+                }),
+            );
+        } catch (error: unknown) {
+            void vscode.window.showErrorMessage(
+                resolveI18nTemplate("PQSdk.testAdapter.baselines.undo.errorMessage", {
+                    errorMessage: error instanceof Error ? error.message : String(error),
+                }),
+            );
+        } finally {
+            await fs.promises.rm(acceptance.backupFolder, { recursive: true, force: true });
+        }
+    }
+
+    /**
+     * Brings up the summary of the last acceptance and the diff of one of its files.
+     */
+    public async reviewLastAcceptance(): Promise<void> {
+        if (!this.lastAcceptance) {
+            void vscode.window.showInformationMessage(extensionI18n["PQSdk.testAdapter.baselines.undo.nothing"]);
+
+            return;
+        }
+
+        await this.review(this.lastAcceptance.files, this.formatSummary(this.lastAcceptance.files));
+    }
+
+    public dispose(): void {
+        this.forgetLastAcceptance();
+    }
+
+    private forgetLastAcceptance(): void {
+        if (this.lastAcceptance) {
+            fs.rmSync(this.lastAcceptance.backupFolder, { recursive: true, force: true });
+            this.lastAcceptance = undefined;
+        }
+    }
+
+    private async accept(files: BaselineFile[]): Promise<void> {
+        const backupFolder: string = await fs.promises.mkdtemp(path.join(os.tmpdir(), "pq-sdk-baselines-"));
+        const acceptedFiles: AcceptedBaselineFile[] = [];
+
+        try {
+            for (const [index, oneFile] of files.entries()) {
+                const previousContent: string | undefined = fs.existsSync(oneFile.expectedFilePath)
+                    ? // eslint-disable-next-line no-await-in-loop
+                      await fs.promises.readFile(oneFile.expectedFilePath, "utf8")
+                    : undefined;
+
+                // eslint-disable-next-line no-await-in-loop
+                const nextContent: string = await fs.promises.readFile(oneFile.actualFilePath, "utf8");
+
+                const backupFilePath: string | undefined =
+                    previousContent === undefined
+                        ? undefined
+                        : path.join(backupFolder, `${index}-${path.basename(oneFile.expectedFilePath)}`);
+
+                if (backupFilePath) {
+                    // eslint-disable-next-line no-await-in-loop
+                    await fs.promises.copyFile(oneFile.expectedFilePath, backupFilePath);
+                }
+
+                // eslint-disable-next-line no-await-in-loop
+                await fs.promises.mkdir(path.dirname(oneFile.expectedFilePath), { recursive: true });
+                // eslint-disable-next-line no-await-in-loop
+                await fs.promises.copyFile(oneFile.actualFilePath, oneFile.expectedFilePath);
+
+                acceptedFiles.push({ ...oneFile, backupFilePath, ...countLineChanges(previousContent, nextContent) });
+            }
+        } catch (error: unknown) {
+            void vscode.window.showErrorMessage(
+                resolveI18nTemplate("PQSdk.testAdapter.baselines.accept.errorMessage", {
+                    errorMessage: error instanceof Error ? error.message : String(error),
+                }),
+            );
+        }
+
+        if (!acceptedFiles.length) {
+            await fs.promises.rm(backupFolder, { recursive: true, force: true });
+
+            return;
+        }
+
+        // only the last acceptance could be undone, thus the copies of the former one are of no use anymore
+        this.forgetLastAcceptance();
+        this.lastAcceptance = { backupFolder, files: acceptedFiles };
+
+        for (const oneTestId of new Set(acceptedFiles.map((oneFile: AcceptedBaselineFile) => oneFile.testId))) {
+            BaselineAcceptor.pendingBaselineFiles.delete(oneTestId);
+        }
+
+        const summary: string = this.formatSummary(acceptedFiles);
+        this.outputChannel.appendInfoLine(summary);
+
+        const reviewItem: string = extensionI18n["PQSdk.testAdapter.baselines.review"];
+        const undoItem: string = extensionI18n["PQSdk.testAdapter.baselines.undo"];
+
+        const picked: string | undefined = await vscode.window.showInformationMessage(
+            resolveI18nTemplate("PQSdk.testAdapter.baselines.accept.result", {
+                fileCount: String(acceptedFiles.length),
+            }),
+            reviewItem,
+            undoItem,
+        );
+
+        if (picked === reviewItem) {
+            await this.review(acceptedFiles, summary);
+        } else if (picked === undoItem) {
+            await this.undoLastAcceptance();
+        }
+    }
+
+    private formatSummary(acceptedFiles: AcceptedBaselineFile[]): string {
+        return [
+            `# ${extensionI18n["PQSdk.testAdapter.baselines.summary.title"]}`,
+            "",
+            ...acceptedFiles.map((oneFile: AcceptedBaselineFile) =>
+                resolveI18nTemplate(
+                    oneFile.backupFilePath
+                        ? "PQSdk.testAdapter.baselines.summary.file"
+                        : "PQSdk.testAdapter.baselines.summary.newFile",
+                    {
+                        added: String(oneFile.added),
+                        removed: String(oneFile.removed),
+                        expectedFilePath: oneFile.expectedFilePath,
+                        channel: oneFile.channel ?? extensionI18n["PQSdk.testAdapter.baselines.summary.output"],
+                    },
+                ),
+            ),
+        ].join("\n");
+    }
+
+    private async review(acceptedFiles: AcceptedBaselineFile[], summary: string): Promise<void> {
+        await vscode.window.showTextDocument(
+            await vscode.workspace.openTextDocument({ language: "markdown", content: summary }),
+        );
+
+        const picked: (vscode.QuickPickItem & { file: AcceptedBaselineFile }) | undefined =
+            await vscode.window.showQuickPick(
+                acceptedFiles.map((oneFile: AcceptedBaselineFile) => ({
+                    label: path.basename(oneFile.expectedFilePath),
+                    description: `+${oneFile.added} -${oneFile.removed}`,
+                    detail: oneFile.expectedFilePath,
+                    file: oneFile,
+                })),
+                { placeHolder: extensionI18n["PQSdk.testAdapter.baselines.review.placeHolder"] },
+            );
+
+        if (!picked) {
+            return;
+        }
+
+        if (picked.file.backupFilePath) {
+            await vscode.commands.executeCommand(
+                "vscode.diff",
+                vscode.Uri.file(picked.file.backupFilePath),
+                vscode.Uri.file(picked.file.expectedFilePath),
+                resolveI18nTemplate("PQSdk.testAdapter.baselines.review.diffTitle", { fileName: picked.label }),
+            );
+        } else {
+            await vscode.window.showTextDocument(vscode.Uri.file(picked.file.expectedFilePath));
+        }
+    }
+}
@@ -0,0 +1,135 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+import * as vscode from "vscode";
+
+import { IDisposable } from "../../../common/Disposable";
+import { PqSdkOutputChannel } from "../../../features/PqSdkOutputChannel";
+import { extensionI18n, resolveI18nTemplate } from "../../../i18n/extension";
+import {
+    ContinuousRunFileChange,
+    createPendingContinuousRun,
+    getContinuousRunDelay,
+    isAffectedByContinuousRunChanges,
+    PendingContinuousRun,
+    recordContinuousRunChange,
+} from "../core/continuousRun";
+import { getRequestedLeafNodes } from "../utils/testUtils";
+
+const ContinuousRunFilePatterns: ReadonlyArray<string> = ["**/*.query.pq", "**/*.pqout", "**/*.mez"];
+
+/**
+ * Serves a continuous run request by watching the queries, their baselines and the built connectors, and rerunning
+ * the tests whose query or baseline changed, or all of the requested ones once the connector got rebuilt.
+ */
+export class ContinuousTestRunner implements IDisposable {
+    private readonly _disposables: vscode.Disposable[] = [];
+    private pending: PendingContinuousRun = createPendingContinuousRun();
+    private rerunTimer: NodeJS.Timeout | undefined = undefined;
+    private isRerunning: boolean = false;
+
+    constructor(
+        private readonly request: vscode.TestRunRequest,
+        private readonly controller: vscode.TestController,
+        private readonly outputChannel: PqSdkOutputChannel,
+        private readonly rerun: (request: vscode.TestRunRequest) => Promise<void>,
+    ) {
+        for (const onePattern of ContinuousRunFilePatterns) {
+            const watcher: vscode.FileSystemWatcher = vscode.workspace.createFileSystemWatcher(onePattern);
+
+            this._disposables.push(
+                watcher,
+                watcher.onDidCreate((uri: vscode.Uri) => this.onFileChanged(uri, "created")),
+                watcher.onDidChange((uri: vscode.Uri) => this.onFileChanged(uri, "changed")),
+                watcher.onDidDelete((uri: vscode.Uri) => this.onFileChanged(uri, "deleted")),
+            );
+        }
+
+        this.outputChannel.appendInfoLine(extensionI18n["PQSdk.testAdapter.continuousRun.started"]);
+    }
+
+    public dispose(): void {
+        clearTimeout(this.rerunTimer);
+
+        for (const oneDisposable of this._disposables) {
+            oneDisposable.dispose();
+        }
+
+        this.outputChannel.appendInfoLine(extensionI18n["PQSdk.testAdapter.continuousRun.stopped"]);
+    }
+
+    private onFileChanged(uri: vscode.Uri, change: ContinuousRunFileChange): void {
+        if (!recordContinuousRunChange(this.pending, uri.fsPath, change)) {
+            return;
+        }
+
+        if (this.pending.isConnectorBuilding) {
+            this.outputChannel.appendDebugLine(
+                resolveI18nTemplate("PQSdk.testAdapter.continuousRun.waitingForBuild", { connectorPath: uri.fsPath }),
+            );
+        }
+
+        this.scheduleRerun();
+    }
+
+    private scheduleRerun(): void {
+        clearTimeout(this.rerunTimer);
+        this.rerunTimer = setTimeout(() => void this.rerunAffectedTests(), getContinuousRunDelay(this.pending));
+    }
+
+    private async rerunAffectedTests(): Promise<void> {
+        // changes made during a rerun are picked up once it ends
+        if (this.isRerunning) {
+            return;
+        }
+
+        const pending: PendingContinuousRun = this.pending;
+        this.pending = createPendingContinuousRun();
+
+        const rerunRequest: vscode.TestRunRequest | undefined = this.createRerunRequest(pending);
+
+        if (!rerunRequest) {
+            return;
+        }
+
+        this.isRerunning = true;
+
+        try {
+            await this.rerun(rerunRequest);
+        } finally {
+            this.isRerunning = false;
+
+            if (this.pending.connectorRebuilt || this.pending.testFilePaths.size) {
+                this.scheduleRerun();
+            }
+        }
+    }
+
+    private createRerunRequest(pending: PendingContinuousRun): vscode.TestRunRequest | undefined {
+        if (pending.connectorRebuilt) {
+            this.outputChannel.appendInfoLine(extensionI18n["PQSdk.testAdapter.continuousRun.rerunningAllTests"]);
+
+            return new vscode.TestRunRequest(this.request.include, this.request.exclude, this.request.profile);
+        }
+
+        const affectedTests: vscode.TestItem[] = getRequestedLeafNodes(this.request, this.controller).filter(
+            (oneTest: vscode.TestItem) => oneTest.uri && isAffectedByContinuousRunChanges(pending, oneTest.uri.fsPath),
+        );
+
+        if (!affectedTests.length) {
+            return undefined;
+        }
+
+        this.outputChannel.appendInfoLine(
+            resolveI18nTemplate("PQSdk.testAdapter.continuousRun.rerunningAffectedTests", {
+                count: affectedTests.length.toString(),
+            }),
+        );
+
+        return new vscode.TestRunRequest(affectedTests, undefined, this.request.profile);
+    }
+}
@@ -10,6 +10,7 @@ import * as vscode from "vscode";
 
 import { PqSdkOutputChannel } from "../../../features/PqSdkOutputChannel";
 import { extensionI18n, resolveI18nTemplate } from "../../../i18n/extension";
+import { HttpMockMiss, parseHttpMockMisses } from "../core/httpMock";
 import { getNormalizedPath } from "../utils/pathUtils";
 
 /**
@@ -41,6 +42,7 @@ export interface TestResult {
     expectedTestResultFilePath?: string;
     actualDiagnosticsFilePaths?: DiagnosticsChannelPaths;
     expectedDiagnosticsFilePaths?: DiagnosticsChannelPaths;
+    mockMisses?: HttpMockMiss[];
     error?: {
         message: string;
         details?: unknown;
@@ -155,6 +157,7 @@ export class PqTestResultParser {
                         expectedTestResultFilePath: event.expectedTestResultFilePath,
                         actualDiagnosticsFilePaths: event.actualDiagnosticsFilePaths,
                         expectedDiagnosticsFilePaths: event.expectedDiagnosticsFilePaths,
+                        mockMisses: parseHttpMockMisses(event.mockMisses),
                         error: event.error,
                     };
 
@@ -230,6 +233,7 @@ interface TestEndEvent {
     expectedTestResultFilePath?: string;
     actualDiagnosticsFilePaths?: DiagnosticsChannelPaths;
     expectedDiagnosticsFilePaths?: DiagnosticsChannelPaths;
+    mockMisses?: unknown;
 }
 
 interface RunEndEvent {
@@ -0,0 +1,319 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+import type { DebugProtocol } from "@vscode/debugprotocol";
+import { Readable } from "stream";
+import * as vscode from "vscode";
+
+import { IDisposable } from "../../../common/Disposable";
+import { ExtensionConfigurations } from "../../../constants/PowerQuerySdkConfiguration";
+import { ExtensionConstants } from "../../../constants/PowerQuerySdkExtension";
+import { PqSdkOutputChannel } from "../../../features/PqSdkOutputChannel";
+import { extensionI18n, resolveI18nTemplate } from "../../../i18n/extension";
+import { resolveSubstitutedValues } from "../../../utils/vscodes";
+import { buildDebugTestArgs, DebuggedTestItemIdProperty, extractTestEventLines } from "../core/testDebugging";
+import { refreshSettingsItem } from "../TestController";
+import { getRelativeTestPath } from "../utils/pathUtils";
+import {
+    createSettingsFileWithResolvedSecrets,
+    deleteSettingsFileWithResolvedSecrets,
+} from "../utils/testCredentialsUtils";
+import { getRequestedLeafNodes, getSettingsItem, parseCompositeId } from "../utils/testUtils";
+import { PqTestResultEventType, PqTestResultParser } from "./PqTestResultParser";
+import { TestHistoryRecorder } from "./TestHistoryRecorder";
+import { TestResultUpdater } from "./TestResultUpdater";
+
+interface DebuggedTest {
+    test: vscode.TestItem;
+    testRun: vscode.TestRun;
+    session?: vscode.DebugSession;
+    // the output events of the session, whose test event lines tell the result of the test
+    output: string[];
+}
+
+/**
+ * Debugs tests one after another, each within a powerquery debug session running run-compare for its query with the
+ * owning settings file applied, and reports the output and the result of each session to the test run.
+ */
+export class TestDebugRunner implements IDisposable {
+    // tests being debugged, by test item id
+    private readonly debuggedTests: Map<string, DebuggedTest> = new Map();
+    private readonly _disposables: vscode.Disposable[] = [];
+
+    constructor(
+        private readonly controller: vscode.TestController,
+        private readonly outputChannel: PqSdkOutputChannel,
+        private readonly secrets: vscode.SecretStorage,
+        private readonly testHistory: TestHistoryRecorder,
+    ) {
+        this._disposables.push(
+            vscode.debug.registerDebugAdapterTrackerFactory(ExtensionConstants.PQDebugType, {
+                createDebugAdapterTracker: (session: vscode.DebugSession): vscode.DebugAdapterTracker | undefined =>
+                    this.createDebugAdapterTracker(session),
+            }),
+        );
+    }
+
+    public dispose(): void {
+        for (const oneDisposable of this._disposables) {
+            oneDisposable.dispose();
+        }
+    }
+
+    /**
+     * Handles test run requests of the debug profile.
+     */
+    public async run(request: vscode.TestRunRequest, token: vscode.CancellationToken): Promise<void> {
+        const testRun: vscode.TestRun = this.controller.createTestRun(request);
+
+        try {
+            await this.discoverRequestedSettingsItems(request);
+
+            const tests: vscode.TestItem[] = getRequestedLeafNodes(request, this.controller).filter(
+                (oneTest: vscode.TestItem) => {
+                    const isQueryFile: boolean = Boolean(
+                        oneTest.uri?.fsPath.endsWith(ExtensionConstants.TestAdapter.TestFileEnding),
+                    );
+
+                    if (!isQueryFile) {
+                        this.outputChannel.appendDebugLine(
+                            resolveI18nTemplate("PQSdk.testAdapter.debug.skippingTestWithoutQueryFile", {
+                                itemId: oneTest.id,
+                            }),
+                        );
+                    }
+
+                    return isQueryFile;
+                },
+            );
+
+            tests.forEach((oneTest: vscode.TestItem) => testRun.enqueued(oneTest));
+
+            // Debug sessions of the service host only run info, test-connection and run-test, never run-compare
+            if (ExtensionConfigurations.featureUseServiceHost) {
+                const notSupportedMessage: string = extensionI18n["PQSdk.testAdapter.debug.serviceHostNotSupported"];
+
+                tests.forEach((oneTest: vscode.TestItem) =>
+                    testRun.errored(oneTest, new vscode.TestMessage(notSupportedMessage)),
+                );
+
+                void vscode.window.showErrorMessage(notSupportedMessage);
+
+                return;
+            }
+
+            for (const oneTest of tests) {
+                if (token.isCancellationRequested) {
+                    testRun.skipped(oneTest);
+                } else {
+                    // eslint-disable-next-line no-await-in-loop -- one debug session at a time
+                    await this.debugTest(oneTest, testRun, token);
+                }
+            }
+        } catch (error) {
+            const errorMessage: string = error instanceof Error ? error.message : String(error);
+
+            this.outputChannel.appendErrorLine(
+                resolveI18nTemplate("PQSdk.testAdapter.debug.runnerErrorMessage", { errorMessage }),
+            );
+
+            vscode.window.showErrorMessage(
+                resolveI18nTemplate("PQSdk.testAdapter.debug.errorMessage", { errorMessage }),
+            );
+        } finally {
+            testRun.end();
+        }
+    }
+
+    /**
+     * Discovers the tests of the requested settings items which were not expanded yet.
+     */
+    private async discoverRequestedSettingsItems(request: vscode.TestRunRequest): Promise<void> {
+        const requestedItems: vscode.TestItem[] = request.include?.length ? [...request.include] : [];
+
+        if (!requestedItems.length) {
+            this.controller.items.forEach((oneItem: vscode.TestItem) => requestedItems.push(oneItem));
+        }
+
+        for (const oneItem of requestedItems) {
+            if (!parseCompositeId(oneItem.id) && oneItem.children.size === 0) {
+                // eslint-disable-next-line no-await-in-loop -- Sequential test discovery required
+                await refreshSettingsItem(oneItem, this.controller, this.outputChannel);
+            }
+        }
+    }
+
+    private async debugTest(
+        test: vscode.TestItem,
+        testRun: vscode.TestRun,
+        token: vscode.CancellationToken,
+    ): Promise<void> {
+        const settingsItem: vscode.TestItem = getSettingsItem(test);
+
+        if (!test.uri || !settingsItem.uri) {
+            testRun.skipped(test);
+
+            return;
+        }
+
+        const label: string = test.label;
+        const debuggedTest: DebuggedTest = { test, testRun, output: [] };
+        const disposables: vscode.Disposable[] = [];
+        let resolvedSettingsFilePath: string | undefined = undefined;
+
+        testRun.started(test);
+
+        try {
+            // Resolve the secrets its TestCredentials reference within a copy of the settings file
+            resolvedSettingsFilePath = await createSettingsFileWithResolvedSecrets(
+                settingsItem.uri.fsPath,
+                this.secrets,
+            );
+
+            const relativeTestPath: string = await getRelativeTestPath(test.uri, settingsItem.uri);
+
+            const sessionTerminated: Promise<void> = new Promise<void>((resolve: () => void) => {
+                disposables.push(
+                    vscode.debug.onDidTerminateDebugSession((session: vscode.DebugSession) => {
+                        if (session.configuration[DebuggedTestItemIdProperty] === test.id) {
+                            resolve();
+                        }
+                    }),
+                );
+            });
+
+            disposables.push(
+                token.onCancellationRequested(() => {
+                    if (debuggedTest.session) {
+                        void vscode.debug.stopDebugging(debuggedTest.session);
+                    }
+                }),
+            );
+
+            this.debuggedTests.set(test.id, debuggedTest);
+
+            const isStarted: boolean = await vscode.debug.startDebugging(
+                vscode.workspace.getWorkspaceFolder(test.uri),
+                {
+                    type: ExtensionConstants.PQDebugType,
+                    name: resolveI18nTemplate("PQSdk.testAdapter.debug.sessionName", { label }),
+                    request: "launch",
+                    program: test.uri.fsPath,
+                    operation: "run-compare",
+                    additionalArgs: buildDebugTestArgs(
+                        resolvedSettingsFilePath ?? settingsItem.uri.fsPath,
+                        relativeTestPath,
+                    ),
+                    [DebuggedTestItemIdProperty]: test.id,
+                },
+                { testRun },
+            );
+
+            if (!isStarted) {
+                testRun.errored(
+                    test,
+                    new vscode.TestMessage(resolveI18nTemplate("PQSdk.testAdapter.debug.sessionNotStarted", { label })),
+                );
+
+                return;
+            }
+
+            await sessionTerminated;
+            await this.updateTestResult(debuggedTest, token);
+        } catch (error) {
+            testRun.errored(test, new vscode.TestMessage(error instanceof Error ? error.message : String(error)));
+        } finally {
+            this.debuggedTests.delete(test.id);
+
+            for (const oneDisposable of disposables) {
+                oneDisposable.dispose();
+            }
+
+            if (resolvedSettingsFilePath) {
+                await deleteSettingsFileWithResolvedSecrets(resolvedSettingsFilePath);
+            }
+        }
+    }
+
+    /**
+     * Reports the result of a debugged test out of the test events its session output.
+     */
+    private async updateTestResult(debuggedTest: DebuggedTest, token: vscode.CancellationToken): Promise<void> {
+        const test: vscode.TestItem = debuggedTest.test;
+        const testRun: vscode.TestRun = debuggedTest.testRun;
+
+        // Debug sessions run their queries with the connector of the extension settings
+        const connectorPath: string | undefined = resolveSubstitutedValues(
+            ExtensionConfigurations.DefaultExtensionLocation,
+        );
+
+        const resultUpdater: TestResultUpdater = new TestResultUpdater(
+            testRun,
+            this.outputChannel,
+            this.testHistory,
+            await TestHistoryRecorder.resolveRunInputs(
+                ExtensionConfigurations.PQTestVersion,
+                connectorPath ? [connectorPath] : [],
+            ),
+        );
+
+        const resultParser: PqTestResultParser = new PqTestResultParser(this.outputChannel);
+        const testEventLines: string[] = extractTestEventLines(debuggedTest.output);
+        let hasResult: boolean = false;
+
+        for await (const event of resultParser.parseStream(Readable.from([testEventLines.join("\n")]), token)) {
+            if (event.type === PqTestResultEventType.TestEnd) {
+                hasResult = true;
+                await resultUpdater.updateTestResult(test, event.result);
+            }
+        }
+
+        if (token.isCancellationRequested && !hasResult) {
+            testRun.skipped(test);
+        } else if (!hasResult) {
+            testRun.errored(
+                test,
+                new vscode.TestMessage(
+                    resolveI18nTemplate("PQSdk.testAdapter.debug.noTestResult", { label: test.label }),
+                ),
+            );
+        }
+    }
+
+    /**
+     * Forwards the output of the debug session of a test to the test run, correlated with the test.
+     */
+    private createDebugAdapterTracker(session: vscode.DebugSession): vscode.DebugAdapterTracker | undefined {
+        const debuggedTest: DebuggedTest | undefined = this.debuggedTests.get(
+            session.configuration[DebuggedTestItemIdProperty],
+        );
+
+        if (!debuggedTest) {
+            return undefined;
+        }
+
+        debuggedTest.session = session;
+
+        return {
+            onDidSendMessage: (message: DebugProtocol.ProtocolMessage): void => {
+                const outputEvent: DebugProtocol.OutputEvent = message as DebugProtocol.OutputEvent;
+
+                if (message.type !== "event" || outputEvent.event !== "output") {
+                    return;
+                }
+
+                debuggedTest.output.push(outputEvent.body.output);
+
+                debuggedTest.testRun.appendOutput(
+                    outputEvent.body.output.replace(/\r?\n/g, "\r\n"),
+                    undefined,
+                    debuggedTest.test,
+                );
+            },
+        };
+    }
+}
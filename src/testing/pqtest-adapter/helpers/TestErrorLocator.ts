@@ -0,0 +1,151 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+import * as path from "path";
+import * as vscode from "vscode";
+
+import { IDisposable } from "../../../common/Disposable";
+import { ErrorPosition, isPositionInQuery } from "../core/errorPositions";
+import { fileExists } from "../utils/vscodeFs";
+
+const DiagnosticSource: string = "PQTest";
+
+/**
+ * Locates the M errors of tests within the queries and connector sources raising them, and reports them to the
+ * Problems panel until the tests run again.
+ */
+export class TestErrorLocator implements IDisposable {
+    private static diagnosticCollection: vscode.DiagnosticCollection | undefined = undefined;
+
+    // diagnostics of the latest run of each test, by test id
+    private static readonly testDiagnostics: Map<string, Array<{ uri: vscode.Uri; diagnostic: vscode.Diagnostic }>> =
+        new Map();
+
+    constructor() {
+        TestErrorLocator.diagnosticCollection = vscode.languages.createDiagnosticCollection("powerquery-sdk-tests");
+    }
+
+    public dispose(): void {
+        TestErrorLocator.diagnosticCollection?.dispose();
+        TestErrorLocator.diagnosticCollection = undefined;
+        TestErrorLocator.testDiagnostics.clear();
+    }
+
+    /**
+     * Resolves where an error position lies: positions without a document lie in the query of the test, the others in
+     * the connector section document they name, looked up next to the query and then in the workspace.
+     *
+     * @returns The location, or undefined if the document could not be found
+     */
+    public static async resolveLocation(
+        testItem: vscode.TestItem,
+        position: ErrorPosition,
+    ): Promise<vscode.Location | undefined> {
+        const testUri: vscode.Uri | undefined = testItem.uri;
+
+        if (!testUri) {
+            return undefined;
+        }
+
+        const range: vscode.Range = new vscode.Range(
+            position.line,
+            position.column,
+            position.endLine ?? position.line,
+            position.endColumn ?? position.column,
+        );
+
+        if (!position.fileName || isPositionInQuery(position, testUri.fsPath)) {
+            return new vscode.Location(testUri, range);
+        }
+
+        const documentUri: vscode.Uri | undefined = await this.findDocument(testUri, position.fileName);
+
+        return documentUri ? new vscode.Location(documentUri, range) : undefined;
+    }
+
+    /**
+     * Reports the located errors of the latest run of a test, replacing the ones of its previous run.
+     */
+    public static rememberTestErrors(
+        testId: string,
+        errors: Array<{ location: vscode.Location; message: string }>,
+    ): void {
+        if (errors.length) {
+            this.testDiagnostics.set(
+                testId,
+                errors.map((oneError: { location: vscode.Location; message: string }) => {
+                    const diagnostic: vscode.Diagnostic = new vscode.Diagnostic(
+                        oneError.location.range,
+                        oneError.message,
+                        vscode.DiagnosticSeverity.Error,
+                    );
+
+                    diagnostic.source = DiagnosticSource;
+
+                    return { uri: oneError.location.uri, diagnostic };
+                }),
+            );
+        } else if (!this.testDiagnostics.delete(testId)) {
+            return;
+        }
+
+        this.refreshDiagnostics();
+    }
+
+    private static refreshDiagnostics(): void {
+        const diagnosticCollection: vscode.DiagnosticCollection | undefined = this.diagnosticCollection;
+
+        if (!diagnosticCollection) {
+            return;
+        }
+
+        const diagnosticsByUri: Map<string, { uri: vscode.Uri; diagnostics: vscode.Diagnostic[] }> = new Map();
+
+        for (const oneTestDiagnostics of this.testDiagnostics.values()) {
+            for (const oneEntry of oneTestDiagnostics) {
+                const key: string = oneEntry.uri.toString();
+
+                const entry: { uri: vscode.Uri; diagnostics: vscode.Diagnostic[] } = diagnosticsByUri.get(key) ?? {
+                    uri: oneEntry.uri,
+                    diagnostics: [],
+                };
+
+                entry.diagnostics.push(oneEntry.diagnostic);
+                diagnosticsByUri.set(key, entry);
+            }
+        }
+
+        diagnosticCollection.clear();
+
+        for (const oneEntry of diagnosticsByUri.values()) {
+            diagnosticCollection.set(oneEntry.uri, oneEntry.diagnostics);
+        }
+    }
+
+    private static async findDocument(testUri: vscode.Uri, fileName: string): Promise<vscode.Uri | undefined> {
+        if (path.isAbsolute(fileName) && (await fileExists(fileName))) {
+            return vscode.Uri.file(fileName);
+        }
+
+        const baseName: string = path.basename(fileName.replace(/\\/g, "/"));
+        const siblingPath: string = path.join(path.dirname(testUri.fsPath), baseName);
+
+        if (await fileExists(siblingPath)) {
+            return vscode.Uri.file(siblingPath);
+        }
+
+        const workspaceFolder: vscode.WorkspaceFolder | undefined = vscode.workspace.getWorkspaceFolder(testUri);
+
+        const foundUris: vscode.Uri[] = await vscode.workspace.findFiles(
+            workspaceFolder ? new vscode.RelativePattern(workspaceFolder, `**/${baseName}`) : `**/${baseName}`,
+            "**/{bin,obj,node_modules}/**",
+            1,
+        );
+
+        return foundUris[0];
+    }
+}
@@ -0,0 +1,119 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as vscode from "vscode";
+
+import { HttpMockRunOptions } from "../core/httpMock";
+import {
+    appendTestHistoryEntry,
+    DurationTrend,
+    getDurationTrend,
+    getFailedTestIds,
+    isFlakyTest,
+    TestHistory,
+    TestHistoryEntry,
+    TestHistoryStatus,
+    TestRunInputs,
+} from "../core/testHistory";
+import { getOutputFilePathForUri } from "../utils/pathUtils";
+
+/**
+ * What the history tells about a test once its latest result got recorded.
+ */
+export interface TestHistoryAnalysis {
+    isFlaky: boolean;
+    durationTrend?: DurationTrend;
+}
+
+/**
+ * Hashes files, skipping the missing ones.
+ *
+ * @returns The hash, or undefined if none of the files exists
+ */
+async function hashFiles(filePaths: ReadonlyArray<string>): Promise<string | undefined> {
+    const hash: crypto.Hash = crypto.createHash("sha256");
+    let hasHashedAnyFile: boolean = false;
+
+    for (const oneFilePath of filePaths) {
+        try {
+            // eslint-disable-next-line no-await-in-loop
+            hash.update(await fs.promises.readFile(oneFilePath));
+            hasHashedAnyFile = true;
+        } catch {
+            // missing files, like a baseline not generated yet, are left out
+        }
+    }
+
+    return hasHashedAnyFile ? hash.digest("hex") : undefined;
+}
+
+/**
+ * Records the results of the tests in the workspace storage, across runs and sessions.
+ */
+export class TestHistoryRecorder {
+    private static readonly StorageKey: string = "powerquery.sdk.test.history";
+
+    constructor(private readonly workspaceState: vscode.Memento) {}
+
+    /**
+     * Tells what a run ran its tests with, apart from the queries themselves.
+     *
+     * @param pqTestVersion - The version of PQTest.exe
+     * @param connectorPaths - The paths to the connectors of the run
+     * @param httpMockOptions - The mock options of runs through the "Run with Mocks" profile
+     */
+    public static async resolveRunInputs(
+        pqTestVersion: string | undefined,
+        connectorPaths: ReadonlyArray<string>,
+        httpMockOptions?: HttpMockRunOptions,
+    ): Promise<TestRunInputs> {
+        return {
+            pqTestVersion,
+            mezHash: await hashFiles(connectorPaths),
+            httpMockPath: httpMockOptions?.mockPath,
+            failOnMockMiss: httpMockOptions?.failOnMockMiss,
+        };
+    }
+
+    public get history(): TestHistory {
+        return this.workspaceState.get<TestHistory>(TestHistoryRecorder.StorageKey) ?? {};
+    }
+
+    /**
+     * Lists the tests whose latest result is not a pass.
+     */
+    public getFailedTestIds(): string[] {
+        return getFailedTestIds(this.history);
+    }
+
+    /**
+     * Records the latest result of a test, along with the inputs it ran with.
+     */
+    public async record(
+        testItem: vscode.TestItem,
+        status: TestHistoryStatus,
+        durationMs: number | undefined,
+        runInputs: TestRunInputs,
+    ): Promise<TestHistoryAnalysis> {
+        const entry: TestHistoryEntry = {
+            ...runInputs,
+            queryHash: testItem.uri
+                ? await hashFiles([testItem.uri.fsPath, getOutputFilePathForUri(testItem.uri)])
+                : undefined,
+            status,
+            durationMs,
+            timestamp: new Date().toISOString(),
+        };
+
+        const history: TestHistory = appendTestHistoryEntry(this.history, testItem.id, entry);
+        await this.workspaceState.update(TestHistoryRecorder.StorageKey, history);
+
+        return { isFlaky: isFlakyTest(history[testItem.id]), durationTrend: getDurationTrend(history[testItem.id]) };
+    }
+}
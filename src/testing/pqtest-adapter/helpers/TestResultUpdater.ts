@@ -8,10 +8,19 @@
 import * as fs from "fs";
 import * as vscode from "vscode";
 
+import { MashupTraceTreeView } from "../../../features/MashupTraceTreeView";
 import { PqSdkOutputChannel } from "../../../features/PqSdkOutputChannel";
 import { extensionI18n, resolveI18nTemplate } from "../../../i18n/extension";
+import { BaselineMismatchReasons, collectBaselineFiles } from "../core/baselines";
+import { ErrorPosition, extractErrorPositions, pickRaisingPosition } from "../core/errorPositions";
+import { FoldingReport, formatFoldingReport, readFoldingReport } from "../core/folding";
+import { formatHttpMockMiss, HttpMockMiss, HttpMockMissReason } from "../core/httpMock";
+import { TestHistoryStatus, TestRunInputs } from "../core/testHistory";
 import { fileExists } from "../utils/vscodeFs";
+import { BaselineAcceptor } from "./BaselineAcceptor";
 import { TestResult, TestStatus } from "./PqTestResultParser";
+import { TestErrorLocator } from "./TestErrorLocator";
+import { TestHistoryAnalysis, TestHistoryRecorder } from "./TestHistoryRecorder";
 
 /**
  * Context type for file comparison operations.
@@ -29,6 +38,8 @@ export class TestResultUpdater {
     constructor(
         private testRun: vscode.TestRun,
         private outputChannel: PqSdkOutputChannel,
+        private history?: TestHistoryRecorder,
+        private runInputs: TestRunInputs = {},
     ) {}
 
     /**
@@ -65,27 +76,100 @@ export class TestResultUpdater {
         }
 
         const durationMs: number | undefined = result.durationMs;
+        const mockMissMessages: vscode.TestMessage[] = this.createMockMissMessages(testItem, result.mockMisses);
+
+        // Results are kept across runs, which tells flaky tests and tests getting slower
+        const historyMessages: vscode.TestMessage[] = this.createHistoryMessages(
+            testItem,
+            await this.history?.record(testItem, result.status as TestHistoryStatus, durationMs, this.runInputs),
+        );
+
+        // Diagnostics channels hold the mashup engine traces of the run, keep them at hand for the trace viewer
+        const traceFilePaths: string[] = Object.values(result.actualDiagnosticsFilePaths ?? {});
+        MashupTraceTreeView.rememberTestTraceFiles(testItem.id, traceFilePaths);
+
+        // Folding only gets traced, thus the report comes out of the very same trace files
+        const folding: FoldingReport | undefined = await readFoldingReport(traceFilePaths);
+        const foldingMessages: vscode.TestMessage[] = this.createFoldingMessages(testItem, folding);
+
+        // Mismatched outputs could become the new baselines, see the Accept Actual actions
+        BaselineAcceptor.rememberBaselineFiles(
+            this.testRun,
+            testItem.id,
+            result.status === TestStatus.Failed ? collectBaselineFiles(testItem.id, result) : [],
+        );
+
+        // M errors point at the query or the connector source raising them, inline and in the Problems panel
+        const errorLocation: vscode.Location | undefined = await this.locateError(testItem, result.error);
+
+        TestErrorLocator.rememberTestErrors(
+            testItem.id,
+            errorLocation && result.error ? [{ location: errorLocation, message: result.error.message }] : [],
+        );
 
         if (result.status === TestStatus.Passed) {
+            // Misses only fail a test when FailOnMockMiss is on, otherwise just surface them in the log
+            if (mockMissMessages.length > 0) {
+                this.outputChannel.appendInfoLine(
+                    resolveI18nTemplate("PQSdk.testAdapter.updater.mockMissesOnPassedTest", {
+                        testId: testItem.id,
+                        count: mockMissMessages.length.toString(),
+                    }),
+                );
+            }
+
+            // Passed tests carry no messages, thus their folding report goes to the test output
+            if (folding) {
+                this.appendOutput(this.formatFoldingReport(folding).replace(/\n/g, "\r\n"), testItem);
+            }
+
+            historyMessages.forEach((oneMessage: vscode.TestMessage) =>
+                this.appendOutput(
+                    typeof oneMessage.message === "string" ? oneMessage.message : oneMessage.message.value,
+                    testItem,
+                ),
+            );
+
             this.testRun.passed(testItem, durationMs);
         } else if (result.status === TestStatus.Failed) {
             const failedMessage: vscode.TestMessage = new vscode.TestMessage(
                 result.reason || extensionI18n["PQSdk.testAdapter.updater.testFailed"],
             );
 
+            if (result.reason && BaselineMismatchReasons.includes(result.reason)) {
+                failedMessage.contextValue = "baselineMismatch";
+            }
+
+            failedMessage.location = errorLocation;
+
             // Handle different failure reasons
             if (result.reason === "OutputFileMismatch") {
                 await this.handleOutputFileMismatch(failedMessage, result);
             } else if (result.reason === "DiagnosticsFileMismatch") {
                 await this.handleDiagnosticsFileMismatch(failedMessage, result);
+            } else if (result.reason === HttpMockMissReason) {
+                failedMessage.message = resolveI18nTemplate("PQSdk.testAdapter.updater.mockMissFailure", {
+                    count: mockMissMessages.length.toString(),
+                });
             }
 
-            this.testRun.failed(testItem, failedMessage, durationMs);
+            this.testRun.failed(
+                testItem,
+                [
+                    failedMessage,
+                    ...mockMissMessages,
+                    ...foldingMessages,
+                    ...historyMessages,
+                    ...this.createMashupTraceMessages(traceFilePaths),
+                ],
+                durationMs,
+            );
         } else if (result.status === TestStatus.Error) {
             const errorMessage: string =
                 result.error?.message || extensionI18n["PQSdk.testAdapter.updater.unknownError"];
 
             const testMessage: vscode.TestMessage = new vscode.TestMessage(errorMessage);
+            testMessage.location = errorLocation;
 
             // Optionally include error details in the message
             if (result.error?.details) {
@@ -94,8 +178,179 @@ export class TestResultUpdater {
                     JSON.stringify(result.error.details, null, 2);
             }
 
-            this.testRun.errored(testItem, testMessage, durationMs);
+            this.testRun.errored(
+                testItem,
+                [
+                    testMessage,
+                    ...mockMissMessages,
+                    ...foldingMessages,
+                    ...historyMessages,
+                    ...this.createMashupTraceMessages(traceFilePaths),
+                ],
+                durationMs,
+            );
+        }
+    }
+
+    /**
+     * Locates an M error at the position it got raised at, out of the positions its message and details hold.
+     */
+    private async locateError(
+        testItem: vscode.TestItem,
+        error: TestResult["error"],
+    ): Promise<vscode.Location | undefined> {
+        if (!error || !testItem.uri) {
+            return undefined;
+        }
+
+        const positions: ErrorPosition[] = extractErrorPositions(error.details, error.message);
+        const raisingPosition: ErrorPosition | undefined = pickRaisingPosition(positions, testItem.uri.fsPath);
+
+        if (!raisingPosition) {
+            return undefined;
+        }
+
+        const location: vscode.Location | undefined = await TestErrorLocator.resolveLocation(testItem, raisingPosition);
+
+        if (!location) {
+            this.outputChannel.appendDebugLine(
+                resolveI18nTemplate("PQSdk.testAdapter.updater.errorDocumentNotFound", {
+                    fileName: raisingPosition.fileName ?? "",
+                    testId: testItem.id,
+                }),
+            );
+        }
+
+        return location;
+    }
+
+    /**
+     * Creates one TestMessage per unmatched HTTP request so that each miss shows up separately in the UI.
+     */
+    private createMockMissMessages(testItem: vscode.TestItem, mockMisses?: HttpMockMiss[]): vscode.TestMessage[] {
+        if (!mockMisses || mockMisses.length === 0) {
+            return [];
         }
+
+        return mockMisses.map((miss: HttpMockMiss) => {
+            const message: vscode.TestMessage = new vscode.TestMessage(
+                resolveI18nTemplate("PQSdk.testAdapter.updater.mockMiss", {
+                    request: formatHttpMockMiss(miss),
+                }),
+            );
+
+            message.contextValue = "mockMiss";
+
+            // Point at the mock file PQTest expected to match, otherwise at the test itself
+            if (miss.mockFile) {
+                message.location = new vscode.Location(vscode.Uri.file(miss.mockFile), new vscode.Position(0, 0));
+            } else if (testItem.uri) {
+                message.location = new vscode.Location(testItem.uri, new vscode.Position(0, 0));
+            }
+
+            return message;
+        });
+    }
+
+    /**
+     * Creates the folding report message, listing which steps folded, where folding broke and the native queries.
+     */
+    private createFoldingMessages(testItem: vscode.TestItem, folding?: FoldingReport): vscode.TestMessage[] {
+        if (!folding) {
+            return [];
+        }
+
+        const message: vscode.TestMessage = new vscode.TestMessage(
+            new vscode.MarkdownString(this.formatFoldingReport(folding)),
+        );
+
+        message.contextValue = "foldingReport";
+
+        if (testItem.uri) {
+            message.location = new vscode.Location(testItem.uri, new vscode.Position(0, 0));
+        }
+
+        return [message];
+    }
+
+    /**
+     * Creates the messages telling that a test looks flaky or got slower, out of its history.
+     */
+    private createHistoryMessages(
+        testItem: vscode.TestItem,
+        historyAnalysis?: TestHistoryAnalysis,
+    ): vscode.TestMessage[] {
+        const messages: vscode.TestMessage[] = [];
+
+        if (historyAnalysis?.isFlaky) {
+            const message: vscode.TestMessage = new vscode.TestMessage(
+                extensionI18n["PQSdk.testAdapter.updater.history.flakyTest"],
+            );
+
+            message.contextValue = "flakyTest";
+            messages.push(message);
+        }
+
+        if (historyAnalysis?.durationTrend) {
+            const message: vscode.TestMessage = new vscode.TestMessage(
+                resolveI18nTemplate("PQSdk.testAdapter.updater.history.durationTrend", {
+                    durationMs: Math.round(historyAnalysis.durationTrend.durationMs).toString(),
+                    medianDurationMs: Math.round(historyAnalysis.durationTrend.medianDurationMs).toString(),
+                }),
+            );
+
+            message.contextValue = "durationTrend";
+            messages.push(message);
+        }
+
+        const testUri: vscode.Uri | undefined = testItem.uri;
+
+        if (testUri) {
+            messages.forEach((oneMessage: vscode.TestMessage) => {
+                oneMessage.location = new vscode.Location(testUri, new vscode.Position(0, 0));
+            });
+        }
+
+        return messages;
+    }
+
+    /**
+     * Creates a message linking to the trace viewer, loaded with the mashup engine traces of the test.
+     */
+    private createMashupTraceMessages(traceFilePaths: string[]): vscode.TestMessage[] {
+        if (traceFilePaths.length === 0) {
+            return [];
+        }
+
+        const commandUri: vscode.Uri = vscode.Uri.parse(
+            `command:${MashupTraceTreeView.OpenMashupTracesCommand}?${encodeURIComponent(
+                JSON.stringify([traceFilePaths]),
+            )}`,
+        );
+
+        const markdown: vscode.MarkdownString = new vscode.MarkdownString(
+            resolveI18nTemplate("PQSdk.testAdapter.updater.mashupTraces", { commandUri: commandUri.toString() }),
+        );
+
+        markdown.isTrusted = { enabledCommands: [MashupTraceTreeView.OpenMashupTracesCommand] };
+
+        const message: vscode.TestMessage = new vscode.TestMessage(markdown);
+        message.contextValue = "mashupTrace";
+
+        return [message];
+    }
+
+    private formatFoldingReport(folding: FoldingReport): string {
+        return [
+            extensionI18n["PQSdk.testAdapter.updater.folding.title"],
+            "",
+            formatFoldingReport(folding, {
+                folded: extensionI18n["PQSdk.testAdapter.updater.folding.folded"],
+                notFolded: extensionI18n["PQSdk.testAdapter.updater.folding.notFolded"],
+                brokeAt: extensionI18n["PQSdk.testAdapter.updater.folding.brokeAt"],
+                nativeQuery: extensionI18n["PQSdk.testAdapter.updater.folding.nativeQuery"],
+            }),
+        ].join("\n");
     }
 
     /**
@@ -0,0 +1,142 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { TextDecoder } from "util";
+import * as vscode from "vscode";
+
+import { ProcessExit, SpawnedProcess } from "../../../common/SpawnedProcess";
+import { resolveI18nTemplate } from "../../../i18n/extension";
+import {
+    formatSecretReference,
+    listSecretReferences,
+    resolveSecretReferences,
+    resolveSettingsPaths,
+    SecretReference,
+} from "../core/testCredentials";
+import { defaultFileSystemOperations, FileSystemOperations } from "./vscodeFs";
+
+/**
+ * Looks up the values of secret references, from the secret storage or the environment variables.
+ *
+ * @returns The values found, by their formatted references
+ */
+export async function lookUpSecretReferences(
+    references: ReadonlyArray<SecretReference>,
+    secrets: vscode.SecretStorage,
+): Promise<Map<string, string>> {
+    const values: Map<string, string> = new Map();
+
+    for (const oneReference of references) {
+        const value: string | undefined =
+            oneReference.store === "secretStorage"
+                ? // eslint-disable-next-line no-await-in-loop
+                  await secrets.get(oneReference.name)
+                : process.env[oneReference.name];
+
+        if (value !== undefined) {
+            values.set(formatSecretReference(oneReference), value);
+        }
+    }
+
+    return values;
+}
+
+/**
+ * Writes a copy of a settings file whose TestCredentials got their secret references resolved, for PQTest to run
+ * with as it knows nothing about them. The copy lives in the temp folder, thus its relative paths get resolved
+ * against the folder of the original, and whoever runs PQTest deletes it once the run ends.
+ *
+ * @returns The path of the copy, or undefined if the TestCredentials reference no secrets
+ * @throws Error if a secret reference lacks its value
+ */
+export async function createSettingsFileWithResolvedSecrets(
+    settingsFilePath: string,
+    secrets: vscode.SecretStorage,
+    fileSystem: FileSystemOperations = defaultFileSystemOperations,
+): Promise<string | undefined> {
+    const data: Uint8Array = await fileSystem.readFile(vscode.Uri.file(settingsFilePath));
+    const settings: Record<string, unknown> = JSON.parse(new TextDecoder().decode(data));
+    const references: SecretReference[] = listSecretReferences(settings.TestCredentials);
+
+    if (!references.length) {
+        return undefined;
+    }
+
+    const resolved: { value: unknown; missingReferences: string[] } = resolveSecretReferences(
+        settings.TestCredentials,
+        await lookUpSecretReferences(references, secrets),
+    );
+
+    if (resolved.missingReferences.length) {
+        throw new Error(
+            resolveI18nTemplate("PQSdk.testAdapter.testCredentials.missingSecrets", {
+                settingsFilePath,
+                references: resolved.missingReferences.join(", "),
+            }),
+        );
+    }
+
+    const resolvedSettings: Record<string, unknown> = {
+        ...resolveSettingsPaths(settings, path.dirname(settingsFilePath)),
+        TestCredentials: resolved.value,
+    };
+
+    const resolvedSettingsFolder: string = await fs.promises.mkdtemp(path.join(os.tmpdir(), "pq-sdk-settings-"));
+    const resolvedSettingsFilePath: string = path.join(resolvedSettingsFolder, path.basename(settingsFilePath));
+
+    try {
+        // the copy holds secrets in plain text, thus only its owner may read it
+        await restrictFolderToCurrentUser(resolvedSettingsFolder);
+
+        await fs.promises.writeFile(resolvedSettingsFilePath, JSON.stringify(resolvedSettings, null, 2), {
+            mode: 0o600,
+        });
+    } catch (error) {
+        await deleteSettingsFileWithResolvedSecrets(resolvedSettingsFilePath);
+
+        throw error;
+    }
+
+    return resolvedSettingsFilePath;
+}
+
+/**
+ * Restricts a folder to the current user, along with the files it will hold. File modes do not apply on windows,
+ * whose folders rather inherit the access control list of their parent, thus their inheritance gets removed.
+ */
+async function restrictFolderToCurrentUser(folderPath: string): Promise<void> {
+    if (process.platform !== "win32") {
+        await fs.promises.chmod(folderPath, 0o700);
+
+        return;
+    }
+
+    const userName: string = process.env.USERDOMAIN
+        ? `${process.env.USERDOMAIN}\\${os.userInfo().username}`
+        : os.userInfo().username;
+
+    const processExit: ProcessExit = await new SpawnedProcess("icacls", [
+        folderPath,
+        "/inheritance:r",
+        "/grant:r",
+        `${userName}:(OI)(CI)F`,
+    ]).deferred$;
+
+    if (processExit.exitCode !== 0) {
+        throw new Error(processExit.stderr || processExit.stdout);
+    }
+}
+
+/**
+ * Deletes a copy created by createSettingsFileWithResolvedSecrets along with its folder.
+ */
+export async function deleteSettingsFileWithResolvedSecrets(resolvedSettingsFilePath: string): Promise<void> {
+    await fs.promises.rm(path.dirname(resolvedSettingsFilePath), { recursive: true, force: true });
+}
@@ -86,6 +86,51 @@ export function getLeafNodes(item: vscode.TestItem): vscode.TestItem[] {
     return leaves;
 }
 
+/**
+ * Gets the leaf test items a test run request asks for, i.e. the ones beneath its included items, or beneath all
+ * items if it includes none, except for the ones beneath its excluded items.
+ *
+ * @param request - The test run request
+ * @param controller - The test controller holding all items
+ * @returns Array of requested leaf test items
+ */
+export function getRequestedLeafNodes(
+    request: vscode.TestRunRequest,
+    controller: vscode.TestController,
+): vscode.TestItem[] {
+    const includedItems: vscode.TestItem[] = request.include?.length ? [...request.include] : [];
+
+    if (!includedItems.length) {
+        controller.items.forEach((item: vscode.TestItem) => includedItems.push(item));
+    }
+
+    const excludedIds: Set<string> = new Set(
+        (request.exclude ?? [])
+            .flatMap((item: vscode.TestItem) => getLeafNodes(item))
+            .map((item: vscode.TestItem) => item.id),
+    );
+
+    return includedItems
+        .flatMap((item: vscode.TestItem) => getLeafNodes(item))
+        .filter((item: vscode.TestItem) => !excludedIds.has(item.id));
+}
+
+/**
+ * Gets the top-level item of a test item, which corresponds to the test settings file it belongs to.
+ *
+ * @param item - The test item
+ * @returns The settings item, or the item itself if it is a top-level one
+ */
+export function getSettingsItem(item: vscode.TestItem): vscode.TestItem {
+    let settingsItem: vscode.TestItem = item;
+
+    while (settingsItem.parent) {
+        settingsItem = settingsItem.parent;
+    }
+
+    return settingsItem;
+}
+
 /**
  * Creates a composite ID using normalized URI strings for consistency.
  * The composite ID format is: "originalTestId|normalizedSettingsFileUri"
@@ -0,0 +1,372 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+import { BaseError } from "../common/errors";
+import type { AuthenticationKind, ExtensionInfo } from "../common/PQTestService";
+import {
+    BracketRange,
+    createRecordFieldAppending,
+    findClosingBracket,
+    findRecordMember,
+    getIndentOfLine,
+    listRecordFields,
+    listSectionMemberNames,
+    RecordField,
+    TextReplacement,
+} from "./mSections";
+import { escapeXml, replaceAt } from "./strings";
+
+/**
+ * Helpers which read and edit the authentication kinds a connector declares in its data source kind records.
+ * These functions have no vscode dependencies to enable unit testing with plain Mocha.
+ */
+
+export const ConnectorAuthenticationKinds: ReadonlyArray<AuthenticationKind> = [
+    "Anonymous",
+    "Key",
+    "UsernamePassword",
+    "Windows",
+    "OAuth",
+    "Aad",
+];
+
+// the strings of resources.resx the declaration of each authentication kind loads
+export const AuthenticationKindResources: Readonly<Record<string, Record<string, string>>> = {
+    Key: { KeyLabel: "API key" },
+    UsernamePassword: { UsernameLabel: "Username", PasswordLabel: "Password" },
+};
+
+export class ConnectorAuthenticationError extends BaseError {}
+
+export interface ConnectorDataSourceKind {
+    name: string;
+    authenticationKinds: string[];
+}
+
+export interface AddAuthenticationKindResult {
+    connectorText: string;
+    // the strings the new declaration loads, which resources.resx should hold
+    resources: Record<string, string>;
+    // the stub functions generated for the new declaration
+    generatedFunctions: string[];
+}
+
+const IndentUnit: string = "    ";
+const DataSourceKindAttributeRegExp: RegExp = /DataSource\.Kind\s*=\s*"([^"]+)"/g;
+const CommentedOutFieldRegExp: RegExp = /^[ \t]*\/\/[ \t]*([A-Za-z_][\w.]*)[ \t]*=.*\r?\n/gm;
+
+const OAuthFunctionNames: ReadonlyArray<string> = ["StartLogin", "FinishLogin", "Refresh"];
+
+function findDataSourceKindRecord(text: string, dataSourceKind: string): BracketRange {
+    const record: BracketRange | undefined = findRecordMember(text, dataSourceKind);
+
+    if (!record) {
+        throw new ConnectorAuthenticationError(`Cannot find the data source kind record of ${dataSourceKind}`);
+    }
+
+    return record;
+}
+
+function findAuthenticationRecord(
+    text: string,
+    dataSourceKind: string,
+): { record: BracketRange; authentication?: BracketRange } {
+    const record: BracketRange = findDataSourceKindRecord(text, dataSourceKind);
+
+    const authenticationField: RecordField | undefined = listRecordFields(
+        text,
+        record.openIndex,
+        record.closeIndex,
+    ).find((oneField: RecordField) => oneField.name === "Authentication");
+
+    if (!authenticationField) {
+        return { record };
+    } else if (text[authenticationField.valueStart] !== "[") {
+        throw new ConnectorAuthenticationError(`The Authentication of ${dataSourceKind} is not a record literal`);
+    }
+
+    return {
+        record,
+        authentication: {
+            openIndex: authenticationField.valueStart,
+            closeIndex: findClosingBracket(text, authenticationField.valueStart),
+        },
+    };
+}
+
+/**
+ * Finds the data source kinds a connector declares, along with their authentication kinds.
+ */
+export function findDataSourceKinds(connectorText: string): ConnectorDataSourceKind[] {
+    const names: Set<string> = new Set(
+        Array.from(connectorText.matchAll(DataSourceKindAttributeRegExp), (oneMatch: RegExpMatchArray) => oneMatch[1]),
+    );
+
+    const result: ConnectorDataSourceKind[] = [];
+
+    for (const name of names) {
+        try {
+            const { authentication }: { authentication?: BracketRange } = findAuthenticationRecord(connectorText, name);
+
+            result.push({
+                name,
+                authenticationKinds: authentication
+                    ? listRecordFields(connectorText, authentication.openIndex, authentication.closeIndex).map(
+                          (oneField: RecordField) => oneField.name,
+                      )
+                    : [],
+            });
+        } catch {
+            // the kind might be declared by another section file of the project
+        }
+    }
+
+    return result;
+}
+
+function createAuthenticationKindDeclaration(dataSourceKind: string, authenticationKind: string): string[] {
+    switch (authenticationKind) {
+        case "Key":
+            return ["Key = [", `${IndentUnit}KeyLabel = Extension.LoadString("KeyLabel")`, "]"];
+
+        case "UsernamePassword":
+            return [
+                "UsernamePassword = [",
+                `${IndentUnit}UsernameLabel = Extension.LoadString("UsernameLabel"),`,
+                `${IndentUnit}PasswordLabel = Extension.LoadString("PasswordLabel")`,
+                "]",
+            ];
+
+        case "OAuth":
+            return [
+                "OAuth = [",
+                ...OAuthFunctionNames.map(
+                    (oneName: string, index: number) =>
+                        `${IndentUnit}${oneName} = ${dataSourceKind}.${oneName}${
+                            index < OAuthFunctionNames.length - 1 ? "," : ""
+                        }`,
+                ),
+                "]",
+            ];
+
+        case "Aad":
+            return [
+                "Aad = [",
+                `${IndentUnit}AuthorizationUri = "https://login.microsoftonline.com/organizations/oauth2/v2.0/authorize",`,
+                `${IndentUnit}Resource = "<resource uri of the data source>"`,
+                "]",
+            ];
+
+        default:
+            return [`${authenticationKind} = []`];
+    }
+}
+
+function createOAuthFunctionStub(dataSourceKind: string, functionName: string): string {
+    switch (functionName) {
+        case "StartLogin":
+            return [
+                `${dataSourceKind}.StartLogin = (resourceUrl, state, display) =>`,
+                `${IndentUnit}[`,
+                `${IndentUnit}${IndentUnit}LoginUri = "<authorize uri>" & "?" & Uri.BuildQueryString([`,
+                `${IndentUnit}${IndentUnit}${IndentUnit}client_id = "<client id>",`,
+                `${IndentUnit}${IndentUnit}${IndentUnit}redirect_uri = "https://oauth.powerbi.com/views/oauthredirect.html",`,
+                `${IndentUnit}${IndentUnit}${IndentUnit}response_type = "code",`,
+                `${IndentUnit}${IndentUnit}${IndentUnit}state = state`,
+                `${IndentUnit}${IndentUnit}]),`,
+                `${IndentUnit}${IndentUnit}CallbackUri = "https://oauth.powerbi.com/views/oauthredirect.html",`,
+                `${IndentUnit}${IndentUnit}WindowHeight = 1000,`,
+                `${IndentUnit}${IndentUnit}WindowWidth = 1200,`,
+                `${IndentUnit}${IndentUnit}Context = null`,
+                `${IndentUnit}];`,
+            ].join("\n");
+
+        case "FinishLogin":
+            return [
+                "// exchange the code of the callback uri for a token record holding access_token and refresh_token",
+                `${dataSourceKind}.FinishLogin = (context, callbackUri, state) =>`,
+                `${IndentUnit}...;`,
+            ].join("\n");
+
+        default:
+            return [
+                "// exchange the refresh token for a new token record",
+                `${dataSourceKind}.Refresh = (resourceUrl, refreshToken) =>`,
+                `${IndentUnit}...;`,
+            ].join("\n");
+    }
+}
+
+function insertAuthenticationKindDeclaration(
+    text: string,
+    dataSourceKind: string,
+    declaration: ReadonlyArray<string>,
+): string {
+    const { record, authentication }: ReturnType<typeof findAuthenticationRecord> = findAuthenticationRecord(
+        text,
+        dataSourceKind,
+    );
+
+    if (!authentication) {
+        const recordFields: RecordField[] = listRecordFields(text, record.openIndex, record.closeIndex);
+        const recordIndent: string = getIndentOfLine(text, record.openIndex);
+
+        const fieldIndent: string = recordFields.length
+            ? getIndentOfLine(text, recordFields[0].start)
+            : `${recordIndent}${IndentUnit}`;
+
+        const authenticationLines: string[] = [
+            `${fieldIndent}Authentication = [`,
+            ...declaration.map((oneLine: string) => `${fieldIndent}${IndentUnit}${oneLine}`),
+            `${fieldIndent}]`,
+        ];
+
+        return recordFields.length
+            ? replaceAt(text, record.openIndex + 1, 0, `\n${authenticationLines.join("\n")},`)
+            : replaceAt(
+                  text,
+                  record.openIndex + 1,
+                  record.closeIndex - record.openIndex - 1,
+                  `\n${authenticationLines.join("\n")}\n${recordIndent}`,
+              );
+    }
+
+    const appending: TextReplacement = createRecordFieldAppending(text, authentication, declaration);
+
+    return replaceAt(text, appending.offset, appending.length, appending.text);
+}
+
+/**
+ * Adds an authentication kind to a data source kind record of a connector, along with the stub functions its
+ * declaration refers to. A commented out declaration of the same kind, like "// Key = []," of the project template,
+ * is taken away.
+ *
+ * @throws ConnectorAuthenticationError if the record cannot be found or already declares the kind
+ */
+export function addAuthenticationKind(
+    connectorText: string,
+    dataSourceKind: string,
+    authenticationKind: string,
+): AddAuthenticationKindResult {
+    const current: ConnectorDataSourceKind | undefined = findDataSourceKinds(connectorText).find(
+        (oneKind: ConnectorDataSourceKind) => oneKind.name === dataSourceKind,
+    );
+
+    if (current?.authenticationKinds.includes(authenticationKind)) {
+        throw new ConnectorAuthenticationError(`${dataSourceKind} already supports ${authenticationKind}`);
+    }
+
+    const { authentication }: ReturnType<typeof findAuthenticationRecord> = findAuthenticationRecord(
+        connectorText,
+        dataSourceKind,
+    );
+
+    let result: string = connectorText;
+
+    if (authentication) {
+        const authenticationText: string = result.substring(authentication.openIndex, authentication.closeIndex);
+
+        result = replaceAt(
+            result,
+            authentication.openIndex,
+            authenticationText.length,
+            authenticationText.replace(CommentedOutFieldRegExp, (line: string, name: string) =>
+                name === authenticationKind ? "" : line,
+            ),
+        );
+    }
+
+    result = insertAuthenticationKindDeclaration(
+        result,
+        dataSourceKind,
+        createAuthenticationKindDeclaration(dataSourceKind, authenticationKind),
+    );
+
+    const generatedFunctions: string[] = [];
+
+    if (authenticationKind === "OAuth") {
+        const newLine: string = result.includes("\r\n") ? "\r\n" : "\n";
+
+        const memberNames: Set<string> = listSectionMemberNames(result);
+
+        for (const oneName of OAuthFunctionNames) {
+            const functionName: string = `${dataSourceKind}.${oneName}`;
+
+            if (!memberNames.has(functionName)) {
+                result = `${result.trimEnd()}${newLine}${newLine}${createOAuthFunctionStub(dataSourceKind, oneName)
+                    .split("\n")
+                    .join(newLine)}${newLine}`;
+
+                generatedFunctions.push(functionName);
+            }
+        }
+    }
+
+    return {
+        connectorText: result,
+        resources: { ...AuthenticationKindResources[authenticationKind] },
+        generatedFunctions,
+    };
+}
+
+/**
+ * Adds the strings a resources.resx does not hold yet right before its closing root tag.
+ *
+ * @throws ConnectorAuthenticationError if the text has no closing root tag
+ */
+export function addResourceStrings(resxText: string, resources: Readonly<Record<string, string>>): string {
+    const rootCloseIndex: number = resxText.lastIndexOf("</root>");
+
+    if (rootCloseIndex === -1) {
+        throw new ConnectorAuthenticationError("The resources file has no closing root tag");
+    }
+
+    const newLine: string = resxText.includes("\r\n") ? "\r\n" : "\n";
+
+    const dataTexts: string[] = Object.entries(resources)
+        .filter(([name]: [string, string]) => !resxText.includes(`<data name="${escapeXml(name)}"`))
+        .map(([name, value]: [string, string]) =>
+            [
+                `  <data name="${escapeXml(name)}" xml:space="preserve">`,
+                `    <value>${escapeXml(value)}</value>`,
+                "  </data>",
+                "",
+            ].join(newLine),
+        );
+
+    return replaceAt(resxText, rootCloseIndex, 0, dataTexts.join(""));
+}
+
+/**
+ * Returns the extension infos as if the connector got rebuilt with the authentication kind added to the data
+ * source kind, so that pickers relying on them offer the kind before the next build.
+ */
+export function withAuthenticationKind(
+    extensionInfos: ReadonlyArray<ExtensionInfo>,
+    dataSourceKind: string,
+    authenticationKind: string,
+): ExtensionInfo[] {
+    type DataSource = ExtensionInfo["DataSources"][number];
+
+    return extensionInfos.map((oneInfo: ExtensionInfo) => ({
+        ...oneInfo,
+        DataSources: oneInfo.DataSources.map((oneDataSource: DataSource) =>
+            oneDataSource.DataSourceKind !== dataSourceKind ||
+            oneDataSource.AuthenticationInfos.some(
+                (oneAuthInfo: DataSource["AuthenticationInfos"][number]) => oneAuthInfo.Kind === authenticationKind,
+            )
+                ? oneDataSource
+                : {
+                      ...oneDataSource,
+                      AuthenticationInfos: [
+                          ...oneDataSource.AuthenticationInfos,
+                          { Kind: authenticationKind, Properties: [], ApplicationProperties: [] },
+                      ],
+                  },
+        ),
+    }));
+}
@@ -0,0 +1,280 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+/**
+ * Pure helpers which discover connector projects from the files of a workspace folder.
+ * These functions have no vscode dependencies to enable unit testing with plain Mocha.
+ */
+
+export const connectorProjectFileGlob: string = "**/*.{pq,proj,mproj,resx,png,mez,json}";
+export const connectorProjectFileExcludeGlob: string = "**/{obj,node_modules,.git,.vscode}/**";
+
+export type ConnectorProjectFileKind =
+    | "sectionFile"
+    | "projectFile"
+    | "resources"
+    | "icon"
+    | "queryFile"
+    | "testSettings"
+    | "mez";
+
+/**
+ * One connector project, with every path relative to its workspace folder and separated by forward slashes.
+ */
+export interface ConnectorProject {
+    name: string;
+    // the folder holding the project, "" for the workspace folder itself
+    rootPath: string;
+    sectionFile?: string;
+    projectFile?: string;
+    resourceFiles: string[];
+    iconFiles: string[];
+    queryFiles: string[];
+    testSettingsFiles: string[];
+    mezFiles: string[];
+}
+
+const queryFileSuffixes: ReadonlyArray<string> = [".query.pq", ".test.pq", ".parameterquery.pq"];
+
+function normalizePath(relativePath: string): string {
+    return relativePath.replace(/\\/g, "/").replace(/^\.\//, "");
+}
+
+function getDirName(relativePath: string): string {
+    const lastSlash: number = relativePath.lastIndexOf("/");
+
+    return lastSlash === -1 ? "" : relativePath.substring(0, lastSlash);
+}
+
+function getBaseName(relativePath: string): string {
+    return relativePath.substring(relativePath.lastIndexOf("/") + 1);
+}
+
+function getBaseNameWithoutExtension(relativePath: string): string {
+    const baseName: string = getBaseName(relativePath);
+    const lastDot: number = baseName.lastIndexOf(".");
+
+    return lastDot > 0 ? baseName.substring(0, lastDot) : baseName;
+}
+
+function isWithin(relativePath: string, rootPath: string): boolean {
+    return rootPath === "" || relativePath.startsWith(`${rootPath}/`);
+}
+
+function getDepth(relativePath: string): number {
+    return relativePath ? relativePath.split("/").length : 0;
+}
+
+function compareByDepthAndPath(left: string, right: string): number {
+    return getDepth(left) - getDepth(right) || left.localeCompare(right);
+}
+
+export function classifyConnectorProjectFile(relativePath: string): ConnectorProjectFileKind | undefined {
+    const lowerBaseName: string = getBaseName(normalizePath(relativePath)).toLowerCase();
+
+    if (queryFileSuffixes.some((suffix: string) => lowerBaseName.endsWith(suffix))) {
+        return "queryFile";
+    } else if (lowerBaseName.endsWith(".pq")) {
+        return "sectionFile";
+    } else if (lowerBaseName.endsWith(".proj") || lowerBaseName.endsWith(".mproj")) {
+        return "projectFile";
+    } else if (lowerBaseName.endsWith(".resx")) {
+        return "resources";
+    } else if (lowerBaseName.endsWith(".png")) {
+        return "icon";
+    } else if (lowerBaseName.endsWith(".testsettings.json")) {
+        return "testSettings";
+    } else if (lowerBaseName.endsWith(".mez")) {
+        return "mez";
+    }
+
+    return undefined;
+}
+
+function isBuildOutput(relativePath: string): boolean {
+    return relativePath.split("/").some((segment: string) => segment.toLowerCase() === "bin");
+}
+
+// a project lives beside its .proj or .mproj file, or beside its section file if it got no project file
+function findProjectRoots(files: ReadonlyArray<[string, ConnectorProjectFileKind]>): string[] {
+    const projectFileRoots: Set<string> = new Set(
+        files
+            .filter(([_, kind]: [string, ConnectorProjectFileKind]) => kind === "projectFile")
+            .map(([relativePath, _]: [string, ConnectorProjectFileKind]) => getDirName(relativePath)),
+    );
+
+    const roots: Set<string> = new Set(projectFileRoots);
+
+    for (const [relativePath, kind] of files) {
+        const dirName: string = getDirName(relativePath);
+
+        if (
+            kind === "sectionFile" &&
+            !isBuildOutput(relativePath) &&
+            !Array.from(projectFileRoots).some((oneRoot: string) => isWithin(dirName, oneRoot) || oneRoot === dirName)
+        ) {
+            roots.add(dirName);
+        }
+    }
+
+    return Array.from(roots);
+}
+
+function pickSectionFile(candidates: ReadonlyArray<string>, preferredNames: ReadonlyArray<string>): string | undefined {
+    for (const preferredName of preferredNames) {
+        const matched: string | undefined = candidates.find(
+            (oneCandidate: string) =>
+                getBaseNameWithoutExtension(oneCandidate).toLowerCase() === preferredName.toLowerCase(),
+        );
+
+        if (matched) {
+            return matched;
+        }
+    }
+
+    return candidates[0];
+}
+
+/**
+ * Discovers the connector projects among the files of a workspace folder.
+ * Every file belongs to the innermost project holding it, and files outside of any project are left out.
+ *
+ * @param relativePaths - Files relative to the workspace folder, like what connectorProjectFileGlob finds
+ * @param workspaceFolderName - Name of the project at the root of the workspace folder if it got no other
+ */
+export function discoverConnectorProjects(
+    relativePaths: ReadonlyArray<string>,
+    workspaceFolderName: string,
+): ConnectorProject[] {
+    const files: Array<[string, ConnectorProjectFileKind]> = [];
+
+    for (const oneRelativePath of relativePaths) {
+        const normalizedPath: string = normalizePath(oneRelativePath);
+        const kind: ConnectorProjectFileKind | undefined = classifyConnectorProjectFile(normalizedPath);
+
+        if (kind) {
+            files.push([normalizedPath, kind]);
+        }
+    }
+
+    files.sort(([left, _]: [string, ConnectorProjectFileKind], [right, __]: [string, ConnectorProjectFileKind]) =>
+        compareByDepthAndPath(left, right),
+    );
+
+    // the innermost root goes first
+    const roots: string[] = findProjectRoots(files).sort(
+        (left: string, right: string) => getDepth(right) - getDepth(left) || left.localeCompare(right),
+    );
+
+    const filesOfRoots: Map<string, Array<[string, ConnectorProjectFileKind]>> = new Map(
+        roots.map((oneRoot: string) => [oneRoot, []]),
+    );
+
+    for (const oneFile of files) {
+        const owner: string | undefined = roots.find((oneRoot: string) => isWithin(oneFile[0], oneRoot));
+
+        if (owner !== undefined) {
+            filesOfRoots.get(owner)?.push(oneFile);
+        }
+    }
+
+    return Array.from(filesOfRoots.entries())
+        .map(([rootPath, rootFiles]: [string, Array<[string, ConnectorProjectFileKind]>]) => {
+            const pathsOf = (...kinds: ConnectorProjectFileKind[]): string[] =>
+                rootFiles
+                    .filter(([_, kind]: [string, ConnectorProjectFileKind]) => kinds.includes(kind))
+                    .map(([relativePath, _]: [string, ConnectorProjectFileKind]) => relativePath);
+
+            const topLevel = (relativePath: string): boolean => getDirName(relativePath) === rootPath;
+
+            const projectFile: string | undefined = pathsOf("projectFile").filter(topLevel)[0];
+            const rootName: string = rootPath ? getBaseName(rootPath) : workspaceFolderName;
+
+            const sectionFile: string | undefined = pickSectionFile(pathsOf("sectionFile").filter(topLevel), [
+                projectFile ? getBaseNameWithoutExtension(projectFile) : rootName,
+                rootName,
+            ]);
+
+            let name: string = rootName;
+
+            if (projectFile) {
+                name = getBaseNameWithoutExtension(projectFile);
+            } else if (sectionFile) {
+                name = getBaseNameWithoutExtension(sectionFile);
+            }
+
+            return {
+                name,
+                rootPath,
+                sectionFile,
+                projectFile,
+                resourceFiles: pathsOf("resources").filter((relativePath: string) => !isBuildOutput(relativePath)),
+                iconFiles: pathsOf("icon").filter((relativePath: string) => !isBuildOutput(relativePath)),
+                queryFiles: pathsOf("queryFile").filter((relativePath: string) => !isBuildOutput(relativePath)),
+                testSettingsFiles: pathsOf("testSettings").filter(
+                    (relativePath: string) => !isBuildOutput(relativePath),
+                ),
+                mezFiles: pathsOf("mez"),
+            };
+        })
+        .sort((left: ConnectorProject, right: ConnectorProject) =>
+            compareByDepthAndPath(left.rootPath, right.rootPath),
+        );
+}
+
+/**
+ * Finds the project holding a file, i.e. the one with the innermost root.
+ */
+export function findConnectorProjectOf(
+    projects: ReadonlyArray<ConnectorProject>,
+    relativePath: string,
+): ConnectorProject | undefined {
+    const normalizedPath: string = normalizePath(relativePath);
+
+    return projects
+        .filter((oneProject: ConnectorProject) => isWithin(normalizedPath, oneProject.rootPath))
+        .sort(
+            (left: ConnectorProject, right: ConnectorProject) => getDepth(right.rootPath) - getDepth(left.rootPath),
+        )[0];
+}
+
+/**
+ * The query file a project evaluates by default: the one named after the project, or else the shallowest .query.pq.
+ */
+export function getPrimaryQueryFile(project: ConnectorProject): string | undefined {
+    const expectedQueryFile: string = `${project.name}.query.pq`.toLowerCase();
+
+    return (
+        project.queryFiles.find((oneFile: string) => getBaseName(oneFile).toLowerCase() === expectedQueryFile) ??
+        project.queryFiles.find((oneFile: string) => oneFile.toLowerCase().endsWith(".query.pq")) ??
+        project.queryFiles[0]
+    );
+}
+
+/**
+ * Where the build of a project puts its .mez file when it got none yet.
+ */
+export function getExpectedMezFile(project: ConnectorProject): string {
+    return [project.rootPath, "bin", "AnyCPU", "Debug", `${project.name}.mez`].filter(Boolean).join("/");
+}
+
+/**
+ * The built .mez file of a project: the one named after the project, preferably a debug build.
+ */
+export function getPrimaryMezFile(project: ConnectorProject): string | undefined {
+    const expectedMezFile: string = `${project.name}.mez`.toLowerCase();
+
+    const namedMezFiles: string[] = project.mezFiles.filter(
+        (oneFile: string) => getBaseName(oneFile).toLowerCase() === expectedMezFile,
+    );
+
+    return (
+        namedMezFiles.find((oneFile: string) => oneFile.toLowerCase().includes("/debug/")) ??
+        namedMezFiles[0] ??
+        project.mezFiles[0]
+    );
+}
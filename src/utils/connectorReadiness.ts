@@ -0,0 +1,579 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+import type { ExtensionInfo } from "../common/PQTestService";
+import {
+    BracketRange,
+    createRecordFieldAppending,
+    findClosingBracket,
+    findRecordMember,
+    listRecordFields,
+    RecordField,
+    TextReplacement,
+} from "./mSections";
+
+/**
+ * Helpers which check a connector against the checklist of a certification submission: the Version attribute, the
+ * Publish record and its icons, a TestConnection handler, authentication kinds and the strings of resources.resx.
+ * These functions have no vscode dependencies to enable unit testing with plain Mocha.
+ */
+
+export type ReadinessCheck =
+    | "version"
+    | "publish"
+    | "learnMoreUrl"
+    | "icons"
+    | "testConnection"
+    | "authentication"
+    | "resourceStrings"
+    | "extensionInfo";
+
+// the checks in the order of the readiness report
+export const ReadinessChecks: ReadonlyArray<ReadinessCheck> = [
+    "version",
+    "publish",
+    "learnMoreUrl",
+    "icons",
+    "testConnection",
+    "authentication",
+    "resourceStrings",
+    "extensionInfo",
+];
+
+export type ReadinessRule =
+    | "missingVersion"
+    | "invalidVersion"
+    | "missingPublishAttribute"
+    | "missingPublishRecord"
+    | "missingPublishField"
+    | "missingLearnMoreUrl"
+    | "missingIconsRecord"
+    | "missingIconSize"
+    | "missingIconFile"
+    | "missingDataSourceKindRecord"
+    | "missingTestConnection"
+    | "missingAuthentication"
+    | "missingResourcesFile"
+    | "missingResourceString"
+    | "extensionInfoError";
+
+export type ReadinessSeverity = "error" | "warning";
+
+export interface ReadinessFix {
+    // replacements of the connector text, which must not overlap
+    replacements: TextReplacement[];
+    // strings resources.resx should hold
+    resources: Record<string, string>;
+}
+
+export interface ReadinessIssue {
+    check: ReadinessCheck;
+    rule: ReadinessRule;
+    severity: ReadinessSeverity;
+    // the values its message refers to, like the name of the missing field
+    data: Record<string, string>;
+    // where it is within the connector text
+    offset: number;
+    length: number;
+    fix?: ReadinessFix;
+}
+
+export interface ConnectorReadinessInput {
+    connectorText: string;
+    // the strings of resources.resx, or undefined when the project has none
+    resourceNames?: ReadonlyArray<string>;
+    // the files of the project, relative to its folder
+    projectFiles: ReadonlyArray<string>;
+    extensionInfos?: ReadonlyArray<ExtensionInfo>;
+}
+
+const ruleDefinitions: Readonly<Record<ReadinessRule, { check: ReadinessCheck; severity: ReadinessSeverity }>> = {
+    missingVersion: { check: "version", severity: "warning" },
+    invalidVersion: { check: "version", severity: "warning" },
+    missingPublishAttribute: { check: "publish", severity: "warning" },
+    missingPublishRecord: { check: "publish", severity: "warning" },
+    missingPublishField: { check: "publish", severity: "warning" },
+    missingLearnMoreUrl: { check: "learnMoreUrl", severity: "warning" },
+    missingIconsRecord: { check: "icons", severity: "warning" },
+    missingIconSize: { check: "icons", severity: "warning" },
+    missingIconFile: { check: "icons", severity: "error" },
+    missingDataSourceKindRecord: { check: "authentication", severity: "error" },
+    missingTestConnection: { check: "testConnection", severity: "warning" },
+    missingAuthentication: { check: "authentication", severity: "warning" },
+    missingResourcesFile: { check: "resourceStrings", severity: "warning" },
+    missingResourceString: { check: "resourceStrings", severity: "error" },
+    extensionInfoError: { check: "extensionInfo", severity: "error" },
+};
+
+const SectionRegExp: RegExp = /^[ \t]*(section)\s+[^;]+;/m;
+const VersionAttributeRegExp: RegExp = /\bVersion\s*=\s*"([^"]*)"/;
+const SemanticVersionRegExp: RegExp = /^\d+\.\d+\.\d+$/;
+const DataSourceKindAttributeRegExp: RegExp = /\[([^\]]*\bDataSource\.Kind\s*=\s*"([^"]+)"[^\]]*)\]/g;
+const PublishAttributeRegExp: RegExp = /\bPublish\s*=\s*"([^"]+)"/;
+const SharedMemberRegExp: RegExp = /^\s*shared\s+([A-Za-z_][\w.]*)\s*=\s*/;
+const IdentifierRegExp: RegExp = /^[A-Za-z_][\w.]*/;
+const ExtensionContentsRegExp: RegExp = /Extension\.Contents\(\s*"([^"]+)"\s*\)/g;
+const LoadStringRegExp: RegExp = /Extension\.LoadString\(\s*"([^"]+)"\s*\)/g;
+const ResourceNameRegExp: RegExp = /<data\s+name="([^"]+)"/g;
+
+const RequiredPublishFields: ReadonlyArray<string> = ["Category", "ButtonText", "SourceImage", "SourceTypeImage"];
+
+// every icon list holds four sizes, like 16, 20, 24 and 32 pixels for Icon16
+const IconSizes: Readonly<Record<string, ReadonlyArray<number>>> = {
+    Icon16: [16, 20, 24, 32],
+    Icon32: [32, 40, 48, 64],
+};
+
+function createIssue(
+    rule: ReadinessRule,
+    offset: number,
+    length: number,
+    data: Record<string, string> = {},
+    fix?: ReadinessFix,
+): ReadinessIssue {
+    return { ...ruleDefinitions[rule], rule, data, offset, length, fix };
+}
+
+function createIconsField(dataSourceKind: string, field: string): string {
+    return `${field} = { ${IconSizes[field]
+        .map((oneSize: number) => `Extension.Contents("${dataSourceKind}${oneSize}.png")`)
+        .join(", ")} }`;
+}
+
+function createPublishField(dataSourceKind: string, field: string): string {
+    switch (field) {
+        case "Category":
+            return 'Category = "Other"';
+
+        case "ButtonText":
+            return 'ButtonText = { Extension.LoadString("ButtonTitle"), Extension.LoadString("ButtonHelp") }';
+
+        case "LearnMoreUrl":
+            return 'LearnMoreUrl = "<url of the documentation of the connector>"';
+
+        default:
+            return `${field} = ${dataSourceKind}.Icons`;
+    }
+}
+
+function createRecordMembersAppending(
+    text: string,
+    members: ReadonlyArray<{ name: string; fields: ReadonlyArray<string> }>,
+): TextReplacement {
+    const newLine: string = text.includes("\r\n") ? "\r\n" : "\n";
+
+    const membersText: string = members
+        .map(
+            (oneMember: { name: string; fields: ReadonlyArray<string> }) =>
+                `${newLine}${oneMember.name} = [${newLine}${oneMember.fields
+                    .map((oneField: string) => `    ${oneField}`)
+                    .join(`,${newLine}`)}${newLine}];${newLine}`,
+        )
+        .join("");
+
+    return { offset: text.length, length: 0, text: `${text.endsWith("\n") ? "" : newLine}${membersText}` };
+}
+
+function createIconsMember(dataSourceKind: string, iconsName: string): { name: string; fields: string[] } {
+    return {
+        name: iconsName,
+        fields: Object.keys(IconSizes).map((oneField: string) => createIconsField(dataSourceKind, oneField)),
+    };
+}
+
+/**
+ * Lists the strings a resources.resx holds.
+ */
+export function parseResourceNames(resxText: string): string[] {
+    return Array.from(resxText.matchAll(ResourceNameRegExp), (oneMatch: RegExpMatchArray) => oneMatch[1]);
+}
+
+function lintVersion(text: string, sectionMatch: RegExpMatchArray, sectionOffset: number): ReadinessIssue[] {
+    const versionMatch: RegExpExecArray | null = VersionAttributeRegExp.exec(text.substring(0, sectionMatch.index));
+
+    if (!versionMatch) {
+        return [
+            createIssue(
+                "missingVersion",
+                sectionOffset,
+                "section".length,
+                {},
+                {
+                    replacements: [{ offset: sectionMatch.index ?? 0, length: 0, text: '[Version = "1.0.0"]\n' }],
+                    resources: {},
+                },
+            ),
+        ];
+    } else if (!SemanticVersionRegExp.test(versionMatch[1])) {
+        return [
+            createIssue("invalidVersion", versionMatch.index, versionMatch[0].length, { version: versionMatch[1] }),
+        ];
+    }
+
+    return [];
+}
+
+function lintIcons(
+    text: string,
+    iconsName: string,
+    iconsReferenceOffset: number,
+    input: ConnectorReadinessInput,
+    dataSourceKind: string,
+): ReadinessIssue[] {
+    const iconsRecord: BracketRange | undefined = findRecordMember(text, iconsName);
+
+    if (!iconsRecord) {
+        return [
+            createIssue(
+                "missingIconsRecord",
+                iconsReferenceOffset,
+                iconsName.length,
+                { name: iconsName },
+                {
+                    replacements: [createRecordMembersAppending(text, [createIconsMember(dataSourceKind, iconsName)])],
+                    resources: {},
+                },
+            ),
+        ];
+    }
+
+    const issues: ReadinessIssue[] = [];
+    const iconsNameOffset: number = text.lastIndexOf(iconsName, iconsRecord.openIndex);
+    const fields: RecordField[] = listRecordFields(text, iconsRecord.openIndex, iconsRecord.closeIndex);
+
+    for (const iconsField of Object.keys(IconSizes)) {
+        const field: RecordField | undefined = fields.find((oneField: RecordField) => oneField.name === iconsField);
+        const nextField: RecordField | undefined = field ? fields[fields.indexOf(field) + 1] : undefined;
+
+        const iconCount: number = field
+            ? Array.from(
+                  text
+                      .substring(field.valueStart, nextField?.start ?? iconsRecord.closeIndex)
+                      .matchAll(ExtensionContentsRegExp),
+              ).length
+            : 0;
+
+        if (iconCount < IconSizes[iconsField].length) {
+            issues.push(
+                createIssue(
+                    "missingIconSize",
+                    field?.start ?? iconsNameOffset,
+                    field ? iconsField.length : iconsName.length,
+                    { field: iconsField, count: String(IconSizes[iconsField].length) },
+                    field
+                        ? undefined
+                        : {
+                              replacements: [
+                                  createRecordFieldAppending(text, iconsRecord, [
+                                      createIconsField(dataSourceKind, iconsField),
+                                  ]),
+                              ],
+                              resources: {},
+                          },
+                ),
+            );
+        }
+    }
+
+    const projectFiles: Set<string> = new Set(input.projectFiles.map((oneFile: string) => oneFile.toLowerCase()));
+    const iconsText: string = text.substring(iconsRecord.openIndex, iconsRecord.closeIndex);
+
+    for (const contentsMatch of iconsText.matchAll(ExtensionContentsRegExp)) {
+        if (!projectFiles.has(contentsMatch[1].toLowerCase())) {
+            issues.push(
+                createIssue(
+                    "missingIconFile",
+                    iconsRecord.openIndex + (contentsMatch.index ?? 0),
+                    contentsMatch[0].length,
+                    { file: contentsMatch[1] },
+                ),
+            );
+        }
+    }
+
+    return issues;
+}
+
+function lintPublish(
+    text: string,
+    attributeMatch: RegExpMatchArray,
+    input: ConnectorReadinessInput,
+    dataSourceKind: string,
+): ReadinessIssue[] {
+    const attributeOffset: number = attributeMatch.index ?? 0;
+    const publishMatch: RegExpMatchArray | null = attributeMatch[1].match(PublishAttributeRegExp);
+    const publishName: string = publishMatch?.[1] ?? `${dataSourceKind}.Publish`;
+    const publishRecord: BracketRange | undefined = findRecordMember(text, publishName);
+    const issues: ReadinessIssue[] = [];
+
+    if (!publishMatch) {
+        const kindEnd: number = text.indexOf(`"${dataSourceKind}"`, attributeOffset) + dataSourceKind.length + 2;
+
+        issues.push(
+            createIssue(
+                "missingPublishAttribute",
+                attributeOffset,
+                attributeMatch[0].length,
+                { name: publishName },
+                {
+                    replacements: [{ offset: kindEnd, length: 0, text: `, Publish="${publishName}"` }],
+                    resources: {},
+                },
+            ),
+        );
+    }
+
+    if (!publishRecord) {
+        const iconsName: string = `${dataSourceKind}.Icons`;
+
+        issues.push(
+            createIssue(
+                "missingPublishRecord",
+                attributeOffset,
+                attributeMatch[0].length,
+                { name: publishName },
+                {
+                    replacements: [
+                        createRecordMembersAppending(text, [
+                            {
+                                name: publishName,
+                                fields: [
+                                    "Beta = true",
+                                    ...RequiredPublishFields.map((oneField: string) =>
+                                        createPublishField(dataSourceKind, oneField),
+                                    ),
+                                    createPublishField(dataSourceKind, "LearnMoreUrl"),
+                                ],
+                            },
+                            // the icons the new record refers to
+                            ...(findRecordMember(text, iconsName)
+                                ? []
+                                : [createIconsMember(dataSourceKind, iconsName)]),
+                        ]),
+                    ],
+                    resources: { ButtonTitle: dataSourceKind, ButtonHelp: `Connect to ${dataSourceKind}` },
+                },
+            ),
+        );
+
+        return issues;
+    }
+
+    const publishNameOffset: number = text.lastIndexOf(publishName, publishRecord.openIndex);
+    const fields: RecordField[] = listRecordFields(text, publishRecord.openIndex, publishRecord.closeIndex);
+    const fieldNames: Set<string> = new Set(fields.map((oneField: RecordField) => oneField.name));
+
+    const createFieldFix = (field: string): ReadinessFix => ({
+        replacements: [createRecordFieldAppending(text, publishRecord, [createPublishField(dataSourceKind, field)])],
+        resources:
+            field === "ButtonText" ? { ButtonTitle: dataSourceKind, ButtonHelp: `Connect to ${dataSourceKind}` } : {},
+    });
+
+    for (const requiredField of RequiredPublishFields) {
+        if (!fieldNames.has(requiredField)) {
+            issues.push(
+                createIssue(
+                    "missingPublishField",
+                    publishNameOffset,
+                    publishName.length,
+                    { name: publishName, field: requiredField },
+                    createFieldFix(requiredField),
+                ),
+            );
+        }
+    }
+
+    if (!fieldNames.has("LearnMoreUrl")) {
+        issues.push(
+            createIssue(
+                "missingLearnMoreUrl",
+                publishNameOffset,
+                publishName.length,
+                { name: publishName },
+                createFieldFix("LearnMoreUrl"),
+            ),
+        );
+    }
+
+    const sourceImageField: RecordField | undefined = fields.find(
+        (oneField: RecordField) => oneField.name === "SourceImage",
+    );
+
+    const iconsName: string | undefined = sourceImageField
+        ? text.substring(sourceImageField.valueStart).match(IdentifierRegExp)?.[0]
+        : undefined;
+
+    if (sourceImageField && iconsName) {
+        issues.push(...lintIcons(text, iconsName, sourceImageField.valueStart, input, dataSourceKind));
+    }
+
+    return issues;
+}
+
+function lintDataSourceKindRecord(
+    text: string,
+    attributeMatch: RegExpMatchArray,
+    dataSourceKind: string,
+): ReadinessIssue[] {
+    const attributeOffset: number = attributeMatch.index ?? 0;
+    const kindRecord: BracketRange | undefined = findRecordMember(text, dataSourceKind);
+
+    if (!kindRecord) {
+        return [
+            createIssue("missingDataSourceKindRecord", attributeOffset, attributeMatch[0].length, {
+                name: dataSourceKind,
+            }),
+        ];
+    }
+
+    const issues: ReadinessIssue[] = [];
+    const kindNameOffset: number = text.lastIndexOf(dataSourceKind, kindRecord.openIndex);
+    const fields: RecordField[] = listRecordFields(text, kindRecord.openIndex, kindRecord.closeIndex);
+
+    if (!fields.some((oneField: RecordField) => oneField.name === "TestConnection")) {
+        // the function the attribute goes with, which the handler calls with the data source path if it takes one
+        const sharedMatch: RegExpMatchArray | null = text
+            .substring(attributeOffset + attributeMatch[0].length)
+            .match(SharedMemberRegExp);
+
+        const functionName: string = sharedMatch?.[1] ?? `${dataSourceKind}.Contents`;
+
+        const takesNoRequiredParameter: boolean = /^\(\s*(\)|optional\b)/.test(
+            text.substring(attributeOffset + attributeMatch[0].length + (sharedMatch?.[0].length ?? 0)),
+        );
+
+        issues.push(
+            createIssue(
+                "missingTestConnection",
+                kindNameOffset,
+                dataSourceKind.length,
+                { name: dataSourceKind },
+                {
+                    replacements: [
+                        createRecordFieldAppending(text, kindRecord, [
+                            takesNoRequiredParameter
+                                ? `TestConnection = (dataSourcePath) => { "${functionName}" }`
+                                : `TestConnection = (dataSourcePath) => { "${functionName}", dataSourcePath }`,
+                        ]),
+                    ],
+                    resources: {},
+                },
+            ),
+        );
+    }
+
+    const authenticationField: RecordField | undefined = fields.find(
+        (oneField: RecordField) => oneField.name === "Authentication",
+    );
+
+    // an Authentication record literal declaring no kind at all
+    const isAuthenticationEmpty: boolean =
+        authenticationField !== undefined &&
+        text[authenticationField.valueStart] === "[" &&
+        !listRecordFields(
+            text,
+            authenticationField.valueStart,
+            findClosingBracket(text, authenticationField.valueStart),
+        ).length;
+
+    if (!authenticationField || isAuthenticationEmpty) {
+        issues.push(
+            createIssue("missingAuthentication", kindNameOffset, dataSourceKind.length, { name: dataSourceKind }),
+        );
+    }
+
+    return issues;
+}
+
+function lintResourceStrings(text: string, sectionOffset: number, input: ConnectorReadinessInput): ReadinessIssue[] {
+    const loadStringMatches: RegExpMatchArray[] = Array.from(text.matchAll(LoadStringRegExp));
+
+    if (!loadStringMatches.length) {
+        return [];
+    } else if (!input.resourceNames) {
+        return [createIssue("missingResourcesFile", sectionOffset, "section".length)];
+    }
+
+    const resourceNames: Set<string> = new Set(input.resourceNames);
+
+    return loadStringMatches
+        .filter((oneMatch: RegExpMatchArray) => !resourceNames.has(oneMatch[1]))
+        .map((oneMatch: RegExpMatchArray) =>
+            createIssue(
+                "missingResourceString",
+                oneMatch.index ?? 0,
+                oneMatch[0].length,
+                { name: oneMatch[1] },
+                {
+                    replacements: [],
+                    resources: { [oneMatch[1]]: oneMatch[1] },
+                },
+            ),
+        );
+}
+
+/**
+ * Checks a connector against the certification checklist.
+ *
+ * @returns The issues found, or nothing for texts which are not section documents
+ */
+export function lintConnector(input: ConnectorReadinessInput): ReadinessIssue[] {
+    const text: string = input.connectorText;
+    const sectionMatch: RegExpExecArray | null = SectionRegExp.exec(text);
+
+    if (!sectionMatch) {
+        return [];
+    }
+
+    const sectionOffset: number = sectionMatch.index + sectionMatch[0].indexOf("section");
+    const issues: ReadinessIssue[] = lintVersion(text, sectionMatch, sectionOffset);
+    const lintedDataSourceKinds: Set<string> = new Set();
+
+    for (const attributeMatch of text.matchAll(DataSourceKindAttributeRegExp)) {
+        const dataSourceKind: string = attributeMatch[2];
+
+        if (!lintedDataSourceKinds.has(dataSourceKind)) {
+            lintedDataSourceKinds.add(dataSourceKind);
+
+            issues.push(
+                ...lintPublish(text, attributeMatch, input, dataSourceKind),
+                ...lintDataSourceKindRecord(text, attributeMatch, dataSourceKind),
+            );
+        }
+    }
+
+    issues.push(...lintResourceStrings(text, sectionOffset, input));
+
+    for (const oneInfo of input.extensionInfos ?? []) {
+        if (oneInfo.ErrorStatus) {
+            issues.push(
+                createIssue("extensionInfoError", sectionOffset, "section".length, { error: oneInfo.ErrorStatus }),
+            );
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Groups issues by their checks, in the order of the readiness report.
+ */
+export function groupIssuesByCheck(
+    issues: ReadonlyArray<ReadinessIssue>,
+): Array<{ check: ReadinessCheck; issues: ReadinessIssue[] }> {
+    return ReadinessChecks.map((oneCheck: ReadinessCheck) => ({
+        check: oneCheck,
+        issues: issues.filter((oneIssue: ReadinessIssue) => oneIssue.check === oneCheck),
+    }));
+}
+
+/**
+ * The one-based line of an offset of a text.
+ */
+export function getLineOfOffset(text: string, offset: number): number {
+    return text.substring(0, offset).split("\n").length;
+}
@@ -0,0 +1,122 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+import type { Credential, DataSource } from "../common/PQTestService";
+import { PrivacySetting, PrivacySettings } from "./credentials";
+
+/**
+ * Helpers for the credential profiles of a workspace, each one bundling the credential of a data source in one
+ * environment, like the dev, test or prod tenant, whose secrets are referenced as ${secret:NAME} or ${env:NAME}.
+ * These functions have no vscode dependencies to enable unit testing with plain Mocha.
+ */
+
+export interface CredentialProfile {
+    name: string;
+    dataSourceKind: string;
+    dataSourcePath: string;
+    authenticationKind: string;
+    privacySetting: PrivacySetting;
+    // the authentication properties, whose secrets are referenced rather than held in plain text
+    properties: Record<string, string>;
+}
+
+/**
+ * Reads the credential profiles out of a configuration value, dropping entries lacking a name, a data source kind
+ * or an authentication kind, and the later ones of duplicated names.
+ */
+export function parseCredentialProfiles(value: unknown): CredentialProfile[] {
+    const profiles: CredentialProfile[] = [];
+
+    for (const oneValue of Array.isArray(value) ? value : []) {
+        const candidate: Partial<Record<keyof CredentialProfile, unknown>> = oneValue ?? {};
+
+        if (
+            typeof candidate.name !== "string" ||
+            !candidate.name ||
+            typeof candidate.dataSourceKind !== "string" ||
+            !candidate.dataSourceKind ||
+            typeof candidate.authenticationKind !== "string" ||
+            !candidate.authenticationKind ||
+            profiles.some((oneProfile: CredentialProfile) => oneProfile.name === candidate.name)
+        ) {
+            continue;
+        }
+
+        const properties: Record<string, string> = {};
+
+        for (const [name, propertyValue] of Object.entries(candidate.properties ?? {})) {
+            if (typeof propertyValue === "string") {
+                properties[name] = propertyValue;
+            }
+        }
+
+        profiles.push({
+            name: candidate.name,
+            dataSourceKind: candidate.dataSourceKind,
+            dataSourcePath: typeof candidate.dataSourcePath === "string" ? candidate.dataSourcePath : "",
+            authenticationKind: candidate.authenticationKind,
+            privacySetting: PrivacySettings.includes(candidate.privacySetting as PrivacySetting)
+                ? (candidate.privacySetting as PrivacySetting)
+                : "None",
+            properties,
+        });
+    }
+
+    return profiles;
+}
+
+/**
+ * The data source of a profile, whose path defaults to its kind like the one of a connector without a path.
+ */
+export function getProfileDataSource(profile: CredentialProfile): DataSource {
+    return { kind: profile.dataSourceKind, path: profile.dataSourcePath || profile.dataSourceKind };
+}
+
+/**
+ * Creates the set-credential payload of a profile.
+ *
+ * @param properties - The authentication properties of the profile with their secret references resolved
+ */
+export function createProfileCredentialPayload(profile: CredentialProfile, properties: Record<string, string>): string {
+    return JSON.stringify(
+        {
+            AuthenticationKind: profile.authenticationKind,
+            AuthenticationProperties: properties,
+            PrivacySetting: profile.privacySetting,
+            Permissions: [],
+        },
+        null,
+        2,
+    );
+}
+
+/**
+ * Lists the credentials set by the other profiles of the data source kind of a profile, which switching to it
+ * deletes so that no evaluation or test keeps running against the previous environment.
+ */
+export function findCredentialsOfOtherProfiles(
+    profiles: ReadonlyArray<CredentialProfile>,
+    profile: CredentialProfile,
+    credentials: ReadonlyArray<Credential>,
+): Credential[] {
+    const profileDataSource: DataSource = getProfileDataSource(profile);
+
+    const otherPaths: Set<string> = new Set(
+        profiles
+            .filter(
+                (oneProfile: CredentialProfile) =>
+                    oneProfile.name !== profile.name && oneProfile.dataSourceKind === profile.dataSourceKind,
+            )
+            .map((oneProfile: CredentialProfile) => getProfileDataSource(oneProfile).path)
+            .filter((onePath: string) => onePath !== profileDataSource.path),
+    );
+
+    return credentials.filter(
+        (oneCredential: Credential) =>
+            oneCredential.DataSource?.kind === profile.dataSourceKind && otherPaths.has(oneCredential.DataSource.path),
+    );
+}
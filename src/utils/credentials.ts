@@ -0,0 +1,120 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+import type { Credential } from "../common/PQTestService";
+
+/**
+ * Helpers which organize the credentials PQTest lists, and build the payloads setting them again.
+ * These functions have no vscode dependencies to enable unit testing with plain Mocha.
+ */
+
+export type PrivacySetting = "None" | "Public" | "Organizational" | "Private";
+
+export const PrivacySettings: ReadonlyArray<PrivacySetting> = ["None", "Public", "Organizational", "Private"];
+
+export interface CredentialGroup {
+    dataSourceKind: string;
+    credentials: Credential[];
+}
+
+// the secrets of each authentication kind, which listed credentials might lack
+const secretPropertyNames: Readonly<Record<string, ReadonlyArray<string>>> = {
+    key: ["Key"],
+    usernamepassword: ["Username", "Password"],
+};
+
+/**
+ * Groups credentials by their data source kinds, both sorted by name and the credentials sorted by path.
+ */
+export function groupCredentialsByDataSourceKind(credentials: ReadonlyArray<Credential>): CredentialGroup[] {
+    const groups: Map<string, Credential[]> = new Map();
+
+    for (const oneCredential of credentials) {
+        const dataSourceKind: string = oneCredential.DataSource?.kind ?? "";
+        const group: Credential[] = groups.get(dataSourceKind) ?? [];
+
+        group.push(oneCredential);
+        groups.set(dataSourceKind, group);
+    }
+
+    return Array.from(groups.entries())
+        .sort(([left]: [string, Credential[]], [right]: [string, Credential[]]) => left.localeCompare(right))
+        .map(([dataSourceKind, group]: [string, Credential[]]) => ({
+            dataSourceKind,
+            credentials: group.sort((left: Credential, right: Credential) =>
+                (left.DataSource?.path ?? "").localeCompare(right.DataSource?.path ?? ""),
+            ),
+        }));
+}
+
+/**
+ * Tells whether a credential holds tokens which refresh-credential could renew, i.e. an OAuth or Aad one.
+ */
+export function isRefreshableCredential(credential: Credential): boolean {
+    const authenticationKind: string = credential.AuthenticationKind.toLowerCase();
+
+    return authenticationKind === "oauth" || authenticationKind === "aad";
+}
+
+/**
+ * When the tokens of a refreshable credential expire, read from the first of its properties named like an expiry.
+ */
+export function getCredentialExpiry(credential: Credential): Date | undefined {
+    if (!isRefreshableCredential(credential)) {
+        return undefined;
+    }
+
+    for (const [name, value] of Object.entries(credential.Properties ?? {})) {
+        if (/expir/i.test(name) && (typeof value === "string" || typeof value === "number")) {
+            const expiry: Date = new Date(value);
+
+            if (!isNaN(expiry.getTime())) {
+                return expiry;
+            }
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Lists the secrets an authentication kind asks for, like the key of Key credentials.
+ */
+export function getCredentialSecretNames(authenticationKind: string): string[] {
+    return [...(secretPropertyNames[authenticationKind.toLowerCase()] ?? [])];
+}
+
+/**
+ * Lists the secrets of a credential which its listed properties lack, thus need asking before setting it again.
+ */
+export function getMissingCredentialSecrets(credential: Credential): string[] {
+    return getCredentialSecretNames(credential.AuthenticationKind).filter(
+        (oneName: string) => !credential.Properties?.[oneName],
+    );
+}
+
+/**
+ * Creates the set-credential payload of an existing credential with another privacy setting.
+ *
+ * @param secrets - The values of the secrets its properties lack
+ */
+export function createCredentialPayload(
+    credential: Credential,
+    privacySetting: PrivacySetting,
+    secrets: Record<string, string> = {},
+): string {
+    return JSON.stringify(
+        {
+            AuthenticationKind: credential.AuthenticationKind,
+            AuthenticationProperties: { ...credential.Properties, ...secrets },
+            PrivacySetting: privacySetting,
+            Permissions: [],
+        },
+        null,
+        2,
+    );
+}
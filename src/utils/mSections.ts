@@ -0,0 +1,193 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+/**
+ * Helpers which scan the M code of section documents, like the .pq file of a connector, without fully parsing it.
+ * These functions have no vscode dependencies to enable unit testing with plain Mocha.
+ */
+
+export interface RecordField {
+    name: string;
+    start: number;
+    // the first character of its value
+    valueStart: number;
+}
+
+export interface BracketRange {
+    openIndex: number;
+    closeIndex: number;
+}
+
+// replaces length characters from offset of a text, like replaceAt of strings does
+export interface TextReplacement {
+    offset: number;
+    length: number;
+    text: string;
+}
+
+const IndentUnit: string = "    ";
+const SectionMemberRegExp: RegExp = /^[ \t]*(?:shared\s)?[ \t]*([A-Za-z_][\w.]*)\s*=/gm;
+const RecordMemberRegExp: RegExp = /^[ \t]*(?:shared\s)?[ \t]*([A-Za-z_][\w.]*)\s*=\s*\[/gm;
+
+/**
+ * Yields the indexes of the characters of M code, skipping text literals, quoted identifiers and comments.
+ */
+export function* codeCharacters(text: string, from: number, to: number = text.length): Generator<number> {
+    let index: number = from;
+
+    while (index < to) {
+        if (text[index] === '"') {
+            // a double quote within a text literal gets escaped by doubling it
+            do {
+                index = text.indexOf('"', index + 1);
+
+                if (index === -1) {
+                    return;
+                }
+
+                index += 1;
+            } while (text[index] === '"');
+        } else if (text.startsWith("//", index)) {
+            index = text.indexOf("\n", index);
+
+            if (index === -1) {
+                return;
+            }
+        } else if (text.startsWith("/*", index)) {
+            index = text.indexOf("*/", index + 2);
+
+            if (index === -1) {
+                return;
+            }
+
+            index += 2;
+        } else {
+            yield index;
+            index += 1;
+        }
+    }
+}
+
+/**
+ * Finds the bracket closing the one at openIndex, or -1 if the brackets are not balanced.
+ */
+export function findClosingBracket(text: string, openIndex: number): number {
+    let depth: number = 0;
+
+    for (const index of codeCharacters(text, openIndex)) {
+        if ("[({".includes(text[index])) {
+            depth += 1;
+        } else if ("])}".includes(text[index])) {
+            depth -= 1;
+
+            if (depth === 0) {
+                return index;
+            }
+        }
+    }
+
+    return -1;
+}
+
+/**
+ * Lists the fields of the record literal between the brackets at openIndex and closeIndex.
+ */
+export function listRecordFields(text: string, openIndex: number, closeIndex: number): RecordField[] {
+    const fields: RecordField[] = [];
+    let depth: number = 0;
+    let expectingField: boolean = true;
+
+    for (const index of codeCharacters(text, openIndex + 1, closeIndex)) {
+        const char: string = text[index];
+
+        if ("[({".includes(char)) {
+            depth += 1;
+        } else if ("])}".includes(char)) {
+            depth -= 1;
+        } else if (depth === 0 && char === ",") {
+            expectingField = true;
+        } else if (depth === 0 && expectingField && /[A-Za-z_#]/.test(char)) {
+            const nameMatch: RegExpMatchArray | null = text
+                .substring(index)
+                .match(/^(#"[^"]*"|[A-Za-z_][\w.]*)\s*=\s*/);
+
+            expectingField = false;
+
+            if (nameMatch) {
+                fields.push({ name: nameMatch[1], start: index, valueStart: index + nameMatch[0].length });
+            }
+        }
+    }
+
+    return fields;
+}
+
+export function getIndentOfLine(text: string, index: number): string {
+    const lineStart: number = text.lastIndexOf("\n", index - 1) + 1;
+
+    return /^[ \t]*/.exec(text.substring(lineStart))?.[0] ?? "";
+}
+
+/**
+ * Lists the names of the members a section document defines, like "Conn.Contents" or "Conn.Publish".
+ */
+export function listSectionMemberNames(text: string): Set<string> {
+    return new Set(Array.from(text.matchAll(SectionMemberRegExp), (oneMatch: RegExpMatchArray) => oneMatch[1]));
+}
+
+/**
+ * Finds the record literal a member of a section document is defined as, like "Conn.Publish = [...];".
+ */
+export function findRecordMember(text: string, memberName: string): BracketRange | undefined {
+    const recordMatch: RegExpMatchArray | undefined = Array.from(text.matchAll(RecordMemberRegExp)).find(
+        (oneMatch: RegExpMatchArray) => oneMatch[1] === memberName,
+    );
+
+    if (recordMatch?.index === undefined) {
+        return undefined;
+    }
+
+    const openIndex: number = recordMatch.index + recordMatch[0].length - 1;
+    const closeIndex: number = findClosingBracket(text, openIndex);
+
+    return closeIndex === -1 ? undefined : { openIndex, closeIndex };
+}
+
+/**
+ * Creates the replacement appending a field to the record literal between the brackets of range, indented like the
+ * fields before it. The new field goes after the last field, thus before the comments trailing the record.
+ *
+ * @param fieldLines - The lines of the field without indentation
+ */
+export function createRecordFieldAppending(
+    text: string,
+    range: BracketRange,
+    fieldLines: ReadonlyArray<string>,
+): TextReplacement {
+    const fields: RecordField[] = listRecordFields(text, range.openIndex, range.closeIndex);
+    const recordIndent: string = getIndentOfLine(text, range.openIndex);
+    const fieldIndent: string = fields.length ? getIndentOfLine(text, fields[0].start) : `${recordIndent}${IndentUnit}`;
+    const fieldText: string = fieldLines.map((oneLine: string) => `${fieldIndent}${oneLine}`).join("\n");
+
+    let lastCodeIndex: number = range.openIndex;
+
+    for (const index of codeCharacters(text, range.openIndex + 1, range.closeIndex)) {
+        if (/\S/.test(text[index])) {
+            lastCodeIndex = index;
+        }
+    }
+
+    if (lastCodeIndex === range.openIndex) {
+        return {
+            offset: range.openIndex + 1,
+            length: range.closeIndex - range.openIndex - 1,
+            text: `\n${fieldText}\n${recordIndent}`,
+        };
+    }
+
+    return { offset: lastCodeIndex + 1, length: 0, text: `${text[lastCodeIndex] === "," ? "" : ","}\n${fieldText}` };
+}
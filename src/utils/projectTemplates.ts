@@ -0,0 +1,357 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+import { AuthenticationKindResources } from "./connectorAuthentication";
+import { classifyConnectorProjectFile, ConnectorProjectFileKind } from "./connectorProjects";
+import { escapeXml } from "./strings";
+import { renderTemplate, TemplateContext } from "./templateEngine";
+
+/**
+ * Helpers which find project templates and generate connector projects out of them.
+ * These functions have no vscode dependencies to enable unit testing with plain Mocha.
+ *
+ * A template is a folder holding a template.json manifest beside its files. Its files are laid over the shared
+ * files of the templates folder, like icons, resources.resx and the .proj, thus it only needs to carry what differs.
+ * Every "PQConn" in the file names is replaced by the project name, and text files are rendered by templateEngine
+ * against the context of createProjectTemplateContext, with the partials of both the shared and template folders.
+ */
+
+export const ProjectTemplateFileBaseName: string = "PQConn";
+export const ProjectTemplateManifestFileName: string = "template.json";
+export const ProjectTemplateGalleryFolderName: string = "gallery";
+export const ProjectTemplatePartialsFolderName: string = "partials";
+export const DefaultProjectTemplateId: string = "blank";
+
+// the authentication kinds the shared authentication partial knows how to declare
+export const ProjectAuthenticationKinds: ReadonlyArray<string> = [
+    "Anonymous",
+    "Key",
+    "UsernamePassword",
+    "Windows",
+    "OAuth",
+];
+
+// the AuthenticationKind of .testsettings.json names a few kinds differently
+const testAuthenticationKinds: Readonly<Record<string, string>> = { OAuth: "OAuth2" };
+
+// the kinds of files the .proj packs into the .mez
+const mezContentFileKinds: ReadonlySet<ConnectorProjectFileKind | undefined> = new Set([
+    "sectionFile",
+    "icon",
+    "resources",
+]);
+
+// the shared settings.json of the templates folder belongs to the .vscode folder of generated projects
+const sharedFileTargets: ReadonlyMap<string, string> = new Map([["settings.json", ".vscode/settings.json"]]);
+
+const binaryFileExtensions: ReadonlySet<string> = new Set([".png", ".ico", ".jpg", ".jpeg", ".gif", ".mez", ".zip"]);
+
+export interface ProjectTemplate {
+    // the folder name of a built-in template, or the folder path of a user-defined one
+    id: string;
+    label: string;
+    description?: string;
+    detail?: string;
+    order: number;
+    // the authentication kinds users may pick from, the first one by default
+    authenticationKinds: string[];
+    // extra strings of resources.resx, rendered like the files of the template
+    resources: Record<string, string>;
+    folder: string;
+    isBuiltIn: boolean;
+}
+
+function readOptionalString(manifest: Record<string, unknown>, name: string): string | undefined {
+    const value: unknown = manifest[name];
+
+    return typeof value === "string" && value.length > 0 ? value : undefined;
+}
+
+/**
+ * Parses the template.json of a template folder.
+ *
+ * @returns The template, or undefined if the manifest is not a json object
+ */
+export function parseProjectTemplateManifest(
+    text: string,
+    folder: string,
+    isBuiltIn: boolean,
+): ProjectTemplate | undefined {
+    let manifest: unknown;
+
+    try {
+        manifest = JSON.parse(text);
+    } catch {
+        return undefined;
+    }
+
+    if (typeof manifest !== "object" || manifest === null || Array.isArray(manifest)) {
+        return undefined;
+    }
+
+    const theManifest: Record<string, unknown> = manifest as Record<string, unknown>;
+    const folderName: string = path.basename(folder);
+
+    const authenticationKinds: string[] = Array.isArray(theManifest.authenticationKinds)
+        ? theManifest.authenticationKinds.filter((oneKind: unknown): oneKind is string =>
+              ProjectAuthenticationKinds.includes(String(oneKind)),
+          )
+        : [];
+
+    const resources: Record<string, string> = {};
+
+    if (typeof theManifest.resources === "object" && theManifest.resources !== null) {
+        for (const [name, value] of Object.entries(theManifest.resources)) {
+            if (typeof value === "string") {
+                resources[name] = value;
+            }
+        }
+    }
+
+    return {
+        id: isBuiltIn ? folderName : folder,
+        label: readOptionalString(theManifest, "label") ?? folderName,
+        description: readOptionalString(theManifest, "description"),
+        detail: readOptionalString(theManifest, "detail"),
+        order: typeof theManifest.order === "number" ? theManifest.order : Number.MAX_SAFE_INTEGER,
+        authenticationKinds: authenticationKinds.length ? authenticationKinds : ["Anonymous"],
+        resources,
+        folder,
+        isBuiltIn,
+    };
+}
+
+function readProjectTemplate(folder: string, isBuiltIn: boolean): ProjectTemplate | undefined {
+    const manifestPath: string = path.join(folder, ProjectTemplateManifestFileName);
+
+    if (!fs.existsSync(manifestPath)) {
+        return undefined;
+    }
+
+    return parseProjectTemplateManifest(fs.readFileSync(manifestPath, { encoding: "utf8" }), folder, isBuiltIn);
+}
+
+/**
+ * Finds the templates of a folder: the folder itself if it holds a manifest, or else its sub folders holding one.
+ * Templates are sorted by their order and then by their labels.
+ */
+export function findProjectTemplates(folder: string, isBuiltIn: boolean): ProjectTemplate[] {
+    if (!fs.existsSync(folder) || !fs.statSync(folder).isDirectory()) {
+        return [];
+    }
+
+    const templateOfFolder: ProjectTemplate | undefined = readProjectTemplate(folder, isBuiltIn);
+
+    if (templateOfFolder) {
+        return [templateOfFolder];
+    }
+
+    const result: ProjectTemplate[] = [];
+
+    for (const oneEntry of fs.readdirSync(folder, { withFileTypes: true })) {
+        const oneTemplate: ProjectTemplate | undefined = oneEntry.isDirectory()
+            ? readProjectTemplate(path.join(folder, oneEntry.name), isBuiltIn)
+            : undefined;
+
+        if (oneTemplate) {
+            result.push(oneTemplate);
+        }
+    }
+
+    return result.sort(
+        (left: ProjectTemplate, right: ProjectTemplate) =>
+            left.order - right.order || left.label.localeCompare(right.label),
+    );
+}
+
+/**
+ * Where a template file goes within the generated project, with "PQConn" in its name replaced by the project name.
+ */
+export function toProjectTemplateTargetPath(relativePath: string, projectName: string): string {
+    return relativePath
+        .split(/[\\/]/)
+        .map((segment: string) => segment.split(ProjectTemplateFileBaseName).join(projectName))
+        .join("/");
+}
+
+function listFilesRecursively(folder: string, relativeFolder: string = ""): string[] {
+    const result: string[] = [];
+
+    for (const oneEntry of fs.readdirSync(path.join(folder, relativeFolder), { withFileTypes: true })) {
+        const relativePath: string = relativeFolder ? `${relativeFolder}/${oneEntry.name}` : oneEntry.name;
+
+        if (oneEntry.isDirectory()) {
+            if (relativePath !== ProjectTemplatePartialsFolderName) {
+                result.push(...listFilesRecursively(folder, relativePath));
+            }
+        } else if (relativePath !== ProjectTemplateManifestFileName) {
+            result.push(relativePath);
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Lists the files a template generates, i.e. the shared files of the templates folder overlaid by its own ones.
+ *
+ * @param sharedFolder - The templates folder holding the shared files, only its top-level files are taken
+ * @param template - The template to generate
+ * @param projectName - Name of the project to generate
+ * @returns The source path of every file keyed by its target path relative to the project folder
+ */
+export function getProjectTemplateFiles(
+    sharedFolder: string,
+    template: ProjectTemplate,
+    projectName: string,
+): Map<string, string> {
+    const result: Map<string, string> = new Map();
+
+    for (const oneEntry of fs.readdirSync(sharedFolder, { withFileTypes: true })) {
+        if (oneEntry.isFile()) {
+            result.set(
+                sharedFileTargets.get(oneEntry.name) ?? toProjectTemplateTargetPath(oneEntry.name, projectName),
+                path.join(sharedFolder, oneEntry.name),
+            );
+        }
+    }
+
+    for (const relativePath of listFilesRecursively(template.folder)) {
+        result.set(toProjectTemplateTargetPath(relativePath, projectName), path.join(template.folder, relativePath));
+    }
+
+    return result;
+}
+
+/**
+ * Creates what the files of a template are rendered against:
+ *  ProjectName                                 name of the project
+ *  Anonymous, Key, UsernamePassword, ...       whether each authentication kind got picked
+ *  AuthenticationKinds                         the picked kinds, each a record holding Name and the flags above
+ *  TestAuthenticationKind                      the first picked kind as .testsettings.json names it
+ *  MezContent                                  the generated files the .proj packs into the .mez
+ *  Resources                                   Name and xml-escaped Value of every string of resources.resx
+ *
+ * @param targetPaths - The generated files relative to the project folder
+ */
+export function createProjectTemplateContext(
+    template: ProjectTemplate,
+    projectName: string,
+    authenticationKinds: ReadonlyArray<string>,
+    targetPaths: ReadonlyArray<string>,
+): TemplateContext {
+    const kindFlags = (pickedKinds: ReadonlyArray<string>): Record<string, boolean> =>
+        Object.fromEntries(
+            ProjectAuthenticationKinds.map((oneKind: string) => [oneKind, pickedKinds.includes(oneKind)]),
+        );
+
+    const resources: Record<string, string> = {
+        ButtonTitle: projectName,
+        ButtonHelp: `Connect to ${projectName}`,
+        DataSourceLabel: projectName,
+    };
+
+    for (const oneKind of authenticationKinds) {
+        Object.assign(resources, AuthenticationKindResources[oneKind]);
+    }
+
+    for (const [name, value] of Object.entries(template.resources)) {
+        resources[name] = renderTemplate(value, { ProjectName: projectName });
+    }
+
+    return {
+        ProjectName: projectName,
+        ...kindFlags(authenticationKinds),
+        AuthenticationKinds: authenticationKinds.map((oneKind: string) => ({
+            Name: oneKind,
+            ...kindFlags([oneKind]),
+        })),
+        TestAuthenticationKind: testAuthenticationKinds[authenticationKinds[0]] ?? authenticationKinds[0],
+        MezContent: targetPaths
+            .filter(
+                (oneTargetPath: string) =>
+                    !oneTargetPath.includes("/") &&
+                    mezContentFileKinds.has(classifyConnectorProjectFile(oneTargetPath)),
+            )
+            .sort(),
+        Resources: Object.entries(resources).map(([name, value]: [string, string]) => ({
+            Name: name,
+            Value: escapeXml(value),
+        })),
+    };
+}
+
+function readPartials(folder: string, partials: Record<string, string>): void {
+    if (!fs.existsSync(folder)) {
+        return;
+    }
+
+    for (const oneEntry of fs.readdirSync(folder, { withFileTypes: true })) {
+        if (oneEntry.isFile()) {
+            partials[path.parse(oneEntry.name).name] = fs.readFileSync(path.join(folder, oneEntry.name), {
+                encoding: "utf8",
+            });
+        }
+    }
+}
+
+/**
+ * Reads the partials of the shared templates folder, overridden by those of the template, keyed by file names
+ * without their extensions, e.g. partials/authentication.pq is included by {{> authentication}}.
+ */
+export function readProjectTemplatePartials(sharedFolder: string, template: ProjectTemplate): Record<string, string> {
+    const result: Record<string, string> = {};
+
+    readPartials(path.join(sharedFolder, ProjectTemplatePartialsFolderName), result);
+    readPartials(path.join(template.folder, ProjectTemplatePartialsFolderName), result);
+
+    return result;
+}
+
+/**
+ * Generates a project out of a template into a folder, rendering every text file.
+ *
+ * @param authenticationKinds - The authentication kinds the connector declares, those of the template by default
+ * @returns The generated files relative to the target folder
+ * @throws TemplateSyntaxError if a file of the template is malformed
+ */
+export function generateProjectFromTemplate(
+    sharedFolder: string,
+    template: ProjectTemplate,
+    targetFolder: string,
+    projectName: string,
+    authenticationKinds: ReadonlyArray<string> = template.authenticationKinds.slice(0, 1),
+): string[] {
+    const files: Map<string, string> = getProjectTemplateFiles(sharedFolder, template, projectName);
+    const partials: Record<string, string> = readProjectTemplatePartials(sharedFolder, template);
+
+    const context: TemplateContext = createProjectTemplateContext(
+        template,
+        projectName,
+        authenticationKinds,
+        Array.from(files.keys()),
+    );
+
+    for (const [targetPath, sourcePath] of files) {
+        const fullTargetPath: string = path.join(targetFolder, ...targetPath.split("/"));
+
+        fs.mkdirSync(path.dirname(fullTargetPath), { recursive: true });
+
+        if (binaryFileExtensions.has(path.extname(sourcePath).toLowerCase())) {
+            fs.copyFileSync(sourcePath, fullTargetPath);
+        } else {
+            const content: string = fs.readFileSync(sourcePath, { encoding: "utf8" });
+
+            fs.writeFileSync(fullTargetPath, renderTemplate(content, context, partials), { encoding: "utf8" });
+        }
+    }
+
+    return Array.from(files.keys());
+}
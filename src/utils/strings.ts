@@ -9,6 +9,10 @@ export function replaceAt(str: string, index: number, length: number, replacemen
     return str.substring(0, index) + replacement + str.substring(index + length);
 }
 
+export function escapeXml(str: string): string {
+    return str.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export function stringifyJson(obj: any): string {
     return JSON.stringify(obj);
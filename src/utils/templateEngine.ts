@@ -0,0 +1,352 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+import { BaseError } from "../common/errors";
+
+/**
+ * A minimal handlebars-like template engine for scaffolding connector projects.
+ * These functions have no vscode dependencies to enable unit testing with plain Mocha.
+ *
+ * Supported syntax:
+ *  {{Name}}, {{Record.Field}}, {{this}}         values, unknown ones render as empty strings
+ *  {{#if Name}}...{{else}}...{{/if}}           conditionals, empty lists and strings are falsy
+ *  {{#unless Name}}...{{else}}...{{/unless}}   negated conditionals
+ *  {{#each List}}...{{else}}...{{/each}}       loops with @index, @first and @last, items become the scope
+ *  {{> partialName}}                           partials, indented like the tag when it stands alone on its line
+ *
+ * Block tags and partials standing alone on their lines take their lines away, like they do in mustache.
+ */
+
+export type TemplateValue =
+    | string
+    | number
+    | boolean
+    | null
+    | undefined
+    | ReadonlyArray<TemplateValue>
+    | { readonly [name: string]: TemplateValue };
+
+export type TemplateContext = { readonly [name: string]: TemplateValue };
+
+export class TemplateSyntaxError extends BaseError {}
+
+type BlockKind = "if" | "unless" | "each";
+
+type TemplateNode =
+    | { kind: "text"; text: string }
+    | { kind: "value"; name: string }
+    | { kind: "partial"; name: string; standalone: boolean; indent: string }
+    | { kind: BlockKind; name: string; children: TemplateNode[]; elseChildren: TemplateNode[] };
+
+interface TemplateTag {
+    start: number;
+    end: number;
+    // "#if", "/if", "else", ">" and so on, or "" for values
+    sigil: string;
+    name: string;
+    standalone: boolean;
+    indent: string;
+}
+
+const TemplateTagRegExp: RegExp = /{{([^{}]*)}}/g;
+const ValueNameRegExp: RegExp = /^[A-Za-z_@][\w@.]*$/;
+const BlockTagRegExp: RegExp = /^(#if|#unless|#each)\s+([A-Za-z_@][\w@.]*)$/;
+const ClosingTagRegExp: RegExp = /^\/(if|unless|each)$/;
+const PartialTagRegExp: RegExp = /^>\s*([\w.-]+)$/;
+
+// M code has {{ of its own, like in #table({"A"}, {{1}}), thus anything but the known tags is left as it is
+function toTag(content: string, start: number, end: number): TemplateTag | undefined {
+    const tag: TemplateTag = { start, end, sigil: "", name: "", standalone: false, indent: "" };
+    const blockMatch: RegExpMatchArray | null = content.match(BlockTagRegExp);
+    const partialMatch: RegExpMatchArray | null = content.match(PartialTagRegExp);
+
+    if (content === "else" || ClosingTagRegExp.test(content)) {
+        tag.sigil = content;
+    } else if (blockMatch) {
+        tag.sigil = blockMatch[1];
+        tag.name = blockMatch[2];
+    } else if (partialMatch) {
+        tag.sigil = ">";
+        tag.name = partialMatch[1];
+    } else if (ValueNameRegExp.test(content)) {
+        tag.name = content;
+    } else {
+        return undefined;
+    }
+
+    return tag;
+}
+
+/**
+ * Widens a block tag or partial standing alone on its line to the whole line.
+ */
+function toStandaloneTag(template: string, tag: TemplateTag): TemplateTag {
+    const lineStart: number = template.lastIndexOf("\n", tag.start - 1) + 1;
+    const leading: string = template.substring(lineStart, tag.start);
+
+    let lineEnd: number = template.indexOf("\n", tag.end);
+    lineEnd = lineEnd === -1 ? template.length : lineEnd + 1;
+
+    const trailing: string = template.substring(tag.end, lineEnd);
+
+    if (/^[ \t]*$/.test(leading) && /^[ \t]*\r?\n?$/.test(trailing)) {
+        return { ...tag, start: lineStart, end: lineEnd, standalone: true, indent: leading };
+    }
+
+    return tag;
+}
+
+function tokenize(template: string): TemplateTag[] {
+    const tags: TemplateTag[] = [];
+    let match: RegExpExecArray | null;
+
+    TemplateTagRegExp.lastIndex = 0;
+
+    while ((match = TemplateTagRegExp.exec(template))) {
+        const tag: TemplateTag | undefined = toTag(match[1].trim(), match.index, match.index + match[0].length);
+
+        if (tag) {
+            tags.push(tag.sigil ? toStandaloneTag(template, tag) : tag);
+        }
+    }
+
+    return tags;
+}
+
+function parse(template: string): TemplateNode[] {
+    const root: TemplateNode[] = [];
+
+    // the open blocks, innermost last, along with the nodes currently appended to
+    const openBlocks: Array<{ node: Extract<TemplateNode, { kind: BlockKind }>; inElse: boolean }> = [];
+    let position: number = 0;
+
+    const currentNodes = (): TemplateNode[] => {
+        const innermost: { node: Extract<TemplateNode, { kind: BlockKind }>; inElse: boolean } | undefined =
+            openBlocks[openBlocks.length - 1];
+
+        if (!innermost) {
+            return root;
+        }
+
+        return innermost.inElse ? innermost.node.elseChildren : innermost.node.children;
+    };
+
+    for (const tag of tokenize(template)) {
+        // standalone tags swallowing their lines might overlap a preceding tag on the same line
+        const textEnd: number = Math.max(position, tag.start);
+
+        if (textEnd > position) {
+            currentNodes().push({ kind: "text", text: template.substring(position, textEnd) });
+        }
+
+        position = Math.max(position, tag.end);
+
+        if (tag.sigil.startsWith("#")) {
+            const node: Extract<TemplateNode, { kind: BlockKind }> = {
+                kind: tag.sigil.substring(1) as BlockKind,
+                name: tag.name,
+                children: [],
+                elseChildren: [],
+            };
+
+            currentNodes().push(node);
+            openBlocks.push({ node, inElse: false });
+
+            continue;
+        }
+
+        switch (tag.sigil) {
+            case "":
+                currentNodes().push({ kind: "value", name: tag.name });
+                break;
+
+            case ">":
+                currentNodes().push({
+                    kind: "partial",
+                    name: tag.name,
+                    standalone: tag.standalone,
+                    indent: tag.indent,
+                });
+
+                break;
+
+            case "else": {
+                const innermost: { node: TemplateNode; inElse: boolean } | undefined =
+                    openBlocks[openBlocks.length - 1];
+
+                if (!innermost || innermost.inElse) {
+                    throw new TemplateSyntaxError(`Unexpected {{else}} at offset ${tag.start}`);
+                }
+
+                innermost.inElse = true;
+                break;
+            }
+
+            default: {
+                // closing tags, like "/if"
+                const innermost: { node: Extract<TemplateNode, { kind: BlockKind }> } | undefined = openBlocks.pop();
+
+                if (!innermost || `/${innermost.node.kind}` !== tag.sigil) {
+                    throw new TemplateSyntaxError(`Unexpected {{${tag.sigil}}} at offset ${tag.start}`);
+                }
+            }
+        }
+    }
+
+    if (openBlocks.length) {
+        const innermost: Extract<TemplateNode, { kind: BlockKind }> = openBlocks[openBlocks.length - 1].node;
+
+        throw new TemplateSyntaxError(`Unclosed {{#${innermost.kind} ${innermost.name}}}`);
+    }
+
+    if (position < template.length) {
+        root.push({ kind: "text", text: template.substring(position) });
+    }
+
+    return root;
+}
+
+function isRecord(value: TemplateValue): value is { readonly [name: string]: TemplateValue } {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isTruthy(value: TemplateValue): boolean {
+    return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+function lookUp(scopes: ReadonlyArray<TemplateValue>, name: string): TemplateValue {
+    if (name === "this") {
+        return scopes[scopes.length - 1];
+    }
+
+    const [head, ...rest]: string[] = name.split(".");
+
+    // look for the head from the innermost scope outwards
+    for (let index: number = scopes.length - 1; index >= 0; index--) {
+        const scope: TemplateValue = scopes[index];
+
+        if (isRecord(scope) && head in scope) {
+            return rest.reduce(
+                (value: TemplateValue, field: string) => (isRecord(value) ? value[field] : undefined),
+                scope[head],
+            );
+        }
+    }
+
+    return undefined;
+}
+
+function stringify(value: TemplateValue): string {
+    if (value === undefined || value === null) {
+        return "";
+    } else if (Array.isArray(value)) {
+        return value.map(stringify).join(", ");
+    } else if (isRecord(value)) {
+        return JSON.stringify(value);
+    }
+
+    return String(value);
+}
+
+function indentLines(text: string, indent: string): string {
+    return indent ? text.replace(/^(?=.)/gm, indent) : text;
+}
+
+function renderNodes(
+    nodes: ReadonlyArray<TemplateNode>,
+    scopes: ReadonlyArray<TemplateValue>,
+    partials: Readonly<Record<string, string>>,
+    partialDepth: number,
+): string {
+    let result: string = "";
+
+    for (const node of nodes) {
+        switch (node.kind) {
+            case "text":
+                result += node.text;
+                break;
+
+            case "value":
+                result += stringify(lookUp(scopes, node.name));
+                break;
+
+            case "partial": {
+                const partial: string | undefined = partials[node.name];
+
+                if (partial === undefined) {
+                    throw new TemplateSyntaxError(`Unknown partial ${node.name}`);
+                } else if (partialDepth >= 16) {
+                    throw new TemplateSyntaxError(`Partial ${node.name} nests too deeply`);
+                }
+
+                const rendered: string = renderNodes(parse(partial), scopes, partials, partialDepth + 1);
+
+                if (!node.standalone) {
+                    result += rendered;
+                } else if (rendered) {
+                    // a standalone partial took the line break of its line away, thus give it back
+                    result += indentLines(rendered.endsWith("\n") ? rendered : `${rendered}\n`, node.indent);
+                }
+
+                break;
+            }
+
+            case "each": {
+                const value: TemplateValue = lookUp(scopes, node.name);
+                const items: ReadonlyArray<TemplateValue> = Array.isArray(value) ? value : [];
+
+                if (!items.length) {
+                    result += renderNodes(node.elseChildren, scopes, partials, partialDepth);
+                }
+
+                items.forEach((item: TemplateValue, index: number) => {
+                    const loopScope: TemplateContext = {
+                        "@index": index,
+                        "@first": index === 0,
+                        "@last": index === items.length - 1,
+                    };
+
+                    result += renderNodes(node.children, [...scopes, loopScope, item], partials, partialDepth);
+                });
+
+                break;
+            }
+
+            case "if":
+            case "unless":
+                result += renderNodes(
+                    isTruthy(lookUp(scopes, node.name)) === (node.kind === "if") ? node.children : node.elseChildren,
+                    scopes,
+                    partials,
+                    partialDepth,
+                );
+
+                break;
+
+            default:
+                break;
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Renders a template against a context.
+ *
+ * @param template - The template text
+ * @param context - Values of the template, looked up by their names
+ * @param partials - Templates included by {{> name}}, rendered against the scope they are included in
+ * @throws TemplateSyntaxError if blocks are not balanced or a partial is missing
+ */
+export function renderTemplate(
+    template: string,
+    context: TemplateContext,
+    partials: Readonly<Record<string, string>> = {},
+): string {
+    return renderNodes(parse(template), [context], partials, 0);
+}
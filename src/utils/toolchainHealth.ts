@@ -0,0 +1,123 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+/**
+ * Helpers which tell the health of the PQTest toolchain of the current connector project, out of the readiness
+ * state scattered over the PQTest service, the configurations and the built .mez file.
+ * These functions have no vscode dependencies to enable unit testing with plain Mocha.
+ */
+
+export type HealthStatus = "ok" | "warning" | "error";
+
+export type HealthCheckId = "pqTest" | "serviceHost" | "mezFile" | "queryFile";
+
+export type HealthCheckDetail =
+    | "ready"
+    | "notReady"
+    | "connected"
+    | "disconnected"
+    | "disabled"
+    | "upToDate"
+    | "outdated"
+    | "notBuilt"
+    | "found"
+    | "notFound"
+    | "notConfigured";
+
+// the one-click fix of an unhealthy check
+export type HealthCheckFix =
+    | "seizePqTest"
+    | "reconnectServiceHost"
+    | "buildProject"
+    | "setupWorkspace"
+    | "openSettings";
+
+export interface ToolchainState {
+    pqTestReady: boolean;
+    pqTestLocation?: string;
+    pqTestVersion?: string;
+    useServiceHost: boolean;
+    serviceHostConnected: boolean;
+    // the resolved path of the .mez file configured, and its modified time if it got built
+    mezFilePath?: string;
+    mezFileMtime?: Date;
+    // the latest modified time of the sources of the connector project
+    latestSourceMtime?: Date;
+    queryFilePath?: string;
+    queryFileExists: boolean;
+}
+
+export interface HealthCheck {
+    id: HealthCheckId;
+    status: HealthStatus;
+    detail: HealthCheckDetail;
+    // the version or the path the check is about
+    value?: string;
+    fix?: HealthCheckFix;
+}
+
+const healthStatusSeverities: Readonly<Record<HealthStatus, number>> = { ok: 0, warning: 1, error: 2 };
+
+function checkMezFile(state: ToolchainState): HealthCheck {
+    const check: Pick<HealthCheck, "id" | "value"> = { id: "mezFile", value: state.mezFilePath };
+
+    if (!state.mezFilePath) {
+        return { ...check, status: "error", detail: "notConfigured", fix: "setupWorkspace" };
+    } else if (!state.mezFileMtime) {
+        return { ...check, status: "error", detail: "notBuilt", fix: "buildProject" };
+    } else if (state.latestSourceMtime && state.latestSourceMtime > state.mezFileMtime) {
+        return { ...check, status: "warning", detail: "outdated", fix: "buildProject" };
+    }
+
+    return { ...check, status: "ok", detail: "upToDate" };
+}
+
+function checkQueryFile(state: ToolchainState): HealthCheck {
+    const check: Pick<HealthCheck, "id" | "value"> = { id: "queryFile", value: state.queryFilePath };
+
+    if (!state.queryFilePath) {
+        return { ...check, status: "warning", detail: "notConfigured", fix: "setupWorkspace" };
+    } else if (!state.queryFileExists) {
+        return { ...check, status: "warning", detail: "notFound", fix: "openSettings" };
+    }
+
+    return { ...check, status: "ok", detail: "found" };
+}
+
+/**
+ * Checks the PQTest tool, the service host connection, the freshness of the .mez file against its sources, and
+ * the query file configured.
+ */
+export function checkToolchainHealth(state: ToolchainState): HealthCheck[] {
+    let serviceHostCheck: HealthCheck = { id: "serviceHost", status: "ok", detail: "disabled" };
+
+    if (state.useServiceHost) {
+        serviceHostCheck = state.serviceHostConnected
+            ? { id: "serviceHost", status: "ok", detail: "connected" }
+            : { id: "serviceHost", status: "error", detail: "disconnected", fix: "reconnectServiceHost" };
+    }
+
+    return [
+        state.pqTestReady
+            ? { id: "pqTest", status: "ok", detail: "ready", value: state.pqTestVersion ?? state.pqTestLocation }
+            : { id: "pqTest", status: "error", detail: "notReady", value: state.pqTestLocation, fix: "seizePqTest" },
+        serviceHostCheck,
+        checkMezFile(state),
+        checkQueryFile(state),
+    ];
+}
+
+/**
+ * The worst status of the checks.
+ */
+export function getOverallHealthStatus(checks: ReadonlyArray<HealthCheck>): HealthStatus {
+    return checks.reduce(
+        (worst: HealthStatus, oneCheck: HealthCheck) =>
+            healthStatusSeverities[oneCheck.status] > healthStatusSeverities[worst] ? oneCheck.status : worst,
+        "ok" as HealthStatus,
+    );
+}
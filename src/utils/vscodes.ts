@@ -12,6 +12,13 @@ import * as vscode from "vscode";
 
 import { ExtensionConfigurations } from "../constants/PowerQuerySdkConfiguration";
 import { ExtensionConstants } from "../constants/PowerQuerySdkExtension";
+import {
+    ConnectorProject,
+    connectorProjectFileExcludeGlob,
+    connectorProjectFileGlob,
+    discoverConnectorProjects,
+    findConnectorProjectOf,
+} from "./connectorProjects";
 import { replaceAt } from "./strings";
 
 const RegularSubstitutedValueRegexp: RegExp = /\${([A-Za-z0-9.]*)}/g;
@@ -21,9 +28,7 @@ const ConfigurationSubstitutedValueRegexp: RegExp = /\${config:(.*?)}/g;
 function doResolveRegularSubstitutedValue(valueName: string): string {
     const workspaces: Readonly<vscode.WorkspaceFolder[]> | undefined = vscode.workspace.workspaceFolders;
 
-    const workspace: vscode.WorkspaceFolder | undefined = vscode.workspace.workspaceFolders?.length
-        ? vscode.workspace.workspaceFolders[0]
-        : undefined;
+    const workspace: vscode.WorkspaceFolder | undefined = getCurrentWorkspaceFolder();
 
     const activeFile: vscode.TextDocument | undefined = vscode.window.activeTextEditor?.document;
     const absoluteActivateFilePath: string | undefined = activeFile?.uri.fsPath;
@@ -220,7 +225,7 @@ export function resolveSubstitutedValuesInArray(values: string[] | undefined): s
 }
 
 /**
- * Resolves a path relative to the workspace root folder if it's a relative path.
+ * Resolves a path relative to the current workspace folder if it's a relative path.
  * Absolute paths are returned unchanged.
  *
  * @param pathStr Path that may be absolute or relative
@@ -236,8 +241,8 @@ export function resolvePathRelativeToWorkspace(pathStr: string | undefined): str
         return pathStr;
     }
 
-    // Get first workspace folder
-    const workspaceFolder: vscode.WorkspaceFolder | undefined = vscode.workspace.workspaceFolders?.[0];
+    // Get the workspace folder of the current connector project
+    const workspaceFolder: vscode.WorkspaceFolder | undefined = getCurrentWorkspaceFolder();
 
     if (!workspaceFolder) {
         // No workspace open - return path as-is
@@ -267,13 +272,61 @@ export function getFirstWorkspaceFolder(): vscode.WorkspaceFolder | undefined {
     return vscode.workspace.workspaceFolders?.[0];
 }
 
+// the workspace folder of the latest active editor, which outlives switching to editors beyond any folder
+let lastActiveWorkspaceFolder: vscode.WorkspaceFolder | undefined = undefined;
+
+export function getWorkspaceFolderOf(uriOrFsPath: vscode.Uri | string): vscode.WorkspaceFolder | undefined {
+    return vscode.workspace.getWorkspaceFolder(
+        typeof uriOrFsPath === "string" ? vscode.Uri.file(uriOrFsPath) : uriOrFsPath,
+    );
+}
+
+/**
+ * Each workspace folder is a connector project of its own, and the current one is where the active editor is.
+ * Falls back to the folder of the former active editor, and then to the first folder.
+ */
+export function getCurrentWorkspaceFolder(): vscode.WorkspaceFolder | undefined {
+    const activeDocumentUri: vscode.Uri | undefined = vscode.window.activeTextEditor?.document.uri;
+
+    const activeWorkspaceFolder: vscode.WorkspaceFolder | undefined = activeDocumentUri
+        ? vscode.workspace.getWorkspaceFolder(activeDocumentUri)
+        : undefined;
+
+    if (activeWorkspaceFolder) {
+        lastActiveWorkspaceFolder = activeWorkspaceFolder;
+
+        return activeWorkspaceFolder;
+    }
+
+    if (
+        lastActiveWorkspaceFolder &&
+        vscode.workspace.workspaceFolders?.some(
+            (oneFolder: vscode.WorkspaceFolder) =>
+                oneFolder.uri.toString() === lastActiveWorkspaceFolder?.uri.toString(),
+        )
+    ) {
+        return lastActiveWorkspaceFolder;
+    }
+
+    return getFirstWorkspaceFolder();
+}
+
+/**
+ * Scopes a glob pattern to the current workspace folder, as findFiles would otherwise search every folder.
+ */
+export function getCurrentWorkspaceGlobPattern(include: string): vscode.GlobPattern {
+    const currentWorkspaceFolder: vscode.WorkspaceFolder | undefined = getCurrentWorkspaceFolder();
+
+    return currentWorkspaceFolder ? new vscode.RelativePattern(currentWorkspaceFolder, include) : include;
+}
+
 // require-await is not redundant over here
 // eslint-disable-next-line require-await
-export async function getAnyPqFileBeneathTheFirstWorkspace(): Promise<vscode.Uri[]> {
-    const theFirstWorkspace: vscode.WorkspaceFolder | undefined = getFirstWorkspaceFolder();
-
-    if (theFirstWorkspace) {
-        return vscode.workspace.findFiles("*.{pq}", "**/bin/**", 10);
+export async function getAnyPqFileBeneathTheCurrentWorkspace(
+    workspaceFolder: vscode.WorkspaceFolder | undefined = getCurrentWorkspaceFolder(),
+): Promise<vscode.Uri[]> {
+    if (workspaceFolder) {
+        return vscode.workspace.findFiles(new vscode.RelativePattern(workspaceFolder, "*.{pq}"), "**/bin/**", 10);
     }
 
     return [];
@@ -281,21 +334,60 @@ export async function getAnyPqFileBeneathTheFirstWorkspace(): Promise<vscode.Uri
 
 // require-await is not redundant over here
 // eslint-disable-next-line require-await
-export async function getAnyMProjFilesBeneathTheFirstWorkspace(): Promise<vscode.Uri[]> {
-    const theFirstWorkspace: vscode.WorkspaceFolder | undefined = getFirstWorkspaceFolder();
-
-    if (theFirstWorkspace) {
-        return vscode.workspace.findFiles("*.{proj,mproj}", "**/bin/**", 1);
+export async function getAnyMProjFilesBeneathTheCurrentWorkspace(
+    workspaceFolder: vscode.WorkspaceFolder | undefined = getCurrentWorkspaceFolder(),
+): Promise<vscode.Uri[]> {
+    if (workspaceFolder) {
+        return vscode.workspace.findFiles(
+            new vscode.RelativePattern(workspaceFolder, "*.{proj,mproj}"),
+            "**/bin/**",
+            1,
+        );
     }
 
     return [];
 }
 
+/**
+ * Discovers the connector projects of a workspace folder.
+ */
+export async function findConnectorProjectsBeneathTheWorkspace(
+    workspaceFolder: vscode.WorkspaceFolder,
+): Promise<ConnectorProject[]> {
+    const connectorProjectFiles: vscode.Uri[] = await vscode.workspace.findFiles(
+        new vscode.RelativePattern(workspaceFolder, connectorProjectFileGlob),
+        connectorProjectFileExcludeGlob,
+        2e3,
+    );
+
+    return discoverConnectorProjects(
+        connectorProjectFiles.map((oneUri: vscode.Uri) => path.relative(workspaceFolder.uri.fsPath, oneUri.fsPath)),
+        workspaceFolder.name,
+    );
+}
+
+/**
+ * Finds the connector project of a workspace folder which holds the active editor, or else its outermost one.
+ */
+export async function findCurrentConnectorProject(
+    workspaceFolder: vscode.WorkspaceFolder,
+): Promise<ConnectorProject | undefined> {
+    const projects: ConnectorProject[] = await findConnectorProjectsBeneathTheWorkspace(workspaceFolder);
+    const activeDocumentUri: vscode.Uri | undefined = vscode.window.activeTextEditor?.document.uri;
+
+    const activeProject: ConnectorProject | undefined =
+        activeDocumentUri && getWorkspaceFolderOf(activeDocumentUri)?.uri.toString() === workspaceFolder.uri.toString()
+            ? findConnectorProjectOf(projects, path.relative(workspaceFolder.uri.fsPath, activeDocumentUri.fsPath))
+            : undefined;
+
+    return activeProject ?? projects[0];
+}
+
 export function substitutedWorkspaceFolderBasenameIfNeeded(str: string): string {
-    const firstWorksapce: vscode.WorkspaceFolder | undefined = getFirstWorkspaceFolder();
+    const currentWorkspace: vscode.WorkspaceFolder | undefined = getCurrentWorkspaceFolder();
 
-    if (firstWorksapce) {
-        const workspaceFolderBaseName: string = firstWorksapce.name;
+    if (currentWorkspace) {
+        const workspaceFolderBaseName: string = currentWorkspace.name;
         const startingIndex: number = str.indexOf(workspaceFolderBaseName);
 
         if (startingIndex > -1) {
@@ -324,11 +416,11 @@ export function manuallyGetLocalVscSetting(baseWorkspace: string): Record<string
 }
 
 export function getCurrentWorkspaceSettingPath(): string | undefined {
-    const maybeFirstWorkspaceUri: vscode.Uri | undefined = getFirstWorkspaceFolder()?.uri;
+    const maybeCurrentWorkspaceUri: vscode.Uri | undefined = getCurrentWorkspaceFolder()?.uri;
 
-    if (maybeFirstWorkspaceUri) {
+    if (maybeCurrentWorkspaceUri) {
         const expectedVscodeSettingPath: string | undefined = path.join(
-            maybeFirstWorkspaceUri.fsPath,
+            maybeCurrentWorkspaceUri.fsPath,
             ".vscode",
             "settings.json",
         );
@@ -342,10 +434,10 @@ export function getCurrentWorkspaceSettingPath(): string | undefined {
 }
 
 // set the language service mode to sdk only if it were defined and also needed for the workspace
-export function updateCurrentLocalPqModeIfNeeded(firstWorkspaceUriFsPath: string): void {
+export function updateCurrentLocalPqModeIfNeeded(workspaceUriFsPath: string): void {
     // set the language service mode to sdk only if it were defined and also needed for the workspace
     const currentLocalVscSettingRecord: Record<string, string | undefined> =
-        manuallyGetLocalVscSetting(firstWorkspaceUriFsPath);
+        manuallyGetLocalVscSetting(workspaceUriFsPath);
 
     const currentLocalPqMode: string | undefined =
         currentLocalVscSettingRecord[
@@ -357,30 +449,36 @@ export function updateCurrentLocalPqModeIfNeeded(firstWorkspaceUriFsPath: string
     }
 }
 
-export async function maybeHandleNewWorkspaceCreated(): Promise<void> {
-    const maybeFirstWorkspaceUri: vscode.Uri | undefined = getFirstWorkspaceFolder()?.uri;
+async function handleNewWorkspaceFolderCreated(
+    workspaceFolder: vscode.WorkspaceFolder,
+    expectedRootPqPath: string,
+): Promise<void> {
+    // open the expected root-level pq connector file, which also makes its folder the current one
+    await vscode.commands.executeCommand("vscode.open", vscode.Uri.file(expectedRootPqPath));
+
+    updateCurrentLocalPqModeIfNeeded(workspaceFolder.uri.fsPath);
+
+    // build when freshly created, just execute the command
+    // to trigger the ExecuteBuildTaskAndAwaitIfNeeded from pqTestService
+    await vscode.commands.executeCommand("powerquery.sdk.tools.BuildProjectCommand");
+    // and also set up the workspace as the output of the msbuild might be different
+    await vscode.commands.executeCommand("powerquery.sdk.tools.SetupCurrentWorkspaceCommand");
+    // and seize its info for the very first time
+    await vscode.commands.executeCommand("powerquery.sdk.tools.DisplayExtensionInfoCommand");
+}
 
-    if (maybeFirstWorkspaceUri) {
-        const baseDirectory: string = path.basename(maybeFirstWorkspaceUri.fsPath);
-        const expectedRootPqPath: string = path.join(maybeFirstWorkspaceUri.fsPath, `${baseDirectory}.pq`);
+export async function maybeHandleNewWorkspaceCreated(): Promise<void> {
+    for (const oneWorkspaceFolder of vscode.workspace.workspaceFolders ?? []) {
+        const baseDirectory: string = path.basename(oneWorkspaceFolder.uri.fsPath);
+        const expectedRootPqPath: string = path.join(oneWorkspaceFolder.uri.fsPath, `${baseDirectory}.pq`);
 
         if (fs.existsSync(expectedRootPqPath)) {
             const expectedRootPqPathStat: fs.Stats = fs.statSync(expectedRootPqPath);
 
             // a new workspace just got created
             if (Math.abs(expectedRootPqPathStat.ctime.getTime() - Date.now()) < 6e4) {
-                // open the expected root-level pq connector file
-                void vscode.commands.executeCommand("vscode.open", vscode.Uri.file(expectedRootPqPath));
-
-                updateCurrentLocalPqModeIfNeeded(maybeFirstWorkspaceUri.fsPath);
-
-                // build when freshly created, just execute the command
-                // to trigger the ExecuteBuildTaskAndAwaitIfNeeded from pqTestService
-                await vscode.commands.executeCommand("powerquery.sdk.tools.BuildProjectCommand");
-                // and also set up the workspace as the output of the msbuild might be different
-                await vscode.commands.executeCommand("powerquery.sdk.tools.SetupCurrentWorkspaceCommand");
-                // and seize its info for the very first time
-                await vscode.commands.executeCommand("powerquery.sdk.tools.DisplayExtensionInfoCommand");
+                // eslint-disable-next-line no-await-in-loop -- the commands work on the current folder, one at a time
+                await handleNewWorkspaceFolderCreated(oneWorkspaceFolder, expectedRootPqPath);
             }
         }
     }
@@ -12,7 +12,7 @@ import {
     DeleteCredentialHandler,
     DeleteCredentialResult,
 } from "../../../src/commands/handlers/DeleteCredentialHandler";
-import { GenericResult, IPQTestService } from "../../../src/common/PQTestService";
+import { DataSource, GenericResult, IPQTestService } from "../../../src/common/PQTestService";
 import { CommandResult } from "../../../src/commands/handlers/ICommandHandler";
 
 describe("DeleteCredentialHandler", () => {
@@ -125,5 +125,19 @@ describe("DeleteCredentialHandler", () => {
             // Assert
             expect(deleteCredentialStub.calledOnce).to.equal(true);
         });
+
+        it("should delete the credential of the given data source only", async () => {
+            // Arrange
+            const dataSource: DataSource = { kind: "Conn", path: "Conn" };
+            deleteCredentialStub.resolves({});
+
+            // Act
+            await handler.execute({ dataSource });
+            await handler.execute({});
+
+            // Assert
+            expect(deleteCredentialStub.firstCall.args).to.deep.equal([dataSource]);
+            expect(deleteCredentialStub.secondCall.args).to.deep.equal([undefined]);
+        });
     });
 });
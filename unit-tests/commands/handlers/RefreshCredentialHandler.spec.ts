@@ -8,7 +8,7 @@
 import { SinonStub, stub } from "sinon";
 import { expect } from "chai";
 
-import { GenericResult, IPQTestService } from "../../../src/common/PQTestService";
+import { DataSource, GenericResult, IPQTestService } from "../../../src/common/PQTestService";
 import {
     RefreshCredentialHandler,
     RefreshCredentialResult,
@@ -148,5 +148,17 @@ describe("RefreshCredentialHandler", () => {
             // Assert
             expect(refreshCredentialStub.calledOnce).to.equal(true);
         });
+
+        it("should refresh the credential of the given data source", async () => {
+            // Arrange
+            const dataSource: DataSource = { kind: "Conn", path: "https://contoso.com/" };
+            refreshCredentialStub.resolves({});
+
+            // Act
+            await handler.execute({ dataSource });
+
+            // Assert
+            expect(refreshCredentialStub.calledOnceWithExactly(dataSource)).to.equal(true);
+        });
     });
 });
@@ -0,0 +1,322 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+import * as chai from "chai";
+import * as crypto from "crypto";
+import * as http from "http";
+import * as https from "https";
+import * as net from "net";
+import * as tls from "tls";
+
+import { HttpRecordingProxy, redactHttpBody } from "../../src/common/HttpRecordingProxy";
+import { LocalCertificateAuthority } from "../../src/common/LocalCertificateAuthority";
+
+const expect = chai.expect;
+
+function requestThroughProxy(
+    proxyUrl: string,
+    targetUrl: string,
+    options: { method?: string; headers?: Record<string, string>; body?: string } = {},
+): Promise<{ statusCode: number; body: string }> {
+    const proxy: URL = new URL(proxyUrl);
+
+    return new Promise((resolve, reject) => {
+        const req: http.ClientRequest = http.request(
+            {
+                host: proxy.hostname,
+                port: proxy.port,
+                method: options.method ?? "GET",
+                path: targetUrl,
+                headers: options.headers,
+            },
+            (res: http.IncomingMessage) => {
+                const chunks: Buffer[] = [];
+                res.on("data", (chunk: Buffer) => chunks.push(chunk));
+
+                res.on("end", () =>
+                    resolve({ statusCode: res.statusCode ?? 0, body: Buffer.concat(chunks).toString() }),
+                );
+            },
+        );
+
+        req.on("error", reject);
+        req.end(options.body);
+    });
+}
+
+function requestThroughTunnel(
+    proxyUrl: string,
+    targetUrl: string,
+    trustedCa: string,
+): Promise<{ statusCode: number; body: string }> {
+    const proxy: URL = new URL(proxyUrl);
+    const target: URL = new URL(targetUrl);
+
+    return new Promise((resolve, reject) => {
+        const connectRequest: http.ClientRequest = http.request({
+            host: proxy.hostname,
+            port: proxy.port,
+            method: "CONNECT",
+            path: target.host,
+        });
+
+        connectRequest.on("connect", (_res: http.IncomingMessage, socket: net.Socket) => {
+            const req: http.ClientRequest = https.request(
+                {
+                    host: target.hostname,
+                    path: `${target.pathname}${target.search}`,
+                    ca: trustedCa,
+                    createConnection: () => tls.connect({ socket, servername: target.hostname, ca: trustedCa }),
+                },
+                (res: http.IncomingMessage) => {
+                    const chunks: Buffer[] = [];
+                    res.on("data", (chunk: Buffer) => chunks.push(chunk));
+
+                    res.on("end", () =>
+                        resolve({ statusCode: res.statusCode ?? 0, body: Buffer.concat(chunks).toString() }),
+                    );
+                },
+            );
+
+            req.on("error", reject);
+            req.end();
+        });
+
+        connectRequest.on("error", reject);
+        connectRequest.end();
+    });
+}
+
+describe("HttpRecordingProxy.spec", function () {
+    let origin: http.Server;
+    let originUrl: string;
+    let proxy: HttpRecordingProxy;
+
+    before(
+        (): Promise<void> =>
+            new Promise(resolve => {
+                origin = http.createServer((req: http.IncomingMessage, res: http.ServerResponse) => {
+                    const chunks: Buffer[] = [];
+                    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+
+                    req.on("end", () => {
+                        if (req.url === "/token") {
+                            res.writeHead(200, { "content-type": "application/json", "set-cookie": "session=secret" });
+                            res.end(JSON.stringify({ access_token: "secret", token_type: "Bearer", expires_in: 3600 }));
+
+                            return;
+                        }
+
+                        res.writeHead(200, { "content-type": "application/json" });
+                        res.end(JSON.stringify({ path: req.url, echo: Buffer.concat(chunks).toString() }));
+                    });
+                });
+
+                origin.listen(0, "127.0.0.1", () => {
+                    originUrl = `http://127.0.0.1:${(origin.address() as net.AddressInfo).port}`;
+                    resolve();
+                });
+            }),
+    );
+
+    after((): void => {
+        origin.close();
+    });
+
+    beforeEach(async (): Promise<void> => {
+        proxy = new HttpRecordingProxy();
+        await proxy.start();
+    });
+
+    afterEach((): void => {
+        proxy.dispose();
+    });
+
+    it("should relay plain http requests and record the exchange", async () => {
+        const response = await requestThroughProxy(proxy.proxyUrl as string, `${originUrl}/api?x=1`, {
+            method: "POST",
+            headers: { "content-type": "text/plain" },
+            body: "hello",
+        });
+
+        expect(response.statusCode).eq(200);
+        expect(JSON.parse(response.body)).deep.eq({ path: "/api?x=1", echo: "hello" });
+
+        expect(proxy.exchanges.length).eq(1);
+        const [exchange] = proxy.exchanges;
+        expect(exchange.request.method).eq("POST");
+        expect(exchange.request.url).eq(`${originUrl}/api?x=1`);
+        expect(exchange.request.body).eq("hello");
+        expect(exchange.response.statusCode).eq(200);
+        expect(exchange.response.bodyEncoding).eq("utf8");
+        expect(JSON.parse(exchange.response.body)).deep.eq({ path: "/api?x=1", echo: "hello" });
+    });
+
+    it("should redact credentials from recorded request headers", async () => {
+        await requestThroughProxy(proxy.proxyUrl as string, `${originUrl}/secure`, {
+            headers: { authorization: "Bearer secret", "x-custom": "kept" },
+        });
+
+        const [exchange] = proxy.exchanges;
+        expect(exchange.request.headers["authorization"]).eq("<redacted>");
+        expect(exchange.request.headers["x-custom"]).eq("kept");
+    });
+
+    it("should redact cookies and tokens from recorded responses but relay them as is", async () => {
+        const response = await requestThroughProxy(proxy.proxyUrl as string, `${originUrl}/token`, {
+            method: "POST",
+            headers: { "content-type": "application/x-www-form-urlencoded" },
+            body: "grant_type=authorization_code&code=abc&client_secret=shh",
+        });
+
+        expect(JSON.parse(response.body).access_token).eq("secret");
+
+        const [exchange] = proxy.exchanges;
+
+        expect(exchange.request.body).eq(
+            "grant_type=authorization_code&code=%3Credacted%3E&client_secret=%3Credacted%3E",
+        );
+
+        expect(exchange.response.headers["set-cookie"]).eq("<redacted>");
+
+        expect(JSON.parse(exchange.response.body)).deep.eq({
+            access_token: "<redacted>",
+            token_type: "Bearer",
+            expires_in: 3600,
+        });
+    });
+
+    it("should leave bodies without token fields untouched", () => {
+        const body: string = '{ "error": { "code": "NotFound" } }';
+
+        expect(redactHttpBody(body, "application/json; charset=utf-8")).eq(body);
+        expect(redactHttpBody("code=abc", "text/plain")).eq("code=abc");
+    });
+
+    it("should reject requests without an absolute url", async () => {
+        const response = await requestThroughProxy(proxy.proxyUrl as string, "/relative");
+
+        expect(response.statusCode).eq(400);
+        expect(proxy.exchanges.length).eq(0);
+    });
+
+    describe("https tunnels", function () {
+        // key generation takes a while on slow machines
+        this.timeout(30000);
+
+        const originAuthority: LocalCertificateAuthority = LocalCertificateAuthority.create(["localhost"]);
+        const proxyAuthority: LocalCertificateAuthority = LocalCertificateAuthority.create(["localhost"]);
+        let secureOrigin: https.Server;
+        let secureOriginUrl: string;
+        let originalAgentCa: https.AgentOptions["ca"];
+
+        before(
+            (): Promise<void> =>
+                new Promise(resolve => {
+                    secureOrigin = https.createServer(
+                        originAuthority.issueCertificate("localhost"),
+                        (req: http.IncomingMessage, res: http.ServerResponse) => {
+                            res.writeHead(200, { "content-type": "application/json" });
+                            res.end(JSON.stringify({ path: req.url }));
+                        },
+                    );
+
+                    // the proxy relays to origins through the global agent, which should trust the test origin
+                    originalAgentCa = https.globalAgent.options.ca;
+                    https.globalAgent.options.ca = originAuthority.certificatePem;
+
+                    secureOrigin.listen(0, "127.0.0.1", () => {
+                        secureOriginUrl = `https://localhost:${(secureOrigin.address() as net.AddressInfo).port}`;
+                        resolve();
+                    });
+                }),
+        );
+
+        after((): void => {
+            https.globalAgent.options.ca = originalAgentCa;
+            secureOrigin.close();
+        });
+
+        it("should record the requests of tunnels once given a certificate authority", async () => {
+            const interceptingProxy: HttpRecordingProxy = new HttpRecordingProxy(proxyAuthority);
+
+            try {
+                const proxyUrl: string = await interceptingProxy.start();
+
+                const response = await requestThroughTunnel(
+                    proxyUrl,
+                    `${secureOriginUrl}/odata?$top=1`,
+                    proxyAuthority.certificatePem,
+                );
+
+                expect(response.statusCode).eq(200);
+                expect(JSON.parse(response.body)).deep.eq({ path: "/odata?$top=1" });
+
+                expect(interceptingProxy.exchanges.map(exchange => exchange.request.url)).deep.eq([
+                    `${secureOriginUrl}/odata?$top=1`,
+                ]);
+
+                expect(interceptingProxy.tunneledHosts).deep.eq([]);
+            } finally {
+                interceptingProxy.dispose();
+            }
+        });
+
+        it("should only issue certificates of the permitted hosts and their subdomains", () => {
+            const authority: LocalCertificateAuthority = LocalCertificateAuthority.create(["Contoso.com"]);
+            const issuedCertificate = new crypto.X509Certificate(authority.issueCertificate("api.contoso.com").cert);
+
+            expect(issuedCertificate.checkIssued(new crypto.X509Certificate(authority.certificatePem))).eq(true);
+            expect(issuedCertificate.checkHost("api.contoso.com")).eq("api.contoso.com");
+            expect(authority.permits("notcontoso.com")).eq(false);
+            expect(() => authority.issueCertificate("fabrikam.com")).to.throw();
+        });
+
+        it("should relay the tunnels to hosts the authority does not permit", async () => {
+            const interceptingProxy: HttpRecordingProxy = new HttpRecordingProxy(
+                LocalCertificateAuthority.create(["contoso.com"]),
+            );
+
+            try {
+                const proxyUrl: string = await interceptingProxy.start();
+
+                const response = await requestThroughTunnel(
+                    proxyUrl,
+                    `${secureOriginUrl}/odata`,
+                    originAuthority.certificatePem,
+                );
+
+                expect(response.statusCode).eq(200);
+                expect(interceptingProxy.exchanges.length).eq(0);
+                expect(interceptingProxy.tunneledHosts).deep.eq(["localhost"]);
+            } finally {
+                interceptingProxy.dispose();
+            }
+        });
+
+        it("should report the hosts of tunnels rejecting the issued certificate", async () => {
+            const interceptingProxy: HttpRecordingProxy = new HttpRecordingProxy(proxyAuthority);
+
+            try {
+                const proxyUrl: string = await interceptingProxy.start();
+
+                await requestThroughTunnel(proxyUrl, `${secureOriginUrl}/`, originAuthority.certificatePem).then(
+                    () => expect.fail("the client should not trust the proxy"),
+                    (error: Error) => expect(error).to.be.instanceOf(Error),
+                );
+
+                // the proxy learns about the rejection once the client aborts the handshake
+                await new Promise(resolve => setTimeout(resolve, 100));
+
+                expect(interceptingProxy.exchanges.length).eq(0);
+                expect(interceptingProxy.tunneledHosts).deep.eq(["localhost"]);
+            } finally {
+                interceptingProxy.dispose();
+            }
+        });
+    });
+});
@@ -0,0 +1,152 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+import { describe, it } from "mocha";
+import { expect } from "chai";
+
+import {
+    buildExpressionQuery,
+    buildLetStepQuery,
+    findLetExpressions,
+    findLetStepAt,
+} from "../../src/debugAdaptor/letSteps";
+
+describe("letSteps", () => {
+    describe("findLetExpressions", () => {
+        it("should locate the steps of a query document", () => {
+            const text = [
+                "// a query",
+                "let",
+                '    Source = Contoso.Contents("https://contoso.com"),',
+                '    #"Changed Type" = Table.TransformColumnTypes(',
+                '        Source, {{"Id", Int64.Type}}',
+                "    ),",
+                '    Count = Table.RowCount(#"Changed Type")',
+                "in",
+                "    Count",
+            ].join("\n");
+
+            const result = findLetExpressions(text);
+
+            expect(result.length).to.equal(1);
+            expect(result[0].line).to.equal(1);
+
+            expect(
+                result[0].steps.map(step => ({ name: step.name, line: step.line, endLine: step.endLine })),
+            ).to.deep.equal([
+                { name: "Source", line: 2, endLine: 2 },
+                { name: '#"Changed Type"', line: 3, endLine: 5 },
+                { name: "Count", line: 6, endLine: 6 },
+            ]);
+
+            expect(result[0].steps[0].text).to.equal('Source = Contoso.Contents("https://contoso.com")');
+        });
+
+        it("should keep nested lets, records and strings within their step", () => {
+            const text = [
+                "let",
+                "    Inner = let a = 1, b = 2 in a + b,",
+                '    Record = [x = 1, y = "let, in"],',
+                "    /* a comment, with in */ Last = Inner",
+                "in",
+                "    Last",
+            ].join("\n");
+
+            const result = findLetExpressions(text);
+
+            expect(result.length).to.equal(1);
+            expect(result[0].steps.map(step => step.name)).to.deep.equal(["Inner", "Record", "Last"]);
+            expect(result[0].steps[0].text).to.equal("Inner = let a = 1, b = 2 in a + b");
+        });
+
+        it("should locate one let expression per section member", () => {
+            const text = [
+                "section Contoso;",
+                "",
+                "shared Contoso.Contents = (url as text) =>",
+                "    let",
+                "        Source = Web.Contents(url),",
+                "        Json = Json.Document(Source)",
+                "    in",
+                "        Json;",
+                "",
+                "Helper = let Value = 1 in Value;",
+            ].join("\n");
+
+            const result = findLetExpressions(text);
+
+            expect(result.map(letExpression => letExpression.line)).to.deep.equal([3, 9]);
+            expect(result.map(letExpression => letExpression.isFunctionBody)).to.deep.equal([true, false]);
+            expect(result[0].steps.map(step => step.name)).to.deep.equal(["Source", "Json"]);
+            expect(result[1].steps.map(step => step.name)).to.deep.equal(["Value"]);
+        });
+
+        it("should tell let expressions which are function bodies", () => {
+            const testCases: [string, boolean][] = [
+                ["let a = 1 in a", false],
+                ["(x) => let a = x in a", true],
+                ["(x as text) as text => (let a = x in a)", true],
+                ["each let a = _ in a", true],
+            ];
+
+            for (const [text, expected] of testCases) {
+                expect(findLetExpressions(text)[0].isFunctionBody).to.equal(expected, `Failed for ${text}`);
+            }
+        });
+
+        it("should return nothing for documents without a let expression", () => {
+            const testCases = ["", "1 + 1", "// let a = 1 in a", '"let a = 1 in a"'];
+
+            for (const text of testCases) {
+                expect(findLetExpressions(text)).to.deep.equal([], `Failed for ${JSON.stringify(text)}`);
+            }
+        });
+    });
+
+    describe("buildLetStepQuery", () => {
+        it("should carry over the preceding steps and return the requested one", () => {
+            const [letExpression] = findLetExpressions("let\n    A = 1,\n    B = A + 1,\n    C = B * 2\nin\n    C");
+
+            expect(buildLetStepQuery(letExpression, 1)).to.equal("let\n    A = 1,\n    B = A + 1\nin\n    B");
+            expect(buildLetStepQuery(letExpression, 0)).to.equal("let\n    A = 1\nin\n    A");
+        });
+    });
+
+    describe("findLetStepAt", () => {
+        const letExpressions = findLetExpressions("let\n    A = 1,\n    B = {\n        A\n    }\nin\n    B");
+
+        it("should find the step spanning the line", () => {
+            expect(findLetStepAt(letExpressions, 1)?.stepIndex).to.equal(0);
+            expect(findLetStepAt(letExpressions, 3)?.stepIndex).to.equal(1);
+        });
+
+        it("should return undefined outside of any step", () => {
+            expect(findLetStepAt(letExpressions, 0)).to.equal(undefined);
+            expect(findLetStepAt(letExpressions, 6)).to.equal(undefined);
+        });
+    });
+
+    describe("buildExpressionQuery", () => {
+        const letExpressions = findLetExpressions("let\n    A = 1,\n    B = A + 1,\n    C = B * 2\nin\n    C");
+
+        it("should return the expression alone outside of a let step", () => {
+            expect(buildExpressionQuery("  1 + 1,\n")).to.equal("1 + 1");
+        });
+
+        it("should carry over the preceding steps for an expression inside a step", () => {
+            expect(buildExpressionQuery("B * 2", findLetStepAt(letExpressions, 3))).to.equal(
+                'let\n    A = 1,\n    B = A + 1,\n    #"Evaluated Expression" = B * 2\nin\n    #"Evaluated Expression"',
+            );
+        });
+
+        it("should evaluate the step itself when the whole step is selected", () => {
+            expect(buildExpressionQuery("    B = A + 1,", findLetStepAt(letExpressions, 2))).to.equal(
+                buildLetStepQuery(letExpressions[0], 1),
+            );
+        });
+    });
+});
@@ -0,0 +1,53 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+import { describe, it } from "mocha";
+import { expect } from "chai";
+
+import { diffOutputs, diffResultHistoryEntries } from "../../src/panels/resultDiff";
+
+describe("resultDiff", () => {
+    describe("diffOutputs", () => {
+        it("should only list the changed rows and count the unchanged ones", () => {
+            const result = diffOutputs(
+                [{ A: 1, B: "x" }, { A: 2, B: "y" }, { A: 3 }],
+                [
+                    { A: 1, B: "x" },
+                    { A: 5, B: "y" },
+                ],
+            );
+
+            expect(result.counts).to.deep.equal({ added: 0, removed: 1, changed: 1, unchanged: 1 });
+            expect(result.rows.map(row => [row.index, row.status])).to.deep.equal([
+                [1, "changed"],
+                [2, "removed"],
+            ]);
+            expect(result.rows[0].changedColumns).to.deep.equal(["A"]);
+        });
+
+        it("should diff columns by name and scalar outputs as a Value column", () => {
+            const result = diffOutputs([1], [{ Value: 1, C: true }]);
+
+            expect(result.columns).to.deep.equal([
+                { name: "Value", status: "unchanged" },
+                { name: "C", status: "added" },
+            ]);
+        });
+    });
+
+    describe("diffResultHistoryEntries", () => {
+        it("should compare the output snapshots and tell when they got truncated", () => {
+            const older = { id: "a", timestamp: 0, pinned: false, result: [], outputSnapshot: [{ A: 1 }] };
+            const newer = { ...older, id: "b", outputSnapshot: [{ A: 2 }], isOutputTruncated: true };
+
+            const result = diffResultHistoryEntries(older, newer);
+
+            expect(result.counts.changed).to.equal(1);
+            expect(result.isTruncated).to.equal(true);
+        });
+    });
+});
@@ -0,0 +1,95 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+import { describe, it } from "mocha";
+import { expect } from "chai";
+
+import {
+    createResultExportFileName,
+    resolveGeneratedBaselineFilePath,
+    serializeRowsAsCsv,
+    serializeRowsAsJson,
+} from "../../src/panels/resultExport";
+
+describe("resultExport", () => {
+    const rows = [
+        { Id: 1, Name: "Contoso, Ltd.", Active: true },
+        { Id: 2, Name: 'The "Best"', Tags: ["a", "b"] },
+    ];
+
+    describe("serializeRowsAsCsv", () => {
+        it("should write a header of every column and escape fields", () => {
+            expect(serializeRowsAsCsv(rows)).to.equal(
+                ["Id,Name,Active,Tags", '1,"Contoso, Ltd.",true,', '2,"The ""Best""",,"[""a"",""b""]"'].join("\r\n"),
+            );
+        });
+
+        it("should wrap scalar values into a Value column", () => {
+            expect(serializeRowsAsCsv([42])).to.equal("Value\r\n42");
+        });
+    });
+
+    describe("serializeRowsAsJson", () => {
+        it("should round trip", () => {
+            expect(JSON.parse(serializeRowsAsJson(rows))).to.deep.equal(rows);
+        });
+    });
+
+    describe("resolveGeneratedBaselineFilePath", () => {
+        it("should prefer the actual output file reported by the testEnd event", () => {
+            const output: string = [
+                'runStart:{"tests":["Contoso.query.pq"],"timestamp":"2026-10-19T12:00:00Z"}',
+                'testEnd:{"filePath":"c:/temp/Contoso.query.pq","status":"Passed","durationTotalSeconds":1.2,' +
+                    '"actualTestResultFilePath":"c:/temp/out/Contoso.query.pqout"}',
+                'runEnd:{"passed":1,"failed":0,"timestamp":"2026-10-19T12:00:01Z"}',
+            ].join("\r\n");
+
+            expect(resolveGeneratedBaselineFilePath(output, "c:/temp/Contoso.query.pq")).to.equal(
+                "c:/temp/out/Contoso.query.pqout",
+            );
+        });
+
+        it("should fall back to the baseline beside the query", () => {
+            expect(resolveGeneratedBaselineFilePath("", "c:/temp/Contoso.query.pq")).to.equal(
+                "c:/temp/Contoso.query.pqout",
+            );
+        });
+    });
+
+    describe("createResultExportFileName", () => {
+        it("should name baselines after the query and other exports after the table", () => {
+            const testCases: {
+                queryFileName: string;
+                table: "output" | "dataSource" | "error";
+                format: "csv" | "json" | "pqout";
+                expected: string;
+            }[] = [
+                {
+                    queryFileName: "Contoso.query.pq",
+                    table: "output",
+                    format: "pqout",
+                    expected: "Contoso.query.pqout",
+                },
+                {
+                    queryFileName: "Contoso.query.pq",
+                    table: "dataSource",
+                    format: "csv",
+                    expected: "Contoso.dataSource.csv",
+                },
+                { queryFileName: "Contoso.pq", table: "error", format: "json", expected: "Contoso.error.json" },
+                { queryFileName: "", table: "output", format: "csv", expected: "result.output.csv" },
+            ];
+
+            for (const { queryFileName, table, format, expected } of testCases) {
+                expect(createResultExportFileName(queryFileName, table, format)).to.equal(
+                    expected,
+                    `Failed for ${queryFileName}, ${table}, ${format}`,
+                );
+            }
+        });
+    });
+});
@@ -0,0 +1,110 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+import { describe, it } from "mocha";
+import { expect } from "chai";
+
+import {
+    appendResultHistoryEntry,
+    compactResultHistoryEntry,
+    createExpressionResultKey,
+    PqTestResultHistoryEntry,
+    removeResultHistoryEntries,
+    setResultHistoryEntryPinned,
+} from "../../src/panels/resultHistory";
+
+function createEntry(id: string, queryFilePath?: string, pinned: boolean = false): PqTestResultHistoryEntry {
+    return { id, queryFilePath, timestamp: 0, pinned, result: [] };
+}
+
+describe("resultHistory", () => {
+    describe("appendResultHistoryEntry", () => {
+        it("should prepend the new entry", () => {
+            const result = appendResultHistoryEntry([createEntry("a", "q.pq")], createEntry("b", "q.pq"), 5);
+            expect(result.map(entry => entry.id)).to.deep.equal(["b", "a"]);
+        });
+
+        it("should drop the oldest unpinned entries of the same query file beyond the limit", () => {
+            const entries = [createEntry("b", "q.pq"), createEntry("other", "other.pq"), createEntry("a", "q.pq")];
+
+            const result = appendResultHistoryEntry(entries, createEntry("c", "q.pq"), 2);
+
+            expect(result.map(entry => entry.id)).to.deep.equal(["c", "b", "other"]);
+        });
+
+        it("should neither drop nor count pinned entries", () => {
+            const entries = [createEntry("b", "q.pq"), createEntry("pinned", "q.pq", true), createEntry("a", "q.pq")];
+
+            const result = appendResultHistoryEntry(entries, createEntry("c", "q.pq"), 2);
+
+            expect(result.map(entry => entry.id)).to.deep.equal(["c", "b", "pinned"]);
+        });
+
+        it("should drop the oldest unpinned entries of any query file beyond the overall limit", () => {
+            const entries = [createEntry("b", "b.pq"), createEntry("pinned", "p.pq", true), createEntry("a", "a.pq")];
+
+            const result = appendResultHistoryEntry(entries, createEntry("c", "c.pq"), 5, 2);
+
+            expect(result.map(entry => entry.id)).to.deep.equal(["c", "pinned"]);
+        });
+    });
+
+    describe("compactResultHistoryEntry", () => {
+        const entry: PqTestResultHistoryEntry = {
+            ...createEntry("a", "q.pq"),
+            result: [{ Status: "Passed", Output: [{ A: 1 }, { A: 2 }, { A: 3 }] }],
+        };
+
+        it("should only keep a snapshot of the first output rows", () => {
+            const result = compactResultHistoryEntry(entry, 2);
+
+            expect(result.result[0].Output).to.equal(undefined);
+            expect(result.result[0].OutputInfo.totalRows).to.equal(3);
+            expect(result.outputSnapshot).to.deep.equal([{ A: 1 }, { A: 2 }]);
+            expect(result.isOutputTruncated).to.equal(true);
+        });
+
+        it("should leave compacted entries as they are", () => {
+            const compactedEntry = compactResultHistoryEntry(entry, 2);
+            expect(compactResultHistoryEntry(compactedEntry, 1)).to.equal(compactedEntry);
+        });
+
+        it("should keep the schema of the whole output", () => {
+            const result = compactResultHistoryEntry(
+                { ...entry, result: [{ Output: [{ A: 1 }, { A: 2 }, { A: null }] }] },
+                2,
+            );
+
+            expect(result.schema).to.deep.equal([{ name: "A", type: "number", isNullable: true, isKey: false }]);
+        });
+    });
+
+    describe("createExpressionResultKey", () => {
+        it("should key steps apart from their query file", () => {
+            expect(createExpressionResultKey("C:/q.query.pq", "Source")).to.equal("C:/q.query.pq#Source");
+        });
+    });
+
+    describe("setResultHistoryEntryPinned", () => {
+        it("should only update the matching entry", () => {
+            const result = setResultHistoryEntryPinned([createEntry("a"), createEntry("b")], "b", true);
+            expect(result.map(entry => entry.pinned)).to.deep.equal([false, true]);
+        });
+    });
+
+    describe("removeResultHistoryEntries", () => {
+        const entries = [createEntry("a"), createEntry("pinned", undefined, true), createEntry("b")];
+
+        it("should remove the entry of the given id, even if pinned", () => {
+            expect(removeResultHistoryEntries(entries, "pinned").map(entry => entry.id)).to.deep.equal(["a", "b"]);
+        });
+
+        it("should remove every unpinned entry without an id", () => {
+            expect(removeResultHistoryEntries(entries).map(entry => entry.id)).to.deep.equal(["pinned"]);
+        });
+    });
+});
@@ -0,0 +1,81 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+import { expect } from "chai";
+import { describe, it } from "mocha";
+
+import { createResultShell, describeOutput, getOutputPage } from "../../src/panels/resultPaging";
+
+describe("resultPaging", () => {
+    describe("describeOutput", () => {
+        it("should count rows and type every column", () => {
+            const result = describeOutput([
+                { Id: 1, Name: null, Tags: ["a"] },
+                { Id: 2, Name: "Contoso", Detail: { Plain: true } },
+            ]);
+
+            expect(result).to.deep.equal({
+                totalRows: 2,
+                columns: [
+                    { name: "Id", type: "number" },
+                    { name: "Name", type: "text" },
+                    { name: "Tags", type: "list" },
+                    { name: "Detail", type: "record" },
+                ],
+            });
+        });
+
+        it("should type columns of mixed values as any", () => {
+            const result = describeOutput([{ Value: 1 }, { Value: "1" }, { Value: null }]);
+            expect(result.columns).to.deep.equal([{ name: "Value", type: "any" }]);
+        });
+
+        it("should wrap scalar values into a Value column", () => {
+            const result = describeOutput([true, false]);
+            expect(result.columns).to.deep.equal([{ name: "Value", type: "logical" }]);
+        });
+    });
+
+    describe("createResultShell", () => {
+        it("should replace outputs by their info and keep everything else", () => {
+            const result = createResultShell([{ Status: "Passed", Output: [{ Id: 1 }] }], 7);
+
+            expect(result).to.deep.equal([
+                {
+                    Status: "Passed",
+                    ResultId: 7,
+                    OutputInfo: { totalRows: 1, columns: [{ name: "Id", type: "number" }] },
+                },
+            ]);
+        });
+
+        it("should leave non array results untouched", () => {
+            expect(createResultShell(undefined, 1)).to.equal(undefined);
+        });
+    });
+
+    describe("getOutputPage", () => {
+        const result = [{ Output: [0, 1, 2, 3, 4] }];
+
+        it("should slice the requested page", () => {
+            expect(getOutputPage(result, 3, 2, 2)).to.deep.equal({
+                resultId: 3,
+                offset: 2,
+                totalRows: 5,
+                rows: [2, 3],
+            });
+        });
+
+        it("should return an empty page beyond the last row", () => {
+            expect(getOutputPage(result, 3, 10, 2).rows).to.deep.equal([]);
+        });
+
+        it("should return an empty page of results without an output", () => {
+            expect(getOutputPage([{ Status: "Failed" }], 3, 0, 2).totalRows).to.equal(0);
+        });
+    });
+});
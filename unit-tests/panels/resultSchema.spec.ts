@@ -0,0 +1,95 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+import { describe, it } from "mocha";
+import { expect } from "chai";
+
+import { compactResultHistoryEntry } from "../../src/panels/resultHistory";
+import { createResultSchema, diffResultSchemas, getResultSchema } from "../../src/panels/resultSchema";
+
+describe("resultSchema", () => {
+    describe("getResultSchema", () => {
+        it("should prefer the reported table type and keys", () => {
+            const result = getResultSchema({
+                Output: [{ Id: "1" }],
+                Schema: [
+                    { Name: "Id", TypeName: "Int64.Type", Kind: "number", IsNullable: false },
+                    { Name: "Name", Kind: "text", IsNullable: true },
+                ],
+                Keys: [{ Columns: ["Id"], Primary: true }],
+            });
+
+            expect(result).to.deep.equal([
+                { name: "Id", type: "Int64.Type", isNullable: false, isKey: true },
+                { name: "Name", type: "text", isNullable: true, isKey: false },
+            ]);
+        });
+
+        it("should infer types and nullability from the output rows otherwise", () => {
+            const result = getResultSchema({ Output: [{ Id: 1, Name: "a" }, { Id: 2 }] });
+
+            expect(result).to.deep.equal([
+                { name: "Id", type: "number", isNullable: false, isKey: false },
+                { name: "Name", type: "text", isNullable: true, isKey: false },
+            ]);
+        });
+
+        it("should return no column for executions without an output", () => {
+            expect(getResultSchema({ Status: "Failed" })).to.deep.equal([]);
+        });
+    });
+
+    describe("diffResultSchemas", () => {
+        it("should list added, changed and removed columns", () => {
+            const previous = [
+                { name: "Id", type: "number", isNullable: false, isKey: true },
+                { name: "Name", type: "text", isNullable: false, isKey: false },
+                { name: "Legacy", type: "text", isNullable: true, isKey: false },
+            ];
+
+            const current = [
+                { name: "Id", type: "text", isNullable: false, isKey: true },
+                { name: "Name", type: "text", isNullable: true, isKey: false },
+                { name: "Added", type: "logical", isNullable: false, isKey: false },
+            ];
+
+            const result = diffResultSchemas(previous, current);
+
+            expect(result.map(change => [change.name, change.kind])).to.deep.equal([
+                ["Id", "typeChanged"],
+                ["Name", "nullabilityChanged"],
+                ["Added", "added"],
+                ["Legacy", "removed"],
+            ]);
+        });
+    });
+
+    describe("createResultSchema", () => {
+        it("should report no drift without a previous result", () => {
+            const result = createResultSchema([{ Output: [{ Id: 1 }] }]);
+
+            expect(result.columns).to.have.length(1);
+            expect(result.changes).to.deep.equal([]);
+        });
+
+        it("should report the drift from the previous schema", () => {
+            const result = createResultSchema([{ Output: [{ Id: 1 }] }], getResultSchema({ Output: [{ Id: "1" }] }));
+            expect(result.changes.map(change => change.kind)).to.deep.equal(["typeChanged"]);
+        });
+
+        it("should not report drift of outputs longer than the snapshots of the history", () => {
+            const output = [{ Id: 1 }, { Id: 2 }, { Id: null }];
+
+            const previousEntry = compactResultHistoryEntry(
+                { id: "a", timestamp: 0, pinned: false, result: [{ Output: output }] },
+                2,
+            );
+
+            expect(createResultSchema([{ Output: output }], previousEntry.schema).changes).to.deep.equal([]);
+        });
+    });
+});
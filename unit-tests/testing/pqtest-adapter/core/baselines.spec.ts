@@ -0,0 +1,52 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+import { describe, it } from "mocha";
+import { expect } from "chai";
+
+import { collectBaselineFiles, countLineChanges } from "../../../../src/testing/pqtest-adapter/core/baselines";
+
+describe("baselines", () => {
+    describe("collectBaselineFiles", () => {
+        it("should pair the output and the diagnostics channels having both files", () => {
+            expect(
+                collectBaselineFiles("test:a", {
+                    reason: "OutputFileMismatch",
+                    actualTestResultFilePath: "c:/results/a.pqout",
+                    expectedTestResultFilePath: "c:/tests/a.pqout",
+                    actualDiagnosticsFilePaths: { odbc: "c:/results/a.odbc.diag", adbc: "c:/results/a.adbc.diag" },
+                    expectedDiagnosticsFilePaths: { odbc: "c:/tests/a.odbc.diag" },
+                }),
+            ).to.deep.equal([
+                { testId: "test:a", actualFilePath: "c:/results/a.pqout", expectedFilePath: "c:/tests/a.pqout" },
+                {
+                    testId: "test:a",
+                    channel: "odbc",
+                    actualFilePath: "c:/results/a.odbc.diag",
+                    expectedFilePath: "c:/tests/a.odbc.diag",
+                },
+            ]);
+        });
+
+        it("should collect nothing for other failures", () => {
+            expect(
+                collectBaselineFiles("test:a", {
+                    reason: "MockMiss",
+                    actualTestResultFilePath: "c:/results/a.pqout",
+                    expectedTestResultFilePath: "c:/tests/a.pqout",
+                }),
+            ).to.deep.equal([]);
+        });
+    });
+
+    describe("countLineChanges", () => {
+        it("should count the added and removed lines", () => {
+            expect(countLineChanges("a\nb\nc", "a\r\nc\nd\ne")).to.deep.equal({ added: 2, removed: 1 });
+            expect(countLineChanges(undefined, "a\nb")).to.deep.equal({ added: 2, removed: 0 });
+        });
+    });
+});
@@ -0,0 +1,58 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+import { describe, it } from "mocha";
+import { expect } from "chai";
+
+import {
+    CONTINUOUS_RUN_BUILD_TIMEOUT_MS,
+    CONTINUOUS_RUN_DEBOUNCE_MS,
+    createPendingContinuousRun,
+    getContinuousRunDelay,
+    getContinuousRunFileKind,
+    isAffectedByContinuousRunChanges,
+    PendingContinuousRun,
+    recordContinuousRunChange,
+} from "../../../../src/testing/pqtest-adapter/core/continuousRun";
+
+describe("continuousRun", () => {
+    describe("getContinuousRunFileKind", () => {
+        it("should tell queries, baselines and connectors apart from other files", () => {
+            expect(getContinuousRunFileKind("/tests/Contoso.Query.pq")).to.equal("query");
+            expect(getContinuousRunFileKind("/tests/Contoso.query.pqout")).to.equal("output");
+            expect(getContinuousRunFileKind("/bin/AnyCPU/Debug/Contoso.mez")).to.equal("connector");
+            expect(getContinuousRunFileKind("/Contoso.pq")).to.equal(undefined);
+        });
+    });
+
+    describe("recordContinuousRunChange", () => {
+        it("should affect only the tests whose query or baseline changed", () => {
+            const pending: PendingContinuousRun = createPendingContinuousRun();
+
+            expect(recordContinuousRunChange(pending, "/tests/a.query.pq", "changed")).to.equal(true);
+            expect(recordContinuousRunChange(pending, "/tests/b.query.pqout", "deleted")).to.equal(true);
+            expect(recordContinuousRunChange(pending, "/tests/c.query.pq", "deleted")).to.equal(false);
+            expect(recordContinuousRunChange(pending, "/Contoso.pq", "changed")).to.equal(false);
+
+            expect(isAffectedByContinuousRunChanges(pending, "/tests/a.query.pq")).to.equal(true);
+            expect(isAffectedByContinuousRunChanges(pending, "/tests/b.query.pq")).to.equal(true);
+            expect(isAffectedByContinuousRunChanges(pending, "/tests/c.query.pq")).to.equal(false);
+            expect(getContinuousRunDelay(pending)).to.equal(CONTINUOUS_RUN_DEBOUNCE_MS);
+        });
+
+        it("should wait for the connector being built and then affect every test", () => {
+            const pending: PendingContinuousRun = createPendingContinuousRun();
+
+            recordContinuousRunChange(pending, "/bin/Contoso.mez", "deleted");
+            expect(getContinuousRunDelay(pending)).to.equal(CONTINUOUS_RUN_BUILD_TIMEOUT_MS);
+
+            recordContinuousRunChange(pending, "/bin/Contoso.mez", "created");
+            expect(getContinuousRunDelay(pending)).to.equal(CONTINUOUS_RUN_DEBOUNCE_MS);
+            expect(isAffectedByContinuousRunChanges(pending, "/tests/unchanged.query.pq")).to.equal(true);
+        });
+    });
+});
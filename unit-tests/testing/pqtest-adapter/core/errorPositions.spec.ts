@@ -0,0 +1,94 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+import { describe, it } from "mocha";
+import { expect } from "chai";
+
+import {
+    extractErrorPositions,
+    isPositionInQuery,
+    pickRaisingPosition,
+} from "../../../../src/testing/pqtest-adapter/core/errorPositions";
+
+describe("errorPositions", () => {
+    describe("extractErrorPositions", () => {
+        it("should return no positions without any", () => {
+            expect(extractErrorPositions(undefined, "We couldn't find the table.")).to.deep.equal([]);
+            expect(extractErrorPositions({ Reason: "Expression.Error" })).to.deep.equal([]);
+        });
+
+        it("should extract ranges and positions written within texts, 0-based", () => {
+            expect(
+                extractErrorPositions("at Contoso.pq [12,5-12,20]", "Token Comma expected. a.query.pq(3,7)"),
+            ).to.deep.equal([
+                { fileName: "a.query.pq", line: 2, column: 6, endLine: undefined, endColumn: undefined },
+                { fileName: "Contoso.pq", line: 11, column: 4, endLine: 11, endColumn: 19 },
+            ]);
+        });
+
+        it("should not take positions written within texts without their .pq document", () => {
+            expect(
+                extractErrorPositions(
+                    { Message: "Expected 2 arguments [1,2] but got Point (3, 4)" },
+                    "Token Comma expected. (3,7)",
+                ),
+            ).to.deep.equal([]);
+        });
+
+        it("should extract positions held by records, with the document of their enclosing records", () => {
+            const details: unknown = {
+                Reason: "DataSource.Error",
+                Location: { DocumentName: "Contoso.pq", Start: { Line: 40, Column: 9 } },
+                Frames: [{ SectionName: "Contoso", StartLine: 7, StartColumn: 3, EndLine: 7, EndColumn: 15 }],
+            };
+
+            expect(extractErrorPositions(details)).to.deep.equal([
+                { fileName: "Contoso.pq", line: 39, column: 8, endLine: undefined, endColumn: undefined },
+                { fileName: "Contoso.pq", line: 6, column: 2, endLine: 6, endColumn: 14 },
+            ]);
+        });
+
+        it("should leave duplicated positions out", () => {
+            expect(extractErrorPositions({ Message: "Contoso.pq(4,2)" }, "Contoso.pq(4,2)")).to.have.length(1);
+        });
+    });
+
+    describe("isPositionInQuery", () => {
+        it("should tell positions without a document or in the query file apart from connector ones", () => {
+            expect(isPositionInQuery({ line: 0, column: 0 }, "c:\\tests\\a.query.pq")).to.equal(true);
+            expect(isPositionInQuery({ fileName: "A.Query.pq", line: 0, column: 0 }, "c:\\tests\\a.query.pq")).to.equal(
+                true,
+            );
+            expect(isPositionInQuery({ fileName: "Contoso.pq", line: 0, column: 0 }, "c:\\tests\\a.query.pq")).to.equal(
+                false,
+            );
+        });
+    });
+
+    describe("pickRaisingPosition", () => {
+        it("should prefer positions within the connector over the query calling it", () => {
+            expect(
+                pickRaisingPosition(
+                    [
+                        { line: 2, column: 0 },
+                        { fileName: "c:/src/Contoso.pq", line: 10, column: 4 },
+                    ],
+                    "c:/tests/a.query.pq",
+                ),
+            ).to.deep.equal({ fileName: "c:/src/Contoso.pq", line: 10, column: 4 });
+        });
+
+        it("should fall back to the first position otherwise", () => {
+            expect(pickRaisingPosition([{ line: 2, column: 0 }], "c:/tests/a.query.pq")).to.deep.equal({
+                line: 2,
+                column: 0,
+            });
+
+            expect(pickRaisingPosition([], "c:/tests/a.query.pq")).to.equal(undefined);
+        });
+    });
+});
@@ -0,0 +1,138 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterEach, beforeEach, describe, it } from "mocha";
+import { expect } from "chai";
+
+import {
+    buildFoldingReport,
+    findTraceFilesWrittenSince,
+    formatFoldingReport,
+    readFoldingReport,
+} from "../../../../src/testing/pqtest-adapter/core/folding";
+import { parseMashupTrace } from "../../../../src/testing/pqtest-adapter/core/mashupTrace";
+
+// lines of a trace file PQTest wrote with LogMashupEngineTraceLevel set to "all" for an odbc based connector
+const OdbcTraceText: string = [
+    'DataMashup.Trace Information: 24579 : {"Start":"2024-05-02T10:15:30.9012345Z","Action":"Engine/Evaluate","HostProcessId":"18244","ProductVersion":"2.128.751.0 (24.04)","ActivityId":"5b1d9d1c-3c1e-4c1f-9a55-1c0f2b8f6f3a","Process":"PQTest","Pid":18244,"Tid":1,"Duration":"00:00:00.4521337"}',
+    'DataMashup.Trace Information: 24579 : {"Start":"2024-05-02T10:15:31.1234567Z","Action":"OdbcQuery/FoldingWarning","HostProcessId":"18244","Function Name":"Group","ProductVersion":"2.128.751.0 (24.04)","ActivityId":"5b1d9d1c-3c1e-4c1f-9a55-1c0f2b8f6f3a","Process":"PQTest","Pid":18244,"Tid":1,"Duration":"00:00:00.0000966"}',
+    'DataMashup.Trace Information: 24579 : {"Start":"2024-05-02T10:15:31.2345678Z","Action":"Engine/IO/Odbc/Command/ExecuteReader","HostProcessId":"18244","CommandText":"select \\"OrderId\\", \\"Total\\" from \\"Orders\\" where \\"Total\\" > 10","ProductVersion":"2.128.751.0 (24.04)","ActivityId":"5b1d9d1c-3c1e-4c1f-9a55-1c0f2b8f6f3a","Process":"PQTest","Pid":18244,"Tid":1,"Duration":"00:00:00.1800122"}',
+    'DataMashup.Trace Information: 24579 : {"Start":"2024-05-02T10:15:31.4567890Z","Action":"Engine/IO/Odbc/Command/ExecuteReader","HostProcessId":"18244","CommandText":"select \\"OrderId\\", \\"Total\\" from \\"Orders\\" where \\"Total\\" > 10","ProductVersion":"2.128.751.0 (24.04)","ActivityId":"5b1d9d1c-3c1e-4c1f-9a55-1c0f2b8f6f3a","Process":"PQTest","Pid":18244,"Tid":1,"Duration":"00:00:00.0712000"}',
+].join("\r\n");
+
+describe("folding", () => {
+    describe("buildFoldingReport", () => {
+        it("should return undefined for traces without folding information", () => {
+            const testCases = [
+                "",
+                'DataMashup.Trace Information: 24579 : {"Action":"Engine/Evaluate","ActivityId":"a1","Duration":"00:00:00.25"}',
+            ];
+
+            for (const text of testCases) {
+                expect(buildFoldingReport(parseMashupTrace(text))).to.equal(undefined, `Failed for ${text}`);
+            }
+        });
+
+        it("should report the operations which did not fold and the native queries sent", () => {
+            const result = buildFoldingReport(parseMashupTrace(OdbcTraceText));
+
+            expect(result).to.deep.equal({
+                steps: [{ name: "Group", folded: false, reason: undefined }],
+                nativeQueries: ['select "OrderId", "Total" from "Orders" where "Total" > 10'],
+                brokenStep: { name: "Group", folded: false, reason: undefined },
+            });
+        });
+
+        it("should mark traced steps as folded until a folding warning is traced within them", () => {
+            const result = buildFoldingReport(
+                parseMashupTrace(
+                    [
+                        'DataMashup.Trace Information: 24579 : {"Action":"Engine/IO/Sql/Command/Execute","Step":"Source","CommandText":"select * from Orders"}',
+                        'DataMashup.Trace Information: 24579 : {"Action":"Engine/IO/Sql/Command/Execute","Step":"Added Index","CommandText":"select * from Orders"}',
+                        'DataMashup.Trace Warning: 24579 : {"Action":"SqlQuery/FoldingWarning","Step":"Added Index","Message":"Table.AddIndexColumn cannot fold"}',
+                    ].join("\n"),
+                ),
+            );
+
+            expect(result?.steps).to.deep.equal([
+                { name: "Source", folded: true },
+                { name: "Added Index", folded: false, reason: "Table.AddIndexColumn cannot fold" },
+            ]);
+
+            expect(result?.brokenStep?.name).to.equal("Added Index");
+            expect(result?.nativeQueries).to.deep.equal(["select * from Orders"]);
+        });
+    });
+
+    describe("trace files", () => {
+        let tempDir: string;
+
+        beforeEach(async () => {
+            tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "pq-sdk-test-"));
+        });
+
+        afterEach(async () => {
+            await fs.promises.rm(tempDir, { recursive: true, force: true });
+        });
+
+        it("should read the report out of trace files, skipping missing ones", async () => {
+            const traceFilePath: string = path.join(tempDir, "PQTest.trace.log");
+            await fs.promises.writeFile(traceFilePath, OdbcTraceText);
+
+            const result = await readFoldingReport([traceFilePath, path.join(tempDir, "missing.log")]);
+
+            expect(result?.brokenStep?.name).to.equal("Group");
+        });
+
+        it("should only find the trace files written since the evaluation began", async () => {
+            const formerFilePath: string = path.join(tempDir, "former.log");
+            const latestFilePath: string = path.join(tempDir, "latest.log");
+            const sinceMs: number = Date.now() - 60000;
+
+            await fs.promises.writeFile(formerFilePath, "");
+            await fs.promises.writeFile(latestFilePath, "");
+            await fs.promises.utimes(formerFilePath, new Date(sinceMs - 60000), new Date(sinceMs - 60000));
+
+            expect(await findTraceFilesWrittenSince(tempDir, sinceMs)).to.deep.equal([latestFilePath]);
+            expect(await findTraceFilesWrittenSince(path.join(tempDir, "missing"), sinceMs)).to.deep.equal([]);
+        });
+    });
+
+    describe("formatFoldingReport", () => {
+        it("should list the broken step, every step and the native queries", () => {
+            const result = formatFoldingReport(
+                {
+                    steps: [
+                        { name: "Source", folded: true },
+                        { name: "Added Index", folded: false, reason: "no index" },
+                    ],
+                    nativeQueries: ["select 1"],
+                    brokenStep: { name: "Added Index", folded: false, reason: "no index" },
+                },
+                { folded: "Folded", notFolded: "Not folded", brokeAt: "Broke at", nativeQuery: "Native query" },
+            );
+
+            expect(result).to.equal(
+                [
+                    "**Broke at Added Index**: no index",
+                    "",
+                    "- Folded `Source`",
+                    "- Not folded `Added Index` (no index)",
+                    "",
+                    "**Native query**",
+                    "",
+                    "```",
+                    "select 1",
+                    "```",
+                ].join("\n"),
+            );
+        });
+    });
+});
@@ -0,0 +1,111 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+import { describe, it } from "mocha";
+import { expect } from "chai";
+
+import {
+    buildHttpMockArgs,
+    collectHttpsHosts,
+    createHttpMockFileName,
+    createHttpMockTestSettings,
+    formatHttpMockMiss,
+    getQueryFileBaseName,
+    parseHttpMockMisses,
+} from "../../../../src/testing/pqtest-adapter/core/httpMock";
+
+describe("httpMock", () => {
+    describe("buildHttpMockArgs", () => {
+        it("should add the mock path and the fail flag when failOnMockMiss is true", () => {
+            const result = buildHttpMockArgs({ mockPath: "c:/mocks", failOnMockMiss: true });
+            expect(result).to.deep.equal(["--httpMockPath", "c:/mocks", "--failOnMockMiss"]);
+        });
+
+        it("should omit the fail flag when failOnMockMiss is false", () => {
+            const result = buildHttpMockArgs({ mockPath: "c:/mocks", failOnMockMiss: false });
+            expect(result).to.deep.equal(["--httpMockPath", "c:/mocks"]);
+        });
+    });
+
+    describe("parseHttpMockMisses", () => {
+        it("should return an empty array for non-array values", () => {
+            const testCases = [undefined, null, "GET https://contoso.com", 42, { url: "https://contoso.com" }];
+
+            for (const value of testCases) {
+                expect(parseHttpMockMisses(value)).to.deep.equal([], `Failed for ${JSON.stringify(value)}`);
+            }
+        });
+
+        it("should drop entries without a string url", () => {
+            const result = parseHttpMockMisses([{ method: "GET" }, null, "x", { url: 1 }, { url: "https://a" }]);
+            expect(result).to.deep.equal([{ method: undefined, url: "https://a", mockFile: undefined }]);
+        });
+
+        it("should normalize method casing and keep the mock file", () => {
+            const result = parseHttpMockMisses([{ method: "post", url: "https://a/b", mockFile: "c:/mocks/b.json" }]);
+            expect(result).to.deep.equal([{ method: "POST", url: "https://a/b", mockFile: "c:/mocks/b.json" }]);
+        });
+    });
+
+    describe("formatHttpMockMiss", () => {
+        it("should prefix the url with the method when present", () => {
+            expect(formatHttpMockMiss({ method: "GET", url: "https://a" })).to.equal("GET https://a");
+        });
+
+        it("should return the url alone when the method is missing", () => {
+            expect(formatHttpMockMiss({ url: "https://a" })).to.equal("https://a");
+        });
+    });
+
+    describe("createHttpMockFileName", () => {
+        it("should pad the index and include method and host", () => {
+            expect(createHttpMockFileName(2, "get", "https://contoso.com/api?x=1")).to.equal(
+                "003_GET_contoso.com.json",
+            );
+        });
+
+        it("should fall back to unknown for invalid urls", () => {
+            expect(createHttpMockFileName(0, "POST", "not a url")).to.equal("001_POST_unknown.json");
+        });
+    });
+
+    describe("getQueryFileBaseName", () => {
+        it("should strip .query.pq and .pq extensions", () => {
+            const testCases = [
+                { fileName: "Contoso.query.pq", expected: "Contoso" },
+                { fileName: "Contoso.pq", expected: "Contoso" },
+                { fileName: "Contoso.QUERY.PQ", expected: "Contoso" },
+                { fileName: "Contoso.m", expected: "Contoso.m" },
+            ];
+
+            for (const { fileName, expected } of testCases) {
+                expect(getQueryFileBaseName(fileName)).to.equal(expected, `Failed for "${fileName}"`);
+            }
+        });
+    });
+
+    describe("createHttpMockTestSettings", () => {
+        it("should point at the query file and mock folder relative to the settings file", () => {
+            expect(createHttpMockTestSettings("Contoso.query.pq", "Contoso.mocks")).to.deep.equal({
+                QueryFilePath: "./Contoso.query.pq",
+                HttpMockPath: "./Contoso.mocks",
+                FailOnMockMiss: true,
+            });
+        });
+    });
+
+    describe("collectHttpsHosts", () => {
+        it("should collect the distinct hosts of https urls only", () => {
+            expect(
+                collectHttpsHosts([
+                    'Web.Contents("https://api.contoso.com/v1?x=1") & Web.Contents("https://API.contoso.com:8443")',
+                    'OData.Feed("http://plain.contoso.com/odata") & Web.Contents("https://login.contoso.com/token")',
+                ]),
+            ).to.deep.equal(["api.contoso.com", "login.contoso.com"]);
+        });
+    });
+});
@@ -0,0 +1,100 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+import { describe, it } from "mocha";
+import { expect } from "chai";
+
+import {
+    groupMashupTraceEvents,
+    isSlowMashupTraceDuration,
+    parseMashupTrace,
+    parseMashupTraceLine,
+    parseTraceDuration,
+} from "../../../../src/testing/pqtest-adapter/core/mashupTrace";
+
+describe("mashupTrace", () => {
+    describe("parseTraceDuration", () => {
+        it("should convert time spans and numbers into milliseconds", () => {
+            const testCases: [unknown, number | undefined][] = [
+                ["00:00:01.5", 1500],
+                ["00:01:00", 60000],
+                ["1.00:00:00", 86400000],
+                [12.5, 12.5],
+                ["soon", undefined],
+                ["00:00", undefined],
+                [undefined, undefined],
+            ];
+
+            for (const [value, expected] of testCases) {
+                expect(parseTraceDuration(value)).to.equal(expected, `Failed for ${JSON.stringify(value)}`);
+            }
+        });
+    });
+
+    describe("parseMashupTraceLine", () => {
+        it("should parse prefixed events", () => {
+            const result = parseMashupTraceLine(
+                'DataMashup.Trace Error: 24579 : {"Action":"Engine/Evaluate","ActivityId":"a1","Duration":"00:00:00.25"}',
+                3,
+            );
+
+            expect(result).to.include({
+                lineNumber: 3,
+                level: "Error",
+                action: "Engine/Evaluate",
+                activityId: "a1",
+                step: "",
+                durationMs: 250,
+                isError: true,
+            });
+        });
+
+        it("should flag events carrying an exception as errors", () => {
+            const result = parseMashupTraceLine('{"Action":"Fetch","Exception":"Timeout"}', 1);
+            expect(result?.isError).to.equal(true);
+            expect(result?.exception).to.equal("Timeout");
+        });
+
+        it("should skip lines without a json object", () => {
+            expect(parseMashupTraceLine("Trace started", 1)).to.equal(undefined);
+            expect(parseMashupTraceLine("Trace {broken", 1)).to.equal(undefined);
+        });
+    });
+
+    describe("groupMashupTraceEvents", () => {
+        it("should group by activity id and query step in order of appearance", () => {
+            const events = parseMashupTrace(
+                [
+                    '{"ActivityId":"a1","Step":"Source","Action":"Open","Duration":"00:00:00.1"}',
+                    '{"ActivityId":"a2","Action":"Other"}',
+                    '{"ActivityId":"a1","Step":"Filtered","Action":"Fold","Exception":"Cannot fold"}',
+                    '{"ActivityId":"a1","Step":"Source","Action":"Read","Duration":"00:00:02"}',
+                ].join("\r\n"),
+            );
+
+            const result = groupMashupTraceEvents(events);
+
+            expect(result.map(activity => activity.activityId)).to.deep.equal(["a1", "a2"]);
+            expect(result[0].steps.map(step => [step.step, step.events.length])).to.deep.equal([
+                ["Source", 2],
+                ["Filtered", 1],
+            ]);
+            expect(result[0].durationMs).to.equal(2000);
+            expect(result[0].hasError).to.equal(true);
+            expect(result[1].hasError).to.equal(false);
+        });
+    });
+
+    describe("isSlowMashupTraceDuration", () => {
+        it("should compare against the threshold", () => {
+            expect(isSlowMashupTraceDuration(1000)).to.equal(true);
+            expect(isSlowMashupTraceDuration(999)).to.equal(false);
+            expect(isSlowMashupTraceDuration(undefined)).to.equal(false);
+            expect(isSlowMashupTraceDuration(50, 10)).to.equal(true);
+        });
+    });
+});
@@ -0,0 +1,166 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+import * as path from "path";
+import { describe, it } from "mocha";
+import { expect } from "chai";
+
+import {
+    createSecretName,
+    generateTestCredentials,
+    listSecretReferences,
+    mergeTestCredentials,
+    resolveSecretReferences,
+    resolveSettingsPaths,
+    SettingsPathFields,
+} from "../../../../src/testing/pqtest-adapter/core/testCredentials";
+import type { ExtensionInfo } from "../../../../src/common/PQTestService";
+import userSettingsSchema from "../../../../schemas/UserSettings.schema.json";
+
+function createExtensionInfo(dataSourceKind: string, authenticationInfos: Array<[string, unknown[]]>): ExtensionInfo {
+    return {
+        Name: dataSourceKind,
+        DataSources: [
+            {
+                DataSourceKind: dataSourceKind,
+                AuthenticationInfos: authenticationInfos.map(([kind, properties]: [string, unknown[]]) => ({
+                    Kind: kind,
+                    Properties: properties,
+                    ApplicationProperties: [],
+                })),
+            },
+        ],
+    } as unknown as ExtensionInfo;
+}
+
+describe("testCredentials", () => {
+    describe("generateTestCredentials", () => {
+        it("should reference each property of the supported kinds as a secret", () => {
+            const result = generateTestCredentials(
+                [
+                    createExtensionInfo("Conn", [
+                        ["Aad", ["ClientId", { Name: "CertificateThumbprint" }]],
+                        ["Anonymous", []],
+                        ["Key", ["Key"]],
+                    ]),
+                ],
+                "secretStorage",
+            );
+
+            expect(result.testCredentials).to.deep.equal([
+                {
+                    Kind: "Conn",
+                    Pattern: "*",
+                    Type: "MsalCertificate",
+                    Settings: {
+                        ClientId: "${secret:Conn.ClientId}",
+                        CertificateThumbprint: "${secret:Conn.CertificateThumbprint}",
+                    },
+                },
+                { Kind: "Conn", Pattern: "*", Type: "Anonymous" },
+            ]);
+
+            expect(result.secretReferences).to.deep.equal([
+                { store: "secretStorage", name: "Conn.ClientId" },
+                { store: "secretStorage", name: "Conn.CertificateThumbprint" },
+            ]);
+
+            expect(result.unsupportedKinds).to.deep.equal([{ dataSourceKind: "Conn", authenticationKind: "Key" }]);
+        });
+
+        it("should name environment variables after the kind and the setting", () => {
+            expect(createSecretName("environment", "My.Conn", "ClientId")).to.equal("PQ_MY_CONN_CLIENTID");
+        });
+    });
+
+    describe("mergeTestCredentials", () => {
+        it("should keep existing credentials of the same kind and type", () => {
+            const existing = [{ Kind: "Conn", Type: "Anonymous" as const, Path: "https://contoso.com/" }];
+
+            expect(
+                mergeTestCredentials(existing, [
+                    { Kind: "Conn", Pattern: "*", Type: "Anonymous" },
+                    { Kind: "Conn", Pattern: "*", Type: "Windows" },
+                ]),
+            ).to.deep.equal([...existing, { Kind: "Conn", Pattern: "*", Type: "Windows" }]);
+        });
+    });
+
+    describe("resolveSecretReferences", () => {
+        it("should replace the references having values and report the others", () => {
+            const testCredentials = [{ Settings: { ClientId: "${secret:Conn.ClientId}", Tenant: "${env:PQ_TENANT}" } }];
+
+            expect(listSecretReferences(testCredentials)).to.deep.equal([
+                { store: "secretStorage", name: "Conn.ClientId" },
+                { store: "environment", name: "PQ_TENANT" },
+            ]);
+
+            expect(
+                resolveSecretReferences(testCredentials, new Map([["${secret:Conn.ClientId}", "client"]])),
+            ).to.deep.equal({
+                value: [{ Settings: { ClientId: "client", Tenant: "${env:PQ_TENANT}" } }],
+                missingReferences: ["${env:PQ_TENANT}"],
+            });
+        });
+    });
+
+    describe("resolveSettingsPaths", () => {
+        it("should make relative paths absolute and leave variables alone", () => {
+            const settingsFolder: string = path.resolve("settings");
+
+            expect(
+                resolveSettingsPaths(
+                    {
+                        QueryFilePath: "queries",
+                        OutputFolderPath: "${workspaceFolder}/out",
+                        ExtensionPaths: ["../bin/Conn.mez"],
+                    },
+                    settingsFolder,
+                ),
+            ).to.deep.equal({
+                QueryFilePath: path.join(settingsFolder, "queries"),
+                OutputFolderPath: "${workspaceFolder}/out",
+                ExtensionPaths: [path.resolve(settingsFolder, "../bin/Conn.mez")],
+            });
+        });
+
+        it("should resolve the listed path settings only", () => {
+            const settingsFolder: string = path.resolve("settings");
+
+            expect(
+                resolveSettingsPaths(
+                    { DataSourceAnalysisFile: "analysis/Conn.json", DataSourcePath: "server;db" },
+                    settingsFolder,
+                ),
+            ).to.deep.equal({
+                DataSourceAnalysisFile: path.join(settingsFolder, "analysis/Conn.json"),
+                DataSourcePath: "server;db",
+            });
+        });
+
+        it("should resolve test filters and output folders against the original settings folder", () => {
+            const settingsFolder: string = path.resolve("settings");
+
+            expect(
+                resolveSettingsPaths(
+                    { TestFilters: ["queries/**/*.query.pq", "!queries/slow/*"], OutputFolderPath: "out" },
+                    settingsFolder,
+                ),
+            ).to.deep.equal({
+                TestFilters: [
+                    path.join(settingsFolder, "queries/**/*.query.pq"),
+                    `!${path.join(settingsFolder, "queries/slow/*")}`,
+                ],
+                OutputFolderPath: path.join(settingsFolder, "out"),
+            });
+        });
+
+        it("should only list settings of the schema", () => {
+            expect(Object.keys(userSettingsSchema.properties)).to.include.members([...SettingsPathFields]);
+        });
+    });
+});
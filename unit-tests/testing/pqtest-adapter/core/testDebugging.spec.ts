@@ -0,0 +1,42 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+import { describe, it } from "mocha";
+import { expect } from "chai";
+
+import { buildDebugTestArgs, extractTestEventLines } from "../../../../src/testing/pqtest-adapter/core/testDebugging";
+
+describe("testDebugging", () => {
+    describe("buildDebugTestArgs", () => {
+        it("should apply the settings file and filter the test", () => {
+            expect(buildDebugTestArgs("c:/tests/a.testsettings.json", "folder/a.query.pq")).to.deep.equal([
+                "--settingsFile",
+                "c:/tests/a.testsettings.json",
+                "--testFilter",
+                "folder/a.query.pq",
+            ]);
+        });
+    });
+
+    describe("extractTestEventLines", () => {
+        it("should keep the test event lines only, even when split across chunks", () => {
+            const output: string[] = [
+                "[10:00:00]\t[Info]\tPQTest.exe began\n",
+                'runStart:{"tests":["c:/a.query.pq"]}\r\ntestStart:{"filePath":"c:/a.query.pq"}\ntestE',
+                'nd:{"filePath":"c:/a.query.pq","status":"Passed"}\n',
+                'runEnd:{"passed":1,"failed":0}\n',
+            ];
+
+            expect(extractTestEventLines(output)).to.deep.equal([
+                'runStart:{"tests":["c:/a.query.pq"]}',
+                'testStart:{"filePath":"c:/a.query.pq"}',
+                'testEnd:{"filePath":"c:/a.query.pq","status":"Passed"}',
+                'runEnd:{"passed":1,"failed":0}',
+            ]);
+        });
+    });
+});
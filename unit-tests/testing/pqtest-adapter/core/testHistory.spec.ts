@@ -0,0 +1,111 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+import { describe, it } from "mocha";
+import { expect } from "chai";
+
+import {
+    appendTestHistoryEntry,
+    getDurationTrend,
+    getFailedTestIds,
+    isFlakyTest,
+    MAX_TEST_HISTORY_ENTRIES,
+    TestHistory,
+    TestHistoryEntry,
+    TestHistoryStatus,
+} from "../../../../src/testing/pqtest-adapter/core/testHistory";
+
+function createEntry(
+    status: TestHistoryStatus,
+    durationMs: number = 1000,
+    queryHash: string = "query",
+): TestHistoryEntry {
+    return {
+        status,
+        durationMs,
+        timestamp: "2026-10-19T12:00:00.000Z",
+        pqTestVersion: "2.140.2",
+        mezHash: "mez",
+        queryHash,
+    };
+}
+
+describe("testHistory", () => {
+    describe("appendTestHistoryEntry", () => {
+        it("should keep the latest entries of each test only", () => {
+            let history: TestHistory = {};
+
+            for (let index: number = 0; index < MAX_TEST_HISTORY_ENTRIES + 5; index++) {
+                history = appendTestHistoryEntry(history, "a", createEntry("Passed", index));
+            }
+
+            expect(history["a"].length).to.equal(MAX_TEST_HISTORY_ENTRIES);
+            expect(history["a"][0].durationMs).to.equal(5);
+        });
+    });
+
+    describe("getFailedTestIds", () => {
+        it("should list the tests whose latest result is not a pass", () => {
+            const history: TestHistory = {
+                fixed: [createEntry("Failed"), createEntry("Passed")],
+                failing: [createEntry("Passed"), createEntry("Failed")],
+                erroring: [createEntry("Error")],
+            };
+
+            expect(getFailedTestIds(history)).to.deep.equal(["failing", "erroring"]);
+        });
+    });
+
+    describe("isFlakyTest", () => {
+        it("should flag tests which both passed and failed with identical inputs", () => {
+            expect(isFlakyTest([createEntry("Passed"), createEntry("Failed"), createEntry("Passed")])).to.equal(true);
+        });
+
+        it("should not flag tests whose query changed in between", () => {
+            expect(isFlakyTest([createEntry("Failed", 1000, "before"), createEntry("Passed", 1000, "after")])).to.equal(
+                false,
+            );
+
+            expect(isFlakyTest([createEntry("Failed"), createEntry("Error")])).to.equal(false);
+        });
+
+        it("should not flag tests which failed live but passed with mocks", () => {
+            const mockedEntry: TestHistoryEntry = { ...createEntry("Passed"), httpMockPath: "c:/mocks" };
+
+            expect(isFlakyTest([createEntry("Failed"), mockedEntry])).to.equal(false);
+            expect(isFlakyTest([{ ...createEntry("Failed"), httpMockPath: "c:/mocks" }, mockedEntry])).to.equal(true);
+        });
+
+        it("should not compare results missing a hash", () => {
+            const unhashedEntry = (status: TestHistoryStatus): TestHistoryEntry => ({
+                ...createEntry(status),
+                mezHash: undefined,
+            });
+
+            expect(isFlakyTest([unhashedEntry("Failed"), unhashedEntry("Passed")])).to.equal(false);
+        });
+    });
+
+    describe("getDurationTrend", () => {
+        it("should tell when the latest run took much longer than the median of the passing ones", () => {
+            const entries: TestHistoryEntry[] = [1000, 1200, 900, 1100, 1000].map((durationMs: number) =>
+                createEntry("Passed", durationMs),
+            );
+
+            expect(getDurationTrend([...entries, createEntry("Passed", 1400)])).to.equal(undefined);
+
+            expect(getDurationTrend([...entries, createEntry("Failed", 3000)])).to.deep.equal({
+                durationMs: 3000,
+                medianDurationMs: 1000,
+            });
+        });
+
+        it("should wait for enough samples", () => {
+            expect(getDurationTrend([createEntry("Passed", 100), createEntry("Passed", 5000)])).to.equal(undefined);
+        });
+    });
+});
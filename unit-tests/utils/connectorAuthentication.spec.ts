@@ -0,0 +1,141 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+import { describe, it } from "mocha";
+import { expect } from "chai";
+
+import {
+    addAuthenticationKind,
+    AddAuthenticationKindResult,
+    addResourceStrings,
+    ConnectorAuthenticationError,
+    findDataSourceKinds,
+    withAuthenticationKind,
+} from "../../src/utils/connectorAuthentication";
+import type { ExtensionInfo } from "../../src/common/PQTestService";
+
+const connectorText: string = `section Conn;
+
+[DataSource.Kind="Conn", Publish="Conn.Publish"]
+shared Conn.Contents = (optional message as text) => "[not a record]";
+
+// Data Source Kind description
+Conn = [
+    Authentication = [
+        // Key = [],
+        // UsernamePassword = [],
+        // Windows = [],
+        Anonymous = []
+    ],
+    Label = Extension.LoadString("DataSourceLabel")
+];
+`;
+
+describe("connectorAuthentication", () => {
+    describe("findDataSourceKinds", () => {
+        it("should list the authentication kinds which are not commented out", () => {
+            expect(findDataSourceKinds(connectorText)).to.deep.equal([
+                { name: "Conn", authenticationKinds: ["Anonymous"] },
+            ]);
+        });
+
+        it("should skip data source kinds without records", () => {
+            expect(findDataSourceKinds('[DataSource.Kind="Other"]\nshared Other.Contents = () => 1;')).to.deep.equal(
+                [],
+            );
+        });
+    });
+
+    describe("addAuthenticationKind", () => {
+        it("should replace the commented out declaration of the kind", () => {
+            const result: AddAuthenticationKindResult = addAuthenticationKind(connectorText, "Conn", "Key");
+
+            expect(result.connectorText).to.include(`    Authentication = [
+        // UsernamePassword = [],
+        // Windows = [],
+        Anonymous = [],
+        Key = [
+            KeyLabel = Extension.LoadString("KeyLabel")
+        ]
+    ],`);
+
+            expect(result.resources).to.deep.equal({ KeyLabel: "API key" });
+            expect(result.generatedFunctions).to.deep.equal([]);
+            expect(findDataSourceKinds(result.connectorText)[0].authenticationKinds).to.deep.equal([
+                "Anonymous",
+                "Key",
+            ]);
+        });
+
+        it("should generate the stub functions of OAuth which are not defined yet", () => {
+            const result: AddAuthenticationKindResult = addAuthenticationKind(
+                `${connectorText}\nConn.Refresh = (resourceUrl, refreshToken) => [];\n`,
+                "Conn",
+                "OAuth",
+            );
+
+            expect(result.connectorText).to.include("        Refresh = Conn.Refresh\n");
+            expect(result.generatedFunctions).to.deep.equal(["Conn.StartLogin", "Conn.FinishLogin"]);
+            expect(result.connectorText).to.match(/^Conn\.StartLogin = \(resourceUrl, state, display\) =>$/m);
+            expect(result.connectorText).to.match(/^Conn\.FinishLogin = \(context, callbackUri, state\) =>$/m);
+        });
+
+        it("should add the authentication record to records lacking one", () => {
+            const result: AddAuthenticationKindResult = addAuthenticationKind(
+                '[DataSource.Kind="Conn"]\nshared Conn.Contents = () => 1;\n\nConn = [\n    Label = "Conn"\n];\n',
+                "Conn",
+                "Windows",
+            );
+
+            expect(result.connectorText).to.include(
+                'Conn = [\n    Authentication = [\n        Windows = []\n    ],\n    Label = "Conn"\n];',
+            );
+        });
+
+        it("should reject kinds which are declared already or records which are missing", () => {
+            expect(() => addAuthenticationKind(connectorText, "Conn", "Anonymous")).to.throw(
+                ConnectorAuthenticationError,
+            );
+
+            expect(() => addAuthenticationKind(connectorText, "Missing", "Key")).to.throw(ConnectorAuthenticationError);
+        });
+    });
+
+    describe("addResourceStrings", () => {
+        it("should add the strings which are missing before the root closes", () => {
+            const resxText: string = '<root>\n  <data name="KeyLabel" xml:space="preserve">\n  </data>\n</root>';
+
+            expect(addResourceStrings(resxText, { KeyLabel: "API key", UsernameLabel: "User & name" })).to.equal(
+                '<root>\n  <data name="KeyLabel" xml:space="preserve">\n  </data>\n' +
+                    '  <data name="UsernameLabel" xml:space="preserve">\n    <value>User &amp; name</value>\n  </data>\n' +
+                    "</root>",
+            );
+        });
+    });
+
+    describe("withAuthenticationKind", () => {
+        it("should add the kind to the matching data sources only", () => {
+            const extensionInfos: ExtensionInfo[] = [
+                {
+                    DataSources: [
+                        { DataSourceKind: "Conn", AuthenticationInfos: [] },
+                        { DataSourceKind: "Other", AuthenticationInfos: [] },
+                    ],
+                } as unknown as ExtensionInfo,
+            ];
+
+            const result: ExtensionInfo[] = withAuthenticationKind(extensionInfos, "Conn", "Key");
+
+            expect(result[0].DataSources[0].AuthenticationInfos).to.deep.equal([
+                { Kind: "Key", Properties: [], ApplicationProperties: [] },
+            ]);
+
+            expect(result[0].DataSources[1].AuthenticationInfos).to.deep.equal([]);
+            expect(extensionInfos[0].DataSources[0].AuthenticationInfos).to.deep.equal([]);
+        });
+    });
+});
@@ -0,0 +1,147 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+import { describe, it } from "mocha";
+import { expect } from "chai";
+
+import {
+    classifyConnectorProjectFile,
+    ConnectorProject,
+    discoverConnectorProjects,
+    findConnectorProjectOf,
+    getExpectedMezFile,
+    getPrimaryMezFile,
+    getPrimaryQueryFile,
+} from "../../src/utils/connectorProjects";
+
+describe("connectorProjects", () => {
+    describe("classifyConnectorProjectFile", () => {
+        it("should tell the kind of connector files", () => {
+            const testCases: [string, string | undefined][] = [
+                ["Conn.pq", "sectionFile"],
+                ["Conn.query.pq", "queryFile"],
+                ["tests/Conn.Test.pq", "queryFile"],
+                ["Conn.parameterquery.pq", "queryFile"],
+                ["Conn.proj", "projectFile"],
+                ["Conn.mproj", "projectFile"],
+                ["resources.resx", "resources"],
+                ["Conn16.png", "icon"],
+                ["tests\\smoke.testsettings.json", "testSettings"],
+                ["bin/AnyCPU/Debug/Conn.mez", "mez"],
+                ["package.json", undefined],
+            ];
+
+            for (const [relativePath, expected] of testCases) {
+                expect(classifyConnectorProjectFile(relativePath)).to.equal(expected, `Failed for ${relativePath}`);
+            }
+        });
+    });
+
+    describe("discoverConnectorProjects", () => {
+        it("should gather the files of a project at the workspace root", () => {
+            const result = discoverConnectorProjects(
+                [
+                    "Conn.query.pq",
+                    "Conn.pq",
+                    "Conn.proj",
+                    "resources.resx",
+                    "Conn16.png",
+                    "tests\\smoke.testsettings.json",
+                    "bin/AnyCPU/Debug/Conn.mez",
+                    "bin/AnyCPU/Debug/resources.resx",
+                    "package.json",
+                ],
+                "workspace",
+            );
+
+            expect(result).to.deep.equal([
+                {
+                    name: "Conn",
+                    rootPath: "",
+                    sectionFile: "Conn.pq",
+                    projectFile: "Conn.proj",
+                    resourceFiles: ["resources.resx"],
+                    iconFiles: ["Conn16.png"],
+                    queryFiles: ["Conn.query.pq"],
+                    testSettingsFiles: ["tests/smoke.testsettings.json"],
+                    mezFiles: ["bin/AnyCPU/Debug/Conn.mez"],
+                },
+            ]);
+        });
+
+        it("should split nested connectors and leave out files beyond any project", () => {
+            const result = discoverConnectorProjects(
+                [
+                    "readme.pq.txt",
+                    "First/First.pq",
+                    "First/First.query.pq",
+                    "Second/Second.mproj",
+                    "Second/Other.pq",
+                    "Second/Second.pq",
+                    "Second/queries/Second.query.pq",
+                    "Loose.query.pq",
+                ],
+                "workspace",
+            );
+
+            expect(
+                result.map((project: ConnectorProject) => [
+                    project.name,
+                    project.rootPath,
+                    project.sectionFile,
+                    project.queryFiles,
+                ]),
+            ).to.deep.equal([
+                ["First", "First", "First/First.pq", ["First/First.query.pq"]],
+                ["Second", "Second", "Second/Second.pq", ["Second/queries/Second.query.pq"]],
+            ]);
+        });
+
+        it("should name a project without project file after its section file", () => {
+            const result = discoverConnectorProjects(["Conn.pq"], "workspace");
+
+            expect(result.map((project: ConnectorProject) => project.name)).to.deep.equal(["Conn"]);
+        });
+    });
+
+    describe("findConnectorProjectOf", () => {
+        it("should find the innermost project holding the file", () => {
+            const projects = discoverConnectorProjects(["Root.pq", "Nested/Nested.proj"], "workspace");
+
+            expect(findConnectorProjectOf(projects, "Nested/tests/a.query.pq")?.name).to.equal("Nested");
+            expect(findConnectorProjectOf(projects, "other/a.query.pq")?.name).to.equal("Root");
+        });
+    });
+
+    describe("primary files", () => {
+        const project: ConnectorProject = {
+            name: "Conn",
+            rootPath: "Conn",
+            resourceFiles: [],
+            iconFiles: [],
+            queryFiles: ["Conn/a.parameterquery.pq", "Conn/b.query.pq", "Conn/tests/Conn.query.pq"],
+            testSettingsFiles: [],
+            mezFiles: ["Conn/bin/AnyCPU/Release/Conn.mez", "Conn/bin/AnyCPU/Debug/Conn.mez"],
+        };
+
+        it("should prefer the query file named after the project", () => {
+            expect(getPrimaryQueryFile(project)).to.equal("Conn/tests/Conn.query.pq");
+
+            expect(getPrimaryQueryFile({ ...project, name: "Other" })).to.equal("Conn/b.query.pq");
+        });
+
+        it("should prefer the debug build of the project", () => {
+            expect(getPrimaryMezFile(project)).to.equal("Conn/bin/AnyCPU/Debug/Conn.mez");
+            expect(getPrimaryMezFile({ ...project, mezFiles: [] })).to.equal(undefined);
+        });
+
+        it("should expect the debug build beneath the project root", () => {
+            expect(getExpectedMezFile(project)).to.equal("Conn/bin/AnyCPU/Debug/Conn.mez");
+            expect(getExpectedMezFile({ ...project, rootPath: "" })).to.equal("bin/AnyCPU/Debug/Conn.mez");
+        });
+    });
+});
@@ -0,0 +1,191 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import { afterEach, beforeEach, describe, it } from "mocha";
+import { expect } from "chai";
+
+import {
+    groupIssuesByCheck,
+    lintConnector,
+    parseResourceNames,
+    ReadinessFix,
+    ReadinessIssue,
+} from "../../src/utils/connectorReadiness";
+import { findProjectTemplates, generateProjectFromTemplate, ProjectTemplate } from "../../src/utils/projectTemplates";
+import { replaceAt } from "../../src/utils/strings";
+import type { ExtensionInfo } from "../../src/common/PQTestService";
+
+const builtInTemplatesFolder: string = path.resolve(__dirname, "..", "..", "templates");
+
+const connectorText: string = `section Conn;
+
+[DataSource.Kind="Conn"]
+shared Conn.Contents = (url as text) => Web.Contents(url);
+
+Conn = [
+    Authentication = [],
+    Label = Extension.LoadString("DataSourceLabel")
+];
+`;
+
+function applyFix(text: string, fix: ReadinessFix): string {
+    return [...fix.replacements]
+        .sort((left: { offset: number }, right: { offset: number }) => right.offset - left.offset)
+        .reduce(
+            (result: string, oneReplacement: { offset: number; length: number; text: string }) =>
+                replaceAt(result, oneReplacement.offset, oneReplacement.length, oneReplacement.text),
+            text,
+        );
+}
+
+function rulesOf(issues: ReadonlyArray<ReadinessIssue>): string[] {
+    return issues.map((oneIssue: ReadinessIssue) => oneIssue.rule);
+}
+
+describe("connectorReadiness", () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+        tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "pq-sdk-test-"));
+    });
+
+    afterEach(async () => {
+        if (tempDir) {
+            await fs.promises.rm(tempDir, { recursive: true, force: true });
+        }
+    });
+
+    describe("lintConnector", () => {
+        it("should report every missing item of a bare connector", () => {
+            const issues: ReadinessIssue[] = lintConnector({ connectorText, projectFiles: [] });
+
+            expect(rulesOf(issues)).to.deep.equal([
+                "missingVersion",
+                "missingPublishAttribute",
+                "missingPublishRecord",
+                "missingTestConnection",
+                "missingAuthentication",
+                "missingResourcesFile",
+            ]);
+        });
+
+        it("should pass a connector generated from a built-in template", () => {
+            const template: ProjectTemplate = findProjectTemplates(
+                path.join(builtInTemplatesFolder, "gallery"),
+                true,
+            ).find((oneTemplate: ProjectTemplate) => oneTemplate.id === "oauth2") as ProjectTemplate;
+
+            const projectFiles: string[] = generateProjectFromTemplate(
+                builtInTemplatesFolder,
+                template,
+                tempDir,
+                "Conn",
+            );
+
+            const issues: ReadinessIssue[] = lintConnector({
+                connectorText: fs.readFileSync(path.join(tempDir, "Conn.pq"), "utf8"),
+                resourceNames: parseResourceNames(fs.readFileSync(path.join(tempDir, "resources.resx"), "utf8")),
+                projectFiles,
+            });
+
+            expect(issues).to.deep.equal([]);
+        });
+
+        it("should fix what it reports, one fix after another like quick fixes do", () => {
+            const projectFiles: string[] = [16, 20, 24, 32, 40, 48, 64].map((oneSize: number) => `Conn${oneSize}.png`);
+            const resourceNames: string[] = ["DataSourceLabel"];
+            let fixedText: string = connectorText;
+            let fixableIssue: ReadinessIssue | undefined;
+
+            while (
+                (fixableIssue = lintConnector({ connectorText: fixedText, projectFiles, resourceNames }).find(
+                    (oneIssue: ReadinessIssue) => oneIssue.fix,
+                ))
+            ) {
+                fixedText = applyFix(fixedText, fixableIssue.fix as ReadinessFix);
+                resourceNames.push(...Object.keys(fixableIssue.fix?.resources ?? {}));
+            }
+
+            expect(fixedText).to.include('[Version = "1.0.0"]\nsection Conn;');
+            expect(fixedText).to.include('[DataSource.Kind="Conn", Publish="Conn.Publish"]');
+            expect(fixedText).to.include(
+                '    TestConnection = (dataSourcePath) => { "Conn.Contents", dataSourcePath }\n];',
+            );
+
+            expect(fixedText).to.include("\nConn.Icons = [\n    Icon16 = {");
+            expect(resourceNames).to.include.members(["ButtonTitle", "ButtonHelp"]);
+
+            expect(rulesOf(lintConnector({ connectorText: fixedText, projectFiles, resourceNames }))).to.deep.equal([
+                "missingAuthentication",
+            ]);
+        });
+
+        it("should point at missing icon files and resource strings", () => {
+            const issues: ReadinessIssue[] = lintConnector({
+                connectorText: `[Version = "1.0"]
+section Conn;
+
+[DataSource.Kind="Conn", Publish="Conn.Publish"]
+shared Conn.Contents = () => 1;
+
+Conn = [TestConnection = (path) => { "Conn.Contents" }, Authentication = [Anonymous = []]];
+
+Conn.Publish = [
+    Category = "Other",
+    ButtonText = { Extension.LoadString("ButtonTitle"), "Help" },
+    LearnMoreUrl = "https://powerbi.microsoft.com/",
+    SourceImage = Conn.Icons,
+    SourceTypeImage = Conn.Icons
+];
+
+Conn.Icons = [
+    Icon16 = { Extension.Contents("Conn16.png"), Extension.Contents("Conn20.png") }
+];
+`,
+                projectFiles: ["conn16.png"],
+                resourceNames: [],
+            });
+
+            expect(
+                issues.map((oneIssue: ReadinessIssue) => [oneIssue.rule, oneIssue.severity, oneIssue.data]),
+            ).to.deep.equal([
+                ["invalidVersion", "warning", { version: "1.0" }],
+                ["missingIconSize", "warning", { field: "Icon16", count: "4" }],
+                ["missingIconSize", "warning", { field: "Icon32", count: "4" }],
+                ["missingIconFile", "error", { file: "Conn20.png" }],
+                ["missingResourceString", "error", { name: "ButtonTitle" }],
+            ]);
+        });
+
+        it("should report the errors of the extension infos", () => {
+            const issues: ReadinessIssue[] = lintConnector({
+                connectorText: "section Conn;",
+                projectFiles: [],
+                extensionInfos: [{ ErrorStatus: "Expression.Error" } as unknown as ExtensionInfo],
+            });
+
+            expect(rulesOf(issues)).to.deep.equal(["missingVersion", "extensionInfoError"]);
+            expect(lintConnector({ connectorText: "let a = 1 in a", projectFiles: [] })).to.deep.equal([]);
+        });
+    });
+
+    describe("groupIssuesByCheck", () => {
+        it("should list every check even without issues", () => {
+            const groups: Array<{ check: string; issues: ReadinessIssue[] }> = groupIssuesByCheck(
+                lintConnector({ connectorText: "section Conn;", projectFiles: [] }),
+            );
+
+            expect(groups.map((oneGroup: { check: string }) => oneGroup.check)).to.have.lengthOf(8);
+            expect(groups[0].issues).to.have.lengthOf(1);
+            expect(groups[1].issues).to.have.lengthOf(0);
+        });
+    });
+});
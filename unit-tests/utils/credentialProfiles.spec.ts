@@ -0,0 +1,96 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+import { describe, it } from "mocha";
+import { expect } from "chai";
+
+import {
+    createProfileCredentialPayload,
+    CredentialProfile,
+    findCredentialsOfOtherProfiles,
+    getProfileDataSource,
+    parseCredentialProfiles,
+} from "../../src/utils/credentialProfiles";
+import type { Credential } from "../../src/common/PQTestService";
+
+function createProfile(name: string, dataSourcePath: string): CredentialProfile {
+    return {
+        name,
+        dataSourceKind: "Conn",
+        dataSourcePath,
+        authenticationKind: "Key",
+        privacySetting: "None",
+        properties: { Key: `\${secret:Conn.${name}.Key}` },
+    };
+}
+
+function createCredential(kind: string, path: string): Credential {
+    return { DataSource: { kind, path }, AuthenticationKind: "Key", PrivacySetting: "None", Properties: {} };
+}
+
+describe("credentialProfiles", () => {
+    describe("parseCredentialProfiles", () => {
+        it("should drop invalid and duplicated profiles and default the privacy setting", () => {
+            expect(
+                parseCredentialProfiles([
+                    { name: "dev", dataSourceKind: "Conn", authenticationKind: "Key", properties: { Key: "k", n: 1 } },
+                    { name: "dev", dataSourceKind: "Conn", authenticationKind: "Anonymous" },
+                    { name: "test", dataSourceKind: "Conn" },
+                    null,
+                ]),
+            ).to.deep.equal([
+                {
+                    name: "dev",
+                    dataSourceKind: "Conn",
+                    dataSourcePath: "",
+                    authenticationKind: "Key",
+                    privacySetting: "None",
+                    properties: { Key: "k" },
+                },
+            ]);
+
+            expect(parseCredentialProfiles(undefined)).to.deep.equal([]);
+        });
+    });
+
+    describe("getProfileDataSource", () => {
+        it("should default the path to the kind", () => {
+            expect(getProfileDataSource(createProfile("dev", ""))).to.deep.equal({ kind: "Conn", path: "Conn" });
+        });
+    });
+
+    describe("createProfileCredentialPayload", () => {
+        it("should set the resolved properties with the privacy setting of the profile", () => {
+            expect(
+                JSON.parse(createProfileCredentialPayload(createProfile("dev", "https://dev/"), { Key: "secret" })),
+            ).to.deep.equal({
+                AuthenticationKind: "Key",
+                AuthenticationProperties: { Key: "secret" },
+                PrivacySetting: "None",
+                Permissions: [],
+            });
+        });
+    });
+
+    describe("findCredentialsOfOtherProfiles", () => {
+        it("should find the credentials of the other environments of the data source kind only", () => {
+            const profiles: CredentialProfile[] = [
+                createProfile("dev", "https://dev/"),
+                createProfile("prod", "https://prod/"),
+            ];
+
+            const credentials: Credential[] = [
+                createCredential("Conn", "https://dev/"),
+                createCredential("Conn", "https://prod/"),
+                createCredential("Web", "https://prod/"),
+                createCredential("Conn", "https://other/"),
+            ];
+
+            expect(findCredentialsOfOtherProfiles(profiles, profiles[0], credentials)).to.deep.equal([credentials[1]]);
+        });
+    });
+});
@@ -0,0 +1,93 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+import { describe, it } from "mocha";
+import { expect } from "chai";
+
+import {
+    createCredentialPayload,
+    CredentialGroup,
+    getCredentialExpiry,
+    getMissingCredentialSecrets,
+    groupCredentialsByDataSourceKind,
+    isRefreshableCredential,
+} from "../../src/utils/credentials";
+import type { Credential } from "../../src/common/PQTestService";
+
+function createCredential(
+    kind: string,
+    path: string,
+    authenticationKind: string,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    properties: Record<string, any> = {},
+): Credential {
+    return {
+        DataSource: { kind, path },
+        AuthenticationKind: authenticationKind,
+        PrivacySetting: "None",
+        Properties: properties,
+    };
+}
+
+describe("credentials", () => {
+    describe("groupCredentialsByDataSourceKind", () => {
+        it("should group credentials by kind and sort them by path", () => {
+            const groups: CredentialGroup[] = groupCredentialsByDataSourceKind([
+                createCredential("Web", "https://b.contoso.com/", "Anonymous"),
+                createCredential("Conn", "Conn", "OAuth"),
+                createCredential("Web", "https://a.contoso.com/", "Key"),
+            ]);
+
+            expect(
+                groups.map((oneGroup: CredentialGroup) => [
+                    oneGroup.dataSourceKind,
+                    oneGroup.credentials.map((oneCredential: Credential) => oneCredential.DataSource.path),
+                ]),
+            ).to.deep.equal([
+                ["Conn", ["Conn"]],
+                ["Web", ["https://a.contoso.com/", "https://b.contoso.com/"]],
+            ]);
+        });
+    });
+
+    describe("getCredentialExpiry", () => {
+        it("should read the expiry of OAuth and Aad credentials only", () => {
+            const expires: string = "2026-10-19T12:00:00.000Z";
+
+            expect(getCredentialExpiry(createCredential("Conn", "Conn", "OAuth", { Expires: expires }))).to.deep.equal(
+                new Date(expires),
+            );
+
+            expect(getCredentialExpiry(createCredential("Conn", "Conn", "Aad", { ExpiresOn: "not a date" }))).to.equal(
+                undefined,
+            );
+
+            expect(getCredentialExpiry(createCredential("Conn", "Conn", "Key", { Expires: expires }))).to.equal(
+                undefined,
+            );
+
+            expect(isRefreshableCredential(createCredential("Conn", "Conn", "Windows"))).to.equal(false);
+        });
+    });
+
+    describe("createCredentialPayload", () => {
+        it("should set the credential again with another privacy setting and the secrets it lacks", () => {
+            const credential: Credential = createCredential("Conn", "Conn", "UsernamePassword", { Username: "me" });
+
+            expect(getMissingCredentialSecrets(credential)).to.deep.equal(["Password"]);
+
+            expect(
+                JSON.parse(createCredentialPayload(credential, "Organizational", { Password: "secret" })),
+            ).to.deep.equal({
+                AuthenticationKind: "UsernamePassword",
+                AuthenticationProperties: { Username: "me", Password: "secret" },
+                PrivacySetting: "Organizational",
+                Permissions: [],
+            });
+        });
+    });
+});
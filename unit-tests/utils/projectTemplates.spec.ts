@@ -0,0 +1,170 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import { afterEach, beforeEach, describe, it } from "mocha";
+import { expect } from "chai";
+
+import {
+    createProjectTemplateContext,
+    findProjectTemplates,
+    generateProjectFromTemplate,
+    parseProjectTemplateManifest,
+    ProjectTemplate,
+    toProjectTemplateTargetPath,
+} from "../../src/utils/projectTemplates";
+
+const builtInTemplatesFolder: string = path.resolve(__dirname, "..", "..", "templates");
+
+describe("projectTemplates", () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+        tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "pq-sdk-test-"));
+    });
+
+    afterEach(async () => {
+        if (tempDir) {
+            await fs.promises.rm(tempDir, { recursive: true, force: true });
+        }
+    });
+
+    describe("parseProjectTemplateManifest", () => {
+        it("should fall back to the folder name", () => {
+            const result = parseProjectTemplateManifest("{}", path.join("some", "odata"), true);
+
+            expect(result).to.deep.include({ id: "odata", label: "odata", isBuiltIn: true });
+        });
+
+        it("should key user-defined templates by their folders", () => {
+            const folder: string = path.join("some", "mine");
+            const result = parseProjectTemplateManifest('{"label":"Mine","order":2}', folder, false);
+
+            expect(result).to.deep.include({ id: folder, label: "Mine", order: 2, isBuiltIn: false });
+        });
+
+        it("should reject manifests which are not json objects", () => {
+            expect(parseProjectTemplateManifest("[]", "folder", true)).to.equal(undefined);
+            expect(parseProjectTemplateManifest("{broken", "folder", true)).to.equal(undefined);
+        });
+    });
+
+    describe("toProjectTemplateTargetPath", () => {
+        it("should rename every PQConn within the path", () => {
+            expect(toProjectTemplateTargetPath("PQConn16.png", "Conn")).to.equal("Conn16.png");
+            expect(toProjectTemplateTargetPath("tests\\PQConn.testsettings.json", "Conn")).to.equal(
+                "tests/Conn.testsettings.json",
+            );
+            expect(toProjectTemplateTargetPath("resources.resx", "Conn")).to.equal("resources.resx");
+        });
+    });
+
+    describe("findProjectTemplates", () => {
+        it("should find the built-in gallery with the blank template first", () => {
+            const result = findProjectTemplates(path.join(builtInTemplatesFolder, "gallery"), true);
+
+            expect(result.map((template: ProjectTemplate) => template.id)).to.deep.equal([
+                "blank",
+                "odata",
+                "rest-paging",
+                "odbc",
+                "oauth2",
+                "key",
+            ]);
+        });
+
+        it("should take a folder holding a manifest as one template", () => {
+            fs.writeFileSync(path.join(tempDir, "template.json"), '{"label":"Mine"}');
+
+            const result = findProjectTemplates(tempDir, false);
+
+            expect(result.map((template: ProjectTemplate) => template.label)).to.deep.equal(["Mine"]);
+        });
+
+        it("should return nothing for missing folders", () => {
+            expect(findProjectTemplates(path.join(tempDir, "missing"), false)).to.deep.equal([]);
+        });
+    });
+
+    describe("createProjectTemplateContext", () => {
+        it("should flag the picked authentication kinds and list the packed files", () => {
+            const template = parseProjectTemplateManifest(
+                '{"authenticationKinds":["UsernamePassword","OAuth"],"resources":{"Extra":"<{{ProjectName}}>"}}',
+                "folder",
+                true,
+            ) as ProjectTemplate;
+
+            const result = createProjectTemplateContext(
+                template,
+                "Conn",
+                ["OAuth"],
+                ["Conn.pq", "Conn.query.pq", "Conn16.png", "resources.resx", "tests/Conn.testsettings.json"],
+            );
+
+            expect(result).to.deep.include({
+                ProjectName: "Conn",
+                OAuth: true,
+                UsernamePassword: false,
+                TestAuthenticationKind: "OAuth2",
+                MezContent: ["Conn.pq", "Conn16.png", "resources.resx"],
+            });
+
+            expect(result.Resources).to.deep.include({ Name: "Extra", Value: "&lt;Conn&gt;" });
+        });
+    });
+
+    describe("generateProjectFromTemplate", () => {
+        it("should render every built-in template for every authentication kind it offers", () => {
+            for (const template of findProjectTemplates(path.join(builtInTemplatesFolder, "gallery"), true)) {
+                for (const authenticationKind of template.authenticationKinds) {
+                    const targetFolder: string = path.join(tempDir, template.id, authenticationKind);
+
+                    generateProjectFromTemplate(builtInTemplatesFolder, template, targetFolder, "Conn", [
+                        authenticationKind,
+                    ]);
+
+                    const connector: string = fs.readFileSync(path.join(targetFolder, "Conn.pq"), "utf8");
+
+                    expect(connector).to.not.include("{{", `Failed for ${template.id} ${authenticationKind}`);
+                    expect(connector).to.include(`        ${authenticationKind} = [`);
+                }
+            }
+        });
+
+        it("should lay the template over the shared files", () => {
+            const sharedFolder: string = path.join(tempDir, "shared");
+            const templateFolder: string = path.join(sharedFolder, "gallery", "mine");
+            const targetFolder: string = path.join(tempDir, "Conn");
+
+            fs.mkdirSync(path.join(templateFolder, "tests"), { recursive: true });
+            fs.writeFileSync(path.join(sharedFolder, "PQConn.pq"), "section {{ProjectName}}; // shared");
+            fs.writeFileSync(path.join(sharedFolder, "PQConn.proj"), "<Project>{{ProjectName}}</Project>");
+            fs.writeFileSync(path.join(sharedFolder, "settings.json"), "{}");
+            fs.writeFileSync(path.join(templateFolder, "template.json"), "{}");
+            fs.writeFileSync(path.join(templateFolder, "PQConn.pq"), "section {{ProjectName}};");
+            fs.writeFileSync(path.join(templateFolder, "tests", "PQConn.testsettings.json"), '"{{ProjectName}}"');
+
+            const template: ProjectTemplate = findProjectTemplates(templateFolder, false)[0];
+            const result = generateProjectFromTemplate(sharedFolder, template, targetFolder, "Conn");
+
+            expect(result.sort()).to.deep.equal([
+                ".vscode/settings.json",
+                "Conn.pq",
+                "Conn.proj",
+                "tests/Conn.testsettings.json",
+            ]);
+
+            expect(fs.readFileSync(path.join(targetFolder, "Conn.pq"), "utf8")).to.equal("section Conn;");
+            expect(fs.readFileSync(path.join(targetFolder, "tests", "Conn.testsettings.json"), "utf8")).to.equal(
+                '"Conn"',
+            );
+        });
+    });
+});
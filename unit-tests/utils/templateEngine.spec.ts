@@ -0,0 +1,95 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+import { describe, it } from "mocha";
+import { expect } from "chai";
+
+import { renderTemplate, TemplateSyntaxError } from "../../src/utils/templateEngine";
+
+describe("templateEngine", () => {
+    describe("values", () => {
+        it("should substitute values and dotted paths", () => {
+            const result = renderTemplate("section {{ProjectName}}; {{Owner.Name}}{{Missing}}", {
+                ProjectName: "Conn",
+                Owner: { Name: "me" },
+            });
+
+            expect(result).to.equal("section Conn; me");
+        });
+
+        it("should leave the braces of M code alone", () => {
+            const template: string = '#table({"A"}, {{1}}) & {{"a", 2}}';
+
+            expect(renderTemplate(template, {})).to.equal(template);
+        });
+    });
+
+    describe("blocks", () => {
+        it("should render conditionals with else branches", () => {
+            const template: string = "{{#if Key}}key{{else}}none{{/if}}|{{#unless Key}}no key{{/unless}}";
+
+            expect(renderTemplate(template, { Key: true })).to.equal("key|");
+            expect(renderTemplate(template, { Key: false })).to.equal("none|no key");
+        });
+
+        it("should loop with the item as the innermost scope", () => {
+            const template: string = "{{#each Kinds}}{{Name}}@{{@index}}{{#unless @last}}, {{/unless}}{{/each}}";
+
+            expect(renderTemplate(template, { Name: "outer", Kinds: [{ Name: "Key" }, { Name: "Windows" }] })).to.equal(
+                "Key@0, Windows@1",
+            );
+
+            expect(renderTemplate("{{#each Files}}{{this}};{{/each}}", { Files: ["a.pq", "b.png"] })).to.equal(
+                "a.pq;b.png;",
+            );
+        });
+
+        it("should treat empty lists as falsy and render the else branch of loops", () => {
+            expect(
+                renderTemplate("{{#if Files}}some{{/if}}{{#each Files}}x{{else}}none{{/each}}", { Files: [] }),
+            ).to.equal("none");
+        });
+
+        it("should take the lines of standalone block tags away", () => {
+            const template: string = "[\n{{#each Kinds}}\n    {{this}} = [],\n{{/each}}\n]";
+
+            expect(renderTemplate(template, { Kinds: ["Anonymous", "Windows"] })).to.equal(
+                "[\n    Anonymous = [],\n    Windows = [],\n]",
+            );
+        });
+    });
+
+    describe("partials", () => {
+        it("should indent standalone partials like their tags", () => {
+            const result = renderTemplate(
+                "Conn = [\n    {{> authentication}}\n];",
+                { Kind: "Key" },
+                { authentication: "Authentication = [\n    {{Kind}} = []\n]," },
+            );
+
+            expect(result).to.equal("Conn = [\n    Authentication = [\n        Key = []\n    ],\n];");
+        });
+
+        it("should render inline partials as they are", () => {
+            expect(renderTemplate("a{{> b}}c", {}, { b: "-" })).to.equal("a-c");
+        });
+    });
+
+    describe("errors", () => {
+        it("should reject unbalanced blocks and unknown partials", () => {
+            expect(() => renderTemplate("{{#if A}}", {})).to.throw(TemplateSyntaxError);
+            expect(() => renderTemplate("{{/each}}", {})).to.throw(TemplateSyntaxError);
+            expect(() => renderTemplate("{{#if A}}{{/each}}", {})).to.throw(TemplateSyntaxError);
+            expect(() => renderTemplate("{{else}}", {})).to.throw(TemplateSyntaxError);
+            expect(() => renderTemplate("{{> missing}}", {})).to.throw(TemplateSyntaxError, "missing");
+        });
+
+        it("should stop partials including themselves", () => {
+            expect(() => renderTemplate("{{> self}}", {}, { self: "{{> self}}" })).to.throw(TemplateSyntaxError);
+        });
+    });
+});
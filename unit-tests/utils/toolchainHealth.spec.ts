@@ -0,0 +1,84 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+import { describe, it } from "mocha";
+import { expect } from "chai";
+
+import {
+    checkToolchainHealth,
+    getOverallHealthStatus,
+    HealthCheck,
+    ToolchainState,
+} from "../../src/utils/toolchainHealth";
+
+function createState(state: Partial<ToolchainState> = {}): ToolchainState {
+    return {
+        pqTestReady: true,
+        pqTestVersion: "2.139.3",
+        useServiceHost: false,
+        serviceHostConnected: false,
+        mezFilePath: "c:/conn/bin/Conn.mez",
+        mezFileMtime: new Date(2000),
+        latestSourceMtime: new Date(1000),
+        queryFilePath: "c:/conn/Conn.query.pq",
+        queryFileExists: true,
+        ...state,
+    };
+}
+
+describe("toolchainHealth", () => {
+    describe("checkToolchainHealth", () => {
+        it("should be healthy once everything is ready and built", () => {
+            const checks: HealthCheck[] = checkToolchainHealth(createState());
+
+            expect(checks.map((oneCheck: HealthCheck) => [oneCheck.id, oneCheck.detail])).to.deep.equal([
+                ["pqTest", "ready"],
+                ["serviceHost", "disabled"],
+                ["mezFile", "upToDate"],
+                ["queryFile", "found"],
+            ]);
+
+            expect(getOverallHealthStatus(checks)).to.equal("ok");
+        });
+
+        it("should offer a fix for each problem", () => {
+            const checks: HealthCheck[] = checkToolchainHealth(
+                createState({
+                    pqTestReady: false,
+                    useServiceHost: true,
+                    latestSourceMtime: new Date(3000),
+                    queryFileExists: false,
+                }),
+            );
+
+            expect(
+                checks.map((oneCheck: HealthCheck) => [oneCheck.id, oneCheck.status, oneCheck.detail, oneCheck.fix]),
+            ).to.deep.equal([
+                ["pqTest", "error", "notReady", "seizePqTest"],
+                ["serviceHost", "error", "disconnected", "reconnectServiceHost"],
+                ["mezFile", "warning", "outdated", "buildProject"],
+                ["queryFile", "warning", "notFound", "openSettings"],
+            ]);
+
+            expect(getOverallHealthStatus(checks)).to.equal("error");
+        });
+
+        it("should tell a connector which is not configured from one which is not built", () => {
+            const [mezFileCheck]: HealthCheck[] = checkToolchainHealth(createState({ mezFileMtime: undefined })).filter(
+                (oneCheck: HealthCheck) => oneCheck.id === "mezFile",
+            );
+
+            expect(mezFileCheck).to.deep.include({ status: "error", detail: "notBuilt", fix: "buildProject" });
+
+            expect(
+                checkToolchainHealth(createState({ mezFilePath: undefined, queryFilePath: undefined })).filter(
+                    (oneCheck: HealthCheck) => oneCheck.fix === "setupWorkspace",
+                ),
+            ).to.have.length(2);
+        });
+    });
+});
@@ -0,0 +1,60 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+import React, { useMemo } from "react";
+import { CommandBar, ICommandBarItemProps } from "@fluentui/react/lib/CommandBar";
+
+import { useVSCodeContextActions } from "../contexts/VscodeContexts";
+import { useI18n } from "../i18n";
+import { ResultExportFormat, ResultExportTable } from "../types";
+
+interface ExportCommandBarProps {
+    table: ResultExportTable;
+    // output rows are held by the extension, which exports them on its own
+    rows?: unknown[];
+    rowCount?: number;
+}
+
+export const ExportCommandBar: React.FC<ExportCommandBarProps> = React.memo(props => {
+    const { table, rows, rowCount } = props;
+    const { exportResult } = useVSCodeContextActions();
+
+    const ExportLabel = useI18n("export.Command.Export");
+    const CsvLabel = useI18n("export.Command.Csv");
+    const JsonLabel = useI18n("export.Command.Json");
+    const PqOutLabel = useI18n("export.Command.PqOut");
+
+    const items = useMemo<ICommandBarItemProps[]>(() => {
+        const formats: { key: ResultExportFormat; text: string }[] = [
+            { key: "csv", text: CsvLabel },
+            { key: "json", text: JsonLabel },
+        ];
+
+        // a baseline only makes sense for what the query returned
+        if (table === "output") {
+            formats.push({ key: "pqout", text: PqOutLabel });
+        }
+
+        return [
+            {
+                key: "export",
+                text: ExportLabel,
+                iconProps: { iconName: "Download" },
+                disabled: !(rows ? rows.length : rowCount),
+                subMenuProps: {
+                    items: formats.map(format => ({
+                        key: format.key,
+                        text: format.text,
+                        onClick: () => exportResult(table, format.key, rows),
+                    })),
+                },
+            },
+        ];
+    }, [table, rows, rowCount, exportResult, ExportLabel, CsvLabel, JsonLabel, PqOutLabel]);
+
+    return <CommandBar items={items} />;
+});
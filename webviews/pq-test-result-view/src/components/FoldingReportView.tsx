@@ -0,0 +1,116 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+import React, { useMemo } from "react";
+import {
+    ConstrainMode,
+    DetailsList,
+    DetailsListLayoutMode,
+    IColumn,
+    SelectionMode,
+} from "@fluentui/react/lib/DetailsList";
+import { Icon } from "@fluentui/react/lib/Icon";
+import { MessageBar, MessageBarType } from "@fluentui/react/lib/MessageBar";
+import { mergeStyles } from "@fluentui/react/lib/Styling";
+
+import { useI18n } from "../i18n";
+import { FoldingReport, FoldingStep } from "../types";
+
+interface FoldingReportViewProps {
+    report: FoldingReport;
+}
+
+const foldingReportView = mergeStyles({
+    height: "calc( 100vh - 88px)",
+    overflow: "auto",
+});
+
+const nativeQueryBlock = mergeStyles({
+    fontFamily: "var(--vscode-editor-font-family)",
+    fontSize: "var(--vscode-editor-font-size)",
+    background: "var(--vscode-textCodeBlock-background)",
+    padding: "8px",
+    whiteSpace: "pre-wrap",
+    margin: "0 0 8px 0",
+});
+
+export const FoldingReportView: React.FC<FoldingReportViewProps> = React.memo(props => {
+    const { report } = props;
+
+    const StepLabel = useI18n("folding.Column.Step");
+    const FoldedLabel = useI18n("folding.Column.Folded");
+    const ReasonLabel = useI18n("folding.Column.Reason");
+    const NativeQueryLabel = useI18n("folding.NativeQuery");
+    const FullyFoldedLabel = useI18n("folding.FullyFolded");
+    const BrokeAtLabel = useI18n("folding.BrokeAt");
+
+    const columns = useMemo<IColumn[]>(
+        () => [
+            {
+                key: "folded",
+                name: FoldedLabel,
+                minWidth: 60,
+                maxWidth: 60,
+                onRender: (item: FoldingStep) => (
+                    <Icon
+                        iconName={item.folded ? "CheckMark" : "Cancel"}
+                        style={{
+                            color: item.folded
+                                ? "var(--vscode-testing-iconPassed)"
+                                : "var(--vscode-testing-iconFailed)",
+                        }}
+                    />
+                ),
+            },
+            {
+                key: "name",
+                name: StepLabel,
+                minWidth: 200,
+                isResizable: true,
+                onRender: (item: FoldingStep) => item.name,
+            },
+            {
+                key: "reason",
+                name: ReasonLabel,
+                minWidth: 300,
+                isResizable: true,
+                onRender: (item: FoldingStep) => item.reason ?? "",
+            },
+        ],
+        [StepLabel, FoldedLabel, ReasonLabel],
+    );
+
+    return (
+        <div className={foldingReportView}>
+            {report.brokenStep ? (
+                <MessageBar messageBarType={MessageBarType.warning}>
+                    {`${BrokeAtLabel} ${report.brokenStep.name}${
+                        report.brokenStep.reason ? `: ${report.brokenStep.reason}` : ""
+                    }`}
+                </MessageBar>
+            ) : (
+                <MessageBar messageBarType={MessageBarType.success}>{FullyFoldedLabel}</MessageBar>
+            )}
+            {report.steps.length ? (
+                <DetailsList
+                    compact={true}
+                    constrainMode={ConstrainMode.unconstrained}
+                    selectionMode={SelectionMode.none}
+                    layoutMode={DetailsListLayoutMode.fixedColumns}
+                    columns={columns}
+                    items={report.steps}
+                />
+            ) : null}
+            {report.nativeQueries.map((nativeQuery, index) => (
+                <React.Fragment key={index}>
+                    <h4>{NativeQueryLabel}</h4>
+                    <pre className={nativeQueryBlock}>{nativeQuery}</pre>
+                </React.Fragment>
+            ))}
+        </div>
+    );
+});
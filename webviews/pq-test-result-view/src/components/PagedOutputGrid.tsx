@@ -0,0 +1,172 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+    ConstrainMode,
+    DetailsList,
+    DetailsListLayoutMode,
+    IColumn,
+    SelectionMode,
+} from "@fluentui/react/lib/DetailsList";
+import { IconButton } from "@fluentui/react/lib/Button";
+import { Stack } from "@fluentui/react/lib/Stack";
+import { mergeStyles } from "@fluentui/react/lib/Styling";
+import { Text } from "@fluentui/react/lib/Text";
+
+import { useVSCodeContextActions } from "../contexts/VscodeContexts";
+import { useI18n } from "../i18n";
+import { GridItem, JsonValue, ResultOutputInfo, ResultOutputPage } from "../types";
+
+interface PagedOutputGridProps {
+    resultId: number;
+    outputInfo: ResultOutputInfo;
+}
+
+const OutputPageSize = 200;
+const ColumnWindowSize = 50;
+
+const pagedOutputGrid = mergeStyles({
+    height: "calc( 100vh - 120px)",
+    overflow: "auto",
+});
+
+const pagedOutputSummary = mergeStyles({
+    padding: "4px 8px",
+});
+
+const toGridItem = (value: JsonValue): GridItem =>
+    // scalar outputs come as bare values rather than rows
+    typeof value === "object" && value !== null && !Array.isArray(value) ? value : { Value: value };
+
+const toCellText = (value: JsonValue | undefined): string => {
+    if (value === undefined || value === null) {
+        return "";
+    }
+    return typeof value === "object" ? JSON.stringify(value) : String(value);
+};
+
+/**
+ * Renders an output whose rows stay within the extension: rows are requested page by page once they scroll into
+ * view, and columns are shown in windows so that wide tables would not render thousands of cells per row.
+ */
+export const PagedOutputGrid: React.FC<PagedOutputGridProps> = React.memo(props => {
+    const { resultId, outputInfo } = props;
+    const { requestOutputPage, subscribeOutputPages } = useVSCodeContextActions();
+
+    const SummaryTemplate = useI18n("pagedOutput.Summary");
+    const ColumnWindowTemplate = useI18n("pagedOutput.ColumnWindow");
+    const PreviousColumnsLabel = useI18n("pagedOutput.PreviousColumns");
+    const NextColumnsLabel = useI18n("pagedOutput.NextColumns");
+
+    // missing rows are null, for which the DetailsList calls onRenderMissingItem
+    const [items, setItems] = useState<(GridItem | null)[]>([]);
+    const [columnOffset, setColumnOffset] = useState<number>(0);
+    const requestedPageOffsets = useRef<Set<number>>(new Set());
+
+    useEffect(() => {
+        requestedPageOffsets.current = new Set();
+        setItems(new Array(outputInfo.totalRows).fill(null));
+        setColumnOffset(0);
+    }, [resultId, outputInfo.totalRows]);
+
+    useEffect(
+        () =>
+            subscribeOutputPages((page: ResultOutputPage) => {
+                if (page.resultId !== resultId) {
+                    return;
+                }
+                setItems(prevItems => {
+                    const nextItems = prevItems.slice();
+                    page.rows.forEach((row, index) => {
+                        nextItems[page.offset + index] = toGridItem(row);
+                    });
+                    return nextItems;
+                });
+            }),
+        [resultId, subscribeOutputPages],
+    );
+
+    const onRenderMissingItem = useCallback(
+        (index?: number) => {
+            if (index !== undefined) {
+                const pageOffset = Math.floor(index / OutputPageSize) * OutputPageSize;
+                if (!requestedPageOffsets.current.has(pageOffset)) {
+                    requestedPageOffsets.current.add(pageOffset);
+                    requestOutputPage(resultId, pageOffset, OutputPageSize);
+                }
+            }
+            return null;
+        },
+        [resultId, requestOutputPage],
+    );
+
+    const columns = useMemo<IColumn[]>(
+        () =>
+            outputInfo.columns.slice(columnOffset, columnOffset + ColumnWindowSize).map(column => ({
+                key: column.name,
+                name: `${column.name} (${column.type})`,
+                fieldName: column.name,
+                minWidth: 100,
+                isResizable: true,
+                onRender: (item: GridItem) => toCellText(item[column.name]),
+            })),
+        [outputInfo.columns, columnOffset],
+    );
+
+    const summary = useMemo(() => {
+        const theSummary = SummaryTemplate.replace("{rows}", String(outputInfo.totalRows)).replace(
+            "{columns}",
+            String(outputInfo.columns.length),
+        );
+        if (outputInfo.columns.length <= ColumnWindowSize) {
+            return theSummary;
+        }
+        const theColumnWindow = ColumnWindowTemplate.replace("{from}", String(columnOffset + 1)).replace(
+            "{to}",
+            String(Math.min(columnOffset + ColumnWindowSize, outputInfo.columns.length)),
+        );
+        return `${theSummary} ${theColumnWindow}`;
+    }, [SummaryTemplate, ColumnWindowTemplate, outputInfo, columnOffset]);
+
+    return (
+        <>
+            <Stack horizontal verticalAlign="center" className={pagedOutputSummary}>
+                <Text>{summary}</Text>
+                {outputInfo.columns.length > ColumnWindowSize ? (
+                    <>
+                        <IconButton
+                            iconProps={{ iconName: "ChevronLeft" }}
+                            title={PreviousColumnsLabel}
+                            ariaLabel={PreviousColumnsLabel}
+                            disabled={columnOffset === 0}
+                            onClick={() => setColumnOffset(Math.max(0, columnOffset - ColumnWindowSize))}
+                        />
+                        <IconButton
+                            iconProps={{ iconName: "ChevronRight" }}
+                            title={NextColumnsLabel}
+                            ariaLabel={NextColumnsLabel}
+                            disabled={columnOffset + ColumnWindowSize >= outputInfo.columns.length}
+                            onClick={() => setColumnOffset(columnOffset + ColumnWindowSize)}
+                        />
+                    </>
+                ) : null}
+            </Stack>
+            <div className={pagedOutputGrid} data-is-scrollable={true}>
+                <DetailsList
+                    compact={true}
+                    constrainMode={ConstrainMode.unconstrained}
+                    selectionMode={SelectionMode.none}
+                    layoutMode={DetailsListLayoutMode.fixedColumns}
+                    columns={columns}
+                    items={items}
+                    onRenderMissingItem={onRenderMissingItem}
+                />
+            </div>
+        </>
+    );
+});
@@ -0,0 +1,120 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+import React, { useMemo } from "react";
+import {
+    ConstrainMode,
+    DetailsList,
+    DetailsListLayoutMode,
+    IColumn,
+    SelectionMode,
+} from "@fluentui/react/lib/DetailsList";
+import { mergeStyles } from "@fluentui/react/lib/Styling";
+
+import { useI18n } from "../i18n";
+import { DiffStatus, JsonValue, ResultHistoryDiff, RowDiff } from "../types";
+
+interface ResultDiffGridProps {
+    diff: ResultHistoryDiff;
+}
+
+const resultDiffGrid = mergeStyles({
+    height: "calc( 100vh - 120px)",
+    overflow: "auto",
+});
+
+const diffSummary = mergeStyles({
+    display: "flex",
+    alignItems: "center",
+    gap: "16px",
+    padding: "8px 0",
+});
+
+const statusColors: Record<DiffStatus, string | undefined> = {
+    added: "var(--vscode-gitDecoration-addedResourceForeground)",
+    removed: "var(--vscode-gitDecoration-deletedResourceForeground)",
+    changed: "var(--vscode-gitDecoration-modifiedResourceForeground)",
+    unchanged: undefined,
+};
+
+const formatCell = (value: JsonValue | undefined): string =>
+    value === undefined ? "" : typeof value === "string" ? value : JSON.stringify(value);
+
+export const ResultDiffGrid: React.FC<ResultDiffGridProps> = React.memo(props => {
+    const { diff } = props;
+
+    const ChangeLabel = useI18n("resultDiff.Column.Change");
+    const SummaryTemplate = useI18n("resultDiff.Summary");
+    const TruncatedLabel = useI18n("resultDiff.Truncated");
+
+    const summary = useMemo(() => {
+        return SummaryTemplate.replace("{added}", String(diff.counts.added))
+            .replace("{removed}", String(diff.counts.removed))
+            .replace("{changed}", String(diff.counts.changed))
+            .replace("{unchanged}", String(diff.counts.unchanged))
+            .replace("{addedColumns}", String(diff.columns.filter(column => column.status === "added").length))
+            .replace("{removedColumns}", String(diff.columns.filter(column => column.status === "removed").length));
+    }, [diff, SummaryTemplate]);
+
+    const columns = useMemo<IColumn[]>(
+        () => [
+            {
+                key: "#",
+                name: "#",
+                minWidth: 40,
+                maxWidth: 60,
+                onRender: (item: RowDiff) => String(item.index + 1),
+            },
+            {
+                key: "change",
+                name: ChangeLabel,
+                minWidth: 80,
+                maxWidth: 100,
+                onRender: (item: RowDiff) => <span style={{ color: statusColors[item.status] }}>{item.status}</span>,
+            },
+            ...diff.columns.map(
+                (column): IColumn => ({
+                    key: `column-${column.name}`,
+                    name: column.status === "unchanged" ? column.name : `${column.name} (${column.status})`,
+                    minWidth: 100,
+                    onRender: (item: RowDiff) => {
+                        if (item.changedColumns.includes(column.name)) {
+                            return (
+                                <span style={{ color: statusColors.changed }}>
+                                    {`${formatCell(item.left?.[column.name])} → ${formatCell(item.right?.[column.name])}`}
+                                </span>
+                            );
+                        }
+
+                        const value = (item.right ?? item.left)?.[column.name];
+                        return <span style={{ color: statusColors[item.status] }}>{formatCell(value)}</span>;
+                    },
+                }),
+            ),
+        ],
+        [diff, ChangeLabel],
+    );
+
+    return (
+        <>
+            <div className={diffSummary}>
+                <span>{summary}</span>
+                {diff.isTruncated ? <span>{TruncatedLabel}</span> : null}
+            </div>
+            <div className={resultDiffGrid}>
+                <DetailsList
+                    compact={true}
+                    constrainMode={ConstrainMode.unconstrained}
+                    selectionMode={SelectionMode.none}
+                    layoutMode={DetailsListLayoutMode.fixedColumns}
+                    columns={columns}
+                    items={diff.rows}
+                />
+            </div>
+        </>
+    );
+});
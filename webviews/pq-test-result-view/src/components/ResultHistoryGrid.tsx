@@ -0,0 +1,175 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+import React, { useMemo } from "react";
+import { CommandBar, ICommandBarItemProps } from "@fluentui/react/lib/CommandBar";
+import {
+    CheckboxVisibility,
+    ConstrainMode,
+    DetailsList,
+    DetailsListLayoutMode,
+    IColumn,
+    IObjectWithKey,
+    Selection,
+    SelectionMode,
+} from "@fluentui/react/lib/DetailsList";
+import { Icon } from "@fluentui/react/lib/Icon";
+import { mergeStyles } from "@fluentui/react/lib/Styling";
+
+import { useVSCodeContextActions } from "../contexts/VscodeContexts";
+import { useI18n } from "../i18n";
+import { ResultHistoryEntry } from "../types";
+
+interface ResultHistoryGridProps {
+    entries: ResultHistoryEntry[];
+    selectedIds: string[];
+    onSelectionChanged: (selectedIds: string[]) => void;
+}
+
+// the selection tracks items by their key, which history entries hold as their id
+type HistoryGridItem = ResultHistoryEntry & IObjectWithKey & { key: string };
+
+const resultHistoryGrid = mergeStyles({
+    height: "calc( 100vh - 88px)",
+    overflow: "auto",
+});
+
+const getFileName = (filePath?: string): string => (filePath ? (filePath.split(/[\\/]/).pop() ?? filePath) : "");
+
+export const ResultHistoryGrid: React.FC<ResultHistoryGridProps> = React.memo(props => {
+    const { entries, selectedIds, onSelectionChanged } = props;
+    const { pinHistoryEntry, removeHistoryEntry } = useVSCodeContextActions();
+
+    const PinnedLabel = useI18n("resultHistory.Column.Pinned");
+    const TimeLabel = useI18n("resultHistory.Column.Time");
+    const QueryFileLabel = useI18n("resultHistory.Column.QueryFile");
+    const StatusLabel = useI18n("resultHistory.Column.Status");
+    const RowsLabel = useI18n("resultHistory.Column.Rows");
+    const PinLabel = useI18n("resultHistory.Command.Pin");
+    const UnpinLabel = useI18n("resultHistory.Command.Unpin");
+    const RemoveLabel = useI18n("resultHistory.Command.Remove");
+    const ClearLabel = useI18n("resultHistory.Command.ClearUnpinned");
+
+    const selectedEntries = useMemo(
+        () => entries.filter(entry => selectedIds.includes(entry.id)),
+        [entries, selectedIds],
+    );
+
+    const items = useMemo<HistoryGridItem[]>(() => entries.map(entry => ({ ...entry, key: entry.id })), [entries]);
+
+    // pivot items get unmounted once hidden, thus the selection is owned by the parent and restored here
+    const selection = useMemo(() => {
+        const theSelection: Selection = new Selection({
+            onSelectionChanged: () => {
+                onSelectionChanged((theSelection.getSelection() as HistoryGridItem[]).map(item => item.id));
+            },
+        });
+        theSelection.setChangeEvents(false);
+        theSelection.setItems(items, false);
+        selectedIds.forEach(id => theSelection.setKeySelected(id, true, false));
+        theSelection.setChangeEvents(true, true);
+        return theSelection;
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, []);
+
+    const columns = useMemo<IColumn[]>(
+        () => [
+            {
+                key: "pinned",
+                name: PinnedLabel,
+                minWidth: 40,
+                maxWidth: 40,
+                onRender: (item: ResultHistoryEntry) => (item.pinned ? <Icon iconName="Pinned" /> : null),
+            },
+            {
+                key: "timestamp",
+                name: TimeLabel,
+                minWidth: 160,
+                onRender: (item: ResultHistoryEntry) => {
+                    const theDate = new Date(item.timestamp);
+                    return `${theDate.toLocaleDateString()} ${theDate.toLocaleTimeString()}`;
+                },
+            },
+            {
+                key: "queryFile",
+                name: QueryFileLabel,
+                minWidth: 200,
+                onRender: (item: ResultHistoryEntry) => (
+                    <span title={item.queryFilePath}>{getFileName(item.queryFilePath)}</span>
+                ),
+            },
+            {
+                key: "status",
+                name: StatusLabel,
+                minWidth: 80,
+                onRender: (item: ResultHistoryEntry) => String(item.result?.[0]?.Status ?? ""),
+            },
+            {
+                key: "rows",
+                name: RowsLabel,
+                minWidth: 60,
+                onRender: (item: ResultHistoryEntry) => String(item.result?.[0]?.OutputInfo?.totalRows ?? ""),
+            },
+        ],
+        [PinnedLabel, TimeLabel, QueryFileLabel, StatusLabel, RowsLabel],
+    );
+
+    const commandBarItems = useMemo<ICommandBarItemProps[]>(
+        () => [
+            {
+                key: "pin",
+                text: PinLabel,
+                iconProps: { iconName: "Pinned" },
+                disabled: !selectedEntries.some(entry => !entry.pinned),
+                onClick: () => selectedEntries.forEach(entry => pinHistoryEntry(entry.id, true)),
+            },
+            {
+                key: "unpin",
+                text: UnpinLabel,
+                iconProps: { iconName: "Unpin" },
+                disabled: !selectedEntries.some(entry => entry.pinned),
+                onClick: () => selectedEntries.forEach(entry => pinHistoryEntry(entry.id, false)),
+            },
+            {
+                key: "remove",
+                text: RemoveLabel,
+                iconProps: { iconName: "Delete" },
+                disabled: !selectedEntries.length,
+                onClick: () => selectedEntries.forEach(entry => removeHistoryEntry(entry.id)),
+            },
+            {
+                key: "clear",
+                text: ClearLabel,
+                iconProps: { iconName: "ClearSelection" },
+                disabled: !entries.some(entry => !entry.pinned),
+                onClick: () => removeHistoryEntry(),
+            },
+        ],
+        [PinLabel, UnpinLabel, RemoveLabel, ClearLabel, entries, selectedEntries, pinHistoryEntry, removeHistoryEntry],
+    );
+
+    return (
+        <>
+            <CommandBar items={commandBarItems} />
+            <div className={resultHistoryGrid}>
+                <DetailsList
+                    compact={true}
+                    constrainMode={ConstrainMode.unconstrained}
+                    selectionMode={SelectionMode.multiple}
+                    checkboxVisibility={CheckboxVisibility.always}
+                    layoutMode={DetailsListLayoutMode.fixedColumns}
+                    selection={selection}
+                    selectionPreservedOnEmptyClick={true}
+                    getKey={(item: HistoryGridItem) => item.key}
+                    setKey="resultHistory"
+                    columns={columns}
+                    items={items}
+                />
+            </div>
+        </>
+    );
+});
@@ -0,0 +1,156 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the MIT license found in the
+ * LICENSE file in the root of this projects source tree.
+ */
+
+import React, { useMemo } from "react";
+import {
+    ConstrainMode,
+    DetailsList,
+    DetailsListLayoutMode,
+    IColumn,
+    SelectionMode,
+} from "@fluentui/react/lib/DetailsList";
+import { Icon } from "@fluentui/react/lib/Icon";
+import { MessageBar, MessageBarType } from "@fluentui/react/lib/MessageBar";
+import { mergeStyles } from "@fluentui/react/lib/Styling";
+
+import { useI18n } from "../i18n";
+import { ResultColumnSchema, ResultSchema, ResultSchemaChange } from "../types";
+
+interface ResultSchemaGridProps {
+    schema: ResultSchema;
+}
+
+interface SchemaItem {
+    column: ResultColumnSchema;
+    change?: ResultSchemaChange;
+}
+
+const resultSchemaGrid = mergeStyles({
+    height: "calc( 100vh - 120px)",
+    overflow: "auto",
+});
+
+const changeColors: Record<ResultSchemaChange["kind"], string> = {
+    added: "var(--vscode-gitDecoration-addedResourceForeground)",
+    removed: "var(--vscode-gitDecoration-deletedResourceForeground)",
+    typeChanged: "var(--vscode-gitDecoration-modifiedResourceForeground)",
+    nullabilityChanged: "var(--vscode-gitDecoration-modifiedResourceForeground)",
+    keyChanged: "var(--vscode-gitDecoration-modifiedResourceForeground)",
+};
+
+export const ResultSchemaGrid: React.FC<ResultSchemaGridProps> = React.memo(props => {
+    const { schema } = props;
+
+    const NameLabel = useI18n("resultSchema.Column.Name");
+    const TypeLabel = useI18n("resultSchema.Column.Type");
+    const NullableLabel = useI18n("resultSchema.Column.Nullable");
+    const KeyLabel = useI18n("resultSchema.Column.Key");
+    const ChangeLabel = useI18n("resultSchema.Column.Change");
+    const DriftTemplate = useI18n("resultSchema.Drift");
+    const AddedLabel = useI18n("resultSchema.Change.added");
+    const RemovedLabel = useI18n("resultSchema.Change.removed");
+    const TypeChangedLabel = useI18n("resultSchema.Change.typeChanged");
+    const NullabilityChangedLabel = useI18n("resultSchema.Change.nullabilityChanged");
+    const KeyChangedLabel = useI18n("resultSchema.Change.keyChanged");
+
+    // removed columns are listed last, so that the drift could be read at a glance
+    const items = useMemo<SchemaItem[]>(
+        () => [
+            ...schema.columns.map(column => ({
+                column,
+                change: schema.changes.find(change => change.name === column.name && change.kind !== "removed"),
+            })),
+            ...schema.changes
+                .filter(change => change.kind === "removed" && change.previous)
+                .map(change => ({ column: change.previous as ResultColumnSchema, change })),
+        ],
+        [schema],
+    );
+
+    const columns = useMemo<IColumn[]>(() => {
+        const changeLabels: Record<ResultSchemaChange["kind"], string> = {
+            added: AddedLabel,
+            removed: RemovedLabel,
+            typeChanged: TypeChangedLabel,
+            nullabilityChanged: NullabilityChangedLabel,
+            keyChanged: KeyChangedLabel,
+        };
+
+        return [
+            {
+                key: "key",
+                name: KeyLabel,
+                minWidth: 40,
+                maxWidth: 40,
+                onRender: (item: SchemaItem) => (item.column.isKey ? <Icon iconName="Permissions" /> : null),
+            },
+            {
+                key: "name",
+                name: NameLabel,
+                minWidth: 160,
+                isResizable: true,
+                onRender: (item: SchemaItem) => item.column.name,
+            },
+            {
+                key: "type",
+                name: TypeLabel,
+                minWidth: 120,
+                isResizable: true,
+                onRender: (item: SchemaItem) =>
+                    item.change?.kind === "typeChanged"
+                        ? `${item.change.previous?.type} → ${item.column.type}`
+                        : item.column.type,
+            },
+            {
+                key: "nullable",
+                name: NullableLabel,
+                minWidth: 80,
+                onRender: (item: SchemaItem) => String(item.column.isNullable),
+            },
+            {
+                key: "change",
+                name: ChangeLabel,
+                minWidth: 140,
+                onRender: (item: SchemaItem) =>
+                    item.change ? (
+                        <span style={{ color: changeColors[item.change.kind] }}>{changeLabels[item.change.kind]}</span>
+                    ) : null,
+            },
+        ];
+    }, [
+        KeyLabel,
+        NameLabel,
+        TypeLabel,
+        NullableLabel,
+        ChangeLabel,
+        AddedLabel,
+        RemovedLabel,
+        TypeChangedLabel,
+        NullabilityChangedLabel,
+        KeyChangedLabel,
+    ]);
+
+    return (
+        <>
+            {schema.changes.length ? (
+                <MessageBar messageBarType={MessageBarType.warning}>
+                    {DriftTemplate.replace("{count}", String(schema.changes.length))}
+                </MessageBar>
+            ) : null}
+            <div className={resultSchemaGrid}>
+                <DetailsList
+                    compact={true}
+                    constrainMode={ConstrainMode.unconstrained}
+                    selectionMode={SelectionMode.none}
+                    layoutMode={DetailsListLayoutMode.fixedColumns}
+                    columns={columns}
+                    items={items}
+                />
+            </div>
+        </>
+    );
+});
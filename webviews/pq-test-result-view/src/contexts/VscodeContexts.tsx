@@ -10,16 +10,37 @@ import { useState, useMemo, useContext, useEffect, useCallback } from "react";
 
 import { buildTheme } from "../themes";
 import { handleLocaleChange } from "../i18n";
-import { VSCodeState, FluentTheme, TestRunExecution } from "../types";
+import {
+    VSCodeState,
+    FluentTheme,
+    TestRunExecution,
+    ResultHistoryEntry,
+    ResultExportFormat,
+    ResultExportOutcome,
+    ResultExportTable,
+    ResultOutputPage,
+    ResultSchema,
+    FoldingReport,
+    ResultHistoryDiffOutcome,
+} from "../types";
 
 const vscode = acquireVsCodeApi<VSCodeState>();
 
 let histState: VSCodeState = vscode.getState() ?? {};
 
+// pages are handed to the grid which asked for them rather than kept in the context
+type OutputPageListener = (page: ResultOutputPage) => void;
+const outputPageListeners = new Set<OutputPageListener>();
+
 interface VSCodeContextProps {
     locale: string;
     fluentTheme: FluentTheme;
     latestPqTestResult?: TestRunExecution;
+    resultHistory?: ResultHistoryEntry[];
+    lastExportOutcome?: ResultExportOutcome;
+    historyDiff?: ResultHistoryDiffOutcome;
+    latestResultSchema?: ResultSchema;
+    latestFoldingReport?: FoldingReport;
 }
 
 const initVSCodeContextProps: VSCodeContextProps = {
@@ -33,6 +54,12 @@ const theVSCodeContextProps = React.createContext<VSCodeContextProps>(initVSCode
 interface VSCodeContextActions {
     readonly onReady: () => void;
     readonly updateOneContextValue: (prop: string, value: unknown, alsoWriteToHist?: boolean) => void;
+    readonly pinHistoryEntry: (id: string, pinned: boolean) => void;
+    readonly removeHistoryEntry: (id?: string) => void;
+    readonly exportResult: (table: ResultExportTable, format: ResultExportFormat, rows?: unknown[]) => void;
+    readonly requestOutputPage: (resultId: number, offset: number, count: number) => void;
+    readonly subscribeOutputPages: (listener: OutputPageListener) => () => void;
+    readonly requestHistoryDiff: (olderId: string, newerId: string) => void;
 }
 
 const initVSCodeContextActions: VSCodeContextActions = {
@@ -42,6 +69,27 @@ const initVSCodeContextActions: VSCodeContextActions = {
     updateOneContextValue: () => {
         // noop
     },
+    pinHistoryEntry: (id: string, pinned: boolean) => {
+        vscode.postMessage({ type: "pinHistoryEntry", payload: { id, pinned } });
+    },
+    removeHistoryEntry: (id?: string) => {
+        vscode.postMessage({ type: "removeHistoryEntry", payload: { id } });
+    },
+    exportResult: (table: ResultExportTable, format: ResultExportFormat, rows?: unknown[]) => {
+        vscode.postMessage({ type: "exportResult", payload: { table, format, rows } });
+    },
+    requestOutputPage: (resultId: number, offset: number, count: number) => {
+        vscode.postMessage({ type: "requestOutputPage", payload: { resultId, offset, count } });
+    },
+    subscribeOutputPages: (listener: OutputPageListener) => {
+        outputPageListeners.add(listener);
+        return () => {
+            outputPageListeners.delete(listener);
+        };
+    },
+    requestHistoryDiff: (olderId: string, newerId: string) => {
+        vscode.postMessage({ type: "requestHistoryDiff", payload: { olderId, newerId } });
+    },
 };
 
 const theVscodeContextActions = React.createContext<VSCodeContextActions>(initVSCodeContextActions);
@@ -79,6 +127,14 @@ export const VSCodeContextProvider: React.FC = React.memo(props => {
                         if (theVal) {
                             updateOneContextValue(message.payload.property, message.payload.value, true);
                         }
+                    } else if (
+                        message.payload.property === "latestResultSchema" ||
+                        message.payload.property === "latestFoldingReport"
+                    ) {
+                        updateOneContextValue(message.payload.property, message.payload.value);
+                    } else if (message.payload.property === "resultHistory") {
+                        // the history lives in the workspace state of the extension, thus no need to keep it here
+                        updateOneContextValue(message.payload.property, message.payload.value);
                     } else if (message.payload.property === "locale") {
                         handleLocaleChange(message.payload.value).then(() => {
                             updateOneContextValue(message.payload.property, message.payload.value, true);
@@ -87,6 +143,15 @@ export const VSCodeContextProvider: React.FC = React.memo(props => {
                         updateContext(prevState => ({ ...prevState, fluentTheme: buildTheme() }));
                     }
                     break;
+                case "OnResultExported":
+                    updateOneContextValue("lastExportOutcome", message.payload);
+                    break;
+                case "OnOutputPage":
+                    outputPageListeners.forEach(listener => listener(message.payload));
+                    break;
+                case "OnHistoryDiff":
+                    updateOneContextValue("historyDiff", message.payload);
+                    break;
             }
         });
         vscode.postMessage({ type: "onReady" });
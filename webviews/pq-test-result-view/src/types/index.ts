@@ -39,16 +39,121 @@ export interface VSCodeState {
     latestPqTestResult?: TestRunExecution;
 }
 
+// One evaluation kept in the result view history
+export interface ResultHistoryEntry {
+    id: string;
+    queryFilePath?: string;
+    timestamp: number;
+    pinned: boolean;
+    result: TestRunExecution[];
+}
+
+// Changes between the outputs of two history entries, computed by the extension which only posts the changed rows
+export type DiffStatus = "added" | "removed" | "changed" | "unchanged";
+
+export interface ColumnDiff {
+    name: string;
+    status: DiffStatus;
+}
+
+export interface RowDiff {
+    index: number;
+    status: DiffStatus;
+    left?: JsonObject;
+    right?: JsonObject;
+    changedColumns: string[];
+}
+
+export interface ResultHistoryDiff {
+    columns: ColumnDiff[];
+    rows: RowDiff[];
+    counts: Record<DiffStatus, number>;
+    isTruncated: boolean;
+}
+
+export interface ResultHistoryDiffOutcome {
+    olderId: string;
+    newerId: string;
+    diff: ResultHistoryDiff;
+}
+
+// Tables and formats the result view could export through the extension
+export type ResultExportTable = "output" | "dataSource" | "error";
+export type ResultExportFormat = "csv" | "json" | "pqout";
+
+// Outcome of an export reported back by the extension
+export interface ResultExportOutcome {
+    filePath?: string;
+    error?: string;
+}
+
+// Type and row count of an output, whose rows get paged in through the extension
+export type ResultColumnType = "text" | "number" | "logical" | "record" | "list" | "null" | "any";
+
+export interface ResultColumnInfo {
+    name: string;
+    type: ResultColumnType;
+}
+
+export interface ResultOutputInfo {
+    totalRows: number;
+    columns: ResultColumnInfo[];
+}
+
+// One page of output rows posted by the extension
+export interface ResultOutputPage {
+    resultId: number;
+    offset: number;
+    totalRows: number;
+    rows: JsonValue[];
+}
+
+// Schema of the latest output, along with its drift from the previous run of the same query
+export interface ResultColumnSchema {
+    name: string;
+    type: string;
+    isNullable: boolean;
+    isKey: boolean;
+}
+
+export interface ResultSchemaChange {
+    name: string;
+    kind: "added" | "removed" | "typeChanged" | "nullabilityChanged" | "keyChanged";
+    previous?: ResultColumnSchema;
+    current?: ResultColumnSchema;
+}
+
+export interface ResultSchema {
+    columns: ResultColumnSchema[];
+    changes: ResultSchemaChange[];
+}
+
+// Query folding report of the latest evaluation
+export interface FoldingStep {
+    name: string;
+    folded: boolean;
+    reason?: string;
+}
+
+export interface FoldingReport {
+    steps: FoldingStep[];
+    nativeQueries: string[];
+    brokenStep?: FoldingStep;
+}
+
 // Test execution result types
 export interface TestRunExecution {
     Status: string | number;
+    // results are posted without their Output rows, which are described by OutputInfo instead
     Output?: JsonValue[];
+    OutputInfo?: ResultOutputInfo;
+    ResultId?: number;
     Error?: JsonObject;
     Details?: string;
     StartTime?: string;
     EndTime?: string;
     DataSourceAnalysis?: JsonObject[];
-    [key: string]: JsonValue | JsonValue[] | JsonObject | JsonObject[] | undefined;
+    [key: string]: JsonValue | JsonValue[] | JsonObject | JsonObject[] | ResultOutputInfo | undefined;
 }
 
 // JSON utility types
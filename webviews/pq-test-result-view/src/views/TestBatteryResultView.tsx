@@ -5,17 +5,24 @@
  * LICENSE file in the root of this projects source tree.
  */
 
-import React, { useMemo } from "react";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
 
 import { MessageBarType } from "@fluentui/react/lib/MessageBar";
 import { Pivot, PivotItem } from "@fluentui/react/lib/Pivot";
 
+import { ExportCommandBar } from "../components/ExportCommandBar";
+import { FoldingReportView } from "../components/FoldingReportView";
 import { CloseableMessageBoxComp } from "../components/MessageBoxComp";
+import { PagedOutputGrid } from "../components/PagedOutputGrid";
 
+import { ResultDiffGrid } from "../components/ResultDiffGrid";
+import { ResultHistoryGrid } from "../components/ResultHistoryGrid";
+import { ResultSchemaGrid } from "../components/ResultSchemaGrid";
 import { TestBatteryGeneralGrid } from "../components/TestBatteryGeneralGrid";
+import { useVSCodeContextActions, useVSCodeContextProps } from "../contexts/VscodeContexts";
 import { useI18n } from "../i18n";
 import { flattenJSON } from "../utils/jsons";
-import { TestRunExecution, GeneralDetailItem, JsonValue, GridItem } from "../types";
+import { TestRunExecution, GeneralDetailItem, JsonValue, ResultHistoryEntry } from "../types";
 
 interface TestBatteryResult {
     testRunExecution: TestRunExecution;
@@ -28,12 +35,57 @@ export const TestBatteryResultView: React.FC<TestBatteryResult> = React.memo<Tes
     const SummaryLabel = useI18n("testBatteryResView.Table.Output.Summary");
     const DataSourceLabel = useI18n("testBatteryResView.Table.Output.DataSource");
     const ErrorLabel = useI18n("common.error.label");
-
-    const hasOutput = useMemo(
-        () => Array.isArray(testRunExecution.Output) && testRunExecution.Output.length,
-        [testRunExecution],
+    const HistoryLabel = useI18n("testBatteryResView.Table.Output.History");
+    const CompareLabel = useI18n("testBatteryResView.Table.Output.Compare");
+    const SchemaLabel = useI18n("testBatteryResView.Table.Output.Schema");
+    const FoldingLabel = useI18n("testBatteryResView.Table.Output.Folding");
+    const ExportedLabel = useI18n("export.Exported");
+
+    const {
+        resultHistory,
+        lastExportOutcome,
+        historyDiff: theHistoryDiff,
+        latestResultSchema,
+        latestFoldingReport,
+    } = useVSCodeContextProps();
+    const { requestHistoryDiff } = useVSCodeContextActions();
+    const [selectedHistoryIds, setSelectedHistoryIds] = useState<string[]>([]);
+
+    const handleHistorySelectionChanged = useCallback((selectedIds: string[]) => {
+        setSelectedHistoryIds(selectedIds);
+    }, []);
+
+    // compare the older selected run against the newer one
+    const comparedEntries = useMemo(() => {
+        const selectedEntries: ResultHistoryEntry[] = (resultHistory ?? []).filter(entry =>
+            selectedHistoryIds.includes(entry.id),
+        );
+        if (selectedEntries.length !== 2) {
+            return null;
+        }
+        const [older, newer] = selectedEntries.sort((a, b) => a.timestamp - b.timestamp);
+        return { older, newer };
+    }, [resultHistory, selectedHistoryIds]);
+
+    // history entries come without their outputs, thus the extension diffs them and posts the changed rows only
+    useEffect(() => {
+        if (comparedEntries) {
+            requestHistoryDiff(comparedEntries.older.id, comparedEntries.newer.id);
+        }
+    }, [comparedEntries, requestHistoryDiff]);
+
+    const historyDiff = useMemo(
+        () =>
+            comparedEntries &&
+            theHistoryDiff?.olderId === comparedEntries.older.id &&
+            theHistoryDiff?.newerId === comparedEntries.newer.id
+                ? theHistoryDiff.diff
+                : null,
+        [comparedEntries, theHistoryDiff],
     );
 
+    const hasOutput = useMemo(() => Boolean(testRunExecution.OutputInfo?.totalRows), [testRunExecution]);
+
     const errorDetailsString = useMemo<string | null>(() => {
         if (testRunExecution.Status !== "Passed" && testRunExecution.Status !== 3) {
             if (testRunExecution.Error?.Message && typeof testRunExecution.Error?.Message === "string") {
@@ -115,10 +167,40 @@ export const TestBatteryResultView: React.FC<TestBatteryResult> = React.memo<Tes
                     {errorDetailsString}
                 </CloseableMessageBoxComp>
             ) : null}
+            {lastExportOutcome ? (
+                <CloseableMessageBoxComp
+                    key={lastExportOutcome.filePath ?? lastExportOutcome.error}
+                    messageBarType={lastExportOutcome.error ? MessageBarType.error : MessageBarType.success}
+                >
+                    {lastExportOutcome.error ?? `${ExportedLabel} ${lastExportOutcome.filePath}`}
+                </CloseableMessageBoxComp>
+            ) : null}
             <Pivot aria-label="PQTest battery test result" defaultSelectedKey={hasOutput ? "Output" : "Summary"}>
-                {hasOutput ? (
+                {hasOutput && testRunExecution.OutputInfo ? (
                     <PivotItem key="output" headerText={OutputLabel}>
-                        <TestBatteryGeneralGrid items={(testRunExecution.Output as GridItem[]) || []} />
+                        <ExportCommandBar table="output" rowCount={testRunExecution.OutputInfo.totalRows} />
+                        <PagedOutputGrid
+                            resultId={testRunExecution.ResultId ?? 0}
+                            outputInfo={testRunExecution.OutputInfo}
+                        />
+                    </PivotItem>
+                ) : null}
+                {latestResultSchema?.columns.length ? (
+                    <PivotItem
+                        key="schema"
+                        headerText={SchemaLabel}
+                        itemIcon={latestResultSchema.changes.length ? "Warning" : undefined}
+                    >
+                        <ResultSchemaGrid schema={latestResultSchema} />
+                    </PivotItem>
+                ) : null}
+                {latestFoldingReport ? (
+                    <PivotItem
+                        key="folding"
+                        headerText={FoldingLabel}
+                        itemIcon={latestFoldingReport.brokenStep ? "Warning" : undefined}
+                    >
+                        <FoldingReportView report={latestFoldingReport} />
                     </PivotItem>
                 ) : null}
                 <PivotItem key="summary" headerText={SummaryLabel}>
@@ -126,15 +208,33 @@ export const TestBatteryResultView: React.FC<TestBatteryResult> = React.memo<Tes
                 </PivotItem>
                 {hasDataSource ? (
                     <PivotItem key="dataSource" headerText={DataSourceLabel}>
+                        <ExportCommandBar table="dataSource" rows={dataSourceArr} />
                         <TestBatteryGeneralGrid items={dataSourceArr} />
                     </PivotItem>
                 ) : null}
 
                 {mashupErrorArr.length ? (
                     <PivotItem key="mashupError" headerText={ErrorLabel}>
+                        <ExportCommandBar table="error" rows={mashupErrorArr} />
                         <TestBatteryGeneralGrid items={mashupErrorArr} />
                     </PivotItem>
                 ) : null}
+
+                {resultHistory?.length ? (
+                    <PivotItem key="history" headerText={HistoryLabel}>
+                        <ResultHistoryGrid
+                            entries={resultHistory}
+                            selectedIds={selectedHistoryIds}
+                            onSelectionChanged={handleHistorySelectionChanged}
+                        />
+                    </PivotItem>
+                ) : null}
+
+                {historyDiff ? (
+                    <PivotItem key="compare" headerText={CompareLabel}>
+                        <ResultDiffGrid diff={historyDiff} />
+                    </PivotItem>
+                ) : null}
             </Pivot>
         </>
     );